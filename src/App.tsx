@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { wrap, Remote, proxy } from 'comlink'
 import {
   ThemeProvider,
@@ -10,7 +10,11 @@ import {
   Typography,
   Tabs,
   Tab,
-  Container
+  Container,
+  Select,
+  MenuItem,
+  Checkbox,
+  ListItemText
 } from '@mui/material'
 import {
   Settings as SettingsIcon,
@@ -20,7 +24,12 @@ import {
   Warning as WarningIcon,
   DirectionsBus as BusIcon,
   Update as UpdateIcon,
-  ShowChart as ShowChartIcon
+  ShowChart as ShowChartIcon,
+  Directions as DirectionsIcon,
+  FactCheck as FactCheckIcon,
+  QueryStats as QueryStatsIcon,
+  CalendarMonth as CalendarMonthIcon,
+  CompareArrows as CompareArrowsIcon
 } from '@mui/icons-material'
 import {
   Agency,
@@ -33,9 +42,14 @@ import {
   Stop
 } from 'gtfs-sqljs'
 import LoadingProgress from './components/LoadingProgress'
-import type { GtfsWorkerAPI, ProgressInfo } from './gtfs.worker'
+import type { GtfsWorkerAPI, ProgressInfo, LoadedFeed } from './gtfs.worker'
 import { GtfsApiAdapter } from './utils/GtfsApiAdapter'
 import { loadConfig, saveConfig, AppConfig } from './utils/configStorage'
+import { feedOf } from './utils/feedNamespace'
+import { proxyUrl, buildFeedSources } from './utils/feedSources'
+import { useUrlState } from './utils/urlState'
+import { DEFAULT_RECORDER_OPTIONS } from './utils/realtimeRecorder'
+import { FeedContext } from './components/FeedContext'
 import ConfigurationTab from './tabs/ConfigurationTab'
 import BrowseDataTab from './tabs/BrowseDataTab'
 import TimetablesTab from './tabs/TimetablesTab'
@@ -43,29 +57,13 @@ import MapTab from './tabs/MapTab'
 import AlertsTab from './tabs/AlertsTab'
 import DeparturesTab from './tabs/DeparturesTab'
 import DeparturesV2Tab from './tabs/DeparturesV2Tab'
+import TripPlannerTab from './tabs/TripPlannerTab'
 import RealtimeDataTab from './tabs/RealtimeDataTab'
 import TimeDistanceGraphTab from './tabs/TimeDistanceGraphTab'
-
-const PROXY_BASE = 'https://gtfs-proxy.sys-dev-run.re/proxy/'
-
-const proxyUrl = (url: string) => {
-  // Don't proxy relative or absolute paths (local files)
-  if (url.startsWith('./') || url.startsWith('/') || url.startsWith('../')) {
-    return url
-  }
-
-  // Only proxy remote HTTP/HTTPS URLs
-  try {
-    const parsed = new URL(url)
-    if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
-      return PROXY_BASE + parsed.host + parsed.pathname + parsed.search
-    }
-    return url
-  } catch {
-    // If URL parsing fails, assume it's a relative path
-    return url
-  }
-}
+import ValidationTab from './tabs/ValidationTab'
+import PunctualityTab from './tabs/PunctualityTab'
+import ServiceCalendarTab from './tabs/ServiceCalendarTab'
+import FeedDiffTab from './tabs/FeedDiffTab'
 
 interface PresetConfig {
   name: string
@@ -136,6 +134,24 @@ const PRESETS: PresetConfig[] = [
   }
 ]
 
+// Tab names used in shareable URLs, in the order of the tabs
+const TAB_SLUGS = [
+  'browse',
+  'timetables',
+  'map',
+  'alerts',
+  'departures',
+  'departures-v2',
+  'plan',
+  'realtime',
+  'time-distance',
+  'validation',
+  'punctuality',
+  'calendar',
+  'diff',
+  'configuration'
+]
+
 // Create red theme
 const theme = createTheme({
   palette: {
@@ -156,7 +172,10 @@ const theme = createTheme({
 
 function App() {
   const [config, setConfig] = useState<AppConfig>(loadConfig())
-  const [currentTab, setCurrentTab] = useState(config.selectedTab)
+  const [urlState, setUrlState] = useUrlState()
+  // The URL wins over the last tab saved in the configuration, so that shared links open the right tab
+  const urlTab = urlState.get('tab') || ''
+  const currentTab = Math.max(0, TAB_SLUGS.indexOf(TAB_SLUGS.includes(urlTab) ? urlTab : config.selectedTab))
   const [gtfsLoaded, setGtfsLoaded] = useState(false)
   const [loading, setLoading] = useState(false)
   const [loadingProgress, setLoadingProgress] = useState<ProgressInfo | null>(null)
@@ -174,14 +193,16 @@ function App() {
   const [agencies, setAgencies] = useState<Agency[]>([])
   const [routes, setRoutes] = useState<Route[]>([])
   const [stops, setStops] = useState<Stop[]>([])
-  const [selectedRoute, setSelectedRoute] = useState<string | null>(null)
   const [trips, setTrips] = useState<Trip[]>([])
-  const [selectedTrip, setSelectedTrip] = useState<string | null>(null)
   const [stopTimes, setStopTimes] = useState<StopTimeWithRealtime[]>([])
   const [alerts, setAlerts] = useState<Alert[]>([])
   const [vehicles, setVehicles] = useState<VehiclePosition[]>([])
   const [tripUpdates, setTripUpdates] = useState<TripUpdate[]>([])
 
+  // Loaded static feeds, and the ones shown in the tabs (empty = all)
+  const [feeds, setFeeds] = useState<LoadedFeed[]>([])
+  const [feedFilter, setFeedFilter] = useState<string[]>([])
+
   // Helper function to initialize or reinitialize worker
   const initializeWorker = useCallback(() => {
     // Terminate existing worker if it exists
@@ -216,13 +237,31 @@ function App() {
 
   // Handle tab change
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
-    setCurrentTab(newValue)
-    saveConfig({ selectedTab: newValue })
+    setUrlState({ tab: TAB_SLUGS[newValue] }, { reset: true })
+    saveConfig({ selectedTab: TAB_SLUGS[newValue] })
   }
 
+  // Select a stop on the Departures v2 board, e.g. from a map popup
+  const handleOpenDepartures = (stopId: string) => {
+    setUrlState({ tab: 'departures-v2', stops: stopId }, { reset: true })
+    saveConfig({ selectedTab: 'departures-v2' })
+  }
+
+  // Browse Data tab selection, kept in the URL. Other tabs use the same parameter names for their own state
+  const selectedRoute = currentTab === 0 ? urlState.get('route') : null
+  const selectedTrip = currentTab === 0 ? urlState.get('trip') : null
+  const setSelectedRoute = useCallback((routeId: string | null) => {
+    setUrlState({ route: routeId, trip: null })
+  }, [setUrlState])
+  const setSelectedTrip = useCallback((tripId: string | null) => {
+    setUrlState({ trip: tripId })
+  }, [setUrlState])
+
   // Shared post-load step: populates state from the just-loaded worker.
   const hydrateFromWorker = useCallback(async () => {
     if (!workerRef.current) return
+    setFeeds(await workerRef.current.getFeeds())
+
     const agenciesData = await workerRef.current.getAgencies()
     console.log('Loaded agencies:', agenciesData.map(a => a.agency_name).join(', '))
     setAgencies(agenciesData)
@@ -244,6 +283,12 @@ function App() {
     }
   }, [])
 
+  const recorderOptions = useMemo(() => ({
+    ...DEFAULT_RECORDER_OPTIONS,
+    enabled: config.recorderEnabled,
+    retentionHours: config.recorderRetentionHours
+  }), [config.recorderEnabled, config.recorderRetentionHours])
+
   const resetForLoad = useCallback(() => {
     setLoading(true)
     setLoadingProgress(null)
@@ -258,12 +303,15 @@ function App() {
     setAlerts([])
     setVehicles([])
     setTripUpdates([])
-    setSelectedRoute(null)
-    setSelectedTrip(null)
+    setFeeds([])
+    setFeedFilter([])
 
     console.log('Reinitializing worker for new GTFS data...')
     initializeWorker()
-  }, [initializeWorker])
+    // The new worker must know the recorder options before the first realtime fetch
+    workerRef.current?.setRecorderOptions(recorderOptions)
+      .catch(err => console.error('Error configuring realtime recorder:', err))
+  }, [initializeWorker, recorderOptions])
 
   // Load GTFS data from a Blob (file upload)
   const loadGtfsFromBlob = useCallback(async (blob: Blob, fileName: string, gtfsRtUrls: string[]) => {
@@ -305,10 +353,12 @@ function App() {
       setLoadingProgress(null)
       setGtfsLoaded(false)
     }
+    // updateRealtimeData is declared below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [resetForLoad, hydrateFromWorker])
 
-  // Load GTFS data
-  const loadGtfs = useCallback(async (gtfsUrl: string, gtfsRtUrls: string[]) => {
+  // Load a database previously exported with downloadDatabase
+  const loadGtfsFromDatabase = useCallback(async (blob: Blob, fileName: string, gtfsRtUrls: string[]) => {
     resetForLoad()
 
     if (!workerRef.current) {
@@ -318,17 +368,16 @@ function App() {
     }
 
     try {
-      const proxiedGtfsUrl = proxyUrl(gtfsUrl)
       const proxiedRtUrls = gtfsRtUrls
         .filter(url => url.trim() !== '')
         .map(url => proxyUrl(url))
 
-      console.log('Loading GTFS from:', proxiedGtfsUrl)
-      console.log('Loading GTFS-RT from:', proxiedRtUrls)
+      console.log('Loading GTFS database from file:', fileName, `${blob.size} bytes`)
 
-      // Load GTFS with progress callback
-      await workerRef.current.loadGtfs(
-        proxiedGtfsUrl,
+      const buffer = await blob.arrayBuffer()
+
+      await workerRef.current.loadGtfsFromDatabase(
+        buffer,
         proxiedRtUrls,
         proxy((progress: ProgressInfo) => {
           setLoadingProgress(progress)
@@ -342,13 +391,57 @@ function App() {
       setLoading(false)
       setLoadingProgress(null)
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : 'Failed to load GTFS data')
+      setError(err instanceof Error ? err.message : 'Failed to load GTFS database')
       setLoading(false)
       setLoadingProgress(null)
       setGtfsLoaded(false)
     }
+    // updateRealtimeData is declared below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [resetForLoad, hydrateFromWorker])
 
+  // Load GTFS data
+  const loadGtfs = useCallback(async (gtfsUrl: string, gtfsRtUrls: string[]) => {
+    resetForLoad()
+
+    if (!workerRef.current) {
+      setError('Failed to initialize worker')
+      setLoading(false)
+      return
+    }
+
+    try {
+      const sources = buildFeedSources(config, gtfsUrl, gtfsRtUrls)
+
+      sources.forEach(source => {
+        console.log(`Loading GTFS feed ${source.id} from:`, source.url)
+        console.log('Loading GTFS-RT from:', source.rtUrls)
+      })
+
+      // Load GTFS with progress callback
+      await workerRef.current.loadFeeds(
+        sources,
+        proxy((progress: ProgressInfo) => {
+          setLoadingProgress(progress)
+        })
+      )
+
+      await hydrateFromWorker()
+      await updateRealtimeData()
+
+      setGtfsLoaded(true)
+      setLoading(false)
+      setLoadingProgress(null)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load GTFS data')
+      setLoading(false)
+      setLoadingProgress(null)
+      setGtfsLoaded(false)
+    }
+    // updateRealtimeData is declared below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resetForLoad, hydrateFromWorker, config])
+
   const updateRealtimeData = useCallback(async () => {
     if (!workerRef.current || !gtfsLoaded || !gtfsApiRef.current) return
 
@@ -408,6 +501,13 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // Keep the worker's realtime recorder in sync with the configuration
+  useEffect(() => {
+    if (!workerRef.current || !gtfsLoaded) return
+    workerRef.current.setRecorderOptions(recorderOptions)
+      .catch(err => console.error('Error configuring realtime recorder:', err))
+  }, [gtfsLoaded, recorderOptions])
+
   // Auto-refresh realtime data
   useEffect(() => {
     if (!workerRef.current || !gtfsLoaded || config.updateInterval === 0) return
@@ -464,14 +564,16 @@ function App() {
       }
 
       setTrips(sortedTrips)
-      setSelectedTrip(null)
-      setStopTimes([])
     })
   }, [gtfsLoaded, selectedRoute])
 
   // Load stop times for selected trip (Browse Data tab)
   useEffect(() => {
-    if (!workerRef.current || !gtfsLoaded || !selectedTrip) return
+    if (!workerRef.current || !gtfsLoaded) return
+    if (!selectedTrip) {
+      setStopTimes([])
+      return
+    }
 
     workerRef.current.getStopTimes({ tripId: selectedTrip, includeRealtime: true }).then(stopTimesData => {
       const withRealtime = stopTimesData.filter(st => st.realtime !== undefined)
@@ -483,6 +585,27 @@ function App() {
     })
   }, [gtfsLoaded, selectedTrip, realtimeLastUpdated])
 
+  // Restrict what the tabs show to the feeds selected in the header
+  const feedIds = useMemo(() => feeds.map(feed => feed.id), [feeds])
+  const filtered = useMemo(() => {
+    const visible = new Set(feedFilter.length > 0 ? feedFilter : feedIds)
+    const inFeeds = (id?: string | null) => {
+      if (feedIds.length <= 1 || !id) return true
+      const feedId = feedOf(id, feedIds)
+      return feedId === null || visible.has(feedId)
+    }
+    return {
+      agencies: agencies.filter(a => inFeeds(a.agency_id)),
+      routes: routes.filter(r => inFeeds(r.route_id)),
+      stops: stops.filter(s => inFeeds(s.stop_id)),
+      vehicles: vehicles.filter(v => inFeeds(v.trip_id || v.route_id)),
+      alerts: alerts.filter(alert => {
+        const ids = (alert.informed_entity || []).map(e => e.route_id || e.stop_id).filter(Boolean)
+        return ids.length === 0 || ids.some(inFeeds)
+      })
+    }
+  }, [feedIds, feedFilter, agencies, routes, stops, vehicles, alerts])
+
   const downloadDatabase = async () => {
     if (!workerRef.current || !gtfsLoaded) return
     try {
@@ -509,176 +632,243 @@ function App() {
 
   return (
     <ThemeProvider theme={theme}>
-      <CssBaseline />
-      <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
-        {/* Loading Progress Overlay */}
-        {loading && <LoadingProgress progress={loadingProgress} />}
-
-        {/* Header */}
-        <AppBar position="static">
-          <Toolbar>
-            <BusIcon sx={{ mr: 2 }} />
-            <Box>
-              <Typography variant="h6" component="div">
-                {agencies.length > 0 && `${agencies.map(a => a.agency_name).join(', ')} - `}GTFS Real-Time Explorer
-              </Typography>
-              <Typography variant="caption" sx={{ opacity: 0.9 }}>
-                {secondsSinceLastUpdate !== null
-                  ? `GTFS-RT: last update ${secondsSinceLastUpdate} seconds ago`
-                  : 'Explore transit data with gtfs-sqljs'}
+      <FeedContext.Provider value={{ feedIds }}>
+        <CssBaseline />
+        <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
+          {/* Loading Progress Overlay */}
+          {loading && <LoadingProgress progress={loadingProgress} />}
+
+          {/* Header */}
+          <AppBar position="static">
+            <Toolbar>
+              <BusIcon sx={{ mr: 2 }} />
+              <Box>
+                <Typography variant="h6" component="div">
+                  {agencies.length > 0 && `${agencies.map(a => a.agency_name).join(', ')} - `}GTFS Real-Time Explorer
+                </Typography>
+                <Typography variant="caption" sx={{ opacity: 0.9 }}>
+                  {secondsSinceLastUpdate !== null
+                    ? `GTFS-RT: last update ${secondsSinceLastUpdate} seconds ago`
+                    : 'Explore transit data with gtfs-sqljs'}
+                </Typography>
+              </Box>
+              {feeds.length > 1 && (
+                <Select
+                  multiple
+                  displayEmpty
+                  size="small"
+                  value={feedFilter}
+                  onChange={(e) => {
+                    const value = e.target.value
+                    setFeedFilter(typeof value === 'string' ? value.split(',') : value)
+                  }}
+                  renderValue={(selected) => selected.length === 0 ? 'All feeds' : selected.join(', ')}
+                  sx={{ ml: 'auto', minWidth: 160, bgcolor: 'background.paper' }}
+                >
+                  {feeds.map(feed => (
+                    <MenuItem key={feed.id} value={feed.id}>
+                      <Checkbox checked={feedFilter.includes(feed.id)} size="small" />
+                      <ListItemText primary={feed.id} secondary={feed.url} />
+                    </MenuItem>
+                  ))}
+                </Select>
+              )}
+            </Toolbar>
+          </AppBar>
+
+          {/* Tabs */}
+          <Box sx={{ borderBottom: 1, borderColor: 'divider', bgcolor: 'background.paper' }}>
+            <Container maxWidth="xl">
+              <Tabs value={currentTab} onChange={handleTabChange} variant="scrollable" scrollButtons="auto">
+                <Tab icon={<SearchIcon />} label="Browse Data" disabled={!gtfsLoaded} />
+                <Tab icon={<ScheduleIcon />} label="Timetables" disabled={!gtfsLoaded} />
+                <Tab icon={<MapIcon />} label="Map" disabled={!gtfsLoaded} />
+                <Tab icon={<WarningIcon />} label="Alerts" disabled={!gtfsLoaded} />
+                <Tab icon={<BusIcon />} label="Departures at Stop" disabled={!gtfsLoaded} />
+                <Tab icon={<BusIcon />} label="Departures v2" disabled={!gtfsLoaded} />
+                <Tab icon={<DirectionsIcon />} label="Plan a Trip" disabled={!gtfsLoaded} />
+                <Tab icon={<UpdateIcon />} label="GTFS-RT Data" disabled={!gtfsLoaded} />
+                <Tab icon={<ShowChartIcon />} label="Time-Distance Graph" disabled={!gtfsLoaded} />
+                <Tab icon={<FactCheckIcon />} label="Validation" disabled={!gtfsLoaded} />
+                <Tab icon={<QueryStatsIcon />} label="Punctuality" disabled={!gtfsLoaded} />
+                <Tab icon={<CalendarMonthIcon />} label="Service Calendar" disabled={!gtfsLoaded} />
+                <Tab icon={<CompareArrowsIcon />} label="Feed Diff" />
+                <Tab icon={<SettingsIcon />} label="Configuration" />
+              </Tabs>
+            </Container>
+          </Box>
+
+          {/* Tab Content */}
+          <Box sx={{ flexGrow: 1, bgcolor: 'grey.100' }}>
+            <Container maxWidth="xl" sx={{ py: 0 }}>
+              {currentTab === 0 && gtfsLoaded && (
+                <BrowseDataTab
+                  agencies={filtered.agencies}
+                  routes={filtered.routes}
+                  selectedRoute={selectedRoute}
+                  setSelectedRoute={setSelectedRoute}
+                  trips={trips}
+                  selectedTrip={selectedTrip}
+                  setSelectedTrip={setSelectedTrip}
+                  stopTimes={stopTimes}
+                  vehicles={filtered.vehicles}
+                  gtfsApi={gtfsApiRef.current}
+                />
+              )}
+
+              {currentTab === 1 && gtfsLoaded && (
+                <TimetablesTab
+                  routes={filtered.routes}
+                  workerApi={workerRef.current}
+                  agencies={filtered.agencies}
+                  vehicles={filtered.vehicles}
+                />
+              )}
+
+              {currentTab === 2 && gtfsLoaded && (
+                <MapTab
+                  vehicles={filtered.vehicles}
+                  routes={filtered.routes}
+                  stops={filtered.stops}
+                  agencies={filtered.agencies}
+                  gtfsApi={gtfsApiRef.current}
+                  workerApi={workerRef.current}
+                  onOpenDepartures={handleOpenDepartures}
+                />
+              )}
+
+              {currentTab === 3 && gtfsLoaded && (
+                <AlertsTab
+                  alerts={filtered.alerts}
+                  routes={filtered.routes}
+                />
+              )}
+
+              {currentTab === 4 && gtfsLoaded && (
+                <DeparturesTab
+                  stops={filtered.stops}
+                  routes={filtered.routes}
+                  workerApi={workerRef.current}
+                  gtfsApi={gtfsApiRef.current}
+                  upcomingDeparturesCount={config.upcomingDeparturesCount}
+                  updateInterval={config.updateInterval}
+                  agencies={filtered.agencies}
+                />
+              )}
+
+              {currentTab === 5 && gtfsLoaded && (
+                <DeparturesV2Tab
+                  stops={filtered.stops}
+                  routes={filtered.routes}
+                  workerApi={workerRef.current}
+                  gtfsApi={gtfsApiRef.current}
+                  upcomingDeparturesCount={config.upcomingDeparturesCount}
+                  updateInterval={config.updateInterval}
+                  agencies={filtered.agencies}
+                />
+              )}
+
+              {currentTab === 6 && gtfsLoaded && (
+                <TripPlannerTab
+                  stops={filtered.stops}
+                  routes={filtered.routes}
+                  workerApi={workerRef.current}
+                  agencies={filtered.agencies}
+                />
+              )}
+
+              {currentTab === 7 && gtfsLoaded && (
+                <RealtimeDataTab
+                  workerApi={workerRef.current}
+                  realtimeLastUpdated={realtimeLastUpdated}
+                />
+              )}
+
+              {currentTab === 8 && gtfsLoaded && (
+                <TimeDistanceGraphTab
+                  routes={filtered.routes}
+                  workerApi={workerRef.current}
+                  agencies={filtered.agencies}
+                />
+              )}
+
+              {currentTab === 9 && gtfsLoaded && (
+                <ValidationTab
+                  workerApi={workerRef.current}
+                />
+              )}
+
+              {currentTab === 10 && gtfsLoaded && (
+                <PunctualityTab
+                  routes={filtered.routes}
+                  stops={filtered.stops}
+                  workerApi={workerRef.current}
+                />
+              )}
+
+              {currentTab === 11 && gtfsLoaded && (
+                <ServiceCalendarTab
+                  routes={filtered.routes}
+                  workerApi={workerRef.current}
+                />
+              )}
+
+              {currentTab === 12 && (
+                <FeedDiffTab workerApi={gtfsLoaded ? workerRef.current : null} />
+              )}
+
+              {currentTab === 13 && (
+                <ConfigurationTab
+                  config={config}
+                  setConfig={setConfig}
+                  presets={PRESETS}
+                  loading={loading}
+                  error={error}
+                  loadGtfs={loadGtfs}
+                  loadGtfsFromBlob={loadGtfsFromBlob}
+                  loadGtfsFromDatabase={loadGtfsFromDatabase}
+                  downloadDatabase={downloadDatabase}
+                  gtfsLoaded={gtfsLoaded}
+                  agencies={agencies}
+                  routesCount={routes.length}
+                  vehicles={vehicles}
+                  alerts={alerts}
+                  tripUpdates={tripUpdates}
+                  workerApi={workerRef.current}
+                />
+              )}
+            </Container>
+          </Box>
+
+          {/* Footer */}
+          <Box
+            component="footer"
+            sx={{
+              py: 3,
+              px: 2,
+              mt: 'auto',
+              bgcolor: 'background.paper',
+              borderTop: 1,
+              borderColor: 'divider'
+            }}
+          >
+            <Container maxWidth="xl">
+              <Typography variant="body2" color="text.secondary" align="center">
+                Powered by{' '}
+                <a
+                  href="https://github.com/sysdevrun/gtfs-sqljs"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={{ color: theme.palette.primary.main }}
+                >
+                  gtfs-sqljs
+                </a>
+                {' '}with Web Workers
               </Typography>
-            </Box>
-          </Toolbar>
-        </AppBar>
-
-        {/* Tabs */}
-        <Box sx={{ borderBottom: 1, borderColor: 'divider', bgcolor: 'background.paper' }}>
-          <Container maxWidth="xl">
-            <Tabs value={currentTab} onChange={handleTabChange} variant="scrollable" scrollButtons="auto">
-              <Tab icon={<SearchIcon />} label="Browse Data" disabled={!gtfsLoaded} />
-              <Tab icon={<ScheduleIcon />} label="Timetables" disabled={!gtfsLoaded} />
-              <Tab icon={<MapIcon />} label="Map" disabled={!gtfsLoaded} />
-              <Tab icon={<WarningIcon />} label="Alerts" disabled={!gtfsLoaded} />
-              <Tab icon={<BusIcon />} label="Departures at Stop" disabled={!gtfsLoaded} />
-              <Tab icon={<BusIcon />} label="Departures v2" disabled={!gtfsLoaded} />
-              <Tab icon={<UpdateIcon />} label="GTFS-RT Data" disabled={!gtfsLoaded} />
-              <Tab icon={<ShowChartIcon />} label="Time-Distance Graph" disabled={!gtfsLoaded} />
-              <Tab icon={<SettingsIcon />} label="Configuration" />
-            </Tabs>
-          </Container>
-        </Box>
-
-        {/* Tab Content */}
-        <Box sx={{ flexGrow: 1, bgcolor: 'grey.100' }}>
-          <Container maxWidth="xl" sx={{ py: 0 }}>
-            {currentTab === 0 && gtfsLoaded && (
-              <BrowseDataTab
-                agencies={agencies}
-                routes={routes}
-                selectedRoute={selectedRoute}
-                setSelectedRoute={setSelectedRoute}
-                trips={trips}
-                selectedTrip={selectedTrip}
-                setSelectedTrip={setSelectedTrip}
-                stopTimes={stopTimes}
-                vehicles={vehicles}
-                gtfsApi={gtfsApiRef.current}
-              />
-            )}
-
-            {currentTab === 1 && gtfsLoaded && (
-              <TimetablesTab
-                routes={routes}
-                workerApi={workerRef.current}
-                agencies={agencies}
-                vehicles={vehicles}
-              />
-            )}
-
-            {currentTab === 2 && gtfsLoaded && (
-              <MapTab
-                vehicles={vehicles}
-                routes={routes}
-                gtfsApi={gtfsApiRef.current}
-                workerApi={workerRef.current}
-              />
-            )}
-
-            {currentTab === 3 && gtfsLoaded && (
-              <AlertsTab
-                alerts={alerts}
-                routes={routes}
-              />
-            )}
-
-            {currentTab === 4 && gtfsLoaded && (
-              <DeparturesTab
-                stops={stops}
-                routes={routes}
-                workerApi={workerRef.current}
-                gtfsApi={gtfsApiRef.current}
-                upcomingDeparturesCount={config.upcomingDeparturesCount}
-                updateInterval={config.updateInterval}
-                agencies={agencies}
-              />
-            )}
-
-            {currentTab === 5 && gtfsLoaded && (
-              <DeparturesV2Tab
-                stops={stops}
-                routes={routes}
-                workerApi={workerRef.current}
-                gtfsApi={gtfsApiRef.current}
-                upcomingDeparturesCount={config.upcomingDeparturesCount}
-                updateInterval={config.updateInterval}
-                agencies={agencies}
-              />
-            )}
-
-            {currentTab === 6 && gtfsLoaded && (
-              <RealtimeDataTab
-                workerApi={workerRef.current}
-                realtimeLastUpdated={realtimeLastUpdated}
-              />
-            )}
-
-            {currentTab === 7 && gtfsLoaded && (
-              <TimeDistanceGraphTab
-                routes={routes}
-                workerApi={workerRef.current}
-                agencies={agencies}
-              />
-            )}
-
-            {currentTab === 8 && (
-              <ConfigurationTab
-                config={config}
-                setConfig={setConfig}
-                presets={PRESETS}
-                loading={loading}
-                error={error}
-                loadGtfs={loadGtfs}
-                loadGtfsFromBlob={loadGtfsFromBlob}
-                downloadDatabase={downloadDatabase}
-                gtfsLoaded={gtfsLoaded}
-                agencies={agencies}
-                routesCount={routes.length}
-                vehicles={vehicles}
-                alerts={alerts}
-                tripUpdates={tripUpdates}
-              />
-            )}
-          </Container>
-        </Box>
-
-        {/* Footer */}
-        <Box
-          component="footer"
-          sx={{
-            py: 3,
-            px: 2,
-            mt: 'auto',
-            bgcolor: 'background.paper',
-            borderTop: 1,
-            borderColor: 'divider'
-          }}
-        >
-          <Container maxWidth="xl">
-            <Typography variant="body2" color="text.secondary" align="center">
-              Powered by{' '}
-              <a
-                href="https://github.com/sysdevrun/gtfs-sqljs"
-                target="_blank"
-                rel="noopener noreferrer"
-                style={{ color: theme.palette.primary.main }}
-              >
-                gtfs-sqljs
-              </a>
-              {' '}with Web Workers
-            </Typography>
-          </Container>
+            </Container>
+          </Box>
         </Box>
-      </Box>
+      </FeedContext.Provider>
     </ThemeProvider>
   )
 }
@@ -0,0 +1,374 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import { wrap, proxy, Remote } from 'comlink'
+import { Box, Typography, CssBaseline } from '@mui/material'
+import { ThemeProvider, createTheme } from '@mui/material/styles'
+import { Alert, Stop } from 'gtfs-sqljs'
+import type { GtfsWorkerAPI } from './gtfs.worker'
+import { loadConfig } from './utils/configStorage'
+import { buildFeedSources } from './utils/feedSources'
+import { KioskParams } from './utils/kiosk'
+import { Departure, getAgencyNow, getBoardTimezone, loadUpcomingDepartures } from './utils/departures'
+import { createTimeService } from './utils/timezones'
+import { getRouteColors } from './components/utils'
+
+// Consecutive refresh failures after which the worker is restarted and the feed reloaded
+const MAX_CONSECUTIVE_FAILURES = 3
+// Delays between attempts to load the feed, in seconds (the last one repeats)
+const RETRY_DELAYS = [10, 30, 60, 300]
+// Used when realtime auto-refresh is disabled in the configuration
+const DEFAULT_REFRESH_INTERVAL = 30
+const MAX_DEPARTURES = 40
+const SCROLL_STEP = 1 // pixels per tick
+const SCROLL_TICK_MS = 40
+const SCROLL_PAUSE_MS = 4000
+// The whole board moves by a few pixels every minute so that nothing stays lit at the same place
+const BURN_IN_OFFSETS: [number, number][] = [[0, 0], [3, 2], [6, 0], [3, -2]]
+
+const kioskTheme = createTheme({
+  palette: {
+    mode: 'dark',
+    background: { default: '#000000', paper: '#111111' },
+    primary: { main: '#ffb300' }
+  }
+})
+
+type BoardStatus = 'loading' | 'ready' | 'recovering'
+
+const alertText = (alert: Alert) => {
+  const text = (value: Alert['header_text']) => !value
+    ? ''
+    : typeof value === 'string' ? value : value.translation?.[0]?.text || ''
+  return [text(alert.header_text), text(alert.description_text)].filter(Boolean).join(' — ')
+}
+
+const formatClock = (seconds: number) => {
+  const h = Math.floor(seconds / 3600) % 24
+  const m = Math.floor((seconds % 3600) / 60)
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`
+}
+
+export default function KioskBoard({ stopIds, lines }: KioskParams) {
+  const config = useMemo(() => loadConfig(), [])
+  const refreshInterval = config.updateInterval > 0 ? config.updateInterval : DEFAULT_REFRESH_INTERVAL
+
+  const workerRef = useRef<Remote<GtfsWorkerAPI> | null>(null)
+  const failuresRef = useRef(0)
+  const attemptRef = useRef(0)
+
+  // Incremented to restart the worker and reload the feed
+  const [generation, setGeneration] = useState(0)
+  const [status, setStatus] = useState<BoardStatus>('loading')
+  const [statusMessage, setStatusMessage] = useState('Loading timetables...')
+  const [boardStops, setBoardStops] = useState<Stop[]>([])
+  const [timeService, setTimeService] = useState(() => createTimeService([]))
+  const timezone = getBoardTimezone(timeService, boardStops)
+  const [departures, setDepartures] = useState<Departure[]>([])
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [nowSeconds, setNowSeconds] = useState(() => getAgencyNow(timezone).seconds)
+  const [burnInStep, setBurnInStep] = useState(0)
+  const listRef = useRef<HTMLDivElement | null>(null)
+
+  const restart = useCallback((message: string) => {
+    setStatus('recovering')
+    setStatusMessage(message)
+    setGeneration(g => g + 1)
+  }, [])
+
+  // Start a worker and load the configured feed, retrying with a growing delay on failure
+  useEffect(() => {
+    const worker = new Worker(new URL('./gtfs.worker.ts', import.meta.url), { type: 'module' })
+    const workerApi = wrap<GtfsWorkerAPI>(worker)
+    let cancelled = false
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null
+
+    const load = async () => {
+      try {
+        await workerApi.loadFeeds(
+          buildFeedSources(config),
+          proxy((progress) => {
+            if (!cancelled) setStatusMessage(progress.message)
+          })
+        )
+        const [stopsData, agencies] = await Promise.all([
+          workerApi.getStops({ stopId: stopIds }),
+          workerApi.getAgencies()
+        ])
+        if (cancelled) return
+        if (stopsData.length === 0) {
+          throw new Error(`Unknown stop ${stopIds.join(', ')}`)
+        }
+
+        workerRef.current = workerApi
+        failuresRef.current = 0
+        attemptRef.current = 0
+        setTimeService(createTimeService(agencies))
+        setBoardStops(stopsData)
+        setStatus('ready')
+      } catch (err) {
+        if (cancelled) return
+        console.error('Error loading kiosk board:', err)
+        const delay = RETRY_DELAYS[Math.min(attemptRef.current, RETRY_DELAYS.length - 1)]
+        attemptRef.current++
+        setStatus('recovering')
+        setStatusMessage(`${err instanceof Error ? err.message : 'Failed to load data'} — retrying in ${delay} s`)
+        retryTimeout = setTimeout(() => setGeneration(g => g + 1), delay * 1000)
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+      if (retryTimeout) clearTimeout(retryTimeout)
+      workerRef.current = null
+      worker.terminate()
+    }
+  }, [generation, config, stopIds])
+
+  // Refresh departures and alerts, restarting the worker after repeated failures
+  useEffect(() => {
+    if (status !== 'ready') return
+    let cancelled = false
+    let inFlight = false
+    const lineFilter = new Set(lines.map(line => line.toLowerCase()))
+
+    const fail = () => {
+      failuresRef.current++
+      if (!cancelled && failuresRef.current >= MAX_CONSECUTIVE_FAILURES) {
+        restart('Connection lost — restarting...')
+      }
+    }
+
+    const refresh = async (fetchRealtime: boolean) => {
+      const workerApi = workerRef.current
+      if (!workerApi) return
+      // A refresh still running after a whole interval means the worker is stuck
+      if (inFlight) {
+        fail()
+        return
+      }
+      inFlight = true
+      try {
+        if (fetchRealtime) {
+          await workerApi.fetchRealtimeData()
+        }
+        const [departuresData, alertsData] = await Promise.all([
+          loadUpcomingDepartures(workerApi, boardStops, timeService, true),
+          workerApi.getAlerts({ activeOnly: true })
+        ])
+        if (cancelled) return
+
+        const shown = departuresData.filter(dep => lineFilter.size === 0
+          || lineFilter.has(dep.trip.route_id.toLowerCase())
+          || lineFilter.has((dep.route?.route_short_name || '').toLowerCase()))
+        const routeIds = new Set(shown.map(dep => dep.trip.route_id))
+        const boardStopIds = new Set(boardStops.map(stop => stop.stop_id))
+
+        setDepartures(shown.slice(0, MAX_DEPARTURES))
+        // Network-wide alerts, and alerts about the board's stops or lines
+        setAlerts(alertsData.filter(alert => {
+          const entities = alert.informed_entity || []
+          return entities.length === 0 || entities.some(e =>
+            (e.stop_id && boardStopIds.has(e.stop_id)) ||
+            (e.route_id && routeIds.has(e.route_id)) ||
+            (!e.stop_id && !e.route_id)
+          )
+        }))
+        failuresRef.current = 0
+      } catch (err) {
+        console.error('Error refreshing kiosk board:', err)
+        fail()
+      } finally {
+        inFlight = false
+      }
+    }
+
+    // Realtime data was just fetched by loadFeeds
+    refresh(false)
+    const interval = setInterval(() => refresh(true), refreshInterval * 1000)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [status, boardStops, timeService, lines, refreshInterval, restart])
+
+  // Clock in the board timezone
+  useEffect(() => {
+    const tick = () => setNowSeconds(getAgencyNow(timezone).seconds)
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [timezone])
+
+  // Burn-in protection
+  useEffect(() => {
+    const interval = setInterval(() => setBurnInStep(step => (step + 1) % BURN_IN_OFFSETS.length), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Keep the screen on where the browser allows it
+  useEffect(() => {
+    let wakeLock: WakeLockSentinel | null = null
+    const requestWakeLock = () => {
+      if (document.visibilityState !== 'visible' || !('wakeLock' in navigator)) return
+      navigator.wakeLock.request('screen')
+        .then(lock => { wakeLock = lock })
+        .catch(err => console.warn('Wake lock unavailable:', err))
+    }
+    requestWakeLock()
+    document.addEventListener('visibilitychange', requestWakeLock)
+    return () => {
+      document.removeEventListener('visibilitychange', requestWakeLock)
+      wakeLock?.release().catch(() => {})
+    }
+  }, [])
+
+  // Scroll through departures that do not fit on screen, pausing at both ends
+  useEffect(() => {
+    let pausedUntil = Date.now() + SCROLL_PAUSE_MS
+    const interval = setInterval(() => {
+      const list = listRef.current
+      if (!list || Date.now() < pausedUntil || list.scrollHeight <= list.clientHeight) return
+      if (list.scrollTop + list.clientHeight >= list.scrollHeight - 1) {
+        list.scrollTop = 0
+        pausedUntil = Date.now() + SCROLL_PAUSE_MS
+      } else {
+        list.scrollTop += SCROLL_STEP
+        if (list.scrollTop + list.clientHeight >= list.scrollHeight - 1) {
+          pausedUntil = Date.now() + SCROLL_PAUSE_MS
+        }
+      }
+    }, SCROLL_TICK_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const stopNames = Array.from(new Set(boardStops.map(stop => stop.stop_name))).join(' · ')
+  const [offsetX, offsetY] = BURN_IN_OFFSETS[burnInStep]
+  const tickerText = alerts.map(alertText).filter(Boolean).join('   •   ')
+
+  const waitingTime = (dep: Departure) => {
+    const minutes = Math.floor(((dep.realtimeDepartureSeconds ?? dep.departureTimeSeconds) - nowSeconds) / 60)
+    if (minutes <= 0) return 'Now'
+    if (minutes < 60) return `${minutes} min`
+    return formatClock(dep.realtimeDepartureSeconds ?? dep.departureTimeSeconds)
+  }
+
+  return (
+    <ThemeProvider theme={kioskTheme}>
+      <CssBaseline />
+      <Box
+        sx={{
+          height: '100vh',
+          overflow: 'hidden',
+          display: 'flex',
+          flexDirection: 'column',
+          bgcolor: 'background.default',
+          color: 'text.primary',
+          cursor: 'none',
+          transform: `translate(${offsetX}px, ${offsetY}px)`
+        }}
+      >
+        {/* Header: stop names and clock */}
+        <Box sx={{ display: 'flex', alignItems: 'center', px: 4, py: 2, borderBottom: '2px solid #333' }}>
+          <Typography sx={{ flex: 1, fontSize: '3vw', fontWeight: 'bold' }} noWrap>
+            {stopNames || 'Departures'}
+          </Typography>
+          <Typography sx={{ fontSize: '4vw', fontFamily: 'monospace', color: 'primary.main' }}>
+            {formatClock(nowSeconds)}
+          </Typography>
+        </Box>
+
+        {/* Departures */}
+        <Box ref={listRef} sx={{ flex: 1, overflow: 'hidden', px: 4 }}>
+          {status !== 'ready' && (
+            <Typography sx={{ fontSize: '2.5vw', color: 'text.secondary', mt: 4 }}>
+              {statusMessage}
+            </Typography>
+          )}
+          {status === 'ready' && departures.length === 0 && (
+            <Typography sx={{ fontSize: '2.5vw', color: 'text.secondary', mt: 4 }}>
+              No upcoming departures
+            </Typography>
+          )}
+          {status === 'ready' && departures.map(dep => {
+            const { bgColor, textColor } = dep.route ? getRouteColors(dep.route) : { bgColor: '#CCC', textColor: '#000' }
+            return (
+              <Box
+                key={`${dep.trip.trip_id}-${dep.stop.stop_id}-${dep.stopTime.stop_sequence}`}
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 3,
+                  py: 1.5,
+                  borderBottom: '1px solid #222',
+                  opacity: dep.canceled ? 0.6 : 1
+                }}
+              >
+                <Box
+                  sx={{
+                    minWidth: '8vw',
+                    textAlign: 'center',
+                    px: 2,
+                    py: 0.5,
+                    borderRadius: 1,
+                    backgroundColor: bgColor,
+                    color: textColor,
+                    fontWeight: 'bold',
+                    fontSize: '2.5vw'
+                  }}
+                >
+                  {dep.route?.route_short_name || dep.trip.route_id}
+                </Box>
+                <Typography sx={{ flex: 1, fontSize: '2.5vw', textDecoration: dep.canceled ? 'line-through' : 'none' }} noWrap>
+                  {dep.trip.trip_headsign || dep.route?.route_long_name}
+                  {boardStops.length > 1 && (
+                    <Box component="span" sx={{ fontSize: '1.5vw', color: 'text.secondary', ml: 2 }}>
+                      {dep.stop.platform_code ? `Platform ${dep.stop.platform_code}` : dep.stop.stop_name}
+                    </Box>
+                  )}
+                </Typography>
+                <Typography
+                  sx={{
+                    fontSize: '2.8vw',
+                    fontWeight: 'bold',
+                    fontFamily: 'monospace',
+                    // Confirmed predictions in green, estimates from an earlier stop's delay in amber
+                    color: dep.canceled
+                      ? '#ff5252'
+                      : dep.realtimeSource === 'propagated'
+                        ? '#ffd740'
+                        : dep.realtimeDepartureSeconds !== null ? '#69f0ae' : 'text.primary'
+                  }}
+                >
+                  {dep.canceled ? 'Canceled' : waitingTime(dep)}
+                </Typography>
+              </Box>
+            )
+          })}
+        </Box>
+
+        {/* Alert ticker */}
+        {tickerText && (
+          <Box sx={{ overflow: 'hidden', whiteSpace: 'nowrap', bgcolor: '#b71c1c', py: 1 }}>
+            <Typography
+              component="div"
+              sx={{
+                display: 'inline-block',
+                fontSize: '2vw',
+                pl: '100%',
+                '@keyframes ticker': {
+                  '0%': { transform: 'translateX(0)' },
+                  '100%': { transform: 'translateX(-100%)' }
+                },
+                // Roughly constant reading speed whatever the text length
+                animation: `ticker ${Math.max(20, tickerText.length / 5)}s linear infinite`
+              }}
+            >
+              {tickerText}
+            </Typography>
+          </Box>
+        )}
+      </Box>
+    </ThemeProvider>
+  )
+}
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react'
+import { Marker } from 'react-leaflet'
+import L from 'leaflet'
+import { VehicleMotion, estimateVehiclePosition } from '../utils/deadReckoning'
+import { LonLat } from '../utils/shapeProjection'
+
+interface AnimatedVehicleMarkerProps {
+  latitude: number
+  longitude: number
+  motion: VehicleMotion | null // null: the marker stays at the reported position
+  icon: L.DivIcon
+  onClick: () => void
+}
+
+const ANIMATION_INTERVAL = 250 // ms
+// Time to glide from the estimated position to a newly reported one
+const BLEND_DURATION = 1000 // ms
+
+// Vehicle marker moved between refreshes by dead-reckoning, without re-rendering the map
+export default function AnimatedVehicleMarker({ latitude, longitude, motion, icon, onClick }: AnimatedVehicleMarkerProps) {
+  const markerRef = useRef<L.Marker>(null)
+  const displayed = useRef<LonLat | null>(null)
+  // Leaflet owns the position once the marker is created
+  const [initialPosition] = useState<[number, number]>([latitude, longitude])
+
+  useEffect(() => {
+    const marker = markerRef.current
+    if (!marker) return
+
+    if (!motion) {
+      displayed.current = [longitude, latitude]
+      marker.setLatLng([latitude, longitude])
+      return
+    }
+
+    const from = displayed.current
+    const start = Date.now()
+    const update = () => {
+      const now = Date.now()
+      const target = estimateVehiclePosition(motion, now / 1000)
+      const t = from ? Math.min(1, (now - start) / BLEND_DURATION) : 1
+      const point: LonLat = from
+        ? [from[0] + (target[0] - from[0]) * t, from[1] + (target[1] - from[1]) * t]
+        : target
+      displayed.current = point
+      marker.setLatLng([point[1], point[0]])
+    }
+
+    update()
+    const timer = setInterval(update, ANIMATION_INTERVAL)
+    return () => clearInterval(timer)
+  }, [motion, latitude, longitude])
+
+  return (
+    <Marker
+      ref={markerRef}
+      position={initialPosition}
+      icon={icon}
+      eventHandlers={{ click: onClick }}
+    />
+  )
+}
@@ -0,0 +1,39 @@
+import { Box } from '@mui/material'
+import { feedOf } from '../utils/feedNamespace'
+import { feedColor, useFeeds } from './FeedContext'
+
+interface FeedBadgeProps {
+  id: string // any namespaced GTFS id (route_id, stop_id...)
+}
+
+// Small tag naming the feed an entity comes from; hidden when a single feed is loaded
+export default function FeedBadge({ id }: FeedBadgeProps) {
+  const { feedIds } = useFeeds()
+  if (feedIds.length <= 1) return null
+
+  const feedId = feedOf(id, feedIds)
+  if (!feedId) return null
+
+  const color = feedColor(feedId, feedIds)
+  return (
+    <Box
+      component="span"
+      sx={{
+        display: 'inline-block',
+        px: 0.75,
+        ml: 0.5,
+        borderRadius: 1,
+        border: 1,
+        borderColor: color,
+        color,
+        fontSize: '0.65rem',
+        fontWeight: 'bold',
+        lineHeight: 1.6,
+        verticalAlign: 'middle',
+        whiteSpace: 'nowrap'
+      }}
+    >
+      {feedId}
+    </Box>
+  )
+}
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react'
+
+// Colors given to feeds in load order, so that badges stay stable across reloads
+const FEED_COLORS = ['#1976d2', '#388e3c', '#f57c00', '#7b1fa2', '#0097a7', '#5d4037', '#c2185b', '#455a64']
+
+export interface FeedContextValue {
+  feedIds: string[]
+}
+
+export const FeedContext = createContext<FeedContextValue>({ feedIds: [] })
+
+export const useFeeds = () => useContext(FeedContext)
+
+export const feedColor = (feedId: string, feedIds: string[]) =>
+  FEED_COLORS[Math.max(0, feedIds.indexOf(feedId)) % FEED_COLORS.length]
@@ -0,0 +1,334 @@
+import { useState, useEffect, useMemo } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  MenuItem,
+  Grid,
+  Alert,
+  LinearProgress,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow
+} from '@mui/material'
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import { HeadwayReport, DEFAULT_HEADWAY_OPTIONS } from '../utils/headways'
+import { secondsToTime } from './utils'
+
+interface HeadwayChartProps {
+  workerApi: Remote<GtfsWorkerAPI> | null
+  routeId: string
+  date: string // YYYYMMDD
+  directions: { directionId: number; headsign: string }[]
+  showRealtime: boolean
+}
+
+const SCHEDULED_COLOR = '#1976d2'
+const REALTIME_COLOR = '#ff9800'
+const BUNCHING_COLOR = '#d32f2f'
+
+const toMinutes = (seconds: number | null | undefined) =>
+  seconds === null || seconds === undefined ? null : Math.round(seconds / 6) / 10
+const formatMinutes = (seconds: number | null | undefined) =>
+  seconds === null || seconds === undefined ? '-' : `${(seconds / 60).toFixed(1)} min`
+const shortName = (name: string) => name.length > 15 ? name.substring(0, 13) + '...' : name
+
+// Scheduled and realtime headways of a route direction, per stop and over the day at one stop
+export default function HeadwayChart({ workerApi, routeId, date, directions, showRealtime }: HeadwayChartProps) {
+  const [directionId, setDirectionId] = useState<number>(directions[0]?.directionId ?? 0)
+  const [gapMinutes, setGapMinutes] = useState(DEFAULT_HEADWAY_OPTIONS.gapThreshold / 60)
+  const [bunchingPct, setBunchingPct] = useState(DEFAULT_HEADWAY_OPTIONS.bunchingRatio * 100)
+  const [report, setReport] = useState<HeadwayReport | null>(null)
+  const [selectedStopId, setSelectedStopId] = useState<string>('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Keep the direction valid when the route or date changes
+  useEffect(() => {
+    if (!directions.some(d => d.directionId === directionId) && directions.length > 0) {
+      setDirectionId(directions[0].directionId)
+    }
+  }, [directions, directionId])
+
+  useEffect(() => {
+    if (!workerApi || !routeId || gapMinutes <= 0 || bunchingPct <= 0) return
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    workerApi.getHeadways(routeId, directionId, date, {
+      gapThreshold: gapMinutes * 60,
+      bunchingRatio: bunchingPct / 100
+    })
+      .then(result => {
+        if (cancelled) return
+        setReport(result)
+        // Start with the stop where bunching is the worst
+        const worst = result.stops.reduce<HeadwayReport['stops'][number] | null>(
+          (best, stop) => !best || stop.bunchingCount > best.bunchingCount ? stop : best,
+          null
+        )
+        setSelectedStopId(current =>
+          result.stops.some(s => s.stopId === current) ? current : worst?.stopId || '')
+      })
+      .catch(err => {
+        console.error('Error computing headways:', err)
+        if (!cancelled) setError('Failed to compute headways')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [workerApi, routeId, directionId, date, gapMinutes, bunchingPct])
+
+  const stopData = useMemo(() => (report?.stops || []).map(stop => ({
+    stopId: stop.stopId,
+    stopName: stop.stopName,
+    scheduledMean: toMinutes(stop.scheduled?.mean),
+    scheduledMin: toMinutes(stop.scheduled?.min),
+    scheduledMax: toMinutes(stop.scheduled?.max),
+    realtimeMean: showRealtime ? toMinutes(stop.realtime?.mean) : null,
+    realtimeMin: showRealtime ? toMinutes(stop.realtime?.min) : null,
+    realtimeMax: showRealtime ? toMinutes(stop.realtime?.max) : null,
+    bunching: showRealtime ? stop.bunchingCount : 0
+  })), [report, showRealtime])
+
+  const selectedStop = report?.stops.find(s => s.stopId === selectedStopId) || null
+
+  const timelineData = useMemo(() => (selectedStop?.headways || []).map(headway => ({
+    time: headway.time,
+    scheduled: toMinutes(headway.scheduled),
+    realtime: showRealtime ? toMinutes(headway.realtime) : null,
+    bunched: showRealtime && headway.bunching ? toMinutes(headway.realtime) : null
+  })), [selectedStop, showRealtime])
+
+  const hasRealtime = showRealtime && (report?.stops.some(s => s.realtime !== null) ?? false)
+  const totalBunching = report?.stops.reduce((sum, s) => sum + s.bunchingCount, 0) ?? 0
+  const totalGaps = report?.stops.reduce((sum, s) => sum + s.gapCount, 0) ?? 0
+  const events = (selectedStop?.headways || []).filter(h => h.gap || (showRealtime && h.bunching))
+
+  return (
+    <Paper sx={{ p: 2, mt: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Headways
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Time between consecutive departures at each stop (minutes).
+        Bunching: a real-time headway below {bunchingPct}% of the scheduled one.
+      </Typography>
+
+      <Grid container spacing={2} sx={{ mb: 2 }}>
+        <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+          <TextField
+            select
+            label="Direction"
+            value={directionId}
+            onChange={(e) => setDirectionId(Number(e.target.value))}
+            fullWidth
+            size="small"
+          >
+            {directions.map(d => (
+              <MenuItem key={d.directionId} value={d.directionId}>{d.headsign}</MenuItem>
+            ))}
+          </TextField>
+        </Grid>
+        <Grid size={{ xs: 6, sm: 3, md: 2 }}>
+          <TextField
+            label="Gap over (min)"
+            type="number"
+            value={gapMinutes}
+            onChange={(e) => setGapMinutes(Number(e.target.value))}
+            fullWidth
+            size="small"
+            slotProps={{ htmlInput: { min: 1 } }}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, sm: 3, md: 2 }}>
+          <TextField
+            label="Bunching below (%)"
+            type="number"
+            value={bunchingPct}
+            onChange={(e) => setBunchingPct(Number(e.target.value))}
+            fullWidth
+            size="small"
+            slotProps={{ htmlInput: { min: 1, max: 100 } }}
+          />
+        </Grid>
+        <Grid size={{ xs: 12, md: 4 }} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Chip label={`${totalGaps} gaps`} color={totalGaps > 0 ? 'warning' : 'default'} size="small" />
+          {showRealtime && (
+            <Chip label={`${totalBunching} bunching`} color={totalBunching > 0 ? 'error' : 'default'} size="small" />
+          )}
+        </Grid>
+      </Grid>
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {report && report.stops.length === 0 && !loading && (
+        <Alert severity="info">No departures in this direction on the selected date.</Alert>
+      )}
+
+      {showRealtime && report && report.stops.length > 0 && !hasRealtime && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          No real-time data for this direction: only scheduled headways are shown.
+        </Alert>
+      )}
+
+      {stopData.length > 0 && (
+        <>
+          <Typography variant="subtitle1" sx={{ mt: 1 }}>Per stop</Typography>
+          <Box sx={{ width: '100%', height: 400 }}>
+            <ResponsiveContainer>
+              <ComposedChart data={stopData} margin={{ top: 20, right: 30, left: 20, bottom: 80 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="stopName"
+                  tickFormatter={shortName}
+                  angle={-45}
+                  textAnchor="end"
+                  interval={0}
+                  tick={{ fontSize: 9 }}
+                />
+                <YAxis
+                  yAxisId="minutes"
+                  label={{ value: 'Headway (min)', angle: -90, position: 'insideLeft' }}
+                  tick={{ fontSize: 11 }}
+                />
+                {hasRealtime && (
+                  <YAxis
+                    yAxisId="count"
+                    orientation="right"
+                    allowDecimals={false}
+                    label={{ value: 'Bunching events', angle: 90, position: 'insideRight' }}
+                    tick={{ fontSize: 11 }}
+                  />
+                )}
+                <Tooltip />
+                <Legend verticalAlign="top" />
+                <ReferenceLine yAxisId="minutes" y={gapMinutes} stroke="#999" strokeDasharray="4 4" />
+                <Bar yAxisId="minutes" dataKey="scheduledMean" name="Scheduled mean" fill={SCHEDULED_COLOR} />
+                <Line yAxisId="minutes" dataKey="scheduledMin" name="Scheduled min" stroke={SCHEDULED_COLOR} dot={false} />
+                <Line yAxisId="minutes" dataKey="scheduledMax" name="Scheduled max" stroke={SCHEDULED_COLOR} strokeDasharray="5 5" dot={false} />
+                {hasRealtime && (
+                  <>
+                    <Bar yAxisId="minutes" dataKey="realtimeMean" name="Real-time mean" fill={REALTIME_COLOR} />
+                    <Line yAxisId="minutes" dataKey="realtimeMin" name="Real-time min" stroke={REALTIME_COLOR} dot={false} />
+                    <Line yAxisId="minutes" dataKey="realtimeMax" name="Real-time max" stroke={REALTIME_COLOR} strokeDasharray="5 5" dot={false} />
+                    <Line yAxisId="count" dataKey="bunching" name="Bunching events" stroke={BUNCHING_COLOR} strokeWidth={0} dot={{ r: 4, fill: BUNCHING_COLOR }} />
+                  </>
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </Box>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 3, mb: 1 }}>
+            <Typography variant="subtitle1">Over the day at</Typography>
+            <TextField
+              select
+              value={selectedStopId}
+              onChange={(e) => setSelectedStopId(e.target.value)}
+              size="small"
+              sx={{ minWidth: 250 }}
+            >
+              {report!.stops.map(stop => (
+                <MenuItem key={stop.stopId} value={stop.stopId}>
+                  {stop.stopName}
+                  {showRealtime && stop.bunchingCount > 0 && ` (${stop.bunchingCount} bunching)`}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+
+          {selectedStop && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Scheduled: min {formatMinutes(selectedStop.scheduled?.min)}, mean {formatMinutes(selectedStop.scheduled?.mean)}, max {formatMinutes(selectedStop.scheduled?.max)}
+              {hasRealtime && ` | Real-time: min ${formatMinutes(selectedStop.realtime?.min)}, mean ${formatMinutes(selectedStop.realtime?.mean)}, max ${formatMinutes(selectedStop.realtime?.max)}`}
+            </Typography>
+          )}
+
+          <Box sx={{ width: '100%', height: 300 }}>
+            <ResponsiveContainer>
+              <ComposedChart data={timelineData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(value: number) => secondsToTime(value).substring(0, 5)}
+                  tick={{ fontSize: 11 }}
+                />
+                <YAxis
+                  label={{ value: 'Headway (min)', angle: -90, position: 'insideLeft' }}
+                  tick={{ fontSize: 11 }}
+                />
+                <Tooltip labelFormatter={(value) => secondsToTime(Number(value)).substring(0, 5)} />
+                <Legend verticalAlign="top" />
+                <ReferenceLine y={gapMinutes} stroke="#999" strokeDasharray="4 4" label={{ value: 'Gap', position: 'right', fontSize: 10 }} />
+                <Line dataKey="scheduled" name="Scheduled" stroke={SCHEDULED_COLOR} type="stepAfter" dot={false} />
+                {hasRealtime && (
+                  <>
+                    <Line dataKey="realtime" name="Real-time" stroke={REALTIME_COLOR} dot={{ r: 2 }} connectNulls={false} />
+                    <Scatter dataKey="bunched" name="Bunching" fill={BUNCHING_COLOR} />
+                  </>
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </Box>
+
+          {events.length > 0 && (
+            <TableContainer sx={{ mt: 2, maxHeight: 300 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Departure</TableCell>
+                    <TableCell>Trips</TableCell>
+                    <TableCell align="right">Scheduled</TableCell>
+                    <TableCell align="right">Real-time</TableCell>
+                    <TableCell>Issue</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {events.map(event => (
+                    <TableRow key={`${event.fromTripId}-${event.toTripId}`}>
+                      <TableCell>{secondsToTime(event.time).substring(0, 5)}</TableCell>
+                      <TableCell>{event.fromTripId} → {event.toTripId}</TableCell>
+                      <TableCell align="right">{formatMinutes(event.scheduled)}</TableCell>
+                      <TableCell align="right">{showRealtime ? formatMinutes(event.realtime) : '-'}</TableCell>
+                      <TableCell>
+                        {showRealtime && event.bunching && <Chip label="Bunching" color="error" size="small" sx={{ mr: 0.5 }} />}
+                        {event.gap && <Chip label="Gap" color="warning" size="small" />}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      )}
+    </Paper>
+  )
+}
@@ -0,0 +1,76 @@
+import { useEffect, useMemo } from 'react'
+import { Circle, CircleMarker, Pane, Tooltip, useMap } from 'react-leaflet'
+import { Stop } from 'gtfs-sqljs'
+import { ReachableStop, ISOCHRONE_BANDS, BAND_COLORS, WALKING_SPEED } from '../utils/tripPlanner'
+import { secondsToTime } from './utils'
+
+interface IsochroneLayerProps {
+  stops: Map<string, Stop>
+  reachable: ReachableStop[]
+  originStopId: string
+  maxWalkDistance: number
+}
+
+const bandColor = (duration: number) => {
+  const index = ISOCHRONE_BANDS.findIndex(band => duration <= band * 60)
+  return BAND_COLORS[index === -1 ? BAND_COLORS.length - 1 : index]
+}
+
+/**
+ * Draws reachability bands as the area that can still be walked from each reached stop
+ * before the end of the band. Longer bands are drawn first so that shorter ones stay on top,
+ * and the pane is made translucent as a whole so that overlapping circles do not add up.
+ */
+export default function IsochroneLayer({ stops, reachable, originStopId, maxWalkDistance }: IsochroneLayerProps) {
+  const map = useMap()
+
+  const located = useMemo(() => reachable
+    .map(r => ({ ...r, stop: stops.get(r.stopId) }))
+    .filter((r): r is ReachableStop & { stop: Stop } => !!r.stop?.stop_lat && !!r.stop?.stop_lon),
+  [reachable, stops])
+
+  useEffect(() => {
+    if (located.length === 0) return
+    map.fitBounds(located.map(r => [r.stop.stop_lat!, r.stop.stop_lon!] as [number, number]), { padding: [50, 50] })
+  }, [located, map])
+
+  const bands = [...ISOCHRONE_BANDS].reverse()
+
+  return (
+    <>
+      <Pane name="isochrone-bands" style={{ opacity: 0.45, zIndex: 350 }}>
+        {bands.map(band => located
+          .filter(r => r.duration < band * 60)
+          .map(r => (
+            <Circle
+              key={`${band}-${r.stopId}`}
+              center={[r.stop.stop_lat!, r.stop.stop_lon!]}
+              radius={Math.min((band * 60 - r.duration) * WALKING_SPEED, maxWalkDistance)}
+              pathOptions={{ stroke: false, fillColor: bandColor(band * 60), fillOpacity: 1 }}
+            />
+          )))}
+      </Pane>
+      {located.map(r => (
+        <CircleMarker
+          key={r.stopId}
+          center={[r.stop.stop_lat!, r.stop.stop_lon!]}
+          radius={r.stopId === originStopId ? 8 : 4}
+          pathOptions={{
+            color: r.stopId === originStopId ? '#000000' : '#333333',
+            weight: 1,
+            fillColor: bandColor(r.duration),
+            fillOpacity: 1
+          }}
+        >
+          <Tooltip>
+            <strong>{r.stop.stop_name}</strong>
+            <br />
+            {r.stopId === originStopId
+              ? 'Departure stop'
+              : `Arrival ${secondsToTime(r.arrival).substring(0, 5)} · ${Math.round(r.duration / 60)} min · ${r.transfers} transfer${r.transfers === 1 ? '' : 's'}`}
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  )
+}
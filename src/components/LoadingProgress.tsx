@@ -11,6 +11,7 @@ const LoadingProgress = ({ progress }: LoadingProgressProps) => {
     const labels: Record<string, string> = {
       checking_cache: 'Checking Cache',
       loading_from_cache: 'Loading from Cache',
+      opening_database: 'Opening Database',
       downloading: 'Downloading GTFS Data',
       extracting: 'Extracting Archive',
       creating_schema: 'Creating Database Schema',
@@ -28,6 +29,7 @@ const LoadingProgress = ({ progress }: LoadingProgressProps) => {
     const colors: Record<string, string> = {
       checking_cache: 'bg-gray-500',
       loading_from_cache: 'bg-cyan-500',
+      opening_database: 'bg-cyan-500',
       downloading: 'bg-blue-500',
       extracting: 'bg-indigo-500',
       creating_schema: 'bg-purple-500',
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  Slider,
+  IconButton,
+  Tooltip,
+  FormControlLabel,
+  Switch,
+  Select,
+  MenuItem
+} from '@mui/material'
+import { PlayArrow, Pause, Refresh as RefreshIcon } from '@mui/icons-material'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+
+interface PlaybackTimelineProps {
+  workerApi: Remote<GtfsWorkerAPI> | null
+  playbackTime: number | null // unix seconds, null = live data
+  onChange: (time: number | null) => void
+  timezone?: string
+}
+
+const SPEEDS = [1, 10, 60, 300]
+const TICK_MS = 1000
+
+export default function PlaybackTimeline({ workerApi, playbackTime, onChange, timezone }: PlaybackTimelineProps) {
+  const [snapshots, setSnapshots] = useState<number[]>([])
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(60)
+
+  const refreshSnapshots = useCallback(async (): Promise<number[]> => {
+    if (!workerApi) return []
+    try {
+      const info = await workerApi.getRecordingInfo()
+      setSnapshots(info.snapshots)
+      return info.snapshots
+    } catch (err) {
+      console.error('Error reading recording info:', err)
+      return []
+    }
+  }, [workerApi])
+
+  const start = snapshots[0] ?? null
+  const end = snapshots[snapshots.length - 1] ?? null
+
+  // Advance the playback time while playing, and stop at the end of the recording
+  useEffect(() => {
+    if (!playing || playbackTime === null || end === null) return
+    const timeout = setTimeout(() => {
+      const next = playbackTime + speed * (TICK_MS / 1000)
+      if (next >= end) {
+        setPlaying(false)
+        onChange(end)
+      } else {
+        onChange(next)
+      }
+    }, TICK_MS)
+    return () => clearTimeout(timeout)
+  }, [playing, playbackTime, speed, end, onChange])
+
+  const formatTime = (time: number) =>
+    new Date(time * 1000).toLocaleTimeString('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+  // Replay starts at the beginning of the recording
+  const handleToggle = async (enabled: boolean) => {
+    setPlaying(false)
+    if (!enabled) {
+      onChange(null)
+      return
+    }
+    const recorded = await refreshSnapshots()
+    onChange(recorded[0] ?? Math.floor(Date.now() / 1000))
+  }
+
+  return (
+    <Paper sx={{ p: 2, mb: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <FormControlLabel
+          control={<Switch checked={playbackTime !== null} onChange={(e) => handleToggle(e.target.checked)} color="error" />}
+          label="Replay recorded data"
+        />
+
+        {playbackTime !== null && (
+          <>
+            <IconButton
+              onClick={() => setPlaying(!playing)}
+              disabled={start === null}
+              color="error"
+              aria-label={playing ? 'pause' : 'play'}
+            >
+              {playing ? <Pause /> : <PlayArrow />}
+            </IconButton>
+
+            <Slider
+              value={playbackTime}
+              min={start ?? playbackTime}
+              max={end ?? playbackTime}
+              step={1}
+              onChange={(_e, value) => onChange(value as number)}
+              valueLabelDisplay="auto"
+              valueLabelFormat={formatTime}
+              disabled={start === null}
+              color="error"
+              sx={{ flex: '1 1 240px', mx: 1 }}
+            />
+
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', minWidth: 70 }}>
+              {formatTime(playbackTime)}
+            </Typography>
+
+            <Select size="small" value={speed} onChange={(e) => setSpeed(Number(e.target.value))}>
+              {SPEEDS.map(s => (
+                <MenuItem key={s} value={s}>{s}x</MenuItem>
+              ))}
+            </Select>
+
+            <Tooltip title="Reload recorded snapshots">
+              <IconButton onClick={() => refreshSnapshots()} size="small">
+                <RefreshIcon />
+              </IconButton>
+            </Tooltip>
+          </>
+        )}
+      </Box>
+
+      {playbackTime !== null && (
+        <Typography variant="caption" color="text.secondary">
+          {start === null || end === null
+            ? 'Nothing recorded yet. Snapshots are taken on each realtime refresh.'
+            : `${snapshots.length} snapshots recorded from ${formatTime(start)} to ${formatTime(end)}`}
+        </Typography>
+      )}
+    </Paper>
+  )
+}
@@ -0,0 +1,175 @@
+import { Fragment, useState } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Chip,
+  Stack,
+  LinearProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Collapse,
+  IconButton
+} from '@mui/material'
+import { KeyboardArrowDown, KeyboardArrowUp } from '@mui/icons-material'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import { RealtimeFeedDiagnostics, RealtimeIssueType, ISSUE_LABELS } from '../utils/realtimeDiagnostics'
+
+interface RealtimeDiagnosticsPanelProps {
+  workerApi: Remote<GtfsWorkerAPI> | null
+}
+
+const scoreColor = (score: number): 'success' | 'warning' | 'error' => {
+  if (score >= 90) return 'success'
+  if (score >= 60) return 'warning'
+  return 'error'
+}
+
+export default function RealtimeDiagnosticsPanel({ workerApi }: RealtimeDiagnosticsPanelProps) {
+  const [results, setResults] = useState<RealtimeFeedDiagnostics[] | null>(null)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedUrl, setExpandedUrl] = useState<string | null>(null)
+  const [ranAt, setRanAt] = useState<number | null>(null)
+
+  const runDiagnostics = async () => {
+    if (!workerApi) return
+    setRunning(true)
+    setError(null)
+    try {
+      setResults(await workerApi.diagnoseRealtime())
+      setRanAt(Date.now())
+    } catch (err) {
+      console.error('Error running GTFS-RT diagnostics:', err)
+      setError(err instanceof Error ? err.message : 'Diagnostics failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const countByType = (feed: RealtimeFeedDiagnostics) => {
+    const counts = new Map<RealtimeIssueType, number>()
+    feed.issues.forEach(issue => counts.set(issue.type, (counts.get(issue.type) || 0) + 1))
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])
+  }
+
+  return (
+    <Box>
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap' }}>
+          <Box>
+            <Typography variant="h6">Feed Diagnostics</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Each GTFS-RT URL is fetched separately and checked against the static schedule.
+              {ranAt && ` Last run: ${new Date(ranAt).toLocaleTimeString()}.`}
+            </Typography>
+          </Box>
+          <Button variant="contained" color="error" onClick={runDiagnostics} disabled={running || !workerApi}>
+            {running ? 'Running...' : 'Run Diagnostics'}
+          </Button>
+        </Box>
+        {running && <LinearProgress color="error" sx={{ mt: 2 }} />}
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {results && results.length === 0 && (
+        <Alert severity="info">No GTFS-RT URL is configured</Alert>
+      )}
+
+      {results && results.length > 0 && (
+        <Paper>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell>Feed URL</TableCell>
+                  <TableCell align="center">Score</TableCell>
+                  <TableCell align="right">Trip Updates</TableCell>
+                  <TableCell align="right">Vehicles</TableCell>
+                  <TableCell align="right">Alerts</TableCell>
+                  <TableCell>Issues</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {results.map(feed => (
+                  <Fragment key={feed.url}>
+                    <TableRow
+                      hover
+                      sx={{ cursor: 'pointer', '& > *': { borderBottom: 'unset' } }}
+                      onClick={() => setExpandedUrl(expandedUrl === feed.url ? null : feed.url)}
+                    >
+                      <TableCell>
+                        <IconButton size="small">
+                          {expandedUrl === feed.url ? <KeyboardArrowUp /> : <KeyboardArrowDown />}
+                        </IconButton>
+                      </TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{feed.url}</TableCell>
+                      <TableCell align="center">
+                        <Chip label={`${feed.score}%`} color={scoreColor(feed.score)} size="small" />
+                      </TableCell>
+                      <TableCell align="right">{feed.tripUpdates}</TableCell>
+                      <TableCell align="right">{feed.vehicles}</TableCell>
+                      <TableCell align="right">{feed.alerts}</TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                          {feed.issues.length === 0 ? (
+                            <Chip label="No issue" size="small" color="success" variant="outlined" />
+                          ) : (
+                            countByType(feed).map(([type, count]) => (
+                              <Chip key={type} label={`${ISSUE_LABELS[type]}: ${count}`} size="small" variant="outlined" />
+                            ))
+                          )}
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell sx={{ py: 0 }} colSpan={7}>
+                        <Collapse in={expandedUrl === feed.url} timeout="auto" unmountOnExit>
+                          <Box sx={{ m: 1, maxHeight: 400, overflow: 'auto' }}>
+                            <Table size="small">
+                              <TableHead>
+                                <TableRow>
+                                  <TableCell>Issue</TableCell>
+                                  <TableCell>Entity</TableCell>
+                                  <TableCell>Message</TableCell>
+                                </TableRow>
+                              </TableHead>
+                              <TableBody>
+                                {feed.issues.map((issue, idx) => (
+                                  <TableRow key={idx}>
+                                    <TableCell>{ISSUE_LABELS[issue.type]}</TableCell>
+                                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                                      {issue.entity}: {issue.entityId}
+                                    </TableCell>
+                                    <TableCell>{issue.message}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </Box>
+                        </Collapse>
+                      </TableCell>
+                    </TableRow>
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+    </Box>
+  )
+}
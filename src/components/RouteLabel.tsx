@@ -1,5 +1,6 @@
 import { Route } from 'gtfs-sqljs'
-import { getContrastColor } from './utils'
+import { getRouteColors } from './utils'
+import FeedBadge from './FeedBadge'
 
 interface RouteLabelProps {
   route: Route
@@ -7,17 +8,17 @@ interface RouteLabelProps {
 }
 
 export default function RouteLabel({ route, className = '' }: RouteLabelProps) {
-  const bgColor = route.route_color ? `#${route.route_color}` : '#3b82f6'
-  const textColor = route.route_text_color
-    ? `#${route.route_text_color}`
-    : getContrastColor(bgColor)
+  const { bgColor, textColor } = getRouteColors(route)
 
   return (
-    <span
-      style={{ backgroundColor: bgColor, color: textColor }}
-      className={`px-2 py-1 rounded text-sm font-semibold inline-block ${className}`}
-    >
-      {route.route_short_name}
-    </span>
+    <>
+      <span
+        style={{ backgroundColor: bgColor, color: textColor }}
+        className={`px-2 py-1 rounded text-sm font-semibold inline-block ${className}`}
+      >
+        {route.route_short_name}
+      </span>
+      <FeedBadge id={route.route_id} />
+    </>
   )
 }
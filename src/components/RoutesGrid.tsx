@@ -1,5 +1,6 @@
 import { Route } from 'gtfs-sqljs'
 import { getContrastColor } from './utils'
+import FeedBadge from './FeedBadge'
 
 interface RoutesGridProps {
   routes: Route[]
@@ -28,7 +29,10 @@ export default function RoutesGrid({ routes, selectedRoute, setSelectedRoute }:
                 isSelected ? 'ring-4 ring-blue-500 shadow-xl scale-105' : 'shadow-md'
               }`}
             >
-              <div className="text-lg">{route.route_short_name || route.route_id}</div>
+              <div className="text-lg">
+                {route.route_short_name || route.route_id}
+                <FeedBadge id={route.route_id} />
+              </div>
               <div className="text-xs mt-1 opacity-90 line-clamp-2">
                 {route.route_long_name}
               </div>
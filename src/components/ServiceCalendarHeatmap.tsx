@@ -0,0 +1,107 @@
+import { useMemo } from 'react'
+import { Box, Tooltip, Typography } from '@mui/material'
+import { ServiceDay, WEEKDAY_NAMES, formatServiceDate, weekdayIndex } from '../utils/serviceCalendar'
+
+interface ServiceCalendarHeatmapProps {
+  days: ServiceDay[]
+  selectedDate: string | null
+  onSelectDate: (date: string) => void
+}
+
+const CELL_SIZE = 14
+const CELL_GAP = 3
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Light to dark green by share of the busiest day
+const LEVEL_COLORS = ['#c8e6c9', '#81c784', '#43a047', '#1b5e20']
+const NO_SERVICE_COLOR = '#ef9a9a'
+
+const heatmapColor = (tripCount: number, maxTrips: number): string => {
+  if (tripCount === 0) return NO_SERVICE_COLOR
+  const level = Math.min(LEVEL_COLORS.length - 1, Math.floor((tripCount / Math.max(maxTrips, 1)) * LEVEL_COLORS.length))
+  return LEVEL_COLORS[level]
+}
+
+/**
+ * One cell per day, one column per week (Monday on top), colored by the number of trips.
+ * Days without any service are drawn in red.
+ */
+export default function ServiceCalendarHeatmap({ days, selectedDate, onSelectDate }: ServiceCalendarHeatmapProps) {
+  const maxTrips = useMemo(() => Math.max(0, ...days.map(d => d.trip_count)), [days])
+
+  // Leading empty cells so that the first column starts on a Monday
+  const offset = days.length > 0 ? weekdayIndex(days[0].date) : 0
+  const weekCount = Math.ceil((offset + days.length) / 7)
+
+  const monthLabels = useMemo(() => days
+    .map((day, idx) => ({ day, column: Math.floor((offset + idx) / 7) }))
+    .filter(({ day }, idx) => idx === 0 || day.date.endsWith('01'))
+    .map(({ day, column }) => ({ column, label: `${MONTH_NAMES[Number(day.date.slice(4, 6)) - 1]} ${day.date.slice(2, 4)}` })),
+  [days, offset])
+
+  return (
+    <Box sx={{ overflowX: 'auto', pb: 1 }}>
+      <Box sx={{ display: 'inline-grid', gridTemplateColumns: `auto repeat(${weekCount}, ${CELL_SIZE}px)`, gap: `${CELL_GAP}px` }}>
+        {/* Month labels */}
+        <Box />
+        {Array.from({ length: weekCount }, (_, column) => {
+          const month = monthLabels.find(m => m.column === column)
+          return (
+            <Box key={column} sx={{ position: 'relative', height: 16 }}>
+              {month && (
+                <Typography variant="caption" sx={{ position: 'absolute', left: 0, whiteSpace: 'nowrap', fontSize: '0.65rem' }}>
+                  {month.label}
+                </Typography>
+              )}
+            </Box>
+          )
+        })}
+
+        {WEEKDAY_NAMES.map((weekday, row) => (
+          <Box key={weekday} sx={{ display: 'contents' }}>
+            <Typography variant="caption" sx={{ fontSize: '0.65rem', lineHeight: `${CELL_SIZE}px`, pr: 0.5 }}>
+              {weekday}
+            </Typography>
+            {Array.from({ length: weekCount }, (_, column) => {
+              const day = days[column * 7 + row - offset]
+              if (!day) return <Box key={column} />
+
+              const isSelected = day.date === selectedDate
+              return (
+                <Tooltip
+                  key={column}
+                  title={`${formatServiceDate(day.date)}: ${day.trip_count > 0 ? `${day.trip_count} trips, ${day.service_ids.length} services` : 'no service'}`}
+                >
+                  <Box
+                    onClick={() => onSelectDate(day.date)}
+                    sx={{
+                      width: CELL_SIZE,
+                      height: CELL_SIZE,
+                      borderRadius: 0.5,
+                      cursor: 'pointer',
+                      backgroundColor: heatmapColor(day.trip_count, maxTrips),
+                      outline: isSelected ? '2px solid' : day.trip_count === 0 ? '1px solid' : 'none',
+                      outlineColor: isSelected ? 'primary.main' : 'error.main',
+                      '&:hover': { opacity: 0.75 }
+                    }}
+                  />
+                </Tooltip>
+              )
+            })}
+          </Box>
+        ))}
+      </Box>
+
+      {/* Legend */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 1.5 }}>
+        <Box sx={{ width: CELL_SIZE, height: CELL_SIZE, borderRadius: 0.5, backgroundColor: NO_SERVICE_COLOR, outline: '1px solid', outlineColor: 'error.main' }} />
+        <Typography variant="caption" sx={{ mr: 2 }}>No service</Typography>
+        <Typography variant="caption">Fewer trips</Typography>
+        {LEVEL_COLORS.map(color => (
+          <Box key={color} sx={{ width: CELL_SIZE, height: CELL_SIZE, borderRadius: 0.5, backgroundColor: color }} />
+        ))}
+        <Typography variant="caption">More trips (max {maxTrips})</Typography>
+      </Box>
+    </Box>
+  )
+}
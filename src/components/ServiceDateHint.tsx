@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react'
+import { Typography } from '@mui/material'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import { ServiceDay } from '../utils/serviceCalendar'
+
+interface ServiceDateHintProps {
+  workerApi: Remote<GtfsWorkerAPI> | null
+  date: string // YYYY-MM-DD
+}
+
+// Number of trips running on the date of a date picker, warning when the feed has no service
+export default function ServiceDateHint({ workerApi, date }: ServiceDateHintProps) {
+  const [day, setDay] = useState<ServiceDay | null>(null)
+
+  useEffect(() => {
+    setDay(null)
+    if (!workerApi || !date) return
+    const serviceDate = date.replace(/-/g, '')
+    workerApi.getServiceDays(serviceDate, serviceDate)
+      .then(days => setDay(days[0] || null))
+      .catch(err => console.error('Error loading service day:', err))
+  }, [workerApi, date])
+
+  if (!day) return null
+
+  return day.trip_count > 0 ? (
+    <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+      {day.trip_count} trips run on this day
+    </Typography>
+  ) : (
+    <Typography variant="caption" color="error" display="block" sx={{ mt: 0.5 }}>
+      No service on this day
+    </Typography>
+  )
+}
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { CircleMarker, Marker, useMap, useMapEvents } from 'react-leaflet'
+import L from 'leaflet'
+import { Stop } from 'gtfs-sqljs'
+
+interface StopClusterLayerProps {
+  stops: Stop[]
+  onStopClick: (stop: Stop) => void
+}
+
+interface StopCluster {
+  key: string
+  latitude: number
+  longitude: number
+  stops: Stop[]
+}
+
+// Size of the screen grid cells stops are grouped in, in pixels
+const CLUSTER_CELL_SIZE = 60
+// From this zoom level on, every stop is drawn individually
+const CLUSTER_MAX_ZOOM = 16
+
+const clusterIcon = (count: number): L.DivIcon => {
+  const size = count < 10 ? 28 : count < 100 ? 34 : 40
+  return L.divIcon({
+    className: 'stop-cluster',
+    html: `
+      <div style="
+        width: ${size}px;
+        height: ${size}px;
+        border-radius: 50%;
+        background: rgba(25, 118, 210, 0.85);
+        border: 2px solid white;
+        box-shadow: 0 1px 4px rgba(0, 0, 0, 0.4);
+        color: white;
+        font-weight: bold;
+        font-size: 12px;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      ">${count}</div>
+    `,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  })
+}
+
+/**
+ * Stops of the visible area, grouped on a screen grid so that large feeds stay responsive.
+ * Clicking a cluster zooms on its stops, clicking a stop calls onStopClick.
+ */
+export default function StopClusterLayer({ stops, onStopClick }: StopClusterLayerProps) {
+  const map = useMap()
+  const [view, setView] = useState(() => ({ bounds: map.getBounds(), zoom: map.getZoom() }))
+
+  const updateView = useCallback(() => {
+    setView({ bounds: map.getBounds(), zoom: map.getZoom() })
+  }, [map])
+
+  useMapEvents({
+    moveend: updateView,
+    zoomend: updateView
+  })
+
+  // The map may have been recentered before this layer was mounted
+  useEffect(() => {
+    updateView()
+  }, [updateView])
+
+  const located = useMemo(() => stops.filter(s => s.stop_lat && s.stop_lon), [stops])
+
+  const clusters = useMemo(() => {
+    // Keep a margin around the viewport so that panning does not show empty borders
+    const bounds = view.bounds.pad(0.2)
+    const visible = located.filter(s => bounds.contains([s.stop_lat!, s.stop_lon!]))
+
+    if (view.zoom >= CLUSTER_MAX_ZOOM) {
+      return visible.map(stop => ({
+        key: stop.stop_id,
+        latitude: stop.stop_lat!,
+        longitude: stop.stop_lon!,
+        stops: [stop]
+      }))
+    }
+
+    const cells = new Map<string, Stop[]>()
+    visible.forEach(stop => {
+      const point = map.project([stop.stop_lat!, stop.stop_lon!], view.zoom)
+      const key = `${Math.floor(point.x / CLUSTER_CELL_SIZE)}:${Math.floor(point.y / CLUSTER_CELL_SIZE)}`
+      if (!cells.has(key)) cells.set(key, [])
+      cells.get(key)!.push(stop)
+    })
+
+    return [...cells.entries()].map(([key, cellStops]): StopCluster => ({
+      key: cellStops.length === 1 ? cellStops[0].stop_id : key,
+      latitude: cellStops.reduce((sum, s) => sum + s.stop_lat!, 0) / cellStops.length,
+      longitude: cellStops.reduce((sum, s) => sum + s.stop_lon!, 0) / cellStops.length,
+      stops: cellStops
+    }))
+  }, [located, view, map])
+
+  const handleClusterClick = (cluster: StopCluster) => {
+    const bounds = L.latLngBounds(cluster.stops.map(s => [s.stop_lat!, s.stop_lon!] as [number, number]))
+    // Stops sharing the same location cannot be split by zooming
+    if (bounds.getNorthEast().equals(bounds.getSouthWest())) {
+      map.setView(bounds.getCenter(), CLUSTER_MAX_ZOOM)
+    } else {
+      map.fitBounds(bounds, { padding: [40, 40] })
+    }
+  }
+
+  return (
+    <>
+      {clusters.map(cluster => cluster.stops.length === 1 ? (
+        <CircleMarker
+          key={cluster.key}
+          center={[cluster.latitude, cluster.longitude]}
+          radius={5}
+          pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#1976d2', fillOpacity: 1 }}
+          eventHandlers={{ click: () => onStopClick(cluster.stops[0]) }}
+        />
+      ) : (
+        <Marker
+          key={cluster.key}
+          position={[cluster.latitude, cluster.longitude]}
+          icon={clusterIcon(cluster.stops.length)}
+          eventHandlers={{ click: () => handleClusterClick(cluster) }}
+        />
+      ))}
+    </>
+  )
+}
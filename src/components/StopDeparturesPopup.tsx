@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react'
+import { Stop } from 'gtfs-sqljs'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import { Departure, loadUpcomingDepartures } from '../utils/departures'
+import { TimeService } from '../utils/timezones'
+import { formatDelay, getRouteColors, secondsToTime } from './utils'
+
+interface StopDeparturesPopupProps {
+  stop: Stop
+  workerApi: Remote<GtfsWorkerAPI>
+  timeService: TimeService
+  onOpenDepartures?: (stopId: string) => void
+}
+
+const MAX_DEPARTURES = 8
+
+export default function StopDeparturesPopup({ stop, workerApi, timeService, onOpenDepartures }: StopDeparturesPopupProps) {
+  const [departures, setDepartures] = useState<Departure[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setDepartures(null)
+    setError(null)
+
+    loadUpcomingDepartures(workerApi, [stop], timeService, true)
+      .then(result => {
+        if (!cancelled) setDepartures(result.slice(0, MAX_DEPARTURES))
+      })
+      .catch(err => {
+        console.error('Error loading stop departures:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load departures')
+      })
+
+    return () => { cancelled = true }
+  }, [stop, workerApi, timeService])
+
+  return (
+    <div style={{ minWidth: 240 }}>
+      <div style={{ fontWeight: 'bold', fontSize: 14 }}>{stop.stop_name}</div>
+      <div style={{ fontSize: 11, color: '#666', marginBottom: 6 }}>{stop.stop_code || stop.stop_id}</div>
+
+      {error && <div style={{ color: '#d32f2f' }}>{error}</div>}
+      {!error && departures === null && <div>Loading departures...</div>}
+      {departures !== null && departures.length === 0 && <div style={{ color: '#666' }}>No upcoming departures</div>}
+
+      {departures !== null && departures.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+          <tbody>
+            {departures.map(dep => {
+              const { bgColor, textColor } = dep.route ? getRouteColors(dep.route) : { bgColor: '#CCC', textColor: '#000' }
+              const delay = dep.realtimeDepartureSeconds !== null
+                ? dep.realtimeDepartureSeconds - dep.departureTimeSeconds
+                : null
+
+              return (
+                <tr
+                  key={`${dep.trip.trip_id}-${dep.stop.stop_id}-${dep.stopTime.stop_sequence}`}
+                  style={{ textDecoration: dep.canceled ? 'line-through' : 'none', opacity: dep.canceled ? 0.6 : 1 }}
+                >
+                  <td style={{ padding: '2px 4px' }}>
+                    <span style={{
+                      backgroundColor: bgColor,
+                      color: textColor,
+                      padding: '1px 4px',
+                      borderRadius: 3,
+                      fontWeight: 'bold'
+                    }}>
+                      {dep.route?.route_short_name || dep.trip.route_id}
+                    </span>
+                  </td>
+                  <td style={{ padding: '2px 4px' }}>
+                    {dep.trip.trip_headsign}
+                    {dep.stop.platform_code && (
+                      <span style={{ color: '#666' }}> · Pl. {dep.stop.platform_code}</span>
+                    )}
+                  </td>
+                  <td style={{ padding: '2px 4px', fontFamily: 'monospace', textAlign: 'right' }}>
+                    {secondsToTime((dep.realtimeDepartureSeconds ?? dep.departureTimeSeconds) % 86400).substring(0, 5)}
+                  </td>
+                  <td style={{ padding: '2px 4px', textAlign: 'right', whiteSpace: 'nowrap' }}>
+                    {dep.canceled ? (
+                      <span style={{ color: '#d32f2f' }}>Canceled</span>
+                    ) : delay !== null && (
+                      <span
+                        style={{
+                          color: delay > 60 ? '#d32f2f' : delay < -60 ? '#0288d1' : '#2e7d32',
+                          fontStyle: dep.realtimeSource === 'propagated' ? 'italic' : 'normal'
+                        }}
+                        title={dep.realtimeSource === 'propagated' ? 'Estimated from the delay at an earlier stop' : undefined}
+                      >
+                        {dep.realtimeSource === 'propagated' && '~'}
+                        {Math.abs(delay) < 60 ? 'On time' : delay < 0 ? `-${formatDelay(delay)}` : formatDelay(delay)}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {onOpenDepartures && (
+        <button
+          onClick={() => onOpenDepartures(stop.stop_id)}
+          style={{
+            marginTop: 8,
+            width: '100%',
+            padding: '4px 8px',
+            border: '1px solid #1976d2',
+            borderRadius: 4,
+            background: 'white',
+            color: '#1976d2',
+            cursor: 'pointer'
+          }}
+        >
+          Open in departures board
+        </button>
+      )}
+    </div>
+  )
+}
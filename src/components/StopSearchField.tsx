@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react'
+import { Box, TextField, Button, Typography } from '@mui/material'
+import { MyLocation as MyLocationIcon } from '@mui/icons-material'
+import { Stop } from 'gtfs-sqljs'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import { NEARBY_DISTANCE, findNearbyStops } from '../utils/stopSearch'
+import { formatDistance } from './utils'
+
+export interface StopMatch {
+  stop: Stop
+  distance: number | null // metres from the user, in "near me" mode
+}
+
+interface StopSearchFieldProps {
+  stops: Stop[]
+  workerApi: Remote<GtfsWorkerAPI> | null
+  // Matching stops, best first, or null when nothing is searched
+  onMatchesChange: (matches: StopMatch[] | null) => void
+}
+
+const SEARCH_DELAY = 200 // ms
+
+// Search box of the stop pickers: fuzzy search in the worker, or the stops closest to the user
+export default function StopSearchField({ stops, workerApi, onMatchesChange }: StopSearchFieldProps) {
+  const [query, setQuery] = useState('')
+  const [position, setPosition] = useState<GeolocationCoordinates | null>(null)
+  const [locating, setLocating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (position) {
+      onMatchesChange(findNearbyStops(stops, position.latitude, position.longitude))
+      return
+    }
+    if (query.trim() === '' || !workerApi) {
+      onMatchesChange(null)
+      return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(() => {
+      workerApi.searchStops(query)
+        .then(results => {
+          if (cancelled) return
+          const stopMap = new Map(stops.map(stop => [stop.stop_id, stop]))
+          onMatchesChange(results
+            .map(result => stopMap.get(result.stopId))
+            .filter((stop): stop is Stop => !!stop)
+            .map(stop => ({ stop, distance: null })))
+        })
+        .catch(err => console.error('Error searching stops:', err))
+    }, SEARCH_DELAY)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [query, position, stops, workerApi, onMatchesChange])
+
+  const locate = () => {
+    if (position) {
+      setPosition(null)
+      return
+    }
+    if (!navigator.geolocation) {
+      setError('Geolocation is not available in this browser')
+      return
+    }
+
+    setLocating(true)
+    setError(null)
+    navigator.geolocation.getCurrentPosition(
+      result => {
+        setLocating(false)
+        setQuery('')
+        setPosition(result.coords)
+      },
+      err => {
+        setLocating(false)
+        setError(err.message || 'Could not get your position')
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    )
+  }
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <TextField
+          fullWidth
+          size="small"
+          placeholder={position ? 'Stops near you' : 'Search stops, codes or lines...'}
+          value={query}
+          disabled={!!position}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <Button
+          size="small"
+          variant={position ? 'contained' : 'outlined'}
+          startIcon={<MyLocationIcon />}
+          onClick={locate}
+          disabled={locating}
+          sx={{ flexShrink: 0 }}
+        >
+          {locating ? 'Locating...' : 'Near me'}
+        </Button>
+      </Box>
+      {position && (
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+          Stops within {formatDistance(NEARBY_DISTANCE)} of your position (±{formatDistance(position.accuracy)})
+        </Typography>
+      )}
+      {error && (
+        <Typography variant="caption" color="error" display="block" sx={{ mt: 0.5 }}>
+          {error}
+        </Typography>
+      )}
+    </Box>
+  )
+}
@@ -1,7 +1,8 @@
-import { StopTimeWithRealtime, VehiclePosition, Agency } from 'gtfs-sqljs'
+import { StopTimeWithRealtime, VehiclePosition, Agency, Route } from 'gtfs-sqljs'
 import { computeDelayFromTimestamp, applyDelayToTime, unixTimestampToTime } from './utils'
 import { getDistance } from 'geolib'
 import type { GtfsApi } from '../types/GtfsApi'
+import { createTimeService } from '../utils/timezones'
 
 interface StopTimesTableProps {
   stopTimes: StopTimeWithRealtime[]
@@ -9,14 +10,12 @@ interface StopTimesTableProps {
   selectedTrip: string
   vehicles: VehiclePosition[]
   agencies: Agency[]
+  route: Route | null
 }
 
-export default function StopTimesTable({ stopTimes, gtfs, selectedTrip, vehicles, agencies }: StopTimesTableProps) {
-  // Get agency timezone (use first agency's timezone)
-  if (agencies.length === 0 || !agencies[0].agency_timezone) {
-    throw new Error('Agency timezone is required but not available')
-  }
-  const agencyTimezone = agencies[0].agency_timezone
+export default function StopTimesTable({ stopTimes, gtfs, selectedTrip, vehicles, agencies, route }: StopTimesTableProps) {
+  // Stop times are expressed in the timezone of the agency operating the route
+  const agencyTimezone = createTimeService(agencies).routeTimezone(route)
 
   const getStopById = (stopId: string) => {
     const stops = gtfs.getStops({ stopId })
@@ -2,6 +2,7 @@ import { Route, Trip, VehiclePosition, StopTimeWithRealtime, Agency } from 'gtfs
 import { computeDelayFromTimestamp, formatDelay, getContrastColor } from './utils'
 import RouteLabel from './RouteLabel'
 import type { GtfsApi } from '../types/GtfsApi'
+import { createTimeService } from '../utils/timezones'
 
 interface TripsListProps {
   trips: Trip[]
@@ -30,13 +31,9 @@ export default function TripsList({
   gtfs,
   agencies
 }: TripsListProps) {
-  // Get agency timezone (use first agency's timezone)
-  if (agencies.length === 0 || !agencies[0].agency_timezone) {
-    throw new Error('Agency timezone is required but not available')
-  }
-  const agencyTimezone = agencies[0].agency_timezone
-
   const currentRoute = routes.find((r) => r.route_id === selectedRoute)
+  // Stop times are expressed in the timezone of the agency operating the route
+  const agencyTimezone = createTimeService(agencies).routeTimezone(currentRoute)
 
   const groupTripsByHeadsign = (trips: Trip[]): GroupedTrips[] => {
     const grouped: { [key: string]: GroupedTrips } = {}
@@ -0,0 +1,196 @@
+import {
+  Box,
+  Paper,
+  Typography,
+  IconButton,
+  Chip,
+  LinearProgress,
+  FormControlLabel,
+  Switch,
+  List,
+  ListItem,
+  ListItemText,
+  Divider
+} from '@mui/material'
+import { Close as CloseIcon } from '@mui/icons-material'
+import type { Route, Trip, VehiclePosition } from 'gtfs-sqljs'
+import { TripProgress } from '../utils/vehicleProgress'
+import {
+  getRouteColors,
+  getVehicleStatus,
+  getOccupancyStatus,
+  getCongestionLevel,
+  formatDelay,
+  formatDistance,
+  formatTimeAgo
+} from './utils'
+
+interface VehicleTrackingPanelProps {
+  vehicle: VehiclePosition
+  route: Route | null
+  trip: Trip | null
+  progress: TripProgress | null
+  following: boolean
+  onFollowChange: (following: boolean) => void
+  onClose: () => void
+}
+
+// GTFS-RT fields that gtfs-sqljs passes through when the feed provides them
+type VehicleLoad = { occupancy_status?: number | null; occupancy_percentage?: number | null; congestion_level?: number | null }
+
+// Side panel of the map following one vehicle along its trip
+export default function VehicleTrackingPanel({
+  vehicle,
+  route,
+  trip,
+  progress,
+  following,
+  onFollowChange,
+  onClose
+}: VehicleTrackingPanelProps) {
+  const { bgColor, textColor } = route ? getRouteColors(route) : { bgColor: '#CCCCCC', textColor: '#000000' }
+  const load = vehicle as VehiclePosition & VehicleLoad
+  const speed = vehicle.position?.speed
+  const vehicleDistance = progress?.vehicle?.distance ?? null
+  const share = vehicleDistance !== null && progress && progress.length > 0
+    ? Math.min(100, (vehicleDistance / progress.length) * 100)
+    : null
+
+  return (
+    <Paper
+      elevation={4}
+      sx={{
+        position: 'absolute',
+        top: 16,
+        right: 16,
+        bottom: 88,
+        width: { xs: 'calc(100% - 32px)', sm: 360 },
+        zIndex: 1000,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden'
+      }}
+    >
+      <Box sx={{ p: 2, display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+        <Box
+          sx={{
+            px: 1,
+            py: 0.5,
+            borderRadius: 1,
+            backgroundColor: bgColor,
+            color: textColor,
+            fontWeight: 'bold',
+            flexShrink: 0
+          }}
+        >
+          {route?.route_short_name || route?.route_long_name || '?'}
+        </Box>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography variant="subtitle1" sx={{ fontWeight: 'bold', lineHeight: 1.3 }}>
+            {trip?.trip_headsign || route?.route_long_name || 'Unknown trip'}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" display="block">
+            Vehicle {vehicle.vehicle?.label || vehicle.vehicle?.id || 'N/A'}
+            {trip && ` · Trip ${trip.trip_short_name || trip.trip_id}`}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" display="block">
+            {vehicle.current_status !== undefined && vehicle.current_status !== null && `${getVehicleStatus(vehicle.current_status)} · `}
+            {speed ? `${Math.round(speed * 3.6)} km/h` : 'Speed unknown'}
+            {vehicle.timestamp && ` · ${formatTimeAgo(vehicle.timestamp * 1000)}`}
+          </Typography>
+        </Box>
+        <IconButton size="small" onClick={onClose} aria-label="close tracking panel">
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Box sx={{ px: 2, pb: 1, display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        {load.occupancy_status !== undefined && load.occupancy_status !== null && (
+          <Chip size="small" label={getOccupancyStatus(load.occupancy_status)} />
+        )}
+        {load.occupancy_percentage !== undefined && load.occupancy_percentage !== null && (
+          <Chip size="small" label={`${load.occupancy_percentage}% occupied`} />
+        )}
+        {load.congestion_level !== undefined && load.congestion_level !== null && load.congestion_level > 0 && (
+          <Chip
+            size="small"
+            label={getCongestionLevel(load.congestion_level)}
+            color={load.congestion_level >= 3 ? 'warning' : 'default'}
+          />
+        )}
+      </Box>
+
+      {progress && share !== null && (
+        <Box sx={{ px: 2, pb: 1 }}>
+          <LinearProgress variant="determinate" value={share} sx={{ height: 8, borderRadius: 1 }} />
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+            {formatDistance(vehicleDistance!)} of {formatDistance(progress.length)} ({Math.round(share)}%)
+            {progress.vehicle && progress.vehicle.offset > 100 && ` · ${formatDistance(progress.vehicle.offset)} off the route`}
+          </Typography>
+        </Box>
+      )}
+
+      <Box sx={{ px: 2 }}>
+        <FormControlLabel
+          control={<Switch size="small" checked={following} onChange={(e) => onFollowChange(e.target.checked)} />}
+          label={<Typography variant="body2">Follow vehicle</Typography>}
+        />
+      </Box>
+
+      <Divider />
+
+      <List dense sx={{ flex: 1, overflow: 'auto' }}>
+        {progress?.stops.map((stopProgress, idx) => {
+          const isNext = idx === progress.nextStopIndex
+          const late = stopProgress.delay !== null && stopProgress.delay >= 60
+          return (
+            <ListItem
+              key={`${stopProgress.stopTime.stop_sequence}-${stopProgress.stopTime.stop_id}`}
+              sx={{
+                opacity: stopProgress.passed ? 0.5 : 1,
+                borderLeft: 4,
+                borderColor: isNext ? bgColor : 'transparent',
+                backgroundColor: isNext ? 'action.selected' : undefined
+              }}
+              secondaryAction={
+                <Box sx={{ textAlign: 'right' }}>
+                  <Typography
+                    variant="body2"
+                    sx={{
+                      fontWeight: stopProgress.predicted ? 'bold' : 'normal',
+                      color: stopProgress.predicted ? (late ? 'error.main' : 'success.main') : 'text.primary'
+                    }}
+                  >
+                    {stopProgress.predicted || stopProgress.scheduled}
+                  </Typography>
+                  {stopProgress.predicted && stopProgress.delay !== 0 && (
+                    <Typography variant="caption" color="text.secondary">
+                      {stopProgress.scheduled} ({formatDelay(stopProgress.delay!)})
+                    </Typography>
+                  )}
+                </Box>
+              }
+            >
+              <ListItemText
+                primary={
+                  <Box component="span" sx={{ fontWeight: isNext ? 'bold' : 'normal' }}>
+                    {stopProgress.stop?.stop_name || stopProgress.stopTime.stop_id}
+                  </Box>
+                }
+                secondary={[
+                  isNext && (progress.atStop ? 'At stop' : 'Next stop'),
+                  stopProgress.distance !== null && formatDistance(stopProgress.distance)
+                ].filter(Boolean).join(' · ')}
+              />
+            </ListItem>
+          )
+        })}
+        {(!progress || progress.stops.length === 0) && (
+          <ListItem>
+            <ListItemText secondary="No stop times for this vehicle's trip" />
+          </ListItem>
+        )}
+      </List>
+    </Paper>
+  )
+}
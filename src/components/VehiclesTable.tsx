@@ -3,6 +3,7 @@ import { getVehicleStatus, getVehicleStatusColor, formatTimeAgo, formatDistance,
 import RouteLabel from './RouteLabel'
 import { getDistance } from 'geolib'
 import type { GtfsApi } from '../types/GtfsApi'
+import { createTimeService } from '../utils/timezones'
 
 interface VehiclesTableProps {
   vehicles: VehiclePosition[]
@@ -22,18 +23,15 @@ interface GroupedVehicles {
 }
 
 export default function VehiclesTable({ vehicles, getRouteById, gtfs, realtimeLastUpdated, agencies }: VehiclesTableProps) {
-  // Get agency timezone (use first agency's timezone)
-  if (agencies.length === 0 || !agencies[0].agency_timezone) {
-    throw new Error('Agency timezone is required but not available')
-  }
-  const agencyTimezone = agencies[0].agency_timezone
+  const timeService = createTimeService(agencies)
 
   const getStopById = (stopId: string) => {
     const stops = gtfs.getStops({ stopId })
     return stops.length > 0 ? stops[0] : null
   }
 
-  const getTripDelay = (tripId: string): number | undefined => {
+  // Stop times are expressed in the timezone of the agency operating the route
+  const getTripDelay = (tripId: string, agencyTimezone: string): number | undefined => {
     try {
       const stopTimesData = gtfs.getStopTimes({
         tripId: tripId,
@@ -179,7 +177,7 @@ export default function VehiclesTable({ vehicles, getRouteById, gtfs, realtimeLa
                         }
                       }
 
-                      const delay = tripId ? getTripDelay(tripId) : undefined
+                      const delay = tripId ? getTripDelay(tripId, timeService.routeTimezone(group.route)) : undefined
 
                       return (
                         <tr
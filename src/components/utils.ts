@@ -1,3 +1,5 @@
+import { delayFromTimestamp, toZonedTime } from '../utils/timezones'
+
 export const getContrastColor = (hexColor: string) => {
   if (!hexColor) return '#000000'
   const hex = hexColor.replace('#', '')
@@ -8,6 +10,15 @@ export const getContrastColor = (hexColor: string) => {
   return yiq >= 128 ? '#000000' : '#FFFFFF'
 }
 
+// Background and text colors of a route, as displayed by RouteLabel
+export const getRouteColors = (route: { route_color?: string | null; route_text_color?: string | null }) => {
+  const bgColor = route.route_color ? `#${route.route_color}` : '#3b82f6'
+  const textColor = route.route_text_color
+    ? `#${route.route_text_color}`
+    : getContrastColor(bgColor)
+  return { bgColor, textColor }
+}
+
 export const formatDate = (timestamp?: number) => {
   if (!timestamp) return 'N/A'
   return new Date(timestamp * 1000).toLocaleString()
@@ -26,53 +37,16 @@ export const secondsToTime = (totalSeconds: number): string => {
   return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
 }
 
-export const unixTimestampToTime = (timestamp: number, timezone: string): string => {
-  const date = new Date(timestamp * 1000)
-
-  // Use the agency's timezone
-  const formatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: timezone,
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-    hour12: false
-  })
-  return formatter.format(date)
-}
+export const unixTimestampToTime = (timestamp: number, timezone: string): string =>
+  secondsToTime(toZonedTime(timestamp, timezone).seconds)
 
-export const computeDelayFromTimestamp = (scheduledTime: string, realtimeTimestamp: number, timezone: string): number => {
-  // Get scheduled time in seconds since midnight
-  const scheduledSeconds = timeToSeconds(scheduledTime)
-
-  // Get realtime as seconds since midnight in the agency's timezone
-  const date = new Date(realtimeTimestamp * 1000)
-  const formatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: timezone,
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-    hour12: false
-  })
-  const timeStr = formatter.format(date)
-  const realtimeSecondsOfDay = timeToSeconds(timeStr)
-
-  // Handle day wrap-around for GTFS times >= 24:00:00
-  let delay = realtimeSecondsOfDay - scheduledSeconds
-
-  // If scheduled time is >= 24:00:00 (next day), adjust
-  if (scheduledSeconds >= 86400) {
-    // Scheduled time is for next day
-    delay = (realtimeSecondsOfDay + 86400) - scheduledSeconds
-  } else if (delay > 43200) {
-    // If delay seems too large (>12 hours), realtime might be next day
-    delay -= 86400
-  } else if (delay < -43200) {
-    // If delay seems too negative, scheduled might be next day
-    delay += 86400
-  }
-
-  return delay
-}
+// Delay of a realtime timestamp against a scheduled GTFS time, in the timezone of the trip's agency
+export const computeDelayFromTimestamp = (
+  scheduledTime: string,
+  realtimeTimestamp: number,
+  timezone: string,
+  serviceDate?: string
+): number => delayFromTimestamp(timeToSeconds(scheduledTime), realtimeTimestamp, timezone, serviceDate)
 
 export const computeDelay = (scheduledTime: string, realtimeTime: string): number => {
   return timeToSeconds(realtimeTime) - timeToSeconds(scheduledTime)
@@ -108,6 +82,33 @@ export const getVehicleStatusColor = (status: number) => {
   }
 }
 
+// VehiclePosition.OccupancyStatus of GTFS-RT
+export const getOccupancyStatus = (status: number) => {
+  switch (status) {
+    case 0: return 'Empty'
+    case 1: return 'Many seats available'
+    case 2: return 'Few seats available'
+    case 3: return 'Standing room only'
+    case 4: return 'Crushed standing room only'
+    case 5: return 'Full'
+    case 6: return 'Not accepting passengers'
+    case 7: return 'No data available'
+    case 8: return 'Not boardable'
+    default: return 'Unknown'
+  }
+}
+
+// VehiclePosition.CongestionLevel of GTFS-RT
+export const getCongestionLevel = (level: number) => {
+  switch (level) {
+    case 1: return 'Running smoothly'
+    case 2: return 'Stop and go'
+    case 3: return 'Congestion'
+    case 4: return 'Severe congestion'
+    default: return 'Unknown'
+  }
+}
+
 export const formatTimeAgo = (timestamp: number): string => {
   const seconds = Math.floor((Date.now() - timestamp) / 1000)
 
@@ -129,3 +130,9 @@ export const formatDistance = (meters: number): string => {
   }
   return `${(meters / 1000).toFixed(1)} km`
 }
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
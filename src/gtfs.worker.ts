@@ -23,9 +23,124 @@ import {
   GeoJsonFeatureCollection
 } from 'gtfs-sqljs'
 import { createSqlJsAdapter } from 'gtfs-sqljs/adapters/sql-js'
+import {
+  TripPlanRequest,
+  Itinerary,
+  IsochroneRequest,
+  ReachableStop,
+  Connection,
+  Footpath,
+  DEFAULT_MAX_WALK_DISTANCE,
+  buildConnections,
+  buildFootpaths,
+  planItineraries,
+  computeIsochrone
+} from './utils/tripPlanner'
+import {
+  GtfsCacheEntry,
+  getRemoteVersion,
+  computeContentHash,
+  findCacheEntry,
+  findLatestCacheEntry,
+  readCachedDatabase,
+  writeCachedDatabase,
+  listCacheEntries,
+  deleteCacheEntry,
+  clearCache
+} from './utils/gtfsCache'
+import { ValidationFinding, runFeedValidation } from './utils/feedValidation'
+import {
+  RealtimeFeedDiagnostics,
+  StaticContext,
+  diagnoseFeed,
+  failedFeed,
+  restoreFailed
+} from './utils/realtimeDiagnostics'
+import {
+  FEED_SEPARATOR,
+  namespaceId,
+  namespaceRecord,
+  splitNamespacedId,
+  localizeFilters
+} from './utils/feedNamespace'
+import {
+  EXPORT_FORMAT_VERSION,
+  isSupportedVersion,
+  isSqliteFile,
+  validateSchema,
+  describeSchemaErrors,
+  describeVersionMismatch
+} from './utils/databaseSchema'
+import {
+  RecorderOptions,
+  RecorderDatabase,
+  RecordingInfo,
+  RecordedStopTimeUpdate,
+  DEFAULT_RECORDER_OPTIONS,
+  ensureRecorderTables,
+  recordSnapshot,
+  pruneSnapshots,
+  clearRecording,
+  readRecordingInfo,
+  readVehiclePositions,
+  readStopTimeUpdates,
+  readStopTimeUpdateHistory,
+  observedStopTimeUpdates,
+  applyRecordedUpdates
+} from './utils/realtimeRecorder'
+import {
+  PunctualityThresholds,
+  PunctualityReport,
+  DEFAULT_THRESHOLDS,
+  collectObservations,
+  buildPunctualityReport
+} from './utils/punctuality'
+import {
+  FrequencyRow,
+  FrequencyTemplate,
+  buildFrequencyTemplates,
+  localizeTripIdFilter,
+  templateTripIds,
+  expandFrequencyTrips,
+  expandFrequencyStopTimes
+} from './utils/frequencies'
+import { HeadwayOptions, HeadwayReport, DEFAULT_HEADWAY_OPTIONS, buildHeadwayReport } from './utils/headways'
+import {
+  ServiceCalendar,
+  ServiceDay,
+  ServiceDayDetails,
+  ServiceDateRange,
+  CalendarRow,
+  CalendarDateRow,
+  buildServiceCalendars,
+  buildServiceDays,
+  getServiceDateRange
+} from './utils/serviceCalendar'
+import { FeedSnapshot } from './utils/feedDiff'
+import { timeToSeconds, secondsToTime } from './components/utils'
+import {
+  createTimeService,
+  isCurrentServiceDate,
+  serviceDayStart,
+  serviceTimeToUnix
+} from './utils/timezones'
+import {
+  StopSearchIndex,
+  StopSearchResult,
+  buildStopSearchIndex,
+  searchStops as searchStopIndex
+} from './utils/stopSearch'
+import { StopHierarchy, buildStopHierarchy, expandStations } from './utils/stationHierarchy'
+import {
+  PropagatedStopTime,
+  ScheduledStop,
+  TripStopUpdate,
+  flattenStopTimeUpdate,
+  propagateDelays
+} from './utils/delayPropagation'
 
 export interface ProgressInfo {
-  phase: 'checking_cache' | 'loading_from_cache' | 'downloading' | 'extracting' | 'creating_schema' | 'inserting_data' | 'creating_indexes' | 'analyzing' | 'loading_realtime' | 'saving_cache' | 'complete'
+  phase: 'checking_cache' | 'loading_from_cache' | 'opening_database' | 'downloading' | 'extracting' | 'creating_schema' | 'inserting_data' | 'creating_indexes' | 'analyzing' | 'loading_realtime' | 'saving_cache' | 'complete'
   currentFile: string | null
   filesCompleted: number
   totalFiles: number
@@ -49,18 +164,60 @@ export interface ExtendedStopTimeFilters extends Omit<StopTimeFilters, 'serviceI
   serviceIds?: string | string[]
 }
 
+// Realtime entities older than this (in seconds) are considered stale
+const STALENESS_THRESHOLD = 120
+
+// Recorded updates are read up to this long (in seconds) after the last scheduled event of a report
+const MAX_RECORDED_DELAY = 3 * 3600
+
+// Vehicles further than this (in meters) from their trip path are reported by diagnostics
+const MAX_DISTANCE_FROM_SHAPE = 500
+
+const cacheProgress = (phase: ProgressInfo['phase'], message: string, percentComplete: number): ProgressInfo => ({
+  phase,
+  currentFile: null,
+  filesCompleted: 0,
+  totalFiles: 0,
+  rowsProcessed: 0,
+  totalRows: 0,
+  percentComplete,
+  message
+})
+
+// A static feed to load, with the GTFS-RT URLs that belong to it
+export interface FeedSource {
+  id: string
+  url: string
+  rtUrls: string[]
+}
+
+export interface LoadedFeed {
+  id: string
+  url: string | null
+  realtimeFeedUrls: string[]
+}
+
+// Id of the feed loaded by loadGtfs / loadGtfsFromData / loadGtfsFromDatabase
+export const DEFAULT_FEED_ID = 'default'
+
+// Route ids of the trips serving each stop on a service date, keyed by stop id
+export type StopRouteIndex = Record<string, string[]>
+
 export interface GtfsWorkerAPI {
   // Lifecycle methods
   loadGtfs: (gtfsUrl: string, gtfsRtUrls: string[], onProgress: (progress: ProgressInfo) => void) => Promise<void>
+  loadFeeds: (sources: FeedSource[], onProgress: (progress: ProgressInfo) => void) => Promise<void>
   loadGtfsFromData: (data: ArrayBuffer, gtfsRtUrls: string[], onProgress: (progress: ProgressInfo) => void) => Promise<void>
+  loadGtfsFromDatabase: (data: ArrayBuffer, gtfsRtUrls: string[], onProgress: (progress: ProgressInfo) => void) => Promise<void>
   clearData: () => Promise<void>
+  getFeeds: () => LoadedFeed[]
 
   // Query methods - matching gtfs-sqljs interface
   getAgencies: (filters?: AgencyFilters) => Promise<Agency[]>
   getRoutes: (filters?: RouteFilters) => Promise<Route[]>
   getTrips: (filters?: ExtendedTripFilters) => Promise<Trip[]>
   getStops: (filters?: StopFilters) => Promise<Stop[]>
-  getStopTimes: (filters?: ExtendedStopTimeFilters) => Promise<StopTimeWithRealtime[]>
+  getStopTimes: (filters?: ExtendedStopTimeFilters) => Promise<PropagatedStopTime[]>
   getStopTimeUpdates: (filters?: StopTimeUpdateFilters) => Promise<StopTimeUpdate[]>
   getAlerts: (filters?: AlertFilters) => Promise<Alert[]>
   getVehiclePositions: (filters?: VehiclePositionFilters) => Promise<VehiclePosition[]>
@@ -70,226 +227,1308 @@ export interface GtfsWorkerAPI {
   fetchRealtimeData: () => Promise<void>
   getActiveServiceIds: (date: string) => Promise<string[]>
   getLastRealtimeFetchTimestamp: () => number | null
+  diagnoseRealtime: () => Promise<RealtimeFeedDiagnostics[]>
+
+  // Recorder methods
+  setRecorderOptions: (options: RecorderOptions) => void
+  getRecordingInfo: () => RecordingInfo
+  clearRecording: () => void
+  getRecordedVehiclePositions: (at: number) => VehiclePosition[]
+  getRecordedStopTimeUpdates: (tripIds: string[], at: number) => RecordedStopTimeUpdate[]
 
   // Database methods
-  getDatabase: () => Promise<ArrayBuffer | null>
+  // The export includes the rec_* tables of the realtime recorder, which replay again once it is loaded back
+  getDatabase: (feedId?: string) => Promise<ArrayBuffer | null>
+
+  // Cache methods
+  getCacheEntries: () => Promise<GtfsCacheEntry[]>
+  getCurrentCacheKeys: () => string[]
+  deleteCacheEntry: (key: string) => Promise<void>
+  clearCache: () => Promise<void>
 
   // Stop list methods
   buildOrderedStopList: (tripIds: string[]) => Promise<Stop[]>
+  getStopRouteIndex: (date: string) => Promise<StopRouteIndex>
+  searchStops: (query: string, limit?: number) => Promise<StopSearchResult[]>
+  getStopHierarchy: () => Promise<StopHierarchy>
+  getPlatformStops: (stopIds: string[]) => Promise<Stop[]>
+
+  // Calendar methods
+  getServiceCalendars: (serviceIds: string[]) => Promise<ServiceCalendar[]>
+  getServiceDateRange: () => Promise<ServiceDateRange | null>
+  getServiceDays: (startDate: string, endDate: string) => Promise<ServiceDay[]>
+  getServiceDayDetails: (date: string) => Promise<ServiceDayDetails>
 
   // Shape methods
   getShapesToGeojson: (filters?: ShapeFilters, precision?: number) => Promise<GeoJsonFeatureCollection>
+
+  // Journey planning methods
+  planTrip: (request: TripPlanRequest) => Promise<Itinerary[]>
+  computeIsochrone: (request: IsochroneRequest) => Promise<ReachableStop[]>
+
+  // Validation methods
+  validateFeed: () => Promise<ValidationFinding[]>
+
+  // Diff methods
+  // With a feed id, only that feed is taken, with its own (not namespaced) ids
+  getFeedSnapshot: (dates: string[], feedId?: string) => Promise<FeedSnapshot>
+
+  // Analytics methods
+  getPunctualityReport: (date: string, thresholds?: PunctualityThresholds) => Promise<PunctualityReport>
+  getHeadways: (routeId: string, directionId: number, date: string, options?: HeadwayOptions) => Promise<HeadwayReport>
+}
+
+interface FeedState {
+  id: string
+  url: string | null
+  gtfs: GtfsSqlJs
+  realtimeFeedUrls: string[]
+  cacheKey: string | null
+  recorder: RecorderDatabase // realtime recorder tables, created when the feed is opened
 }
 
 class GtfsWorker implements GtfsWorkerAPI {
-  private gtfs: GtfsSqlJs | null = null
+  private feeds: FeedState[] = []
+  private diagnosingRealtime = false
+  private recorderOptions: RecorderOptions = DEFAULT_RECORDER_OPTIONS
+  private stopRouteIndexes = new Map<string, StopRouteIndex>()
+  private frequencyTemplates = new Map<GtfsSqlJs, Map<string, FrequencyTemplate>>()
+  private stopSearchIndex: StopSearchIndex | null = null
+  private stopHierarchy: StopHierarchy | null = null
 
   async loadGtfs(
     gtfsUrl: string,
     gtfsRtUrls: string[],
     onProgress: (progress: ProgressInfo) => void
+  ): Promise<void> {
+    await this.loadFeeds([{ id: DEFAULT_FEED_ID, url: gtfsUrl, rtUrls: gtfsRtUrls }], onProgress)
+  }
+
+  async loadFeeds(
+    sources: FeedSource[],
+    onProgress: (progress: ProgressInfo) => void
   ): Promise<void> {
     try {
       // Clear existing data before loading new GTFS
-      if (this.gtfs) {
+      if (this.feeds.length > 0) {
         await this.clearData()
       }
 
-      const adapter = await createSqlJsAdapter({
-        locateFile: (filename: string) => {
-          if (filename.endsWith('.wasm')) {
-            // WASM files are at the base path, not relative to worker location
-            const base = import.meta.env.BASE_URL || '/'
-            return new URL(filename, new URL(base, self.location.origin)).href
-          }
-          return filename
-        }
-      })
+      const ids = sources.map(source => source.id)
+      if (new Set(ids).size !== ids.length) {
+        throw new Error('Feed ids must be unique')
+      }
+      if (sources.length > 1 && ids.some(id => !id || id.includes(FEED_SEPARATOR))) {
+        throw new Error(`Feed ids must be non-empty and must not contain "${FEED_SEPARATOR}"`)
+      }
+
+      for (const source of sources) {
+        // Prefix progress messages with the feed id so that multi-feed loads stay readable
+        const feedProgress = sources.length > 1
+          ? (progress: ProgressInfo) => onProgress({ ...progress, message: `[${source.id}] ${progress.message}` })
+          : onProgress
+        this.feeds.push(await this.openFeed(source, feedProgress))
+      }
 
-      this.gtfs = await GtfsSqlJs.fromZip(gtfsUrl, {
+      // Fetch initial realtime data
+      await Promise.all(this.feeds
+        .filter(feed => feed.realtimeFeedUrls.length > 0)
+        .map(feed => feed.gtfs.fetchRealtimeData()))
+      await this.recordRealtime()
+    } catch (error) {
+      await this.clearData()
+      throw new Error(`Failed to load GTFS: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  async loadGtfsFromData(
+    data: ArrayBuffer,
+    gtfsRtUrls: string[],
+    onProgress: (progress: ProgressInfo) => void
+  ): Promise<void> {
+    try {
+      if (this.feeds.length > 0) {
+        await this.clearData()
+      }
+
+      const adapter = await this.createAdapter()
+
+      const gtfs = await GtfsSqlJs.fromZipData(data, {
         adapter,
         realtimeFeedUrls: gtfsRtUrls,
-        stalenessThreshold: 120,
+        stalenessThreshold: STALENESS_THRESHOLD,
         skipFiles: ['fare_attributes.txt'],
         onProgress: (progress) => {
-          // Forward progress to main thread
           onProgress(progress as ProgressInfo)
         }
       })
+      this.feeds = [this.openedFeed(DEFAULT_FEED_ID, null, gtfs, gtfsRtUrls, null)]
 
-      // Fetch initial realtime data
       if (gtfsRtUrls.length > 0) {
-        await this.gtfs.fetchRealtimeData()
+        await gtfs.fetchRealtimeData()
+        await this.recordRealtime()
       }
     } catch (error) {
       throw new Error(`Failed to load GTFS: ${error instanceof Error ? error.message : String(error)}`)
     }
   }
 
-  async loadGtfsFromData(
+  async loadGtfsFromDatabase(
     data: ArrayBuffer,
     gtfsRtUrls: string[],
     onProgress: (progress: ProgressInfo) => void
   ): Promise<void> {
     try {
-      if (this.gtfs) {
+      if (this.feeds.length > 0) {
         await this.clearData()
       }
 
-      const adapter = await createSqlJsAdapter({
-        locateFile: (filename: string) => {
-          if (filename.endsWith('.wasm')) {
-            const base = import.meta.env.BASE_URL || '/'
-            return new URL(filename, new URL(base, self.location.origin)).href
-          }
-          return filename
-        }
-      })
+      if (!isSqliteFile(data)) {
+        throw new Error('Not a SQLite database')
+      }
+
+      onProgress(cacheProgress('opening_database', 'Opening database...', 10))
 
-      this.gtfs = await GtfsSqlJs.fromZipData(data, {
+      const adapter = await this.createAdapter()
+      const gtfs = await GtfsSqlJs.fromDatabase(data, {
         adapter,
         realtimeFeedUrls: gtfsRtUrls,
-        stalenessThreshold: 120,
+        stalenessThreshold: STALENESS_THRESHOLD
+      })
+
+      onProgress(cacheProgress('opening_database', 'Validating schema...', 60))
+
+      const version = this.readSchemaVersion(gtfs)
+      if (!isSupportedVersion(version)) {
+        await gtfs.close()
+        throw new Error(`Unsupported database version (${describeVersionMismatch(version)})`)
+      }
+      const validation = validateSchema(this.readSchema(gtfs))
+      if (!validation.valid) {
+        await gtfs.close()
+        throw new Error(`Incompatible database schema (${describeSchemaErrors(validation)})`)
+      }
+      this.feeds = [this.openedFeed(DEFAULT_FEED_ID, null, gtfs, gtfsRtUrls, null)]
+
+      if (gtfsRtUrls.length > 0) {
+        await gtfs.fetchRealtimeData()
+        await this.recordRealtime()
+      }
+    } catch (error) {
+      throw new Error(`Failed to load database: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  async clearData(): Promise<void> {
+    const feeds = this.feeds
+    this.feeds = []
+    this.stopRouteIndexes.clear()
+    this.frequencyTemplates.clear()
+    this.stopSearchIndex = null
+    this.stopHierarchy = null
+    await Promise.all(feeds.map(feed => feed.gtfs.close()))
+  }
+
+  getFeeds(): LoadedFeed[] {
+    return this.feeds.map(({ id, url, realtimeFeedUrls }) => ({ id, url, realtimeFeedUrls }))
+  }
+
+  private requireFeeds(): FeedState[] {
+    if (this.feeds.length === 0) {
+      throw new Error('GTFS not loaded')
+    }
+    return this.feeds
+  }
+
+  /**
+   * Run a query on every loaded feed and merge the results.
+   * With several feeds, filters are translated to each feed's local ids and results are namespaced.
+   */
+  private async queryFeeds<T, F extends object>(
+    filters: F | undefined,
+    run: (gtfs: GtfsSqlJs, filters: F | undefined) => Promise<T[]>
+  ): Promise<T[]> {
+    const feeds = this.requireFeeds()
+    if (feeds.length === 1) {
+      return await run(feeds[0].gtfs, filters)
+    }
+
+    const feedIds = feeds.map(feed => feed.id)
+    const results = await Promise.all(feeds.map(async feed => {
+      const localFilters = localizeFilters(feed.id, feedIds, filters)
+      if (localFilters === null) return []
+      const rows = await run(feed.gtfs, localFilters)
+      return rows.map(row => namespaceRecord(feed.id, row))
+    }))
+
+    // Each feed applied the limit itself; taking rows of every feed in turn keeps all feeds represented
+    const limit = (filters as { limit?: number } | undefined)?.limit
+    if (!limit) return results.flat()
+    const merged: T[] = []
+    for (let i = 0; merged.length < limit && results.some(rows => i < rows.length); i++) {
+      results.forEach(rows => {
+        if (i < rows.length && merged.length < limit) merged.push(rows[i])
+      })
+    }
+    return merged
+  }
+
+  // Local ids of one feed among a list of namespaced ids
+  private localIds(feedId: string, ids: string[]): string[] {
+    const feedIds = this.feeds.map(feed => feed.id)
+    return ids
+      .map(id => splitNamespacedId(id, feedIds))
+      .filter(split => split?.feedId === feedId)
+      .map(split => split!.localId)
+  }
+
+  private async openFeed(source: FeedSource, onProgress: (progress: ProgressInfo) => void): Promise<FeedState> {
+    const { url, rtUrls } = source
+    const adapter = await this.createAdapter()
+
+    onProgress(cacheProgress('checking_cache', 'Checking for a cached database...', 0))
+
+    // The remote version (ETag / Last-Modified) identifies the cached database.
+    // If the server cannot be reached, fall back to the last database stored for this URL.
+    let version: string | null = null
+    let reachable = true
+    try {
+      version = await getRemoteVersion(url)
+    } catch (error) {
+      reachable = false
+      console.warn('GTFS server unreachable, looking for an offline copy:', error)
+    }
+
+    const cached = await (reachable
+      ? (version ? findCacheEntry(url, version) : Promise.resolve(null))
+      : findLatestCacheEntry(url)
+    ).catch((error) => {
+      console.warn('Failed to read GTFS cache:', error)
+      return null
+    })
+
+    const feed = (gtfs: GtfsSqlJs, cacheKey: string | null): FeedState =>
+      this.openedFeed(source.id, url, gtfs, rtUrls, cacheKey)
+
+    if (cached) {
+      const gtfs = await this.restoreFromCache(cached, adapter, rtUrls, onProgress)
+      if (gtfs) return feed(gtfs, cached.key)
+    }
+
+    if (version) {
+      const gtfs = await GtfsSqlJs.fromZip(url, {
+        adapter,
+        realtimeFeedUrls: rtUrls,
+        stalenessThreshold: STALENESS_THRESHOLD,
         skipFiles: ['fare_attributes.txt'],
         onProgress: (progress) => {
+          // Forward progress to main thread
           onProgress(progress as ProgressInfo)
         }
       })
+      return feed(gtfs, await this.saveToCache(gtfs, url, version, onProgress))
+    }
 
-      if (gtfsRtUrls.length > 0) {
-        await this.gtfs.fetchRealtimeData()
+    // No version header: download the archive and identify it by its content hash
+    const data = await this.downloadZip(url, onProgress)
+    const hash = await computeContentHash(data)
+    const hashed = await findCacheEntry(url, hash).catch(() => null)
+    if (hashed) {
+      const gtfs = await this.restoreFromCache(hashed, adapter, rtUrls, onProgress)
+      if (gtfs) return feed(gtfs, hashed.key)
+    }
+
+    const gtfs = await GtfsSqlJs.fromZipData(data, {
+      adapter,
+      realtimeFeedUrls: rtUrls,
+      stalenessThreshold: STALENESS_THRESHOLD,
+      skipFiles: ['fare_attributes.txt'],
+      onProgress: (progress) => {
+        onProgress(progress as ProgressInfo)
       }
-    } catch (error) {
-      throw new Error(`Failed to load GTFS: ${error instanceof Error ? error.message : String(error)}`)
+    })
+    return feed(gtfs, await this.saveToCache(gtfs, url, hash, onProgress))
+  }
+
+  private each<T>(gtfs: GtfsSqlJs, sql: string, params: (string | number)[], callback: (row: T) => void): void {
+    const stmt = gtfs.getDatabase().prepare(sql)
+    try {
+      if (params.length > 0) {
+        stmt.bind(params)
+      }
+      while (stmt.step()) {
+        callback(stmt.getAsObject() as T)
+      }
+    } finally {
+      stmt.free()
     }
   }
 
-  async clearData(): Promise<void> {
-    if (this.gtfs) {
-      await this.gtfs.close()
-      this.gtfs = null
+  private query<T>(gtfs: GtfsSqlJs, sql: string, params: (string | number)[] = []): T[] {
+    const rows: T[] = []
+    this.each<T>(gtfs, sql, params, row => rows.push(row))
+    return rows
+  }
+
+  // Frequency-based trip templates of a feed (frequencies.txt), loaded on first use
+  private getFrequencyTemplates(gtfs: GtfsSqlJs): Map<string, FrequencyTemplate> {
+    const cached = this.frequencyTemplates.get(gtfs)
+    if (cached) return cached
+
+    const hasTable = this.query(gtfs, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'frequencies'").length > 0
+    const rows = hasTable
+      ? this.query<FrequencyRow>(gtfs, 'SELECT trip_id, start_time, end_time, headway_secs, exact_times FROM frequencies')
+      : []
+
+    // The first departure of a template gives the offset of its stop times
+    const firstTimes = new Map<string, number>()
+    this.queryByIds<{ trip_id: string; time: string | null }>(
+      gtfs,
+      placeholders => `SELECT trip_id, COALESCE(NULLIF(departure_time, ''), arrival_time) AS time FROM stop_times
+        WHERE trip_id IN (${placeholders}) ORDER BY stop_sequence`,
+      [...new Set(rows.map(row => row.trip_id))]
+    ).forEach(row => {
+      if (row.time && !firstTimes.has(row.trip_id)) firstTimes.set(row.trip_id, timeToSeconds(row.time))
+    })
+
+    const templates = buildFrequencyTemplates(rows, firstTimes)
+    this.frequencyTemplates.set(gtfs, templates)
+    return templates
+  }
+
+  // Live delays of trip updates carried to the stops without their own update
+  private async propagateDelays(gtfs: GtfsSqlJs, stopTimes: StopTimeWithRealtime[]): Promise<PropagatedStopTime[]> {
+    const tripIds = new Set(stopTimes.map(st => st.trip_id))
+    const updatesByTrip = new Map<string, TripStopUpdate[]>()
+    const stopTimeUpdates = await gtfs.getStopTimeUpdates()
+    stopTimeUpdates.forEach(stu => {
+      if (!stu.trip_id || !tripIds.has(stu.trip_id)) return
+      if (!updatesByTrip.has(stu.trip_id)) updatesByTrip.set(stu.trip_id, [])
+      updatesByTrip.get(stu.trip_id)!.push(flattenStopTimeUpdate(stu))
+    })
+    if (updatesByTrip.size === 0) return stopTimes
+
+    // Whole trips, as stopTimes may only hold some of their stops
+    const schedules = new Map<string, ScheduledStop[]>()
+    this.queryByIds<ScheduledStop & { trip_id: string }>(
+      gtfs,
+      placeholders => `SELECT trip_id, stop_id, stop_sequence, arrival_time, departure_time FROM stop_times
+        WHERE trip_id IN (${placeholders})`,
+      [...updatesByTrip.keys()]
+    ).forEach(row => {
+      if (!schedules.has(row.trip_id)) schedules.set(row.trip_id, [])
+      schedules.get(row.trip_id)!.push(row)
+    })
+    // Times of a trip are in the timezone of the agency of its route
+    const timeService = createTimeService(await gtfs.getAgencies())
+    const tripTimezones = new Map<string, string>()
+    this.queryByIds<{ trip_id: string; agency_id: string | null }>(
+      gtfs,
+      placeholders => `SELECT t.trip_id, r.agency_id FROM trips t JOIN routes r ON r.route_id = t.route_id
+        WHERE t.trip_id IN (${placeholders})`,
+      [...updatesByTrip.keys()]
+    ).forEach(row => tripTimezones.set(row.trip_id, timeService.agencyTimezone(row.agency_id)))
+
+    const byTrip = new Map<string, StopTimeWithRealtime[]>()
+    stopTimes.forEach(st => {
+      if (!byTrip.has(st.trip_id)) byTrip.set(st.trip_id, [])
+      byTrip.get(st.trip_id)!.push(st)
+    })
+    const propagated = new Map<StopTimeWithRealtime, PropagatedStopTime>()
+    byTrip.forEach((tripStopTimes, tripId) => {
+      const updates = updatesByTrip.get(tripId)
+      if (!updates) return
+      propagateDelays(tripStopTimes, updates, schedules.get(tripId), tripTimezones.get(tripId) ?? timeService.feedTimezone)
+        .forEach((stopTime, i) => propagated.set(tripStopTimes[i], stopTime))
+    })
+    return stopTimes.map(st => propagated.get(st) ?? st)
+  }
+
+  // Timezone of each trip: the timezone of the agency operating its route
+  private async getTripTimezones(trips: Trip[]): Promise<Map<string, string>> {
+    const [agencies, routes] = await Promise.all([this.getAgencies(), this.getRoutes()])
+    const timeService = createTimeService(agencies)
+    const routeMap = new Map(routes.map(route => [route.route_id, route]))
+    return new Map(trips.map(trip => [trip.trip_id, timeService.routeTimezone(routeMap.get(trip.route_id))]))
+  }
+
+  // Run a query with an IN (...) list, in chunks to stay below SQLite's parameter limit
+  private queryByIds<T>(gtfs: GtfsSqlJs, buildSql: (placeholders: string) => string, ids: string[]): T[] {
+    const rows: T[] = []
+    for (let i = 0; i < ids.length; i += 500) {
+      const chunk = ids.slice(i, i + 500)
+      rows.push(...this.query<T>(gtfs, buildSql(chunk.map(() => '?').join(', ')), chunk))
     }
+    return rows
   }
 
-  async getAgencies(filters?: AgencyFilters): Promise<Agency[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
+  private buildStaticContext(gtfs: GtfsSqlJs, tripIds: string[]): StaticContext {
+    const tripStops = new Map<string, Set<string>>()
+    const stopPaths = new Map<string, [number, number][]>()
+    this.queryByIds<{ trip_id: string; stop_id: string; stop_lat: number; stop_lon: number }>(
+      gtfs,
+      placeholders => `SELECT st.trip_id, st.stop_id, s.stop_lat, s.stop_lon FROM stop_times st
+        JOIN stops s ON s.stop_id = st.stop_id
+        WHERE st.trip_id IN (${placeholders}) ORDER BY st.trip_id, st.stop_sequence`,
+      tripIds
+    ).forEach(row => {
+      if (!tripStops.has(row.trip_id)) {
+        tripStops.set(row.trip_id, new Set())
+        stopPaths.set(row.trip_id, [])
+      }
+      tripStops.get(row.trip_id)!.add(row.stop_id)
+      stopPaths.get(row.trip_id)!.push([row.stop_lat, row.stop_lon])
+    })
+
+    const tripShapeIds = this.queryByIds<{ trip_id: string; shape_id: string | null }>(
+      gtfs,
+      placeholders => `SELECT trip_id, shape_id FROM trips WHERE trip_id IN (${placeholders})`,
+      tripIds
+    )
+    const shapeIds = [...new Set(tripShapeIds.map(t => t.shape_id).filter((id): id is string => !!id))]
+    const shapes = new Map<string, [number, number][]>()
+    this.queryByIds<{ shape_id: string; shape_pt_lat: number; shape_pt_lon: number }>(
+      gtfs,
+      placeholders => `SELECT shape_id, shape_pt_lat, shape_pt_lon FROM shapes
+        WHERE shape_id IN (${placeholders}) ORDER BY shape_id, shape_pt_sequence`,
+      shapeIds
+    ).forEach(row => {
+      if (!shapes.has(row.shape_id)) shapes.set(row.shape_id, [])
+      shapes.get(row.shape_id)!.push([row.shape_pt_lat, row.shape_pt_lon])
+    })
+
+    // Use the shape when available, otherwise the sequence of served stops
+    const tripShapes = new Map<string, [number, number][]>()
+    tripShapeIds.forEach(({ trip_id, shape_id }) => {
+      const path = (shape_id && shapes.get(shape_id)) || stopPaths.get(trip_id)
+      if (path && path.length > 0) tripShapes.set(trip_id, path)
+    })
+
+    return { tripStops, tripShapes }
+  }
+
+  private readSchemaVersion(gtfs: GtfsSqlJs): number {
+    return this.query<{ user_version: number }>(gtfs, 'PRAGMA user_version')[0]?.user_version ?? 0
+  }
+
+  // Databases leaving the worker carry the export format version of this app
+  private async exportDatabase(gtfs: GtfsSqlJs): Promise<ArrayBuffer> {
+    gtfs.getDatabase().run(`PRAGMA user_version = ${EXPORT_FORMAT_VERSION}`)
+    return await gtfs.export()
+  }
+
+  private readSchema(gtfs: GtfsSqlJs): Map<string, string[]> {
+    const tables = this.query<{ name: string }>(gtfs, "SELECT name FROM sqlite_master WHERE type = 'table'")
+    return new Map(tables.map(({ name }) => [
+      name,
+      this.query<{ name: string }>(gtfs, `PRAGMA table_info("${name.replace(/"/g, '""')}")`).map(col => col.name)
+    ]))
+  }
+
+  /**
+   * State of an opened feed, with its recorder tables.
+   * The tables are created after the database is written to the IndexedDB cache, so cached
+   * databases hold no recording.
+   */
+  private openedFeed(
+    id: string,
+    url: string | null,
+    gtfs: GtfsSqlJs,
+    realtimeFeedUrls: string[],
+    cacheKey: string | null
+  ): FeedState {
+    const recorder: RecorderDatabase = {
+      run: (sql, params = []) => gtfs.getDatabase().run(sql, params),
+      query: <T>(sql: string, params: (string | number)[] = []) => this.query<T>(gtfs, sql, params)
     }
-    return await this.gtfs.getAgencies(filters)
+    ensureRecorderTables(recorder)
+    return { id, url, gtfs, realtimeFeedUrls, cacheKey, recorder }
   }
 
-  async getRoutes(filters?: RouteFilters): Promise<Route[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
+  // Snapshot the realtime data of every feed with realtime URLs, then apply retention limits
+  private async recordRealtime(): Promise<void> {
+    if (!this.recorderOptions.enabled) {
+      return
+    }
+    const recordedAt = Math.floor(Date.now() / 1000)
+    for (const feed of this.feeds.filter(f => f.realtimeFeedUrls.length > 0)) {
+      try {
+        const [vehicles, tripUpdates] = await Promise.all([
+          feed.gtfs.getVehiclePositions(),
+          feed.gtfs.getTripUpdates()
+        ])
+        recordSnapshot(feed.recorder, recordedAt, vehicles, tripUpdates)
+        pruneSnapshots(feed.recorder, recordedAt, this.recorderOptions)
+      } catch (error) {
+        // Recording is best effort and must not break realtime refreshes
+        console.warn(`Failed to record realtime data of feed ${feed.id}:`, error)
+      }
     }
-    return await this.gtfs.getRoutes(filters)
   }
 
-  async getTrips(filters?: ExtendedTripFilters): Promise<Trip[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
+  /**
+   * Connections and footpaths of a service day, shared by the trip planner and isochrones.
+   * Queries go through the public methods so that journeys can transfer between feeds.
+   */
+  private async buildNetwork(date: string, useRealtime: boolean, maxWalkDistance: number): Promise<{
+    tripMap: Map<string, Trip>
+    connections: Connection[]
+    footpaths: Map<string, Footpath[]>
+  } | null> {
+    const serviceIds = await this.getActiveServiceIds(date)
+    if (serviceIds.length === 0) {
+      return null
     }
 
-    // Convert date to serviceIds if provided
-    if (filters?.date && !filters.serviceIds) {
-      const serviceIds = await this.gtfs.getActiveServiceIds(filters.date)
-      const { date, ...restFilters } = filters
-      return await this.gtfs.getTrips({ ...restFilters, serviceIds })
+    const [trips, stopTimes, stops] = await Promise.all([
+      this.getTrips({ serviceIds, includeRealtime: useRealtime }),
+      this.getStopTimes({ serviceIds, includeRealtime: useRealtime }),
+      this.getStops()
+    ])
+
+    const tripTimezones = await this.getTripTimezones(trips)
+    const tripMap = new Map<string, Trip>(trips.map(t => [t.trip_id, t]))
+    const tripRoutes = new Map<string, string>(trips.map(t => [t.trip_id, t.route_id]))
+
+    return {
+      tripMap,
+      connections: buildConnections(stopTimes, tripRoutes, tripTimezones, useRealtime),
+      footpaths: buildFootpaths(stops, maxWalkDistance)
     }
+  }
 
-    return await this.gtfs.getTrips(filters)
+  private async createAdapter() {
+    return await createSqlJsAdapter({
+      locateFile: (filename: string) => {
+        if (filename.endsWith('.wasm')) {
+          // WASM files are at the base path, not relative to worker location
+          const base = import.meta.env.BASE_URL || '/'
+          return new URL(filename, new URL(base, self.location.origin)).href
+        }
+        return filename
+      }
+    })
   }
 
-  async getStopTimes(filters?: ExtendedStopTimeFilters): Promise<StopTimeWithRealtime[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
+  private async restoreFromCache(
+    entry: GtfsCacheEntry,
+    adapter: Awaited<ReturnType<typeof createSqlJsAdapter>>,
+    gtfsRtUrls: string[],
+    onProgress: (progress: ProgressInfo) => void
+  ): Promise<GtfsSqlJs | null> {
+    onProgress(cacheProgress('loading_from_cache', 'Loading database from cache...', 50))
+    try {
+      const data = await readCachedDatabase(entry)
+      if (!data) {
+        return null
+      }
+      const gtfs = await GtfsSqlJs.fromDatabase(data, {
+        adapter,
+        realtimeFeedUrls: gtfsRtUrls,
+        stalenessThreshold: STALENESS_THRESHOLD
+      })
+      // Databases cached in another export format, or missing tables, are imported again
+      if (!isSupportedVersion(this.readSchemaVersion(gtfs)) || !validateSchema(this.readSchema(gtfs)).valid) {
+        await gtfs.close()
+        await deleteCacheEntry(entry.key).catch(() => undefined)
+        return null
+      }
+      return gtfs
+    } catch (error) {
+      // A corrupted entry is dropped so that the next load imports the feed again
+      console.warn('Failed to restore GTFS database from cache:', error)
+      await deleteCacheEntry(entry.key).catch(() => undefined)
+      return null
     }
+  }
 
-    // Convert date to serviceIds if provided
-    if (filters?.date && !filters.serviceIds) {
-      const serviceIds = await this.gtfs.getActiveServiceIds(filters.date)
-      const { date, ...restFilters } = filters
-      return await this.gtfs.getStopTimes({ ...restFilters, serviceIds }) as StopTimeWithRealtime[]
+  private async saveToCache(
+    gtfs: GtfsSqlJs,
+    url: string,
+    version: string,
+    onProgress: (progress: ProgressInfo) => void
+  ): Promise<string | null> {
+    onProgress(cacheProgress('saving_cache', 'Saving database to cache...', 99))
+    try {
+      const data = await this.exportDatabase(gtfs)
+      const entry = await writeCachedDatabase(url, version, data)
+      return entry.key
+    } catch (error) {
+      // Quota errors or private browsing must not prevent using the freshly imported feed
+      console.warn('Failed to save GTFS database to cache:', error)
+      return null
     }
+  }
+
+  private async downloadZip(url: string, onProgress: (progress: ProgressInfo) => void): Promise<ArrayBuffer> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} while downloading ${url}`)
+    }
+
+    const totalBytes = Number(response.headers.get('Content-Length')) || undefined
+    if (!response.body) {
+      return await response.arrayBuffer()
+    }
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let bytesDownloaded = 0
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      bytesDownloaded += value.length
+      onProgress({
+        ...cacheProgress('downloading', 'Downloading GTFS archive...', totalBytes ? (bytesDownloaded / totalBytes) * 30 : 0),
+        bytesDownloaded,
+        totalBytes
+      })
+    }
+
+    const data = new Uint8Array(bytesDownloaded)
+    let offset = 0
+    chunks.forEach(chunk => {
+      data.set(chunk, offset)
+      offset += chunk.length
+    })
+    return data.buffer
+  }
+
+  async getAgencies(filters?: AgencyFilters): Promise<Agency[]> {
+    return await this.queryFeeds(filters, (gtfs, f) => gtfs.getAgencies(f))
+  }
 
-    return await this.gtfs.getStopTimes(filters) as StopTimeWithRealtime[]
+  async getRoutes(filters?: RouteFilters): Promise<Route[]> {
+    return await this.queryFeeds(filters, (gtfs, f) => gtfs.getRoutes(f))
+  }
+
+  async getTrips(filters?: ExtendedTripFilters): Promise<Trip[]> {
+    return await this.queryFeeds(filters, async (gtfs, f) => {
+      // Virtual trips of frequency-based trips are queried through their template
+      const { tripId, selection } = localizeTripIdFilter(f?.tripId)
+      const templateFilters = f && { ...f, tripId }
+      let trips: Trip[]
+
+      // Convert date to serviceIds if provided
+      if (templateFilters?.date && !templateFilters.serviceIds) {
+        const serviceIds = await gtfs.getActiveServiceIds(templateFilters.date)
+        const { date, ...restFilters } = templateFilters
+        trips = await gtfs.getTrips({ ...restFilters, serviceIds })
+      } else {
+        trips = await gtfs.getTrips(templateFilters)
+      }
+
+      return expandFrequencyTrips(trips, this.getFrequencyTemplates(gtfs), selection)
+    })
+  }
+
+  async getStopTimes(filters?: ExtendedStopTimeFilters): Promise<PropagatedStopTime[]> {
+    return await this.queryFeeds(filters, async (gtfs, f) => {
+      // Virtual trips of frequency-based trips are queried through their template
+      const { tripId, selection } = localizeTripIdFilter(f?.tripId)
+      const templateFilters = f && { ...f, tripId }
+      let stopTimes: PropagatedStopTime[]
+
+      // Convert date to serviceIds if provided
+      if (templateFilters?.date && !templateFilters.serviceIds) {
+        const serviceIds = await gtfs.getActiveServiceIds(templateFilters.date)
+        const { date, ...restFilters } = templateFilters
+        stopTimes = await gtfs.getStopTimes({ ...restFilters, serviceIds }) as StopTimeWithRealtime[]
+      } else {
+        stopTimes = await gtfs.getStopTimes(templateFilters) as StopTimeWithRealtime[]
+      }
+      if (f?.includeRealtime) {
+        stopTimes = await this.propagateDelays(gtfs, stopTimes)
+      }
+
+      return expandFrequencyStopTimes(stopTimes, this.getFrequencyTemplates(gtfs), selection)
+    })
   }
 
   async getStopTimeUpdates(filters?: StopTimeUpdateFilters): Promise<StopTimeUpdate[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
-    }
-    return await this.gtfs.getStopTimeUpdates(filters)
+    return await this.queryFeeds(filters, (gtfs, f) => gtfs.getStopTimeUpdates(f))
   }
 
   async getStops(filters?: StopFilters): Promise<Stop[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
-    }
-    return await this.gtfs.getStops(filters)
+    return await this.queryFeeds(filters, (gtfs, f) => gtfs.getStops(f))
   }
 
   async getAlerts(filters?: AlertFilters): Promise<Alert[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
-    }
-    return await this.gtfs.getAlerts(filters)
+    return await this.queryFeeds(filters, (gtfs, f) => gtfs.getAlerts(f))
   }
 
   async getVehiclePositions(filters?: VehiclePositionFilters): Promise<VehiclePosition[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
-    }
-    return await this.gtfs.getVehiclePositions(filters)
+    return await this.queryFeeds(filters, (gtfs, f) => gtfs.getVehiclePositions(f))
   }
 
   async getTripUpdates(filters?: TripUpdateFilters): Promise<TripUpdate[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
-    }
-    return await this.gtfs.getTripUpdates(filters)
+    return await this.queryFeeds(filters, (gtfs, f) => gtfs.getTripUpdates(f))
   }
 
   async getActiveServiceIds(date: string): Promise<string[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
+    const feeds = this.requireFeeds()
+    if (feeds.length === 1) {
+      return await feeds[0].gtfs.getActiveServiceIds(date)
     }
-    return await this.gtfs.getActiveServiceIds(date)
+    const results = await Promise.all(feeds.map(async feed =>
+      (await feed.gtfs.getActiveServiceIds(date)).map(id => namespaceId(feed.id, id))
+    ))
+    return results.flat()
   }
 
   async fetchRealtimeData(): Promise<void> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
+    const feeds = this.requireFeeds()
+    // Diagnostics temporarily load one feed at a time; a concurrent refresh would mix them
+    if (this.diagnosingRealtime) {
+      return
     }
-    await this.gtfs.fetchRealtimeData()
+    await Promise.all(feeds
+      .filter(feed => feed.realtimeFeedUrls.length > 0)
+      .map(feed => feed.gtfs.fetchRealtimeData()))
+    await this.recordRealtime()
   }
 
-  getLastRealtimeFetchTimestamp(): number | null {
-    if (!this.gtfs) {
-      return null
+  async diagnoseRealtime(): Promise<RealtimeFeedDiagnostics[]> {
+    const feeds = this.requireFeeds()
+
+    // Feeds are merged in the database, so each URL is fetched on its own to attribute issues to it
+    const results: RealtimeFeedDiagnostics[] = []
+    this.diagnosingRealtime = true
+    try {
+      for (const feed of feeds) {
+        const { gtfs } = feed
+        try {
+          for (const url of feed.realtimeFeedUrls) {
+            try {
+              await gtfs.clearRealtimeData()
+              await gtfs.fetchRealtimeData([url])
+            } catch (error) {
+              results.push(failedFeed(url, error))
+              continue
+            }
+
+            const [tripUpdates, vehicles, alerts] = await Promise.all([
+              gtfs.getTripUpdates(),
+              gtfs.getVehiclePositions(),
+              gtfs.getAlerts()
+            ])
+            const tripIds = new Set<string>()
+            tripUpdates.forEach(tu => tu.trip_id && tripIds.add(tu.trip_id))
+            vehicles.forEach(vp => vp.trip_id && tripIds.add(vp.trip_id))
+
+            results.push(diagnoseFeed(
+              url,
+              { tripUpdates, vehicles, alerts },
+              this.buildStaticContext(gtfs, [...tripIds]),
+              {
+                now: Math.floor(Date.now() / 1000),
+                stalenessThreshold: STALENESS_THRESHOLD,
+                maxDistanceFromShape: MAX_DISTANCE_FROM_SHAPE
+              }
+            ))
+          }
+        } finally {
+          // Restore the merged realtime data of the feed. A broken feed can make this fail too,
+          // which is reported with its diagnostics rather than thrown in their place.
+          try {
+            await gtfs.clearRealtimeData()
+            if (feed.realtimeFeedUrls.length > 0) {
+              await gtfs.fetchRealtimeData()
+            }
+          } catch (error) {
+            console.warn(`Failed to restore realtime data of feed ${feed.id}:`, error)
+            results
+              .filter(result => feed.realtimeFeedUrls.includes(result.url))
+              .forEach(result => result.issues.push(restoreFailed(result.url, error)))
+          }
+        }
+      }
+    } finally {
+      this.diagnosingRealtime = false
     }
-    return this.gtfs.getLastRealtimeFetchTimestamp()
+
+    return results
+  }
+
+  setRecorderOptions(options: RecorderOptions): void {
+    this.recorderOptions = options
   }
 
-  async getDatabase(): Promise<ArrayBuffer | null> {
-    if (!this.gtfs) {
+  getRecordingInfo(): RecordingInfo {
+    const infos = this.feeds.map(feed => readRecordingInfo(feed.recorder))
+    return {
+      snapshots: [...new Set(infos.flatMap(info => info.snapshots))].sort((a, b) => a - b),
+      vehiclePositions: infos.reduce((sum, info) => sum + info.vehiclePositions, 0),
+      stopTimeUpdates: infos.reduce((sum, info) => sum + info.stopTimeUpdates, 0)
+    }
+  }
+
+  clearRecording(): void {
+    this.feeds.forEach(feed => clearRecording(feed.recorder))
+  }
+
+  getRecordedVehiclePositions(at: number): VehiclePosition[] {
+    const feeds = this.requireFeeds()
+    return feeds.flatMap(feed => {
+      const vehicles = readVehiclePositions(feed.recorder, at)
+      return feeds.length > 1 ? vehicles.map(vp => namespaceRecord(feed.id, vp)) : vehicles
+    })
+  }
+
+  getRecordedStopTimeUpdates(tripIds: string[], at: number): RecordedStopTimeUpdate[] {
+    const feeds = this.requireFeeds()
+    if (feeds.length === 1) {
+      return readStopTimeUpdates(feeds[0].recorder, tripIds, at)
+    }
+
+    return feeds.flatMap(feed => {
+      const localIds = this.localIds(feed.id, tripIds)
+      if (localIds.length === 0) return []
+      return readStopTimeUpdates(feed.recorder, localIds, at)
+        .map(update => namespaceRecord(feed.id, update))
+    })
+  }
+
+  /**
+   * Recorded updates of trips of a service date as observed at each of their stops (see
+   * observedStopTimeUpdates), from the snapshots taken from the start of the service day
+   * until its last scheduled stop event, delays allowed.
+   */
+  private getObservedStopTimeUpdates(
+    stopTimesByTrip: Map<string, StopTimeWithRealtime[]>,
+    date: string,
+    tripTimezones: Map<string, string>
+  ): Map<string, RecordedStopTimeUpdate[]> {
+    const feeds = this.requireFeeds()
+    const observed = new Map<string, RecordedStopTimeUpdate[]>()
+    const tripIds = [...stopTimesByTrip.keys()].filter(tripId => tripTimezones.has(tripId))
+    if (tripIds.length === 0) return observed
+
+    const from = Math.min(...tripIds.map(tripId => serviceDayStart(date, tripTimezones.get(tripId)!)))
+    const lastEvent = Math.max(...tripIds.map(tripId => {
+      const times = stopTimesByTrip.get(tripId)!
+        .map(st => st.arrival_time || st.departure_time)
+        .filter((time): time is string => !!time)
+        .map(timeToSeconds)
+      return serviceTimeToUnix(date, Math.max(0, ...times), tripTimezones.get(tripId)!)
+    }))
+    const to = Math.min(Math.floor(Date.now() / 1000), lastEvent + MAX_RECORDED_DELAY)
+    const history = feeds.length === 1
+      ? readStopTimeUpdateHistory(feeds[0].recorder, tripIds, from, to)
+      : feeds.flatMap(feed => {
+        const localIds = this.localIds(feed.id, tripIds)
+        if (localIds.length === 0) return []
+        return readStopTimeUpdateHistory(feed.recorder, localIds, from, to)
+          .map(update => namespaceRecord(feed.id, update))
+      })
+
+    // Time of the stop event an update predicts: its own time, or the scheduled time shifted by its delay
+    const eventTime = (update: RecordedStopTimeUpdate): number | null => {
+      const time = update.departure_time ?? update.arrival_time
+      if (time !== null) return time
+      const scheduled = stopTimesByTrip.get(update.trip_id)?.find(st => update.stop_sequence !== null
+        ? st.stop_sequence === update.stop_sequence
+        : st.stop_id === update.stop_id)
+      const scheduledTime = scheduled?.departure_time || scheduled?.arrival_time
+      if (!scheduledTime) return null
+      const delay = update.departure_delay ?? update.arrival_delay ?? 0
+      return serviceTimeToUnix(date, timeToSeconds(scheduledTime) + delay, tripTimezones.get(update.trip_id)!)
+    }
+
+    observedStopTimeUpdates(history, eventTime).forEach(update => {
+      if (!observed.has(update.trip_id)) observed.set(update.trip_id, [])
+      observed.get(update.trip_id)!.push(update)
+    })
+    return observed
+  }
+
+  getLastRealtimeFetchTimestamp(): number | null {
+    const timestamps = this.feeds
+      .map(feed => feed.gtfs.getLastRealtimeFetchTimestamp())
+      .filter((timestamp): timestamp is number => timestamp !== null)
+    return timestamps.length > 0 ? Math.max(...timestamps) : null
+  }
+
+  async getDatabase(feedId?: string): Promise<ArrayBuffer | null> {
+    const feed = feedId ? this.feeds.find(f => f.id === feedId) : this.feeds[0]
+    if (!feed) {
       return null
     }
-    return await this.gtfs.export()
+    return await this.exportDatabase(feed.gtfs)
+  }
+
+  async getCacheEntries(): Promise<GtfsCacheEntry[]> {
+    return await listCacheEntries()
+  }
+
+  getCurrentCacheKeys(): string[] {
+    return this.feeds.map(feed => feed.cacheKey).filter((key): key is string => key !== null)
+  }
+
+  async deleteCacheEntry(key: string): Promise<void> {
+    await deleteCacheEntry(key)
+    this.feeds.forEach(feed => {
+      if (feed.cacheKey === key) {
+        feed.cacheKey = null
+      }
+    })
+  }
+
+  async clearCache(): Promise<void> {
+    await clearCache()
+    this.feeds.forEach(feed => {
+      feed.cacheKey = null
+    })
   }
 
   async buildOrderedStopList(tripIds: string[]): Promise<Stop[]> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
+    const feeds = this.requireFeeds()
+    if (feeds.length === 1) {
+      return await feeds[0].gtfs.buildOrderedStopList(templateTripIds(tripIds))
+    }
+
+    // Trips of different feeds never share stops: order each feed's stops separately
+    const results = await Promise.all(feeds.map(async feed => {
+      const localIds = this.localIds(feed.id, tripIds)
+      if (localIds.length === 0) return []
+      const stops = await feed.gtfs.buildOrderedStopList(templateTripIds(localIds))
+      return stops.map(stop => namespaceRecord(feed.id, stop))
+    }))
+    return results.flat()
+  }
+
+  async getStopRouteIndex(date: string): Promise<StopRouteIndex> {
+    const feeds = this.requireFeeds()
+    const cached = this.stopRouteIndexes.get(date)
+    if (cached) {
+      return cached
+    }
+
+    const index: StopRouteIndex = {}
+    for (const feed of feeds) {
+      const serviceIds = await feed.gtfs.getActiveServiceIds(date)
+      const id = (localId: string) => feeds.length > 1 ? namespaceId(feed.id, localId) : localId
+      // Service ids are passed as a single JSON parameter, so that stop_times is scanned once
+      // however many services run on the date
+      this.query<{ stop_id: string; route_id: string }>(
+        feed.gtfs,
+        `SELECT DISTINCT st.stop_id, t.route_id FROM stop_times st
+          JOIN trips t ON t.trip_id = st.trip_id
+          WHERE t.service_id IN (SELECT value FROM json_each(?))`,
+        [JSON.stringify(serviceIds)]
+      ).forEach(row => {
+        const stopId = id(row.stop_id)
+        if (!index[stopId]) index[stopId] = []
+        index[stopId].push(id(row.route_id))
+      })
+    }
+
+    this.stopRouteIndexes.set(date, index)
+    return index
+  }
+
+  async searchStops(query: string, limit = 50): Promise<StopSearchResult[]> {
+    const feeds = this.requireFeeds()
+    if (!this.stopSearchIndex) {
+      // Short names of the routes serving each stop, on any service date
+      const routeNames = new Map<string, string[]>()
+      for (const feed of feeds) {
+        const id = (localId: string) => feeds.length > 1 ? namespaceId(feed.id, localId) : localId
+        this.each<{ stop_id: string; route_short_name: string }>(
+          feed.gtfs,
+          `SELECT DISTINCT st.stop_id, r.route_short_name FROM stop_times st
+            JOIN trips t ON t.trip_id = st.trip_id
+            JOIN routes r ON r.route_id = t.route_id
+            WHERE r.route_short_name IS NOT NULL AND r.route_short_name != ''`,
+          [],
+          row => {
+            const stopId = id(row.stop_id)
+            if (!routeNames.has(stopId)) routeNames.set(stopId, [])
+            routeNames.get(stopId)!.push(row.route_short_name)
+          }
+        )
+      }
+
+      const stops = await this.getStops()
+      this.stopSearchIndex = buildStopSearchIndex(
+        stops.map(stop => ({ stop, routeNames: routeNames.get(stop.stop_id) || [] }))
+      )
+    }
+
+    return searchStopIndex(this.stopSearchIndex, query, limit)
+  }
+
+  async getStopHierarchy(): Promise<StopHierarchy> {
+    this.requireFeeds()
+    if (!this.stopHierarchy) {
+      this.stopHierarchy = buildStopHierarchy(await this.getStops())
+    }
+    return this.stopHierarchy
+  }
+
+  // Stops where vehicles stop for the given stops, stations being replaced with their platforms
+  async getPlatformStops(stopIds: string[]): Promise<Stop[]> {
+    const [hierarchy, stops] = await Promise.all([this.getStopHierarchy(), this.getStops({ stopId: stopIds })])
+    return expandStations(hierarchy, stops)
+  }
+
+  async getServiceCalendars(serviceIds: string[]): Promise<ServiceCalendar[]> {
+    const feeds = this.requireFeeds()
+    const calendars: ServiceCalendar[] = []
+    for (const feed of feeds) {
+      const localIds = feeds.length > 1 ? this.localIds(feed.id, serviceIds) : serviceIds
+      if (localIds.length === 0) continue
+      const calendarRows = this.queryByIds<CalendarRow>(
+        feed.gtfs,
+        placeholders => `SELECT * FROM calendar WHERE service_id IN (${placeholders})`,
+        localIds
+      )
+      const calendarDateRows = this.queryByIds<CalendarDateRow>(
+        feed.gtfs,
+        placeholders => `SELECT service_id, date, exception_type FROM calendar_dates WHERE service_id IN (${placeholders})`,
+        localIds
+      )
+      const feedCalendars = buildServiceCalendars(localIds, calendarRows, calendarDateRows)
+      calendars.push(...(feeds.length > 1 ? feedCalendars.map(c => namespaceRecord(feed.id, c)) : feedCalendars))
+    }
+    return calendars
+  }
+
+  // Every service calendar of the loaded feeds, with the number of trips of each service
+  private loadAllServiceCalendars(): { calendars: ServiceCalendar[]; tripCounts: Map<string, number> } {
+    const feeds = this.requireFeeds()
+    const calendars: ServiceCalendar[] = []
+    const tripCounts = new Map<string, number>()
+    feeds.forEach(feed => {
+      const id = (localId: string) => feeds.length > 1 ? namespaceId(feed.id, localId) : localId
+      const calendarRows = this.query<CalendarRow>(feed.gtfs, 'SELECT * FROM calendar')
+      const calendarDateRows = this.query<CalendarDateRow>(
+        feed.gtfs,
+        'SELECT service_id, date, exception_type FROM calendar_dates'
+      )
+      const serviceIds = [...new Set([...calendarRows, ...calendarDateRows].map(row => row.service_id))]
+      buildServiceCalendars(serviceIds, calendarRows, calendarDateRows).forEach(calendar => {
+        calendars.push({ ...calendar, service_id: id(calendar.service_id) })
+      })
+      this.query<{ service_id: string; trip_count: number }>(
+        feed.gtfs,
+        'SELECT service_id, COUNT(*) AS trip_count FROM trips GROUP BY service_id'
+      ).forEach(row => tripCounts.set(id(row.service_id), row.trip_count))
+    })
+    return { calendars, tripCounts }
+  }
+
+  async getServiceDateRange(): Promise<ServiceDateRange | null> {
+    return getServiceDateRange(this.loadAllServiceCalendars().calendars)
+  }
+
+  async getServiceDays(startDate: string, endDate: string): Promise<ServiceDay[]> {
+    const { calendars, tripCounts } = this.loadAllServiceCalendars()
+    return buildServiceDays(calendars, tripCounts, startDate, endDate)
+  }
+
+  async getServiceDayDetails(date: string): Promise<ServiceDayDetails> {
+    const feeds = this.requireFeeds()
+    const tripCounts = new Map<string, number>()
+    const exceptions: ServiceDayDetails['exceptions'] = []
+    for (const feed of feeds) {
+      const id = (localId: string) => feeds.length > 1 ? namespaceId(feed.id, localId) : localId
+      const serviceIds = await feed.gtfs.getActiveServiceIds(date)
+      this.queryByIds<{ route_id: string; trip_count: number }>(
+        feed.gtfs,
+        placeholders => `SELECT route_id, COUNT(*) AS trip_count FROM trips
+          WHERE service_id IN (${placeholders}) GROUP BY route_id`,
+        serviceIds
+      ).forEach(row => {
+        // Chunks of service ids may count the same route more than once
+        tripCounts.set(id(row.route_id), (tripCounts.get(id(row.route_id)) || 0) + row.trip_count)
+      })
+      this.query<{ service_id: string; exception_type: number }>(
+        feed.gtfs,
+        'SELECT service_id, exception_type FROM calendar_dates WHERE date = ?',
+        [date]
+      ).forEach(row => exceptions.push({ service_id: id(row.service_id), exception_type: Number(row.exception_type) }))
+    }
+
+    return {
+      date,
+      routes: [...tripCounts.entries()].map(([route_id, trip_count]) => ({ route_id, trip_count })),
+      exceptions
     }
-    return await this.gtfs.buildOrderedStopList(tripIds)
   }
 
   async getShapesToGeojson(filters?: ShapeFilters, precision?: number): Promise<GeoJsonFeatureCollection> {
-    if (!this.gtfs) {
-      throw new Error('GTFS not loaded')
+    const features = await this.queryFeeds(filters, async (gtfs, f) =>
+      (await gtfs.getShapesToGeojson(f, precision)).features
+    )
+    return { type: 'FeatureCollection', features }
+  }
+
+  async planTrip(request: TripPlanRequest): Promise<Itinerary[]> {
+    this.requireFeeds()
+
+    const network = await this.buildNetwork(
+      request.date,
+      request.useRealtime ?? true,
+      request.maxWalkDistance ?? DEFAULT_MAX_WALK_DISTANCE
+    )
+    if (!network) {
+      return []
     }
-    return await this.gtfs.getShapesToGeojson(filters, precision)
+
+    const { tripMap, connections, footpaths } = network
+    const itineraries = planItineraries(connections, footpaths, request)
+
+    // Enrich transit legs with trip display information
+    itineraries.forEach(itinerary => {
+      itinerary.legs.forEach(leg => {
+        if (leg.type !== 'transit') return
+        const trip = tripMap.get(leg.tripId)
+        leg.headsign = trip?.trip_headsign || null
+        leg.tripShortName = trip?.trip_short_name || null
+      })
+    })
+
+    return itineraries
+  }
+
+  async computeIsochrone(request: IsochroneRequest): Promise<ReachableStop[]> {
+    this.requireFeeds()
+
+    const network = await this.buildNetwork(
+      request.date,
+      request.useRealtime ?? true,
+      request.maxWalkDistance ?? DEFAULT_MAX_WALK_DISTANCE
+    )
+    if (!network) {
+      return []
+    }
+
+    return computeIsochrone(network.connections, network.footpaths, request)
+  }
+
+  async validateFeed(): Promise<ValidationFinding[]> {
+    const feeds = this.requireFeeds()
+    return feeds.flatMap(({ id, gtfs }) => {
+      const findings = runFeedValidation({
+        query: <T>(sql: string) => this.query<T>(gtfs, sql),
+        each: <T>(sql: string, callback: (row: T) => void) => this.each<T>(gtfs, sql, [], callback)
+      })
+      // Tell feeds apart through the file name, e.g. "carjaune/stop_times.txt"
+      return feeds.length > 1 ? findings.map(finding => ({ ...finding, file: `${id}/${finding.file}` })) : findings
+    })
+  }
+
+  async getFeedSnapshot(dates: string[], feedId?: string): Promise<FeedSnapshot> {
+    const loaded = this.requireFeeds()
+    const feeds = feedId === undefined ? loaded : loaded.filter(feed => feed.id === feedId)
+    if (feeds.length === 0) throw new Error(`Feed ${feedId} is not loaded`)
+    const [routes, stops] = feedId === undefined
+      ? await Promise.all([this.getRoutes(), this.getStops()])
+      : await Promise.all([feeds[0].gtfs.getRoutes(), feeds[0].gtfs.getStops()])
+    const tripsPerRouteDay: FeedSnapshot['tripsPerRouteDay'] = {}
+    const stopDepartures: FeedSnapshot['stopDepartures'] = {}
+
+    for (const feed of feeds) {
+      const id = (localId: string) => feeds.length > 1 ? namespaceId(feed.id, localId) : localId
+
+      for (const date of dates) {
+        const serviceIds = await feed.gtfs.getActiveServiceIds(date)
+        this.queryByIds<{ route_id: string; trip_count: number }>(
+          feed.gtfs,
+          placeholders => `SELECT route_id, COUNT(*) AS trip_count FROM trips
+            WHERE service_id IN (${placeholders}) GROUP BY route_id`,
+          serviceIds
+        ).forEach(row => {
+          const routeId = id(row.route_id)
+          if (!tripsPerRouteDay[routeId]) tripsPerRouteDay[routeId] = {}
+          tripsPerRouteDay[routeId][date] = (tripsPerRouteDay[routeId][date] || 0) + row.trip_count
+        })
+      }
+
+      if (dates.length === 0) continue
+      const serviceIds = await feed.gtfs.getActiveServiceIds(dates[0])
+      this.queryByIds<{ stop_id: string; route_id: string; departure_time: string | null }>(
+        feed.gtfs,
+        placeholders => `SELECT st.stop_id, t.route_id, st.departure_time FROM stop_times st
+          JOIN trips t ON t.trip_id = st.trip_id
+          WHERE t.service_id IN (${placeholders}) AND st.departure_time IS NOT NULL`,
+        serviceIds
+      ).forEach(row => {
+        const stopId = id(row.stop_id)
+        if (!stopDepartures[stopId]) stopDepartures[stopId] = []
+        // Times may lack the leading zero ("7:05:00")
+        stopDepartures[stopId].push([id(row.route_id), secondsToTime(timeToSeconds(row.departure_time!)).slice(0, 5)])
+      })
+    }
+
+    Object.values(stopDepartures).forEach(departures => departures.sort((a, b) => a[1].localeCompare(b[1])))
+    return { dates, routes, stops, tripsPerRouteDay, stopDepartures }
+  }
+
+  async getPunctualityReport(
+    date: string,
+    thresholds: PunctualityThresholds = DEFAULT_THRESHOLDS
+  ): Promise<PunctualityReport> {
+    this.requireFeeds()
+
+    // Live realtime only describes the current service date: trip ids repeat every day
+    const live = isCurrentServiceDate(date, createTimeService(await this.getAgencies()).feedTimezone)
+    const [trips, stopTimes] = await Promise.all([
+      this.getTrips({ date, includeRealtime: live }),
+      this.getStopTimes({ date, includeRealtime: live })
+    ])
+    const tripTimezones = await this.getTripTimezones(trips)
+
+    const stopTimesByTrip = new Map<string, StopTimeWithRealtime[]>()
+    stopTimes.forEach(st => {
+      if (!stopTimesByTrip.has(st.trip_id)) stopTimesByTrip.set(st.trip_id, [])
+      stopTimesByTrip.get(st.trip_id)!.push(st)
+    })
+
+    // Recorded trip updates keep the delays observed at stops the live feed no longer lists
+    this.getObservedStopTimeUpdates(stopTimesByTrip, date, tripTimezones).forEach((updates, tripId) => {
+      stopTimesByTrip.set(tripId, applyRecordedUpdates(stopTimesByTrip.get(tripId) || [], updates, tripTimezones.get(tripId)!))
+    })
+
+    // Only stop events that already happened are observed
+    const now = Math.floor(Date.now() / 1000)
+    return buildPunctualityReport(date, collectObservations(trips, stopTimesByTrip, date, tripTimezones, now), thresholds)
+  }
+
+  async getHeadways(
+    routeId: string,
+    directionId: number,
+    date: string,
+    options: HeadwayOptions = DEFAULT_HEADWAY_OPTIONS
+  ): Promise<HeadwayReport> {
+    this.requireFeeds()
+
+    const [agencies, [route]] = await Promise.all([this.getAgencies(), this.getRoutes({ routeId })])
+    const timeService = createTimeService(agencies)
+    const timezone = timeService.routeTimezone(route)
+    // Live realtime only describes the current service date: trip ids repeat every day
+    const live = isCurrentServiceDate(date, timeService.feedTimezone)
+    const trips = await this.getTrips({ routeId, date, includeRealtime: live })
+
+    const tripIds = trips
+      .filter(trip => (trip.direction_id ?? 0) === directionId)
+      .map(trip => trip.trip_id)
+
+    // One query for all trips, as realtime propagation reads the trip updates on every call
+    const stopTimesByTrip = new Map<string, StopTimeWithRealtime[]>(tripIds.map(tripId => [tripId, []]))
+    const stopTimes = tripIds.length > 0 ? await this.getStopTimes({ tripId: tripIds, includeRealtime: live }) : []
+    stopTimes.forEach(st => stopTimesByTrip.get(st.trip_id)?.push(st))
+
+    // Recorded trip updates keep the delays observed at stops the live feed no longer lists
+    const tripTimezones = new Map(tripIds.map(tripId => [tripId, timezone]))
+    this.getObservedStopTimeUpdates(stopTimesByTrip, date, tripTimezones).forEach((updates, tripId) => {
+      stopTimesByTrip.set(tripId, applyRecordedUpdates(stopTimesByTrip.get(tripId) || [], updates, timezone))
+    })
+
+    const stops = tripIds.length > 0 ? await this.buildOrderedStopList(tripIds) : []
+    return buildHeadwayReport(routeId, directionId, date, stops, stopTimesByTrip, timezone, options)
   }
 }
 
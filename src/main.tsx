@@ -1,10 +1,14 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import KioskBoard from './KioskBoard.tsx'
+import { parseKioskParams } from './utils/kiosk'
 import './index.css'
 
+const kiosk = parseKioskParams(window.location.search)
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {kiosk ? <KioskBoard stopIds={kiosk.stopIds} lines={kiosk.lines} /> : <App />}
   </React.StrictMode>,
 )
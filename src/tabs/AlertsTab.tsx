@@ -1,5 +1,6 @@
 import { Box, Card, CardContent, Typography, Chip, Stack, Paper } from '@mui/material'
 import { Alert as GtfsAlert, Route } from 'gtfs-sqljs'
+import FeedBadge from '../components/FeedBadge'
 
 interface AlertsTabProps {
   alerts: GtfsAlert[]
@@ -98,6 +99,7 @@ export default function AlertsTab({ alerts, routes }: AlertsTabProps) {
                             }}
                           />
                         ))}
+                        {affectedRoutes.length > 0 && <FeedBadge id={affectedRoutes[0].route_id} />}
                       </Stack>
                     </Box>
                   )}
@@ -93,6 +93,7 @@ export default function BrowseDataTab({
             selectedTrip={selectedTrip}
             vehicles={vehicles}
             agencies={agencies}
+            route={routes.find(r => r.route_id === selectedRoute) || null}
           />
         </Box>
       )}
@@ -1,5 +1,7 @@
-import { Box, TextField, Button, Typography, Paper, Stack, Grid, Divider, Chip } from '@mui/material'
-import { useState, useEffect } from 'react'
+import { Box, TextField, Button, Typography, Paper, Stack, Grid, Divider, Chip, IconButton, Tooltip, FormControlLabel, Switch } from '@mui/material'
+import { Delete as DeleteIcon } from '@mui/icons-material'
+import { useState, useEffect, useCallback } from 'react'
+import type { Remote } from 'comlink'
 import {
   GtfsSelector,
   fileTab,
@@ -9,8 +11,12 @@ import {
 } from 'react-gtfs-selector'
 import 'react-gtfs-selector/style.css'
 import '../react-gtfs-selector-overrides.css'
-import { AppConfig, saveConfig } from '../utils/configStorage'
+import { AppConfig, FeedConfig, saveConfig } from '../utils/configStorage'
 import { Agency, Alert, VehiclePosition, TripUpdate } from 'gtfs-sqljs'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import type { GtfsCacheEntry } from '../utils/gtfsCache'
+import type { RecordingInfo } from '../utils/realtimeRecorder'
+import { formatBytes, formatTimeAgo } from '../components/utils'
 
 interface PresetConfig {
   name: string
@@ -26,6 +32,7 @@ interface ConfigurationTabProps {
   error: string | null
   loadGtfs: (gtfsUrl: string, gtfsRtUrls: string[]) => void
   loadGtfsFromBlob: (blob: Blob, fileName: string, gtfsRtUrls: string[]) => void
+  loadGtfsFromDatabase: (blob: Blob, fileName: string, gtfsRtUrls: string[]) => void
   downloadDatabase: () => void
   gtfsLoaded: boolean
   agencies: Agency[]
@@ -33,6 +40,7 @@ interface ConfigurationTabProps {
   vehicles: VehiclePosition[]
   alerts: Alert[]
   tripUpdates: TripUpdate[]
+  workerApi: Remote<GtfsWorkerAPI> | null
 }
 
 export default function ConfigurationTab({
@@ -43,15 +51,86 @@ export default function ConfigurationTab({
   error,
   loadGtfs,
   loadGtfsFromBlob,
+  loadGtfsFromDatabase,
   downloadDatabase,
   gtfsLoaded,
   agencies,
   routesCount,
   vehicles,
   alerts,
-  tripUpdates
+  tripUpdates,
+  workerApi
 }: ConfigurationTabProps) {
   const [currentTime, setCurrentTime] = useState(new Date())
+  const [cacheEntries, setCacheEntries] = useState<GtfsCacheEntry[]>([])
+  const [currentCacheKeys, setCurrentCacheKeys] = useState<string[]>([])
+  const [cacheError, setCacheError] = useState<string | null>(null)
+  const [recordingInfo, setRecordingInfo] = useState<RecordingInfo | null>(null)
+
+  const refreshCache = useCallback(async () => {
+    if (!workerApi) return
+    try {
+      setCacheEntries(await workerApi.getCacheEntries())
+      setCurrentCacheKeys(await workerApi.getCurrentCacheKeys())
+      setCacheError(null)
+    } catch (err) {
+      console.error('Error reading cache:', err)
+      setCacheError(err instanceof Error ? err.message : 'Failed to read cache')
+    }
+  }, [workerApi])
+
+  const refreshRecording = useCallback(async () => {
+    if (!workerApi || !gtfsLoaded) {
+      setRecordingInfo(null)
+      return
+    }
+    try {
+      setRecordingInfo(await workerApi.getRecordingInfo())
+    } catch (err) {
+      console.error('Error reading recording info:', err)
+    }
+  }, [workerApi, gtfsLoaded])
+
+  useEffect(() => {
+    refreshRecording()
+  }, [refreshRecording, tripUpdates])
+
+  const handleClearRecording = async () => {
+    if (!workerApi) return
+    try {
+      await workerApi.clearRecording()
+    } catch (err) {
+      console.error('Error clearing recording:', err)
+    }
+    refreshRecording()
+  }
+
+  // Refresh cache entries whenever a feed finishes loading
+  useEffect(() => {
+    if (!loading) {
+      refreshCache()
+    }
+  }, [loading, gtfsLoaded, refreshCache])
+
+  const handleDeleteCacheEntry = async (key: string) => {
+    if (!workerApi) return
+    try {
+      await workerApi.deleteCacheEntry(key)
+    } catch (err) {
+      console.error('Error deleting cache entry:', err)
+    }
+    refreshCache()
+  }
+
+  const handleClearCache = async () => {
+    if (!workerApi) return
+    try {
+      await workerApi.clearCache()
+    } catch (err) {
+      console.error('Error clearing cache:', err)
+    }
+    refreshCache()
+  }
 
   // Update time every second
   useEffect(() => {
@@ -107,6 +186,30 @@ export default function ConfigurationTab({
     updateConfig({ gtfsRtUrls: newUrls })
   }
 
+  const handleAddFeed = () => {
+    updateConfig({
+      extraFeeds: [...config.extraFeeds, { id: `feed${config.extraFeeds.length + 2}`, gtfsUrl: '', gtfsRtUrls: [] }]
+    })
+  }
+
+  const handleRemoveFeed = (index: number) => {
+    updateConfig({ extraFeeds: config.extraFeeds.filter((_, i) => i !== index) })
+  }
+
+  const handleUpdateFeed = (index: number, updates: Partial<FeedConfig>) => {
+    const newFeeds = [...config.extraFeeds]
+    newFeeds[index] = { ...newFeeds[index], ...updates }
+    updateConfig({ extraFeeds: newFeeds })
+  }
+
+  // Feed ids prefix every GTFS id, so they must be unique and free of the separator
+  const feedIdError = (id: string) => {
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) return 'Letters, digits, "-" and "_" only'
+    const ids = [config.feedId, ...config.extraFeeds.map(feed => feed.id)]
+    if (ids.filter(other => other === id).length > 1) return 'Duplicate feed id'
+    return null
+  }
+
   return (
     <Box sx={{ p: 3 }}>
       <Paper sx={{ p: 3, mb: 3 }}>
@@ -145,7 +248,7 @@ export default function ConfigurationTab({
           Browse or Upload GTFS
         </Typography>
         <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-          Search transport.data.gouv.fr or MobilityData, paste a GTFS URL, or drop a ZIP file.
+          Search transport.data.gouv.fr or MobilityData, paste a GTFS URL, drop a ZIP file, or open an exported database.
         </Typography>
         <GtfsSelector
           tabs={[
@@ -164,6 +267,35 @@ export default function ConfigurationTab({
             loadGtfs(result.url, rtUrls)
           }}
         />
+
+        <Divider sx={{ my: 2 }} />
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Button
+            variant="outlined"
+            color="error"
+            component="label"
+            disabled={loading}
+          >
+            Open Database File
+            <input
+              type="file"
+              hidden
+              accept=".sqlite,.sqlite3,.db,application/x-sqlite3"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) {
+                  loadGtfsFromDatabase(file, file.name, [])
+                }
+                // Allow re-selecting the same file
+                e.target.value = ''
+              }}
+            />
+          </Button>
+          <Typography variant="body2" color="text.secondary">
+            Open a database exported with "Download Database" to skip the import step.
+          </Typography>
+        </Box>
       </Paper>
 
       <Paper sx={{ p: 3, mb: 3 }}>
@@ -282,6 +414,86 @@ export default function ConfigurationTab({
         </Box>
       </Paper>
 
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Additional Feeds
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Load other networks together with the main feed. When several feeds are loaded,
+          their ids are prefixed with the feed id (e.g. "{config.feedId}:stop_id").
+        </Typography>
+
+        <TextField
+          label="Main feed id"
+          value={config.feedId}
+          onChange={(e) => updateConfig({ feedId: e.target.value })}
+          error={config.extraFeeds.length > 0 && feedIdError(config.feedId) !== null}
+          helperText={config.extraFeeds.length > 0 ? feedIdError(config.feedId) : null}
+          disabled={loading}
+          size="small"
+          sx={{ mb: 2 }}
+        />
+
+        {config.extraFeeds.map((feed, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 1, mb: 2, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+            <TextField
+              label="Feed id"
+              value={feed.id}
+              onChange={(e) => handleUpdateFeed(index, { id: e.target.value })}
+              error={feedIdError(feed.id) !== null}
+              helperText={feedIdError(feed.id)}
+              disabled={loading}
+              size="small"
+              sx={{ width: 140 }}
+            />
+            <TextField
+              label="Static GTFS URL"
+              value={feed.gtfsUrl}
+              onChange={(e) => handleUpdateFeed(index, { gtfsUrl: e.target.value })}
+              disabled={loading}
+              size="small"
+              sx={{ flex: '1 1 260px' }}
+            />
+            <TextField
+              label="GTFS-RT URLs (one per line)"
+              value={feed.gtfsRtUrls.join('\n')}
+              onChange={(e) => handleUpdateFeed(index, { gtfsRtUrls: e.target.value.split('\n') })}
+              disabled={loading}
+              size="small"
+              multiline
+              sx={{ flex: '1 1 260px' }}
+            />
+            <Button
+              variant="outlined"
+              color="error"
+              onClick={() => handleRemoveFeed(index)}
+              disabled={loading}
+            >
+              Remove
+            </Button>
+          </Box>
+        ))}
+
+        <Stack direction="row" spacing={2}>
+          <Button
+            variant="outlined"
+            onClick={handleAddFeed}
+            disabled={loading}
+            color="error"
+          >
+            Add Feed
+          </Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={() => loadGtfs(config.gtfsUrl, config.gtfsRtUrls)}
+            disabled={loading}
+          >
+            Load All Feeds
+          </Button>
+        </Stack>
+      </Paper>
+
       <Paper sx={{ p: 3, mb: 3 }}>
         <Typography variant="h6" gutterBottom>
           Actions
@@ -304,6 +516,131 @@ export default function ConfigurationTab({
         )}
       </Paper>
 
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="h6">
+            Realtime Recorder
+          </Typography>
+          <Button
+            variant="outlined"
+            color="error"
+            size="small"
+            onClick={handleClearRecording}
+            disabled={!recordingInfo || recordingInfo.snapshots.length === 0}
+          >
+            Clear Recording
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Vehicle positions and trip updates are recorded on each realtime refresh and can be replayed
+          from the Map and Time-Distance Graph tabs. Recordings are kept in memory until the page is reloaded.
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 3, flexWrap: 'wrap' }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={config.recorderEnabled}
+                onChange={(e) => updateConfig({ recorderEnabled: e.target.checked })}
+                color="error"
+              />
+            }
+            label="Record realtime data"
+          />
+          <TextField
+            label="Retention (hours)"
+            type="number"
+            size="small"
+            value={config.recorderRetentionHours}
+            onChange={(e) => updateConfig({ recorderRetentionHours: Math.max(1, Number(e.target.value) || 1) })}
+            disabled={!config.recorderEnabled}
+            inputProps={{ min: 1, max: 48 }}
+            sx={{ width: 160 }}
+          />
+          {recordingInfo && recordingInfo.snapshots.length > 0 && (
+            <Stack direction="row" spacing={1}>
+              <Chip label={`${recordingInfo.snapshots.length} snapshots`} size="small" />
+              <Chip label={`${recordingInfo.vehiclePositions} positions`} size="small" variant="outlined" />
+              <Chip label={`${recordingInfo.stopTimeUpdates} stop time updates`} size="small" variant="outlined" />
+              <Chip
+                label={`First snapshot ${formatTimeAgo(recordingInfo.snapshots[0] * 1000)}`}
+                size="small"
+                variant="outlined"
+              />
+            </Stack>
+          )}
+        </Box>
+      </Paper>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="h6">
+            Offline Cache
+          </Typography>
+          <Button
+            variant="outlined"
+            color="error"
+            size="small"
+            onClick={handleClearCache}
+            disabled={loading || cacheEntries.length === 0}
+          >
+            Clear Cache
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Imported databases are stored in the browser and reused while the feed is unchanged, or when the server cannot be reached.
+        </Typography>
+
+        {cacheError && (
+          <Typography variant="body2" color="error" sx={{ mb: 2 }}>
+            {cacheError}
+          </Typography>
+        )}
+
+        {cacheEntries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No cached database
+          </Typography>
+        ) : (
+          <Stack spacing={1}>
+            {cacheEntries.map(entry => (
+              <Box
+                key={entry.key}
+                sx={{ display: 'flex', alignItems: 'center', gap: 2, p: 1.5, bgcolor: 'grey.50', borderRadius: 1 }}
+              >
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    {entry.url}
+                  </Typography>
+                  <Stack direction="row" spacing={1} sx={{ mt: 1 }} flexWrap="wrap" useFlexGap>
+                    {currentCacheKeys.includes(entry.key) && (
+                      <Chip label="In use" size="small" color="success" />
+                    )}
+                    <Chip label={formatBytes(entry.size)} size="small" variant="outlined" />
+                    <Chip label={`Saved ${formatTimeAgo(entry.createdAt)}`} size="small" variant="outlined" />
+                    <Chip label={`Used ${formatTimeAgo(entry.lastUsedAt)}`} size="small" variant="outlined" />
+                    <Tooltip title={entry.version}>
+                      <Chip
+                        label={entry.version.length > 32 ? `${entry.version.slice(0, 32)}…` : entry.version}
+                        size="small"
+                        variant="outlined"
+                        sx={{ fontFamily: 'monospace' }}
+                      />
+                    </Tooltip>
+                  </Stack>
+                </Box>
+                <IconButton
+                  onClick={() => handleDeleteCacheEntry(entry.key)}
+                  disabled={loading}
+                  aria-label="delete cache entry"
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Box>
+            ))}
+          </Stack>
+        )}
+      </Paper>
+
       {gtfsLoaded && (
         <Paper sx={{ p: 3, mb: 3 }}>
           <Typography variant="h6" gutterBottom>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import {
   Box,
   Paper,
@@ -14,14 +14,21 @@ import {
   TableContainer,
   TableHead,
   TableRow,
-  TextField,
   Chip,
   Stack
 } from '@mui/material'
-import { Stop, Route, Trip, StopTimeWithRealtime, Agency } from 'gtfs-sqljs'
+import { Stop, Route, Trip, Agency } from 'gtfs-sqljs'
 import type { Remote } from 'comlink'
 import type { GtfsWorkerAPI } from '../gtfs.worker'
 import { GtfsApiAdapter } from '../utils/GtfsApiAdapter'
+import FeedBadge from '../components/FeedBadge'
+import StopSearchField, { StopMatch } from '../components/StopSearchField'
+import { formatDistance } from '../components/utils'
+import type { StopHierarchy } from '../utils/stationHierarchy'
+import { getAgencyNow } from '../utils/departures'
+import { createTimeService, unixToServiceTime } from '../utils/timezones'
+import { getFrequencyInfo } from '../utils/frequencies'
+import type { PropagatedStopTime } from '../utils/delayPropagation'
 
 interface DeparturesTabProps {
   stops: Stop[]
@@ -34,7 +41,9 @@ interface DeparturesTabProps {
 }
 
 interface StopGroup {
+  key: string
   name: string
+  station: Stop | null // null for stops grouped by name
   stops: Stop[]
   selected: boolean
   routes: Route[]
@@ -43,7 +52,7 @@ interface StopGroup {
 interface Departure {
   trip: Trip
   route: Route | null
-  stopTime: StopTimeWithRealtime
+  stopTime: PropagatedStopTime
   stop: Stop
   departureTimeSeconds: number
   realtimeDepartureSeconds: number | null
@@ -59,63 +68,69 @@ export default function DeparturesTab({
   agencies
 }: DeparturesTabProps) {
   const [stopGroups, setStopGroups] = useState<StopGroup[]>([])
+  const [hierarchy, setHierarchy] = useState<StopHierarchy | null>(null)
   const [departures, setDepartures] = useState<Departure[]>([])
   const [loading, setLoading] = useState(false)
-  const [searchQuery, setSearchQuery] = useState('')
+  const [stopMatches, setStopMatches] = useState<StopMatch[] | null>(null)
   const [stopRoutesMap, setStopRoutesMap] = useState<Map<string, Set<string>>>(new Map())
   const [debugInfo, setDebugInfo] = useState<string>('')
   const [agencyTime, setAgencyTime] = useState<string>('')
+  const timeService = useMemo(() => createTimeService(agencies), [agencies])
+  const agencyTimezone = timeService.feedTimezone
+  // Service date of the board, kept current by the clock and each refresh of the board
+  const [serviceDate, setServiceDate] = useState(() => getAgencyNow(agencyTimezone).date)
 
   // Load routes going through each stop
   useEffect(() => {
     if (!workerApi) return
 
     const loadStopRoutes = async () => {
-      const stopRoutes = new Map<string, Set<string>>()
-
-      const today = new Date().toISOString().split('T')[0].replace(/-/g, '')
-
-      for (const route of routes) {
-        try {
-          const trips = await workerApi.getTrips({ routeId: route.route_id, date: today, includeRealtime: true })
-
-          for (const trip of trips) {
-            const stopTimes = await workerApi.getStopTimes({ tripId: trip.trip_id, includeRealtime: true })
-            stopTimes.forEach(st => {
-              if (!stopRoutes.has(st.stop_id)) {
-                stopRoutes.set(st.stop_id, new Set())
-              }
-              stopRoutes.get(st.stop_id)!.add(route.route_id)
-            })
-          }
-        } catch (err) {
-          console.error(`Error loading routes for stop:`, err)
-        }
+      try {
+        const index = await workerApi.getStopRouteIndex(serviceDate)
+        setStopRoutesMap(new Map(Object.entries(index).map(([stopId, routeIds]) => [stopId, new Set(routeIds)])))
+      } catch (err) {
+        console.error('Error loading routes for stops:', err)
       }
-
-      setStopRoutesMap(stopRoutes)
     }
 
     loadStopRoutes()
-  }, [workerApi, routes])
+  }, [workerApi, serviceDate])
 
   // Group stops by name
   useEffect(() => {
-    const groupsMap = new Map<string, Stop[]>()
+    if (!workerApi) return
+    workerApi.getStopHierarchy()
+      .then(setHierarchy)
+      .catch(err => console.error('Error loading stations:', err))
+  }, [workerApi, stops])
 
-    stops.forEach(stop => {
-      const name = stop.stop_name
-      if (!groupsMap.has(name)) {
-        groupsMap.set(name, [])
+  // Group platforms by parent station, and stops without a parent station by name
+  useEffect(() => {
+    const groupsMap = new Map<string, Omit<StopGroup, 'selected' | 'routes'>>()
+
+    hierarchy?.stations
+      .filter(node => node.platforms.length > 0)
+      .forEach(node => groupsMap.set(node.station.stop_id, {
+        key: node.station.stop_id,
+        name: node.station.stop_name,
+        station: node.station,
+        stops: node.platforms
+      }))
+
+    const standaloneStops = hierarchy ? hierarchy.standaloneStops : stops
+    standaloneStops.forEach(stop => {
+      const key = `name:${stop.stop_name}`
+      if (!groupsMap.has(key)) {
+        groupsMap.set(key, { key, name: stop.stop_name, station: null, stops: [] })
       }
-      groupsMap.get(name)!.push(stop)
+      groupsMap.get(key)!.stops.push(stop)
     })
 
-    const groups: StopGroup[] = Array.from(groupsMap.entries())
-      .map(([name, stopList]) => {
-        // Get unique routes for all stops with this name
+    const groups: StopGroup[] = Array.from(groupsMap.values())
+      .map(group => {
+        // Get unique routes for all stops of the group
         const routeIds = new Set<string>()
-        stopList.forEach(stop => {
+        group.stops.forEach(stop => {
           const routesForStop = stopRoutesMap.get(stop.stop_id)
           if (routesForStop) {
             routesForStop.forEach(rid => routeIds.add(rid))
@@ -124,27 +139,23 @@ export default function DeparturesTab({
 
         const groupRoutes = routes.filter(r => routeIds.has(r.route_id))
 
-        return { name, stops: stopList, selected: false, routes: groupRoutes }
+        return { ...group, selected: false, routes: groupRoutes }
       })
       .sort((a, b) => a.name.localeCompare(b.name))
 
     setStopGroups(groups)
-  }, [stops, stopRoutesMap, routes])
+  }, [stops, hierarchy, stopRoutesMap, routes])
 
   // Toggle stop group selection
-  const toggleStopGroup = (groupName: string) => {
+  const toggleStopGroup = (groupKey: string) => {
     setStopGroups(prev =>
-      prev.map(g => g.name === groupName ? { ...g, selected: !g.selected } : g)
+      prev.map(g => g.key === groupKey ? { ...g, selected: !g.selected } : g)
     )
   }
 
   // Update agency time display every second
   useEffect(() => {
     const updateAgencyTime = () => {
-      const agencyTimezone = agencies.length > 0 && agencies[0].agency_timezone
-        ? agencies[0].agency_timezone
-        : Intl.DateTimeFormat().resolvedOptions().timeZone
-
       const now = new Date()
       const timeString = now.toLocaleString('en-US', {
         timeZone: agencyTimezone,
@@ -153,12 +164,13 @@ export default function DeparturesTab({
         minute: '2-digit'
       })
       setAgencyTime(timeString)
+      setServiceDate(getAgencyNow(agencyTimezone, now).date)
     }
 
     updateAgencyTime() // Initial update
     const interval = setInterval(updateAgencyTime, 1000)
     return () => clearInterval(interval)
-  }, [agencies])
+  }, [agencyTimezone])
 
   // Load departures for selected stops
   useEffect(() => {
@@ -179,11 +191,6 @@ export default function DeparturesTab({
       try {
         const now = new Date()
 
-        // Get agency timezone and calculate current time in that timezone
-        const agencyTimezone = agencies.length > 0 && agencies[0].agency_timezone
-          ? agencies[0].agency_timezone
-          : Intl.DateTimeFormat().resolvedOptions().timeZone
-
         // Get current time in agency timezone
         const agencyTimeString = now.toLocaleString('en-US', {
           timeZone: agencyTimezone,
@@ -192,24 +199,17 @@ export default function DeparturesTab({
           minute: '2-digit',
           second: '2-digit'
         })
-        const [h, m, s] = agencyTimeString.split(':').map(Number)
-        const currentTimeSeconds = h * 3600 + m * 60 + s
+        const [h, m] = agencyTimeString.split(':').map(Number)
 
         // Update agency time display (HH:MM format)
         setAgencyTime(`${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`)
 
-        // Get today's date in agency timezone
-        const agencyDateString = now.toLocaleString('en-US', {
-          timeZone: agencyTimezone,
-          year: 'numeric',
-          month: '2-digit',
-          day: '2-digit'
-        })
-        const [month, day, year] = agencyDateString.split('/')
-        const today = `${year}${month}${day}`
+        // Today's service date, and time since the start of its service day (differs from the clock on DST days)
+        const { date: today, seconds: currentTimeSeconds } = getAgencyNow(agencyTimezone, now)
+        setServiceDate(today)
 
         // Debug info collection
-        let debugLines: string[] = []
+        const debugLines: string[] = []
         debugLines.push(`=== DEBUG INFO ===`)
         debugLines.push(`Browser time: ${now.toISOString()} (local: ${now.toLocaleString()})`)
         debugLines.push(`Agency timezone: ${agencyTimezone}`)
@@ -248,6 +248,17 @@ export default function DeparturesTab({
         debugLines.push(`Total stop times retrieved: ${allStopTimes.length}`)
         debugLines.push(``)
 
+        // Trips and routes, for the timezone of each trip's realtime and the display
+        const tripIds = [...new Set(allStopTimes.map(st => st.trip_id))]
+        debugLines.push(`Unique trips to enrich: ${tripIds.length}`)
+
+        const trips = await workerApi.getTrips({ tripId: tripIds, includeRealtime: true })
+        const tripMap = new Map(trips.map(t => [t.trip_id, t]))
+
+        const routeIds = [...new Set(trips.map(t => t.route_id))]
+        const routesData = await workerApi.getRoutes({ routeId: routeIds })
+        const routeMap = new Map(routesData.map(r => [r.route_id, r]))
+
         // Filter and process departures
         const allDepartures: Departure[] = []
         let filteredByTime = 0
@@ -259,6 +270,11 @@ export default function DeparturesTab({
           const stop = selectedStops.find(s => s.stop_id === stopTime.stop_id)
           if (!stop) continue
 
+          // Departures without trip data are not shown
+          const trip = tripMap.get(stopTime.trip_id)
+          if (!trip) continue
+          const route = routeMap.get(trip.route_id) || null
+
           // Filter out CANCELED and SKIPPED trips (CORRECT LOGIC)
           if (stopTime.realtime?.schedule_relationship === 3) {  // CANCELED
             filteredByCanceled++
@@ -277,17 +293,11 @@ export default function DeparturesTab({
           // Get realtime departure if available (Unix timestamp -> seconds from midnight)
           let realtimeDepartureSeconds: number | null = null
           if (stopTime.realtime?.departure_time) {
-            // Convert Unix timestamp to seconds-from-midnight in agency timezone
-            const realtimeDate = new Date(stopTime.realtime.departure_time * 1000)
-            const realtimeTimeString = realtimeDate.toLocaleString('en-US', {
-              timeZone: agencyTimezone,
-              hour12: false,
-              hour: '2-digit',
-              minute: '2-digit',
-              second: '2-digit'
-            })
-            const [rh, rm, rs] = realtimeTimeString.split(':').map(Number)
-            realtimeDepartureSeconds = rh * 3600 + rm * 60 + rs
+            // Unix timestamp -> seconds since the start of today's service day in the timezone of the trip, like its schedule
+            realtimeDepartureSeconds = unixToServiceTime(stopTime.realtime.departure_time, today, timeService.routeTimezone(route))
+          } else if (stopTime.realtime?.departure_delay !== undefined && stopTime.realtime?.departure_delay !== null) {
+            // Delay of this stop, or carried from an earlier stop of the trip
+            realtimeDepartureSeconds = departureTimeSeconds + stopTime.realtime.departure_delay
           }
 
           const effectiveDepartureSeconds = realtimeDepartureSeconds ?? departureTimeSeconds
@@ -295,8 +305,8 @@ export default function DeparturesTab({
           // Only include upcoming departures (with tolerance for times past midnight)
           if (effectiveDepartureSeconds >= currentTimeSeconds || departureTimeSeconds >= 24 * 3600) {
             allDepartures.push({
-              trip: null as any, // Will be enriched below
-              route: null,
+              trip,
+              route,
               stopTime,
               stop,
               departureTimeSeconds,
@@ -310,39 +320,13 @@ export default function DeparturesTab({
         debugLines.push(`Filtered (time in past): ${filteredByTime}`)
         debugLines.push(`Filtered (CANCELED trips): ${filteredByCanceled}`)
         debugLines.push(`Filtered (SKIPPED stops): ${filteredBySkipped}`)
-        debugLines.push(`Departures (before enrichment): ${allDepartures.length}`)
-        debugLines.push(``)
-
-        // Enrich with trip and route data
-        const tripIds = [...new Set(allDepartures.map(d => d.stopTime.trip_id))]
-        debugLines.push(`Unique trips to enrich: ${tripIds.length}`)
-
-        const trips = await workerApi.getTrips({ tripId: tripIds, includeRealtime: true })
-        const tripMap = new Map(trips.map(t => [t.trip_id, t]))
-
-        const routeIds = [...new Set(trips.map(t => t.route_id))]
-        const routesData = await workerApi.getRoutes({ routeId: routeIds })
-        const routeMap = new Map(routesData.map(r => [r.route_id, r]))
-
-        // Enrich departures with trip and route data
-        allDepartures.forEach(dep => {
-          const trip = tripMap.get(dep.stopTime.trip_id)
-          if (trip) {
-            dep.trip = trip
-            dep.route = routeMap.get(trip.route_id) || null
-          }
-        })
-
-        // Remove departures without trip data
-        const enrichedDepartures = allDepartures.filter(d => d.trip !== null)
-
-        debugLines.push(`Departures after enrichment: ${enrichedDepartures.length}`)
+        debugLines.push(`Departures: ${allDepartures.length}`)
         debugLines.push(``)
 
         // Show sample departures
-        if (enrichedDepartures.length > 0) {
+        if (allDepartures.length > 0) {
           debugLines.push(`Sample of first 10 departures:`)
-          enrichedDepartures.slice(0, 10).forEach((dep, idx) => {
+          allDepartures.slice(0, 10).forEach((dep, idx) => {
             const scheduledTime = formatTime(dep.departureTimeSeconds)
             const effectiveTime = formatTime(dep.realtimeDepartureSeconds ?? dep.departureTimeSeconds)
             const delay = dep.realtimeDepartureSeconds ? ` (${dep.realtimeDepartureSeconds > dep.departureTimeSeconds ? '+' : ''}${Math.round((dep.realtimeDepartureSeconds - dep.departureTimeSeconds) / 60)}min)` : ''
@@ -352,13 +336,13 @@ export default function DeparturesTab({
         }
 
         // Sort by effective departure time and limit
-        enrichedDepartures.sort((a, b) => {
+        allDepartures.sort((a, b) => {
           const aTime = a.realtimeDepartureSeconds ?? a.departureTimeSeconds
           const bTime = b.realtimeDepartureSeconds ?? b.departureTimeSeconds
           return aTime - bTime
         })
 
-        setDepartures(enrichedDepartures.slice(0, upcomingDeparturesCount))
+        setDepartures(allDepartures.slice(0, upcomingDeparturesCount))
         setDebugInfo(debugLines.join('\n'))
         setLoading(false)
       } catch (err) {
@@ -375,7 +359,7 @@ export default function DeparturesTab({
       const interval = setInterval(loadDepartures, updateInterval * 1000)
       return () => clearInterval(interval)
     }
-  }, [stopGroups, workerApi, gtfsApi, routes, upcomingDeparturesCount, updateInterval, agencies])
+  }, [stopGroups, workerApi, gtfsApi, routes, upcomingDeparturesCount, updateInterval, timeService, agencyTimezone])
 
   const formatTime = (seconds: number): string => {
     const h = Math.floor(seconds / 3600) % 24  // Use modulo 24 for times >= 24h
@@ -384,21 +368,8 @@ export default function DeparturesTab({
   }
 
   const formatDepartureTime = (departureSeconds: number, realtimeSeconds: number | null): string => {
-    // Get current time in agency timezone
-    const agencyTimezone = agencies.length > 0 && agencies[0].agency_timezone
-      ? agencies[0].agency_timezone
-      : Intl.DateTimeFormat().resolvedOptions().timeZone
-
-    const now = new Date()
-    const agencyTimeString = now.toLocaleString('en-US', {
-      timeZone: agencyTimezone,
-      hour12: false,
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit'
-    })
-    const [h, m, s] = agencyTimeString.split(':').map(Number)
-    const currentTimeSeconds = h * 3600 + m * 60 + s
+    // Current time in agency timezone, on the same scale as departure times
+    const currentTimeSeconds = getAgencyNow(agencyTimezone).seconds
 
     const effectiveSeconds = realtimeSeconds ?? departureSeconds
     const minutesUntil = Math.floor((effectiveSeconds - currentTimeSeconds) / 60)
@@ -412,9 +383,20 @@ export default function DeparturesTab({
 
   const selectedCount = stopGroups.filter(g => g.selected).length
 
-  const filteredStopGroups = stopGroups.filter(group =>
-    searchQuery === '' || group.name.toLowerCase().includes(searchQuery.toLowerCase())
-  )
+  // Groups of matching stops, in the order of their best match
+  const matchRanks = new Map((stopMatches || []).map((match, idx) => [match.stop.stop_id, idx]))
+  const groupStopIds = (group: StopGroup) =>
+    (group.station ? [group.station, ...group.stops] : group.stops).map(stop => stop.stop_id)
+  const groupRank = (group: StopGroup) => Math.min(...groupStopIds(group).map(stopId => matchRanks.get(stopId) ?? Infinity))
+  const filteredStopGroups = stopMatches
+    ? stopGroups.filter(group => groupRank(group) !== Infinity).sort((a, b) => groupRank(a) - groupRank(b))
+    : stopGroups
+  const groupDistance = (group: StopGroup) => {
+    const distances = (stopMatches || [])
+      .filter(match => match.distance !== null && groupStopIds(group).includes(match.stop.stop_id))
+      .map(match => match.distance!)
+    return distances.length > 0 ? Math.min(...distances) : null
+  }
 
   return (
     <Box sx={{ p: 3 }}>
@@ -425,20 +407,13 @@ export default function DeparturesTab({
               Select Stops ({selectedCount} selected)
             </Typography>
 
-            <TextField
-              fullWidth
-              size="small"
-              placeholder="Search stops..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              sx={{ mb: 2 }}
-            />
+            <StopSearchField stops={stops} workerApi={workerApi} onMatchesChange={setStopMatches} />
 
             <Box sx={{ flex: 1, overflow: 'auto' }}>
               <List>
                 {filteredStopGroups.map(group => (
-                  <ListItem key={group.name} disablePadding sx={{ display: 'block' }}>
-                    <ListItemButton onClick={() => toggleStopGroup(group.name)} dense>
+                  <ListItem key={group.key} disablePadding sx={{ display: 'block' }}>
+                    <ListItemButton onClick={() => toggleStopGroup(group.key)} dense>
                       <Checkbox
                         edge="start"
                         checked={group.selected}
@@ -450,7 +425,11 @@ export default function DeparturesTab({
                         secondary={
                           <Box>
                             <Typography variant="caption" display="block">
-                              {group.stops.length} stop{group.stops.length > 1 ? 's' : ''}
+                              {group.station
+                                ? `Station · ${group.stops.length} platform${group.stops.length > 1 ? 's' : ''}`
+                                : `${group.stops.length} stop${group.stops.length > 1 ? 's' : ''}`}
+                              {groupDistance(group) !== null && ` · ${formatDistance(groupDistance(group)!)}`}
+                              <FeedBadge id={group.stops[0].stop_id} />
                             </Typography>
                             {group.routes.length > 0 && (
                               <Stack direction="row" spacing={0.5} flexWrap="wrap" gap={0.5} sx={{ mt: 0.5 }}>
@@ -563,7 +542,11 @@ export default function DeparturesTab({
                           <TableCell>{dep.trip.trip_headsign || 'N/A'}</TableCell>
                           <TableCell>{dep.stop.stop_name}</TableCell>
                           <TableCell>{dep.stop.platform_code || '-'}</TableCell>
-                          <TableCell>{formatTime(dep.departureTimeSeconds)}</TableCell>
+                          <TableCell>
+                            {/* Frequency-based trips without exact times only plan the headway */}
+                            {getFrequencyInfo(dep.trip)?.exact_times === false && '~'}
+                            {formatTime(dep.departureTimeSeconds)}
+                          </TableCell>
                           <TableCell>
                             <strong>
                               {formatDepartureTime(dep.departureTimeSeconds, dep.realtimeDepartureSeconds)}
@@ -573,6 +556,7 @@ export default function DeparturesTab({
                             {dep.realtimeDepartureSeconds !== null && dep.realtimeDepartureSeconds !== dep.departureTimeSeconds ? (
                               <Typography variant="body2" color="error">
                                 {Math.round((dep.realtimeDepartureSeconds - dep.departureTimeSeconds) / 60)} min. delay
+                                {dep.stopTime.realtime?.source === 'propagated' && ' (estimated)'}
                               </Typography>
                             ) : (
                               '-'
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import {
   Box,
   Paper,
@@ -12,12 +12,22 @@ import {
   Stack,
   Card,
   CardContent,
-  FormControlLabel
+  FormControlLabel,
+  Chip,
+  Button,
+  Alert
 } from '@mui/material'
-import { Stop, Route, Trip, StopTimeWithRealtime, Agency } from 'gtfs-sqljs'
+import { Stop, Route, Agency } from 'gtfs-sqljs'
 import type { Remote } from 'comlink'
 import type { GtfsWorkerAPI } from '../gtfs.worker'
 import { GtfsApiAdapter } from '../utils/GtfsApiAdapter'
+import { Departure, getAgencyNow, getBoardTimezone, loadUpcomingDepartures } from '../utils/departures'
+import { createTimeService, toZonedTime, wallClockToUnix } from '../utils/timezones'
+import { secondsToTime, timeToSeconds, formatDistance } from '../components/utils'
+import StopSearchField, { StopMatch } from '../components/StopSearchField'
+import { getFrequencyInfo, formatHeadway } from '../utils/frequencies'
+import FeedBadge from '../components/FeedBadge'
+import { useUrlState, parseList, formatList } from '../utils/urlState'
 
 interface DeparturesV2TabProps {
   stops: Stop[]
@@ -29,15 +39,6 @@ interface DeparturesV2TabProps {
   agencies: Agency[]
 }
 
-interface Departure {
-  trip: Trip
-  route: Route | null
-  stopTime: StopTimeWithRealtime
-  stop: Stop
-  departureTimeSeconds: number
-  realtimeDepartureSeconds: number | null
-}
-
 interface RouteDirectionGroup {
   routeId: string
   directionId: number
@@ -55,37 +56,99 @@ export default function DeparturesV2Tab({
   updateInterval,
   agencies
 }: DeparturesV2TabProps) {
-  const [selectedStopIds, setSelectedStopIds] = useState<Set<string>>(new Set())
+  // Selected stops are kept in the URL so that a board can be shared
+  const [urlState, setUrlState] = useUrlState()
+  const stopsParam = urlState.get('stops')
+  const selectedStopIds = useMemo(() => new Set(parseList(stopsParam)), [stopsParam])
   const [departures, setDepartures] = useState<Departure[]>([])
   const [loading, setLoading] = useState(false)
-  const [searchQuery, setSearchQuery] = useState('')
+  const [stopMatches, setStopMatches] = useState<StopMatch[] | null>(null)
   const [agencyTime, setAgencyTime] = useState<string>('')
   const [routeDirectionGroups, setRouteDirectionGroups] = useState<RouteDirectionGroup[]>([])
   const [showTheoreticalSchedules, setShowTheoreticalSchedules] = useState(false)
+  const [stopRoutesMap, setStopRoutesMap] = useState<Map<string, Route[]>>(new Map())
+  const timeService = useMemo(() => createTimeService(agencies), [agencies])
+  const selectedStops = useMemo(
+    () => stops.filter(s => selectedStopIds.has(s.stop_id)),
+    [stops, selectedStopIds]
+  )
+  const boardTimezone = getBoardTimezone(timeService, selectedStops)
+
+  // What-if date (YYYY-MM-DD) and time (HH:MM) in the board timezone, live when unset
+  const whatIfDate = urlState.get('date')
+  const whatIfTime = urlState.get('time')
+  const whatIfAt = useMemo(
+    () => whatIfDate && whatIfTime
+      ? wallClockToUnix(whatIfDate.replace(/-/g, ''), timeToSeconds(`${whatIfTime}:00`), boardTimezone)
+      : null,
+    [whatIfDate, whatIfTime, boardTimezone]
+  )
+  const [recordingStart, setRecordingStart] = useState<number | null>(null)
+
+  // Load routes going through each stop
+  useEffect(() => {
+    if (!workerApi) return
+
+    const loadStopRoutes = async () => {
+      try {
+        const index = await workerApi.getStopRouteIndex(whatIfDate
+          ? whatIfDate.replace(/-/g, '')
+          : getAgencyNow(timeService.feedTimezone).date)
+        const routeMap = new Map(routes.map(r => [r.route_id, r]))
+        setStopRoutesMap(new Map(Object.entries(index).map(([stopId, routeIds]) => [
+          stopId,
+          routeIds
+            .map(id => routeMap.get(id))
+            .filter((r): r is Route => !!r)
+            .sort((a, b) => (a.route_sort_order ?? 9999) - (b.route_sort_order ?? 9999))
+        ])))
+      } catch (err) {
+        console.error('Error loading routes for stops:', err)
+      }
+    }
+
+    loadStopRoutes()
+  }, [workerApi, routes, timeService, whatIfDate])
+
+  // Recorded realtime only covers a what-if time after the first recorded snapshot
+  useEffect(() => {
+    if (!workerApi || whatIfAt === null) return
+    workerApi.getRecordingInfo()
+      .then(info => setRecordingStart(info.snapshots[0] ?? null))
+      .catch(err => console.error('Error loading recording info:', err))
+  }, [workerApi, whatIfAt])
+
+  // Travel to a date and time, keeping the other one or else taking the current one
+  const travelTo = (date: string | null, time: string | null) => {
+    const now = toZonedTime(Date.now() / 1000, boardTimezone)
+    setUrlState({
+      date: date || `${now.date.slice(0, 4)}-${now.date.slice(4, 6)}-${now.date.slice(6, 8)}`,
+      time: time || secondsToTime(now.seconds).substring(0, 5)
+    }, { replace: true })
+  }
 
   // Toggle individual stop selection
   const toggleStop = (stopId: string) => {
-    setSelectedStopIds(prev => {
-      const newSet = new Set(prev)
-      if (newSet.has(stopId)) {
-        newSet.delete(stopId)
-      } else {
-        newSet.add(stopId)
-      }
-      return newSet
-    })
+    const newSet = new Set(selectedStopIds)
+    if (newSet.has(stopId)) {
+      newSet.delete(stopId)
+    } else {
+      newSet.add(stopId)
+    }
+    setUrlState({ stops: formatList(newSet) })
   }
 
-  // Update agency time display every second
+  // Update agency time display every second, frozen at the what-if time
   useEffect(() => {
-    const updateAgencyTime = () => {
-      const agencyTimezone = agencies.length > 0 && agencies[0].agency_timezone
-        ? agencies[0].agency_timezone
-        : Intl.DateTimeFormat().resolvedOptions().timeZone
+    if (whatIfTime) {
+      setAgencyTime(whatIfTime)
+      return
+    }
 
+    const updateAgencyTime = () => {
       const now = new Date()
       const timeString = now.toLocaleString('en-US', {
-        timeZone: agencyTimezone,
+        timeZone: boardTimezone,
         hour12: false,
         hour: '2-digit',
         minute: '2-digit'
@@ -96,14 +159,12 @@ export default function DeparturesV2Tab({
     updateAgencyTime() // Initial update
     const interval = setInterval(updateAgencyTime, 1000)
     return () => clearInterval(interval)
-  }, [agencies])
+  }, [boardTimezone, whatIfTime])
 
   // Load departures for selected stops
   useEffect(() => {
     if (!workerApi || !gtfsApi) return
 
-    const selectedStops = stops.filter(s => selectedStopIds.has(s.stop_id))
-
     if (selectedStops.length === 0) {
       setDepartures([])
       setRouteDirectionGroups([])
@@ -114,131 +175,7 @@ export default function DeparturesV2Tab({
       setLoading(true)
 
       try {
-        const now = new Date()
-
-        // Get agency timezone and calculate current time in that timezone
-        const agencyTimezone = agencies.length > 0 && agencies[0].agency_timezone
-          ? agencies[0].agency_timezone
-          : Intl.DateTimeFormat().resolvedOptions().timeZone
-
-        // Get current time in agency timezone
-        const agencyTimeString = now.toLocaleString('en-US', {
-          timeZone: agencyTimezone,
-          hour12: false,
-          hour: '2-digit',
-          minute: '2-digit',
-          second: '2-digit'
-        })
-        const [h, m, s] = agencyTimeString.split(':').map(Number)
-        const currentTimeSeconds = h * 3600 + m * 60 + s
-
-        // Update agency time display (HH:MM format)
-        setAgencyTime(`${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`)
-
-        // Get today's date in agency timezone
-        const agencyDateString = now.toLocaleString('en-US', {
-          timeZone: agencyTimezone,
-          year: 'numeric',
-          month: '2-digit',
-          day: '2-digit'
-        })
-        const [month, day, year] = agencyDateString.split('/')
-        const today = `${year}${month}${day}`
-
-        // Get active service IDs for today
-        const activeServiceIds = await workerApi.getActiveServiceIds(today)
-
-        if (activeServiceIds.length === 0) {
-          setDepartures([])
-          setRouteDirectionGroups([])
-          setLoading(false)
-          return
-        }
-
-        // Single query for all stop times at selected stops
-        const selectedStopIdList = selectedStops.map(s => s.stop_id)
-
-        const allStopTimes = await workerApi.getStopTimes({
-          stopId: selectedStopIdList,
-          serviceIds: activeServiceIds,
-          includeRealtime: true,
-        })
-
-        // Filter and process departures
-        const allDepartures: Departure[] = []
-
-        for (const stopTime of allStopTimes) {
-          // Find the corresponding stop object
-          const stop = selectedStops.find(s => s.stop_id === stopTime.stop_id)
-          if (!stop) continue
-
-          // Filter out CANCELED and SKIPPED trips
-          if (stopTime.realtime?.schedule_relationship === 3) continue  // CANCELED
-          if (stopTime.realtime?.schedule_relationship === 4) continue  // SKIPPED
-
-          // Parse scheduled departure time
-          if (!stopTime.departure_time) continue
-          const [h, m, s] = stopTime.departure_time.split(':').map(Number)
-          const departureTimeSeconds = h * 3600 + m * 60 + s
-
-          // Get realtime departure if available (Unix timestamp -> seconds from midnight)
-          let realtimeDepartureSeconds: number | null = null
-          if (stopTime.realtime?.departure_time) {
-            // Convert Unix timestamp to seconds-from-midnight in agency timezone
-            const realtimeDate = new Date(stopTime.realtime.departure_time * 1000)
-            const realtimeTimeString = realtimeDate.toLocaleString('en-US', {
-              timeZone: agencyTimezone,
-              hour12: false,
-              hour: '2-digit',
-              minute: '2-digit',
-              second: '2-digit'
-            })
-            const [rh, rm, rs] = realtimeTimeString.split(':').map(Number)
-            realtimeDepartureSeconds = rh * 3600 + rm * 60 + rs
-          }
-
-          const effectiveDepartureSeconds = realtimeDepartureSeconds ?? departureTimeSeconds
-
-          // Only include upcoming departures (with tolerance for times past midnight)
-          if (effectiveDepartureSeconds >= currentTimeSeconds || departureTimeSeconds >= 24 * 3600) {
-            allDepartures.push({
-              trip: null as any, // Will be enriched below
-              route: null,
-              stopTime,
-              stop,
-              departureTimeSeconds,
-              realtimeDepartureSeconds
-            })
-          }
-        }
-
-        // Enrich with trip and route data
-        const tripIds = [...new Set(allDepartures.map(d => d.stopTime.trip_id))]
-        const trips = await workerApi.getTrips({ tripId: tripIds, includeRealtime: true })
-        const tripMap = new Map(trips.map(t => [t.trip_id, t]))
-
-        const routeIds = [...new Set(trips.map(t => t.route_id))]
-        const routesData = await workerApi.getRoutes({ routeId: routeIds })
-        const routeMap = new Map(routesData.map(r => [r.route_id, r]))
-
-        // Enrich departures with trip and route data
-        allDepartures.forEach(dep => {
-          const trip = tripMap.get(dep.stopTime.trip_id)
-          if (trip) {
-            dep.trip = trip
-            dep.route = routeMap.get(trip.route_id) || null
-          }
-        })
-
-        // Remove departures without trip data
-        const enrichedDepartures = allDepartures.filter(d => d.trip !== null)
-
-        // Sort by effective departure time
-        enrichedDepartures.sort((a, b) => {
-          const aTime = a.realtimeDepartureSeconds ?? a.departureTimeSeconds
-          const bTime = b.realtimeDepartureSeconds ?? b.departureTimeSeconds
-          return aTime - bTime
-        })
+        const enrichedDepartures = await loadUpcomingDepartures(workerApi, selectedStops, timeService, false, whatIfAt)
 
         setDepartures(enrichedDepartures)
 
@@ -323,12 +260,12 @@ export default function DeparturesV2Tab({
 
     loadDepartures()
 
-    // Auto-refresh if enabled
-    if (updateInterval > 0) {
+    // Auto-refresh if enabled, a what-if board does not change
+    if (updateInterval > 0 && whatIfAt === null) {
       const interval = setInterval(loadDepartures, updateInterval * 1000)
       return () => clearInterval(interval)
     }
-  }, [selectedStopIds, workerApi, gtfsApi, routes, updateInterval, agencies, stops])
+  }, [selectedStops, workerApi, gtfsApi, routes, updateInterval, timeService, whatIfAt])
 
   const formatTime = (seconds: number): string => {
     const h = Math.floor(seconds / 3600) % 24
@@ -337,21 +274,8 @@ export default function DeparturesV2Tab({
   }
 
   const formatDepartureTime = (departureSeconds: number, realtimeSeconds: number | null): string => {
-    // Get current time in agency timezone
-    const agencyTimezone = agencies.length > 0 && agencies[0].agency_timezone
-      ? agencies[0].agency_timezone
-      : Intl.DateTimeFormat().resolvedOptions().timeZone
-
-    const now = new Date()
-    const agencyTimeString = now.toLocaleString('en-US', {
-      timeZone: agencyTimezone,
-      hour12: false,
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit'
-    })
-    const [h, m, s] = agencyTimeString.split(':').map(Number)
-    const currentTimeSeconds = h * 3600 + m * 60 + s
+    // Current (or what-if) time in the board timezone, on the same scale as departure times
+    const currentTimeSeconds = getAgencyNow(boardTimezone, whatIfAt !== null ? new Date(whatIfAt * 1000) : undefined).seconds
 
     const effectiveSeconds = realtimeSeconds ?? departureSeconds
     const minutesUntil = Math.floor((effectiveSeconds - currentTimeSeconds) / 60)
@@ -363,11 +287,10 @@ export default function DeparturesV2Tab({
     return formatTime(effectiveSeconds)
   }
 
-  const filteredStops = stops.filter(stop =>
-    searchQuery === '' ||
-    stop.stop_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    stop.stop_id.toLowerCase().includes(searchQuery.toLowerCase())
-  )
+  const filteredStops = stopMatches ? stopMatches.map(match => match.stop) : stops
+  const stopDistances = new Map((stopMatches || [])
+    .filter(match => match.distance !== null)
+    .map(match => [match.stop.stop_id, match.distance!]))
 
   const selectedCount = selectedStopIds.size
 
@@ -390,19 +313,47 @@ export default function DeparturesV2Tab({
             />
           </Paper>
 
+          <Paper sx={{ p: 2, mb: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Time Travel
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+              <TextField
+                type="date"
+                label="Date"
+                size="small"
+                value={whatIfDate || ''}
+                onChange={(e) => travelTo(e.target.value, whatIfTime)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                type="time"
+                label="Time"
+                size="small"
+                value={whatIfTime || ''}
+                onChange={(e) => travelTo(whatIfDate, e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <Button
+                size="small"
+                variant={whatIfAt === null ? 'contained' : 'outlined'}
+                color="success"
+                onClick={() => setUrlState({ date: null, time: null })}
+              >
+                Live
+              </Button>
+            </Box>
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+              Shows the board at any date and time, in {boardTimezone}
+            </Typography>
+          </Paper>
+
           <Paper sx={{ p: 2, height: '600px', display: 'flex', flexDirection: 'column' }}>
             <Typography variant="h6" gutterBottom>
               Select Stops ({selectedCount} selected)
             </Typography>
 
-            <TextField
-              fullWidth
-              size="small"
-              placeholder="Search stops..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              sx={{ mb: 2 }}
-            />
+            <StopSearchField stops={stops} workerApi={workerApi} onMatchesChange={setStopMatches} />
 
             <Box sx={{ flex: 1, overflow: 'auto' }}>
               <List>
@@ -418,9 +369,31 @@ export default function DeparturesV2Tab({
                       <ListItemText
                         primary={`${stop.stop_name}`}
                         secondary={
-                          <Typography variant="caption" display="block">
-                            {stop.stop_id}
-                          </Typography>
+                          <Box component="span" sx={{ display: 'block' }}>
+                            <Typography variant="caption" display="block" component="span">
+                              {stop.stop_id}
+                              {stopDistances.has(stop.stop_id) && ` · ${formatDistance(stopDistances.get(stop.stop_id)!)}`}
+                            </Typography>
+                            {(stopRoutesMap.get(stop.stop_id) || []).length > 0 && (
+                              <Stack component="span" direction="row" flexWrap="wrap" gap={0.5} sx={{ mt: 0.5 }}>
+                                {stopRoutesMap.get(stop.stop_id)!.map(route => (
+                                  <Chip
+                                    key={route.route_id}
+                                    component="span"
+                                    label={route.route_short_name || route.route_long_name}
+                                    size="small"
+                                    sx={{
+                                      backgroundColor: route.route_color ? `#${route.route_color}` : undefined,
+                                      color: route.route_text_color ? `#${route.route_text_color}` : undefined,
+                                      height: '20px',
+                                      fontSize: '0.7rem',
+                                      fontWeight: 'bold'
+                                    }}
+                                  />
+                                ))}
+                              </Stack>
+                            )}
+                          </Box>
                         }
                       />
                     </ListItemButton>
@@ -448,6 +421,17 @@ export default function DeparturesV2Tab({
               )}
             </Box>
 
+            {whatIfAt !== null && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Not live: board at {whatIfDate} {whatIfTime}.{' '}
+                {whatIfAt > Date.now() / 1000
+                  ? 'Showing the schedule only.'
+                  : recordingStart !== null && recordingStart <= whatIfAt
+                    ? 'Showing the schedule with the realtime updates recorded at that time.'
+                    : 'Showing the schedule only, no realtime was recorded at that time.'}
+              </Alert>
+            )}
+
             {loading && departures.length === 0 && <Typography>Loading departures...</Typography>}
 
             {!loading && selectedCount === 0 && (
@@ -486,42 +470,61 @@ export default function DeparturesV2Tab({
                             >
                               {group.route?.route_short_name || 'N/A'}
                             </Box>
+                            {group.route && <FeedBadge id={group.route.route_id} />}
                             <Typography variant="h6">
                               {group.tripHeadsign}
                             </Typography>
                           </Box>
 
                           <Box sx={{ display: 'flex', gap: 2 }}>
-                            {group.departures.map((dep, depIdx) => (
-                              <Box
-                                key={depIdx}
-                                sx={{
-                                  border: 1,
-                                  borderColor: 'divider',
-                                  borderRadius: 1,
-                                  p: 2,
-                                  minWidth: '120px',
-                                  textAlign: 'center'
-                                }}
-                              >
-                                <Typography
-                                  variant="h4"
+                            {group.departures.map((dep, depIdx) => {
+                              const frequency = getFrequencyInfo(dep.trip)
+                              return (
+                                <Box
+                                  key={depIdx}
                                   sx={{
-                                    fontWeight: 'bold',
-                                    color: dep.realtimeDepartureSeconds !== null ? '#1b5e20' : 'inherit'
+                                    border: 1,
+                                    borderColor: 'divider',
+                                    borderRadius: 1,
+                                    p: 2,
+                                    minWidth: '120px',
+                                    textAlign: 'center'
                                   }}
                                 >
-                                  {formatDepartureTime(dep.departureTimeSeconds, dep.realtimeDepartureSeconds)}
-                                </Typography>
-                                {dep.trip.trip_short_name}
-
-                                {showTheoreticalSchedules && dep.realtimeDepartureSeconds !== null && (
-                                  <Typography variant="caption" sx={{ color: 'text.secondary', fontSize: '0.75rem' }}>
-                                    {formatTime(dep.departureTimeSeconds)}
+                                  <Typography
+                                    variant="h4"
+                                    sx={{
+                                      fontWeight: 'bold',
+                                      color: dep.realtimeSource === 'propagated'
+                                        ? '#e65100'
+                                        : dep.realtimeDepartureSeconds !== null ? '#1b5e20' : 'inherit',
+                                      fontStyle: dep.realtimeSource === 'propagated' ? 'italic' : 'normal'
+                                    }}
+                                    title={dep.realtimeSource === 'propagated' ? 'Estimated from the delay at an earlier stop' : undefined}
+                                  >
+                                    {frequency?.exact_times === false && '~'}
+                                    {formatDepartureTime(dep.departureTimeSeconds, dep.realtimeDepartureSeconds)}
                                   </Typography>
-                                )}
-                              </Box>
-                            ))}
+                                  {dep.trip.trip_short_name}
+                                  {dep.stop.platform_code && (
+                                    <Typography variant="caption" display="block" sx={{ fontWeight: 'bold' }}>
+                                      Platform {dep.stop.platform_code}
+                                    </Typography>
+                                  )}
+                                  {frequency && (
+                                    <Typography variant="caption" display="block" sx={{ color: 'text.secondary', fontSize: '0.75rem' }}>
+                                      {formatHeadway(frequency)}
+                                    </Typography>
+                                  )}
+
+                                  {showTheoreticalSchedules && dep.realtimeDepartureSeconds !== null && (
+                                    <Typography variant="caption" sx={{ color: 'text.secondary', fontSize: '0.75rem' }}>
+                                      {formatTime(dep.departureTimeSeconds)}
+                                    </Typography>
+                                  )}
+                                </Box>
+                              )
+                            })}
                           </Box>
                         </Box>
 
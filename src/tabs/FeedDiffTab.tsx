@@ -0,0 +1,575 @@
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Collapse,
+  IconButton,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material'
+import { CompareArrows as CompareArrowsIcon, KeyboardArrowDown, KeyboardArrowUp } from '@mui/icons-material'
+import { wrap, proxy, Remote } from 'comlink'
+import { Route, Stop } from 'gtfs-sqljs'
+import type { GtfsWorkerAPI, LoadedFeed } from '../gtfs.worker'
+import {
+  FeedSnapshot,
+  FeedDiff,
+  FieldChange,
+  StopDeparture,
+  DEFAULT_MOVE_THRESHOLD,
+  diffFeeds
+} from '../utils/feedDiff'
+import { addDays, formatServiceDate } from '../utils/serviceCalendar'
+import { proxyUrl } from '../utils/feedSources'
+import RouteLabel from '../components/RouteLabel'
+
+interface FeedDiffTabProps {
+  workerApi: Remote<GtfsWorkerAPI> | null
+}
+
+type FeedSourceType = 'current' | 'url' | 'file'
+
+interface FeedSide {
+  type: FeedSourceType
+  url: string
+  file: File | null
+  feedId: string // loaded feed to compare when several are loaded, '' otherwise
+}
+
+type DiffSection = 'routes' | 'stops' | 'trips' | 'timetables'
+
+const BUNDLED_FEED_URL = '/car-jaune-1er-dec-2025.zip'
+
+/**
+ * Snapshot of one side of the comparison. Feeds other than the loaded one are opened
+ * in a worker of their own, terminated as soon as the snapshot is taken.
+ * When several feeds are loaded, only the chosen one is taken, with the same ids as a feed loaded alone.
+ */
+async function snapshotFeed(
+  side: FeedSide,
+  currentApi: Remote<GtfsWorkerAPI> | null,
+  dates: string[],
+  onProgress: (message: string) => void
+): Promise<FeedSnapshot> {
+  if (side.type === 'current') {
+    if (!currentApi) throw new Error('No feed loaded')
+    return await currentApi.getFeedSnapshot(dates, side.feedId || undefined)
+  }
+
+  const worker = new Worker(new URL('../gtfs.worker.ts', import.meta.url), { type: 'module' })
+  const workerApi = wrap<GtfsWorkerAPI>(worker)
+  try {
+    const report = proxy((progress: { message: string }) => onProgress(progress.message))
+    if (side.type === 'file') {
+      if (!side.file) throw new Error('No file selected')
+      await workerApi.loadGtfsFromData(await side.file.arrayBuffer(), [], report)
+    } else {
+      if (!side.url.trim()) throw new Error('No URL given')
+      await workerApi.loadGtfs(proxyUrl(side.url.trim()), [], report)
+    }
+    onProgress('Comparing...')
+    return await workerApi.getFeedSnapshot(dates)
+  } finally {
+    worker.terminate()
+  }
+}
+
+function FeedSideForm({ label, side, feeds, onChange, disabled }: {
+  label: string
+  side: FeedSide
+  feeds: LoadedFeed[]
+  onChange: (side: FeedSide) => void
+  disabled: boolean
+}) {
+  return (
+    <Paper sx={{ p: 2, height: '100%' }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 1 }}>{label}</Typography>
+      <TextField
+        select
+        size="small"
+        fullWidth
+        label="Source"
+        value={side.type}
+        onChange={(e) => onChange({ ...side, type: e.target.value as FeedSourceType })}
+        disabled={disabled}
+        sx={{ mb: 2 }}
+      >
+        <MenuItem value="current">Currently loaded feed</MenuItem>
+        <MenuItem value="url">GTFS URL</MenuItem>
+        <MenuItem value="file">GTFS ZIP file</MenuItem>
+      </TextField>
+      {side.type === 'current' && feeds.length > 1 && (
+        <TextField
+          select
+          size="small"
+          fullWidth
+          label="Feed"
+          value={side.feedId}
+          onChange={(e) => onChange({ ...side, feedId: e.target.value })}
+          disabled={disabled}
+        >
+          {feeds.map(feed => (
+            <MenuItem key={feed.id} value={feed.id}>{feed.id}</MenuItem>
+          ))}
+        </TextField>
+      )}
+      {side.type === 'url' && (
+        <TextField
+          size="small"
+          fullWidth
+          label="URL"
+          value={side.url}
+          onChange={(e) => onChange({ ...side, url: e.target.value })}
+          disabled={disabled}
+        />
+      )}
+      {side.type === 'file' && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Button variant="outlined" component="label" disabled={disabled}>
+            Choose File
+            <input
+              type="file"
+              hidden
+              accept=".zip,application/zip"
+              onChange={(e) => {
+                onChange({ ...side, file: e.target.files?.[0] || null })
+                // Allow re-selecting the same file
+                e.target.value = ''
+              }}
+            />
+          </Button>
+          <Typography variant="body2" color="text.secondary" noWrap>
+            {side.file?.name || 'No file selected'}
+          </Typography>
+        </Box>
+      )}
+    </Paper>
+  )
+}
+
+const FieldChanges = ({ changes }: { changes: FieldChange[] }) => (
+  <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.25 }}>
+    {changes.map(change => (
+      <Typography key={change.field} variant="body2">
+        <strong>{change.field}</strong>: <s>{change.before || '(empty)'}</s> &rarr; {change.after || '(empty)'}
+      </Typography>
+    ))}
+  </Box>
+)
+
+const StopName = ({ stop, id }: { stop?: Stop; id: string }) => (
+  <>
+    {stop?.stop_name || id}
+    <Typography variant="caption" color="text.secondary" sx={{ ml: 1, fontFamily: 'monospace' }}>{id}</Typography>
+  </>
+)
+
+export default function FeedDiffTab({ workerApi }: FeedDiffTabProps) {
+  const [before, setBefore] = useState<FeedSide>({ type: 'url', url: BUNDLED_FEED_URL, file: null, feedId: '' })
+  const [after, setAfter] = useState<FeedSide>({ type: 'current', url: '', file: null, feedId: '' })
+  const [feeds, setFeeds] = useState<LoadedFeed[]>([])
+  const [startDate, setStartDate] = useState<string>(new Date().toISOString().split('T')[0])
+  const [dayCount, setDayCount] = useState(7)
+  const [moveThreshold, setMoveThreshold] = useState(DEFAULT_MOVE_THRESHOLD)
+  const [snapshots, setSnapshots] = useState<[FeedSnapshot, FeedSnapshot] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [progress, setProgress] = useState<[string, string]>(['', ''])
+  const [error, setError] = useState<string | null>(null)
+  const [section, setSection] = useState<DiffSection>('routes')
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  // Comparing against a single feed needs one of the loaded feeds to be chosen
+  useEffect(() => {
+    if (!workerApi) return
+    workerApi.getFeeds().then(loaded => {
+      setFeeds(loaded)
+      const feedId = loaded.length > 1 ? loaded[0].id : ''
+      setBefore(side => ({ ...side, feedId }))
+      setAfter(side => ({ ...side, feedId }))
+    }).catch(err => console.error('Error loading feeds:', err))
+  }, [workerApi])
+
+  const handleCompare = async () => {
+    setLoading(true)
+    setError(null)
+    setSnapshots(null)
+    setExpanded(null)
+    const firstDate = startDate.replace(/-/g, '')
+    const dates = Array.from({ length: dayCount }, (_, i) => addDays(firstDate, i))
+    try {
+      const results = await Promise.all([
+        snapshotFeed(before, workerApi, dates, message => setProgress(p => [message, p[1]])),
+        snapshotFeed(after, workerApi, dates, message => setProgress(p => [p[0], message]))
+      ])
+      setSnapshots(results)
+    } catch (err) {
+      console.error('Error comparing feeds:', err)
+      setError(err instanceof Error ? err.message : 'Failed to compare feeds')
+    } finally {
+      setLoading(false)
+      setProgress(['', ''])
+    }
+  }
+
+  // The move threshold only changes the comparison, not the snapshots
+  const diff: FeedDiff | null = useMemo(
+    () => snapshots ? diffFeeds(snapshots[0], snapshots[1], { moveThreshold }) : null,
+    [snapshots, moveThreshold]
+  )
+
+  // Routes and stops by id, the newer version wins
+  const routeMap = useMemo(() => new Map<string, Route>(snapshots
+    ? [...snapshots[0].routes, ...snapshots[1].routes].map(r => [r.route_id, r])
+    : []), [snapshots])
+  const stopMap = useMemo(() => new Map<string, Stop>(snapshots
+    ? [...snapshots[0].stops, ...snapshots[1].stops].map(s => [s.stop_id, s])
+    : []), [snapshots])
+
+  const routeLabel = (routeId: string) => {
+    const route = routeMap.get(routeId)
+    return route ? <RouteLabel route={route} /> : <span>{routeId}</span>
+  }
+
+  const toggle = (key: string) => setExpanded(expanded === key ? null : key)
+
+  const expandIcon = (key: string) => (
+    <IconButton size="small">
+      {expanded === key ? <KeyboardArrowUp /> : <KeyboardArrowDown />}
+    </IconButton>
+  )
+
+  // Departures grouped by route, e.g. "12: 07:05, 07:35"
+  const departuresByRoute = (departures: StopDeparture[]) => {
+    const groups = new Map<string, string[]>()
+    departures.forEach(([routeId, time]) => {
+      if (!groups.has(routeId)) groups.set(routeId, [])
+      groups.get(routeId)!.push(time)
+    })
+    return [...groups.entries()].map(([routeId, times]) => (
+      <Box key={routeId} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mb: 0.5 }}>
+        <Box sx={{ flexShrink: 0 }}>{routeLabel(routeId)}</Box>
+        <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{times.join(' ')}</Typography>
+      </Box>
+    ))
+  }
+
+  const counts = diff ? {
+    routes: diff.routes.added.length + diff.routes.removed.length + diff.routes.changed.length,
+    stops: diff.stops.added.length + diff.stops.removed.length + diff.stops.changed.length,
+    trips: diff.tripCounts.length,
+    timetables: diff.timetables.length
+  } : null
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>Feed Comparison</Typography>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <FeedSideForm label="Before" side={before} feeds={feeds} onChange={setBefore} disabled={loading} />
+          </Grid>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <FeedSideForm label="After" side={after} feeds={feeds} onChange={setAfter} disabled={loading} />
+          </Grid>
+        </Grid>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <TextField
+            type="date"
+            label="From"
+            size="small"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            helperText="Stop timetables compare this day"
+          />
+          <TextField
+            type="number"
+            label="Days"
+            size="small"
+            value={dayCount}
+            onChange={(e) => setDayCount(Math.min(31, Math.max(1, Number(e.target.value))))}
+            sx={{ width: 100 }}
+            helperText="Trip counts"
+          />
+          <TextField
+            type="number"
+            label="Moved stops (m)"
+            size="small"
+            value={moveThreshold}
+            onChange={(e) => setMoveThreshold(Math.max(0, Number(e.target.value)))}
+            sx={{ width: 160 }}
+            helperText="Report stops moved further"
+          />
+          <Button
+            variant="contained"
+            color="error"
+            startIcon={<CompareArrowsIcon />}
+            onClick={handleCompare}
+            disabled={loading || (before.type === 'current' && after.type === 'current' && before.feedId === after.feedId)}
+            sx={{ ml: 'auto' }}
+          >
+            {loading ? 'Comparing...' : 'Compare'}
+          </Button>
+        </Box>
+        {loading && (
+          <Box sx={{ mt: 2 }}>
+            <LinearProgress />
+            <Typography variant="caption" color="text.secondary" display="block">Before: {progress[0]}</Typography>
+            <Typography variant="caption" color="text.secondary" display="block">After: {progress[1]}</Typography>
+          </Box>
+        )}
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {diff && counts && (
+        <Paper sx={{ p: 2 }}>
+          <ToggleButtonGroup
+            value={section}
+            exclusive
+            size="small"
+            onChange={(_e, value: DiffSection | null) => value && setSection(value)}
+            sx={{ mb: 2, flexWrap: 'wrap' }}
+          >
+            <ToggleButton value="routes">Routes ({counts.routes})</ToggleButton>
+            <ToggleButton value="stops">Stops ({counts.stops})</ToggleButton>
+            <ToggleButton value="trips">Trips per day ({counts.trips})</ToggleButton>
+            <ToggleButton value="timetables">Stop timetables ({counts.timetables})</ToggleButton>
+          </ToggleButtonGroup>
+
+          {section === 'routes' && (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Change</TableCell>
+                    <TableCell>Route</TableCell>
+                    <TableCell>Details</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {diff.routes.added.map(route => (
+                    <TableRow key={`added-${route.route_id}`}>
+                      <TableCell><Chip label="Added" color="success" size="small" /></TableCell>
+                      <TableCell><RouteLabel route={route} /></TableCell>
+                      <TableCell>{route.route_long_name}</TableCell>
+                    </TableRow>
+                  ))}
+                  {diff.routes.removed.map(route => (
+                    <TableRow key={`removed-${route.route_id}`}>
+                      <TableCell><Chip label="Removed" color="error" size="small" /></TableCell>
+                      <TableCell><RouteLabel route={route} /></TableCell>
+                      <TableCell>{route.route_long_name}</TableCell>
+                    </TableRow>
+                  ))}
+                  {diff.routes.changed.map(change => (
+                    <TableRow key={`changed-${change.id}`}>
+                      <TableCell><Chip label="Changed" color="warning" size="small" /></TableCell>
+                      <TableCell><RouteLabel route={change.after} /></TableCell>
+                      <TableCell><FieldChanges changes={change.changes} /></TableCell>
+                    </TableRow>
+                  ))}
+                  {counts.routes === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={3}>No route changes</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {section === 'stops' && (
+            <TableContainer sx={{ maxHeight: 600 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Change</TableCell>
+                    <TableCell>Stop</TableCell>
+                    <TableCell align="right">Moved</TableCell>
+                    <TableCell>Details</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {diff.stops.added.map(stop => (
+                    <TableRow key={`added-${stop.stop_id}`}>
+                      <TableCell><Chip label="Added" color="success" size="small" /></TableCell>
+                      <TableCell><StopName stop={stop} id={stop.stop_id} /></TableCell>
+                      <TableCell />
+                      <TableCell>{stop.stop_lat}, {stop.stop_lon}</TableCell>
+                    </TableRow>
+                  ))}
+                  {diff.stops.removed.map(stop => (
+                    <TableRow key={`removed-${stop.stop_id}`}>
+                      <TableCell><Chip label="Removed" color="error" size="small" /></TableCell>
+                      <TableCell><StopName stop={stop} id={stop.stop_id} /></TableCell>
+                      <TableCell />
+                      <TableCell>{stop.stop_lat}, {stop.stop_lon}</TableCell>
+                    </TableRow>
+                  ))}
+                  {diff.stops.changed.map(change => (
+                    <TableRow key={`changed-${change.id}`}>
+                      <TableCell><Chip label="Changed" color="warning" size="small" /></TableCell>
+                      <TableCell><StopName stop={change.after} id={change.id} /></TableCell>
+                      <TableCell align="right">{change.distance !== null ? `${change.distance} m` : '-'}</TableCell>
+                      <TableCell><FieldChanges changes={change.changes} /></TableCell>
+                    </TableRow>
+                  ))}
+                  {counts.stops === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4}>No stop changes</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {section === 'trips' && (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell width={48} />
+                    <TableCell>Route</TableCell>
+                    <TableCell align="right">Trips before</TableCell>
+                    <TableCell align="right">Trips after</TableCell>
+                    <TableCell align="right">Days changed</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {diff.tripCounts.map(change => {
+                    const key = `trips-${change.route_id}`
+                    const totalBefore = change.days.reduce((sum, d) => sum + d.before, 0)
+                    const totalAfter = change.days.reduce((sum, d) => sum + d.after, 0)
+                    return (
+                      <Fragment key={key}>
+                        <TableRow
+                          hover
+                          sx={{ cursor: 'pointer', '& > *': { borderBottom: 'unset' } }}
+                          onClick={() => toggle(key)}
+                        >
+                          <TableCell>{expandIcon(key)}</TableCell>
+                          <TableCell>{routeLabel(change.route_id)}</TableCell>
+                          <TableCell align="right">{totalBefore}</TableCell>
+                          <TableCell align="right">{totalAfter}</TableCell>
+                          <TableCell align="right">{change.days.filter(d => d.before !== d.after).length}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell sx={{ py: 0 }} colSpan={5}>
+                            <Collapse in={expanded === key} timeout="auto" unmountOnExit>
+                              <Table size="small" sx={{ m: 1, width: 'auto' }}>
+                                <TableHead>
+                                  <TableRow>
+                                    <TableCell>Date</TableCell>
+                                    <TableCell align="right">Before</TableCell>
+                                    <TableCell align="right">After</TableCell>
+                                    <TableCell align="right">Difference</TableCell>
+                                  </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                  {change.days.map(day => (
+                                    <TableRow key={day.date} selected={day.before !== day.after}>
+                                      <TableCell>{formatServiceDate(day.date)}</TableCell>
+                                      <TableCell align="right">{day.before}</TableCell>
+                                      <TableCell align="right">{day.after}</TableCell>
+                                      <TableCell align="right">
+                                        {day.after - day.before > 0 ? `+${day.after - day.before}` : day.after - day.before}
+                                      </TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </Collapse>
+                          </TableCell>
+                        </TableRow>
+                      </Fragment>
+                    )
+                  })}
+                  {counts.trips === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5}>Same number of trips for every route and day</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {section === 'timetables' && (
+            <TableContainer sx={{ maxHeight: 600 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell width={48} />
+                    <TableCell>Stop ({formatServiceDate(diff.dates[0])})</TableCell>
+                    <TableCell align="right">Departures added</TableCell>
+                    <TableCell align="right">Departures removed</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {diff.timetables.map(change => {
+                    const key = `timetable-${change.stop_id}`
+                    return (
+                      <Fragment key={key}>
+                        <TableRow
+                          hover
+                          sx={{ cursor: 'pointer', '& > *': { borderBottom: 'unset' } }}
+                          onClick={() => toggle(key)}
+                        >
+                          <TableCell>{expandIcon(key)}</TableCell>
+                          <TableCell><StopName stop={stopMap.get(change.stop_id)} id={change.stop_id} /></TableCell>
+                          <TableCell align="right">{change.added.length}</TableCell>
+                          <TableCell align="right">{change.removed.length}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell sx={{ py: 0 }} colSpan={4}>
+                            <Collapse in={expanded === key} timeout="auto" unmountOnExit>
+                              <Grid container spacing={2} sx={{ m: 1 }}>
+                                <Grid size={{ xs: 12, md: 6 }}>
+                                  <Typography variant="subtitle2" color="success.main" gutterBottom>Added</Typography>
+                                  {change.added.length > 0 ? departuresByRoute(change.added) : '-'}
+                                </Grid>
+                                <Grid size={{ xs: 12, md: 6 }}>
+                                  <Typography variant="subtitle2" color="error.main" gutterBottom>Removed</Typography>
+                                  {change.removed.length > 0 ? departuresByRoute(change.removed) : '-'}
+                                </Grid>
+                              </Grid>
+                            </Collapse>
+                          </TableCell>
+                        </TableRow>
+                      </Fragment>
+                    )
+                  })}
+                  {counts.timetables === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4}>No timetable changes</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      )}
+    </Box>
+  )
+}
@@ -1,21 +1,66 @@
-import { useEffect, useState } from 'react'
-import { Box, Paper, Typography, Dialog, DialogTitle, DialogContent, Fab } from '@mui/material'
-import { MapContainer, TileLayer, Marker, useMap, GeoJSON } from 'react-leaflet'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  Fab,
+  ToggleButton,
+  ToggleButtonGroup,
+  Autocomplete,
+  TextField,
+  Button,
+  Alert,
+  FormControlLabel,
+  Switch,
+  createFilterOptions
+} from '@mui/material'
+import { MapContainer, TileLayer, Popup, Polyline, useMap, useMapEvents, GeoJSON } from 'react-leaflet'
 import { MyLocation as MyLocationIcon } from '@mui/icons-material'
 import L from 'leaflet'
-import { VehiclePosition, Route, Trip, StopTimeWithRealtime, GeoJsonFeatureCollection } from 'gtfs-sqljs'
+import { VehiclePosition, Route, Trip, StopTimeWithRealtime, GeoJsonFeatureCollection, Stop, Agency } from 'gtfs-sqljs'
 import { Remote } from 'comlink'
 import type { GtfsWorkerAPI } from '../gtfs.worker'
 import { GtfsApiAdapter } from '../utils/GtfsApiAdapter'
+import { applyRecordedUpdates } from '../utils/realtimeRecorder'
+import { ReachableStop, ISOCHRONE_BANDS, BAND_COLORS, DEFAULT_MAX_WALK_DISTANCE } from '../utils/tripPlanner'
+import PlaybackTimeline from '../components/PlaybackTimeline'
+import IsochroneLayer from '../components/IsochroneLayer'
+import StopClusterLayer from '../components/StopClusterLayer'
+import StopDeparturesPopup from '../components/StopDeparturesPopup'
+import VehicleTrackingPanel from '../components/VehicleTrackingPanel'
+import { LonLat } from '../utils/shapeProjection'
+import { buildTripProgress } from '../utils/vehicleProgress'
+import { createTimeService, delayFromTimestamp } from '../utils/timezones'
+import {
+  VehicleMotion,
+  STALE_AFTER,
+  MAX_EXTRAPOLATION,
+  buildVehicleMotion,
+  estimateVehiclePosition,
+  isEstimated
+} from '../utils/deadReckoning'
+import AnimatedVehicleMarker from '../components/AnimatedVehicleMarker'
+import { useUrlState } from '../utils/urlState'
+import { secondsToTime, timeToSeconds } from '../components/utils'
 import 'leaflet/dist/leaflet.css'
 
 interface MapTabProps {
   vehicles: VehiclePosition[]
   routes: Route[]
+  stops: Stop[]
+  agencies: Agency[]
   gtfsApi: GtfsApiAdapter | null
   workerApi: Remote<GtfsWorkerAPI> | null
+  onOpenDepartures?: (stopId: string) => void
 }
 
+type MapMode = 'vehicles' | 'isochrone'
+
+const filterStops = createFilterOptions<Stop>({
+  limit: 50,
+  stringify: (stop) => `${stop.stop_name} ${stop.stop_code || ''} ${stop.stop_id}`
+})
+
 interface LastStopInfo {
   stopName: string
   scheduledArrival: string    // HH:MM format
@@ -29,10 +74,11 @@ interface VehicleWithDetails {
   trip: Trip | null
   stopTimes: StopTimeWithRealtime[]
   lastStop: LastStopInfo | null
+  receivedAt: number // unix seconds
 }
 
 // Fix for default marker icon in Leaflet
-delete (L.Icon.Default.prototype as any)._getIconUrl
+delete (L.Icon.Default.prototype as { _getIconUrl?: unknown })._getIconUrl
 L.Icon.Default.mergeOptions({
   iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
   iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
@@ -44,7 +90,8 @@ function createColoredIcon(
   bgColor: string,
   tripLabel: string | null,
   vehicleLabel: string | null,
-  lastStopInfo: LastStopInfo | null
+  lastStopInfo: LastStopInfo | null,
+  estimated = false
 ): L.DivIcon {
   // Build last stop display
   let lastStopHtml = ''
@@ -89,6 +136,7 @@ function createColoredIcon(
         align-items: center;
         position: relative;
         transform: translate(-50%, -100%);
+        opacity: ${estimated ? 0.55 : 1};
       ">
         <!-- Text above marker -->
         <div style="
@@ -106,7 +154,7 @@ function createColoredIcon(
             0 0 3px #fff;
         ">
           <div style="font-weight: bold;">
-            ${tripLabel} (${vehicleLabel})
+            ${tripLabel} (${vehicleLabel})${estimated ? ' ~' : ''}
           </div>
           ${lastStopHtml}
         </div>
@@ -131,8 +179,8 @@ function createColoredIcon(
             </filter>
           </defs>
           <!-- Teardrop shape -->
-          <circle cx="15" cy="12" r="11" fill="${bgColor}" stroke="white" stroke-width="2" filter="url(#pin-shadow)"/>
-          <path d="M 15 23 L 8 32 L 15 40 L 22 32 Z" fill="${bgColor}" stroke="white" stroke-width="2" filter="url(#pin-shadow)"/>
+          <circle cx="15" cy="12" r="11" fill="${bgColor}" stroke="${estimated ? '#333333' : 'white'}" stroke-width="2" ${estimated ? 'stroke-dasharray="3 2"' : ''} filter="url(#pin-shadow)"/>
+          <path d="M 15 23 L 8 32 L 15 40 L 22 32 Z" fill="${bgColor}" stroke="${estimated ? '#333333' : 'white'}" stroke-width="2" ${estimated ? 'stroke-dasharray="3 2"' : ''} filter="url(#pin-shadow)"/>
         </svg>
       </div>
     `,
@@ -143,7 +191,8 @@ function createColoredIcon(
 
 function calculateLastStop(
   stopTimes: StopTimeWithRealtime[],
-  gtfsApi: GtfsApiAdapter
+  gtfsApi: GtfsApiAdapter,
+  timezone: string // of the agency of the trip
 ): LastStopInfo | null {
   try {
     // Sort stop times by stop_sequence to ensure correct order
@@ -167,21 +216,10 @@ function calculateLastStop(
     let arrivalDelay: number | null = null
 
     if (lastStopTime.realtime?.arrival_time) {
-      // Convert Unix timestamp to HH:MM format
-      const realtimeDate = new Date(lastStopTime.realtime.arrival_time * 1000)
-      const hours = realtimeDate.getHours().toString().padStart(2, '0')
-      const minutes = realtimeDate.getMinutes().toString().padStart(2, '0')
-      realtimeArrival = `${hours}:${minutes}`
-
-      // Calculate delay in seconds
-      // Parse scheduled time to seconds from midnight
-      const [schedHours, schedMinutes, schedSeconds] = arrivalTimeStr.split(':').map(Number)
-      const scheduledSeconds = schedHours * 3600 + schedMinutes * 60 + (schedSeconds || 0)
-
-      // Get realtime seconds from midnight
-      const realtimeSeconds = realtimeDate.getHours() * 3600 + realtimeDate.getMinutes() * 60 + realtimeDate.getSeconds()
-
-      arrivalDelay = realtimeSeconds - scheduledSeconds
+      // The timestamp is read in the timezone of the trip, and shown as a GTFS time like the schedule
+      const scheduledSeconds = timeToSeconds(arrivalTimeStr)
+      arrivalDelay = delayFromTimestamp(scheduledSeconds, lastStopTime.realtime.arrival_time, timezone)
+      realtimeArrival = secondsToTime(scheduledSeconds + arrivalDelay).substring(0, 5)
     }
 
     return {
@@ -219,6 +257,58 @@ function MapEventHandler({ onUserInteraction }: { onUserInteraction: () => void
   return null
 }
 
+// Keep the tracked vehicle in view, following its estimated position between refreshes
+function FollowVehicle({ latitude, longitude, motion }: { latitude: number; longitude: number; motion: VehicleMotion | null }) {
+  const map = useMap()
+
+  useEffect(() => {
+    if (!motion) {
+      map.panTo([latitude, longitude])
+      return
+    }
+    const follow = () => {
+      const [lon, lat] = estimateVehiclePosition(motion, Date.now() / 1000)
+      map.panTo([lat, lon])
+    }
+    follow()
+    const timer = setInterval(follow, 1000)
+    return () => clearInterval(timer)
+  }, [map, latitude, longitude, motion])
+
+  return null
+}
+
+// Vehicles are tracked across refreshes by vehicle id, or by trip when the feed has no vehicle ids
+const vehicleKey = (vehicle: VehiclePosition) => vehicle.vehicle?.id || vehicle.trip_id || ''
+
+// Map view as stored in the URL: "lat,lon,zoom"
+const formatView = (center: L.LatLng, zoom: number): string =>
+  `${center.lat.toFixed(5)},${center.lng.toFixed(5)},${zoom}`
+
+function parseView(value: string | null): { center: [number, number]; zoom: number } | null {
+  const parts = (value || '').split(',').map(Number)
+  if (parts.length !== 3 || parts.some(n => !isFinite(n))) return null
+  return { center: [parts[0], parts[1]], zoom: parts[2] }
+}
+
+// Writes the map view to the URL after each move, and follows it on back/forward navigation
+function MapViewSync({ view, onViewChange }: { view: string | null; onViewChange: (view: string) => void }) {
+  const map = useMap()
+
+  useMapEvents({
+    moveend: () => onViewChange(formatView(map.getCenter(), map.getZoom()))
+  })
+
+  useEffect(() => {
+    const parsed = parseView(view)
+    if (parsed && view !== formatView(map.getCenter(), map.getZoom())) {
+      map.setView(parsed.center, parsed.zoom)
+    }
+  }, [map, view])
+
+  return null
+}
+
 function MapBounds({
   vehicles,
   hasUserInteracted,
@@ -261,13 +351,68 @@ function MapBounds({
   return null
 }
 
-export default function MapTab({ vehicles, routes, gtfsApi, workerApi }: MapTabProps) {
+export default function MapTab({
+  vehicles,
+  routes,
+  stops,
+  agencies,
+  gtfsApi,
+  workerApi,
+  onOpenDepartures
+}: MapTabProps) {
+  const timeService = useMemo(() => createTimeService(agencies), [agencies])
+  const agencyTimezone = timeService.feedTimezone
+
   const [vehiclesWithDetails, setVehiclesWithDetails] = useState<VehicleWithDetails[]>([])
-  const [selectedVehicle, setSelectedVehicle] = useState<VehicleWithDetails | null>(null)
-  const [dialogOpen, setDialogOpen] = useState(false)
-  const [hasUserInteracted, setHasUserInteracted] = useState(false)
+  const [trackedKey, setTrackedKey] = useState<string | null>(null)
+  const [following, setFollowing] = useState(true)
+  const [trackedShape, setTrackedShape] = useState<LonLat[] | null>(null)
+  // Mode, map view and isochrone query are kept in the URL so that a map can be shared
+  const [urlState, setUrlState] = useUrlState()
+  const mode: MapMode = urlState.get('mode') === 'isochrone' ? 'isochrone' : 'vehicles'
+  const viewParam = urlState.get('view')
+  const fromParam = urlState.get('from')
+  const dateParam = urlState.get('date')
+  const timeParam = urlState.get('time')
+
+  // A shared view must not be overridden by the automatic fit on vehicles
+  const [hasUserInteracted, setHasUserInteracted] = useState(() => parseView(viewParam) !== null)
   const [shouldRecenter, setShouldRecenter] = useState(false)
   const [shapesGeoJson, setShapesGeoJson] = useState<GeoJsonFeatureCollection | null>(null)
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null)
+  const [recordedVehicles, setRecordedVehicles] = useState<VehiclePosition[]>([])
+  const [showStops, setShowStops] = useState(true)
+  const [popupStop, setPopupStop] = useState<Stop | null>(null)
+  // Isochrone form values, submitted to the URL by the Compute button
+  const [isochroneStop, setIsochroneStop] = useState<Stop | null>(null)
+  const [isochroneDate, setIsochroneDate] = useState<string>(() => dateParam || new Date().toISOString().split('T')[0])
+  const [isochroneTime, setIsochroneTime] = useState<string>(() => timeParam ||
+    new Date().toLocaleString('en-US', {
+      timeZone: agencyTimezone,
+      hour12: false,
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  )
+  const [reachable, setReachable] = useState<ReachableStop[] | null>(null)
+  const [isochroneLoading, setIsochroneLoading] = useState(false)
+  const [isochroneError, setIsochroneError] = useState<string | null>(null)
+
+  const stopsMap = useMemo(() => new Map(stops.map(s => [s.stop_id, s])), [stops])
+  const sortedStops = useMemo(
+    () => [...stops].sort((a, b) => a.stop_name.localeCompare(b.stop_name)),
+    [stops]
+  )
+
+  // Vehicles shown on the map: live data, or the recorded snapshot when replaying
+  const displayedVehicles = playbackTime !== null ? recordedVehicles : vehicles
+
+  useEffect(() => {
+    if (!workerApi || playbackTime === null) return
+    workerApi.getRecordedVehiclePositions(playbackTime)
+      .then(setRecordedVehicles)
+      .catch(err => console.error('Error loading recorded vehicles:', err))
+  }, [workerApi, playbackTime])
 
   // Load shapes GeoJSON
   useEffect(() => {
@@ -315,8 +460,20 @@ export default function MapTab({ vehicles, routes, gtfsApi, workerApi }: MapTabP
       if (!gtfsApi) return
 
       const details: VehicleWithDetails[] = []
-
-      for (const vehicle of vehicles) {
+      const receivedAt = Date.now() / 1000
+
+      // When replaying, predictions come from the recording instead of the live feed
+      const recordedUpdates = playbackTime !== null && workerApi
+        ? await workerApi.getRecordedStopTimeUpdates(
+            displayedVehicles.map(v => v.trip_id).filter((id): id is string => !!id),
+            playbackTime
+          ).catch(err => {
+            console.error('Error loading recorded stop time updates:', err)
+            return []
+          })
+        : null
+
+      for (const vehicle of displayedVehicles) {
         if (!vehicle.position?.latitude || !vehicle.position?.longitude) continue
 
         const route = vehicle.route_id ? routes.find(r => r.route_id === vehicle.route_id) || null : null
@@ -329,28 +486,159 @@ export default function MapTab({ vehicles, routes, gtfsApi, workerApi }: MapTabP
             const tripData = await gtfsApi.fetchAndCacheTripData(vehicle.trip_id)
             trip = tripData.trip || null
             stopTimes = tripData.stopTimes || []
+            if (recordedUpdates) {
+              stopTimes = applyRecordedUpdates(
+                stopTimes,
+                recordedUpdates.filter(u => u.trip_id === vehicle.trip_id),
+                timeService.routeTimezone(route)
+              )
+            }
 
             // Calculate last stop information
             if (stopTimes.length > 0) {
-              lastStop = calculateLastStop(stopTimes, gtfsApi)
+              lastStop = calculateLastStop(stopTimes, gtfsApi, timeService.routeTimezone(route))
             }
           } catch (err) {
             console.error('Error fetching trip data:', err)
           }
         }
 
-        details.push({ vehicle, route, trip, stopTimes, lastStop })
+        details.push({ vehicle, route, trip, stopTimes, lastStop, receivedAt })
       }
 
-      setVehiclesWithDetails(details)
+      if (playbackTime !== null) {
+        setVehiclesWithDetails(details)
+        return
+      }
+
+      // Vehicles missing from a refresh (stale entities are dropped by the worker) stay on the map
+      // as estimated positions until they can no longer be extrapolated
+      const keys = new Set(details.map(vd => vehicleKey(vd.vehicle)))
+      setVehiclesWithDetails(previous => [
+        ...details,
+        ...previous.filter(vd => {
+          const key = vehicleKey(vd.vehicle)
+          return key && !keys.has(key) && receivedAt - (vd.vehicle.timestamp || vd.receivedAt) < MAX_EXTRAPOLATION
+        })
+      ])
     }
 
     loadVehicleDetails()
-  }, [vehicles, routes, gtfsApi])
+  }, [displayedVehicles, routes, gtfsApi, workerApi, playbackTime, timeService])
+
+  // Shapes by id, to move vehicles along their trip between refreshes
+  const shapesById = useMemo(() => {
+    const shapes = new Map<string, LonLat[]>()
+    shapesGeoJson?.features.forEach(feature => {
+      const shapeId = feature.properties?.shape_id
+      if (shapeId && feature.geometry.type === 'LineString') {
+        shapes.set(shapeId, feature.geometry.coordinates as LonLat[])
+      }
+    })
+    return shapes
+  }, [shapesGeoJson])
+
+  // Recorded snapshots are replayed as they are, without dead-reckoning
+  const motions = useMemo(() => {
+    const result = new Map<VehicleWithDetails, VehicleMotion | null>()
+    if (playbackTime !== null) return result
+    vehiclesWithDetails.forEach(vd => {
+      const shape = vd.trip?.shape_id ? shapesById.get(vd.trip.shape_id) || null : null
+      const progress = vd.stopTimes.length > 0
+        ? buildTripProgress(vd.vehicle, vd.stopTimes, stopsMap, shape, timeService.routeTimezone(vd.route))
+        : null
+      result.set(vd, buildVehicleMotion(vd.vehicle, progress, vd.receivedAt))
+    })
+    return result
+  }, [vehiclesWithDetails, shapesById, stopsMap, timeService, playbackTime])
+
+  // Clock of the estimated state of the markers
+  const [now, setNow] = useState(() => Date.now() / 1000)
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() / 1000), 5000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // The tracked vehicle, refreshed with the vehicle positions
+  const tracked = useMemo(
+    () => trackedKey ? vehiclesWithDetails.find(vd => vehicleKey(vd.vehicle) === trackedKey) || null : null,
+    [vehiclesWithDetails, trackedKey]
+  )
+  const trackedShapeId = tracked?.trip?.shape_id || null
+
+  useEffect(() => {
+    setTrackedShape(null)
+    if (!workerApi || !trackedShapeId) return
+    workerApi.getShapesToGeojson({ shapeId: trackedShapeId })
+      .then(geojson => {
+        const line = geojson.features.find(f => f.geometry.type === 'LineString')
+        setTrackedShape(line ? (line.geometry.coordinates as LonLat[]) : null)
+      })
+      .catch(err => console.error('Error loading tracked shape:', err))
+  }, [workerApi, trackedShapeId])
+
+  const trackedProgress = useMemo(
+    () => tracked && tracked.stopTimes.length > 0
+      ? buildTripProgress(tracked.vehicle, tracked.stopTimes, stopsMap, trackedShape, timeService.routeTimezone(tracked.route))
+      : null,
+    [tracked, stopsMap, trackedShape, timeService]
+  )
+
+  const computeIsochrone = useCallback(async (fromStopId: string, date: string, time: string) => {
+    if (!workerApi) return
+
+    setIsochroneLoading(true)
+    setIsochroneError(null)
+
+    try {
+      const results = await workerApi.computeIsochrone({
+        fromStopId,
+        date: date.replace(/-/g, ''),
+        departureTime: time,
+        maxDuration: ISOCHRONE_BANDS[ISOCHRONE_BANDS.length - 1] * 60
+      })
+      setReachable(results)
+    } catch (err) {
+      console.error('Error computing isochrone:', err)
+      setIsochroneError(err instanceof Error ? err.message : 'Failed to compute isochrone')
+      setReachable(null)
+    } finally {
+      setIsochroneLoading(false)
+    }
+  }, [workerApi])
+
+  // Follow the isochrone query of the URL: shared links, back/forward navigation and Compute clicks
+  useEffect(() => {
+    if (fromParam) setIsochroneStop(stopsMap.get(fromParam) || null)
+    if (dateParam) setIsochroneDate(dateParam)
+    if (timeParam) setIsochroneTime(timeParam)
+  }, [fromParam, dateParam, timeParam, stopsMap])
+
+  useEffect(() => {
+    if (mode !== 'isochrone' || !fromParam || !dateParam || !timeParam) {
+      setReachable(null)
+      return
+    }
+    computeIsochrone(fromParam, dateParam, timeParam)
+  }, [mode, fromParam, dateParam, timeParam, computeIsochrone])
+
+  const handleComputeIsochrone = () => {
+    if (!isochroneStop) return
+    if (isochroneStop.stop_id === fromParam && isochroneDate === dateParam && isochroneTime === timeParam) {
+      // Same query as the URL, e.g. to take new real-time data into account
+      computeIsochrone(isochroneStop.stop_id, isochroneDate, isochroneTime)
+    } else {
+      setUrlState({ from: isochroneStop.stop_id, date: isochroneDate, time: isochroneTime })
+    }
+  }
+
+  const handleViewChange = useCallback((view: string) => {
+    setUrlState({ view }, { replace: true })
+  }, [setUrlState])
 
   const handleMarkerClick = (vehicleWithDetails: VehicleWithDetails) => {
-    setSelectedVehicle(vehicleWithDetails)
-    setDialogOpen(true)
+    setTrackedKey(vehicleKey(vehicleWithDetails.vehicle))
+    setFollowing(true)
   }
 
   const handleUserInteraction = () => {
@@ -384,14 +672,107 @@ export default function MapTab({ vehicles, routes, gtfsApi, workerApi }: MapTabP
     }
     return [48.8566, 2.3522] // Default to Paris
   }
-  const center = getInitialCenter()
+  const initialView = parseView(viewParam)
+  const center = initialView?.center || getInitialCenter()
 
   return (
-    <Box sx={{ p: 3, height: 'calc(100vh - 150px)' }}>
-      <Paper sx={{ height: '100%', overflow: 'hidden', position: 'relative' }}>
+    <Box sx={{ p: 3, height: 'calc(100vh - 150px)', display: 'flex', flexDirection: 'column' }}>
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <ToggleButtonGroup
+            value={mode}
+            exclusive
+            size="small"
+            onChange={(_e, value: MapMode | null) => value && setUrlState({ mode: value === 'isochrone' ? value : null })}
+          >
+            <ToggleButton value="vehicles">Vehicles</ToggleButton>
+            <ToggleButton value="isochrone">Isochrone</ToggleButton>
+          </ToggleButtonGroup>
+
+          {mode === 'vehicles' && (
+            <FormControlLabel
+              control={<Switch checked={showStops} onChange={(e) => setShowStops(e.target.checked)} />}
+              label="Show stops"
+            />
+          )}
+
+          {mode === 'vehicles' && playbackTime === null && (
+            <Typography variant="caption" color="text.secondary">
+              Vehicles move along their route between updates. Faded markers with a dashed outline (~)
+              are estimated: no position received for over {STALE_AFTER} s.
+            </Typography>
+          )}
+
+          {mode === 'isochrone' && (
+            <>
+              <Autocomplete
+                options={sortedStops}
+                filterOptions={filterStops}
+                getOptionLabel={(stop) => stop.stop_name}
+                getOptionKey={(stop) => stop.stop_id}
+                value={isochroneStop}
+                onChange={(_e, stop) => setIsochroneStop(stop)}
+                renderInput={(params) => <TextField {...params} label="From stop" size="small" />}
+                sx={{ flex: '1 1 240px' }}
+              />
+              <TextField
+                type="date"
+                label="Date"
+                size="small"
+                value={isochroneDate}
+                onChange={(e) => setIsochroneDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                type="time"
+                label="Departure"
+                size="small"
+                value={isochroneTime}
+                onChange={(e) => setIsochroneTime(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <Button
+                variant="contained"
+                onClick={handleComputeIsochrone}
+                disabled={!isochroneStop || isochroneLoading}
+              >
+                {isochroneLoading ? 'Computing...' : 'Compute'}
+              </Button>
+            </>
+          )}
+        </Box>
+
+        {mode === 'isochrone' && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1, flexWrap: 'wrap' }}>
+            {ISOCHRONE_BANDS.map((band, idx) => (
+              <Box key={band} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                <Box sx={{ width: 16, height: 16, borderRadius: 0.5, backgroundColor: BAND_COLORS[idx] }} />
+                <Typography variant="caption">{band} min</Typography>
+              </Box>
+            ))}
+            {reachable && (
+              <Typography variant="caption" color="text.secondary">
+                {reachable.length} stops reachable within {ISOCHRONE_BANDS[ISOCHRONE_BANDS.length - 1]} min,
+                walking up to {DEFAULT_MAX_WALK_DISTANCE} m between stops
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {isochroneError && mode === 'isochrone' && (
+          <Alert severity="error" sx={{ mt: 1 }}>
+            {isochroneError}
+          </Alert>
+        )}
+      </Paper>
+
+      {mode === 'vehicles' && (
+        <PlaybackTimeline workerApi={workerApi} playbackTime={playbackTime} onChange={setPlaybackTime} />
+      )}
+      <Paper sx={{ flex: 1, minHeight: 0, overflow: 'hidden', position: 'relative' }}>
         <MapContainer
           center={center}
-          zoom={13}
+          zoom={initialView?.zoom ?? 13}
           style={{ height: '100%', width: '100%' }}
         >
           <TileLayer
@@ -406,28 +787,77 @@ export default function MapTab({ vehicles, routes, gtfsApi, workerApi }: MapTabP
             />
           )}
           <MapEventHandler onUserInteraction={handleUserInteraction} />
+          <MapViewSync view={viewParam} onViewChange={handleViewChange} />
           <MapBounds
-            vehicles={vehicles}
-            hasUserInteracted={hasUserInteracted}
-            shouldRecenter={shouldRecenter}
+            vehicles={mode === 'vehicles' ? displayedVehicles : []}
+            hasUserInteracted={hasUserInteracted || mode === 'isochrone'}
+            shouldRecenter={shouldRecenter && mode === 'vehicles'}
             shapesGeoJson={shapesGeoJson}
           />
-          {vehiclesWithDetails.map((vd, idx) => {
+          {mode === 'vehicles' && showStops && (
+            <StopClusterLayer stops={stops} onStopClick={setPopupStop} />
+          )}
+          {mode === 'vehicles' && showStops && popupStop && workerApi && (
+            <Popup
+              key={popupStop.stop_id}
+              position={[popupStop.stop_lat!, popupStop.stop_lon!]}
+              eventHandlers={{ remove: () => setPopupStop(null) }}
+            >
+              <StopDeparturesPopup
+                stop={popupStop}
+                workerApi={workerApi}
+                timeService={timeService}
+                onOpenDepartures={onOpenDepartures}
+              />
+            </Popup>
+          )}
+          {mode === 'isochrone' && reachable && fromParam && (
+            <IsochroneLayer
+              stops={stopsMap}
+              reachable={reachable}
+              originStopId={fromParam}
+              maxWalkDistance={DEFAULT_MAX_WALK_DISTANCE}
+            />
+          )}
+          {mode === 'vehicles' && trackedProgress && trackedProgress.shape.length > 1 && (
+            <>
+              <Polyline
+                positions={trackedProgress.shape.map(([lon, lat]) => [lat, lon] as [number, number])}
+                pathOptions={{ color: tracked?.route?.route_color ? `#${tracked.route.route_color}` : '#1976d2', weight: 7, opacity: 0.9 }}
+              />
+              {trackedProgress.travelled.length > 1 && (
+                <Polyline
+                  positions={trackedProgress.travelled.map(([lon, lat]) => [lat, lon] as [number, number])}
+                  pathOptions={{ color: '#555555', weight: 4, opacity: 0.8, dashArray: '6 6' }}
+                />
+              )}
+            </>
+          )}
+          {mode === 'vehicles' && following && tracked?.vehicle.position?.latitude && tracked.vehicle.position.longitude && (
+            <FollowVehicle
+              latitude={tracked.vehicle.position.latitude}
+              longitude={tracked.vehicle.position.longitude}
+              motion={motions.get(tracked) || null}
+            />
+          )}
+          {mode === 'vehicles' && vehiclesWithDetails.map((vd, idx) => {
             if (!vd.vehicle.position?.latitude || !vd.vehicle.position?.longitude) return null
 
             const textColor = vd.route?.route_text_color ? `#${vd.route.route_text_color}` : '#000000'
             const bgColor = vd.route?.route_color ? `#${vd.route.route_color}` : '#CCCCCC'
             const tripLabel = vd.trip?.trip_short_name || null
             const vehicleLabel = vd.vehicle.vehicle?.label || null
+            const motion = motions.get(vd) || null
+            const estimated = motion !== null && isEstimated(motion, now)
 
             return (
-              <Marker
-                key={idx}
-                position={[vd.vehicle.position.latitude, vd.vehicle.position.longitude]}
-                icon={createColoredIcon(textColor, bgColor, tripLabel, vehicleLabel, vd.lastStop)}
-                eventHandlers={{
-                  click: () => handleMarkerClick(vd)
-                }}
+              <AnimatedVehicleMarker
+                key={vehicleKey(vd.vehicle) || idx}
+                latitude={vd.vehicle.position.latitude}
+                longitude={vd.vehicle.position.longitude}
+                motion={motion}
+                icon={createColoredIcon(textColor, bgColor, tripLabel, vehicleLabel, vd.lastStop, estimated)}
+                onClick={() => handleMarkerClick(vd)}
               />
             )
           })}
@@ -447,55 +877,20 @@ export default function MapTab({ vehicles, routes, gtfsApi, workerApi }: MapTabP
         >
           <MyLocationIcon />
         </Fab>
+
+        {mode === 'vehicles' && tracked && (
+          <VehicleTrackingPanel
+            vehicle={tracked.vehicle}
+            route={tracked.route}
+            trip={tracked.trip}
+            progress={trackedProgress}
+            following={following}
+            onFollowChange={setFollowing}
+            onClose={() => setTrackedKey(null)}
+          />
+        )}
       </Paper>
 
-      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
-        <DialogTitle>Vehicle Details</DialogTitle>
-        <DialogContent>
-          {selectedVehicle && (
-            <Box>
-              <Typography variant="body1">
-                <strong>Vehicle ID:</strong> {selectedVehicle.vehicle.vehicle?.id || 'N/A'}
-              </Typography>
-              <Typography variant="body1">
-                <strong>Label:</strong> {selectedVehicle.vehicle.vehicle?.label || 'N/A'}
-              </Typography>
-              {selectedVehicle.route && (
-                <>
-                  <Typography variant="body1">
-                    <strong>Route:</strong> {selectedVehicle.route.route_short_name || selectedVehicle.route.route_long_name}
-                  </Typography>
-                  <Typography variant="body1">
-                    <strong>Route Name:</strong> {selectedVehicle.route.route_long_name}
-                  </Typography>
-                </>
-              )}
-              {selectedVehicle.trip && (
-                <>
-                  <Typography variant="body1">
-                    <strong>Trip:</strong> {selectedVehicle.trip.trip_short_name || selectedVehicle.trip.trip_id}
-                  </Typography>
-                  <Typography variant="body1">
-                    <strong>Headsign:</strong> {selectedVehicle.trip.trip_headsign}
-                  </Typography>
-                </>
-              )}
-              {selectedVehicle.vehicle.position && (
-                <>
-                  <Typography variant="body1">
-                    <strong>Position:</strong> {selectedVehicle.vehicle.position.latitude?.toFixed(6)}, {selectedVehicle.vehicle.position.longitude?.toFixed(6)}
-                  </Typography>
-                  {selectedVehicle.vehicle.position.speed && (
-                    <Typography variant="body1">
-                      <strong>Speed:</strong> {selectedVehicle.vehicle.position.speed} m/s
-                    </Typography>
-                  )}
-                </>
-              )}
-            </Box>
-          )}
-        </DialogContent>
-      </Dialog>
     </Box>
   )
 }
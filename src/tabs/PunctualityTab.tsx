@@ -0,0 +1,392 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow
+} from '@mui/material'
+import { Refresh as RefreshIcon } from '@mui/icons-material'
+import {
+  BarChart,
+  Bar,
+  Cell,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts'
+import { Route, Stop } from 'gtfs-sqljs'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import { PunctualityReport, PunctualityStats, DEFAULT_THRESHOLDS } from '../utils/punctuality'
+import { getRouteColors } from '../components/utils'
+import RouteLabel from '../components/RouteLabel'
+
+interface PunctualityTabProps {
+  routes: Route[]
+  stops: Stop[]
+  workerApi: Remote<GtfsWorkerAPI> | null
+}
+
+const EARLY_COLOR = '#0288d1'
+const ON_TIME_COLOR = '#2e7d32'
+const LATE_COLOR = '#d32f2f'
+
+const formatPct = (value: number) => `${value.toFixed(1)}%`
+const formatMinutes = (seconds: number | null) => seconds === null ? '-' : `${(seconds / 60).toFixed(1)} min`
+
+// Red (0% on time) to green (100% on time)
+const heatColor = (onTimePct: number) => `hsl(${Math.round(onTimePct * 1.2)}, 70%, 45%)`
+
+function StatCard({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <Paper sx={{ p: 2, textAlign: 'center' }}>
+      <Typography variant="caption" color="text.secondary">{label}</Typography>
+      <Typography variant="h5" sx={{ fontWeight: 'bold', color }}>{value}</Typography>
+    </Paper>
+  )
+}
+
+export default function PunctualityTab({ routes, stops, workerApi }: PunctualityTabProps) {
+  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0])
+  const [earlyMinutes, setEarlyMinutes] = useState(-DEFAULT_THRESHOLDS.early / 60)
+  const [lateMinutes, setLateMinutes] = useState(DEFAULT_THRESHOLDS.late / 60)
+  const [report, setReport] = useState<PunctualityReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const routeMap = useMemo(() => new Map(routes.map(r => [r.route_id, r])), [routes])
+  const stopMap = useMemo(() => new Map(stops.map(s => [s.stop_id, s])), [stops])
+
+  const routeName = useCallback((routeId?: string) => {
+    const route = routeId ? routeMap.get(routeId) : undefined
+    return route?.route_short_name || route?.route_long_name || routeId || '?'
+  }, [routeMap])
+
+  const loadReport = useCallback(async () => {
+    if (!workerApi) return
+    setLoading(true)
+    setError(null)
+    try {
+      setReport(await workerApi.getPunctualityReport(selectedDate.replace(/-/g, ''), {
+        early: -earlyMinutes * 60,
+        late: lateMinutes * 60
+      }))
+    } catch (err) {
+      console.error('Error computing punctuality:', err)
+      setError(err instanceof Error ? err.message : 'Failed to compute punctuality')
+    } finally {
+      setLoading(false)
+    }
+  }, [workerApi, selectedDate, earlyMinutes, lateMinutes])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  // Routes in the feed order, with their route colors
+  const routeRows = useMemo(() => {
+    if (!report) return []
+    const order = new Map(routes.map((r, idx) => [r.route_id, idx]))
+    return [...report.byRoute]
+      .sort((a, b) => (order.get(a.routeId!) ?? Infinity) - (order.get(b.routeId!) ?? Infinity))
+      .map(group => {
+        const route = routeMap.get(group.routeId!)
+        return {
+          name: routeName(group.routeId),
+          color: route ? getRouteColors(route).bgColor : '#888888',
+          early: group.stats.earlyPct,
+          onTime: group.stats.onTimePct,
+          late: group.stats.latePct,
+          meanDelay: group.stats.meanDelay !== null ? group.stats.meanDelay / 60 : null,
+          p90Delay: group.stats.p90Delay !== null ? group.stats.p90Delay / 60 : null
+        }
+      })
+  }, [report, routes, routeMap, routeName])
+
+  const hourRows = useMemo(() => report?.byHour.map(group => ({
+    hour: `${group.hour!.toString().padStart(2, '0')}h`,
+    early: group.stats.earlyPct,
+    onTime: group.stats.onTimePct,
+    late: group.stats.latePct
+  })) || [], [report])
+
+  const heatmapCells = useMemo(() => report?.byRouteHour
+    .filter(group => group.stats.observations > 0)
+    .map(group => ({
+      hour: group.hour!,
+      route: routeName(group.routeId),
+      onTime: group.stats.onTimePct,
+      observations: group.stats.observations
+    })) || [], [report, routeName])
+
+  const worstStops = useMemo(() => report
+    ? [...report.byStop]
+        .filter(group => group.stats.observations >= 5)
+        .sort((a, b) => b.stats.latePct - a.stats.latePct)
+        .slice(0, 20)
+    : [], [report])
+
+  const renderStatsCells = (stats: PunctualityStats) => (
+    <>
+      <TableCell align="right">{stats.observations}</TableCell>
+      <TableCell align="right">{formatPct(stats.onTimePct)}</TableCell>
+      <TableCell align="right">{formatPct(stats.earlyPct)}</TableCell>
+      <TableCell align="right">{formatPct(stats.latePct)}</TableCell>
+      <TableCell align="right">{formatMinutes(stats.meanDelay)}</TableCell>
+      <TableCell align="right">{formatMinutes(stats.p90Delay)}</TableCell>
+      <TableCell align="right">{formatPct(stats.cancellationRate)}</TableCell>
+    </>
+  )
+
+  const statsHeader = (
+    <>
+      <TableCell align="right">Observations</TableCell>
+      <TableCell align="right">On time</TableCell>
+      <TableCell align="right">Early</TableCell>
+      <TableCell align="right">Late</TableCell>
+      <TableCell align="right">Mean delay</TableCell>
+      <TableCell align="right">P90 delay</TableCell>
+      <TableCell align="right">Canceled</TableCell>
+    </>
+  )
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Typography variant="h6" sx={{ mr: 'auto' }}>On-Time Performance</Typography>
+          <TextField
+            type="date"
+            label="Date"
+            size="small"
+            value={selectedDate}
+            onChange={(e) => setSelectedDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type="number"
+            label="Early after (min)"
+            size="small"
+            value={earlyMinutes}
+            onChange={(e) => setEarlyMinutes(Math.max(0, Number(e.target.value)))}
+            sx={{ width: 140 }}
+          />
+          <TextField
+            type="number"
+            label="Late after (min)"
+            size="small"
+            value={lateMinutes}
+            onChange={(e) => setLateMinutes(Math.max(0, Number(e.target.value)))}
+            sx={{ width: 140 }}
+          />
+          <Button variant="outlined" color="error" startIcon={<RefreshIcon />} onClick={loadReport} disabled={loading}>
+            Refresh
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Delays observed at each stop from live GTFS-RT data and recorded trip updates.
+          Upcoming stops are not counted.
+        </Typography>
+        {loading && <LinearProgress color="error" sx={{ mt: 2 }} />}
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {report && report.overall.observations === 0 && !loading && (
+        <Alert severity="info">
+          No realtime observation for this date. Keep the realtime recorder enabled to build up history.
+        </Alert>
+      )}
+
+      {report && report.overall.observations > 0 && (
+        <>
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            <Grid size={{ xs: 6, sm: 4, md: 12 / 7 }}>
+              <StatCard label="On time" value={formatPct(report.overall.onTimePct)} color={ON_TIME_COLOR} />
+            </Grid>
+            <Grid size={{ xs: 6, sm: 4, md: 12 / 7 }}>
+              <StatCard label="Early" value={formatPct(report.overall.earlyPct)} color={EARLY_COLOR} />
+            </Grid>
+            <Grid size={{ xs: 6, sm: 4, md: 12 / 7 }}>
+              <StatCard label="Late" value={formatPct(report.overall.latePct)} color={LATE_COLOR} />
+            </Grid>
+            <Grid size={{ xs: 6, sm: 4, md: 12 / 7 }}>
+              <StatCard label="Mean delay" value={formatMinutes(report.overall.meanDelay)} />
+            </Grid>
+            <Grid size={{ xs: 6, sm: 4, md: 12 / 7 }}>
+              <StatCard label="P90 delay" value={formatMinutes(report.overall.p90Delay)} />
+            </Grid>
+            <Grid size={{ xs: 6, sm: 4, md: 12 / 7 }}>
+              <StatCard label="Cancellation rate" value={formatPct(report.overall.cancellationRate)} />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 4, md: 12 / 7 }}>
+              <StatCard label="Stop events / trips" value={`${report.overall.observations} / ${report.trips}`} />
+            </Grid>
+          </Grid>
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>On-time rate by route</Typography>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={routeRows}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis domain={[0, 100]} unit="%" />
+                <Tooltip formatter={(value) => formatPct(Number(value))} />
+                <Bar dataKey="onTime" name="On time">
+                  {routeRows.map(row => (
+                    <Cell key={row.name} fill={row.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </Paper>
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>Mean and P90 delay by route</Typography>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={routeRows}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis unit=" min" />
+                <Tooltip formatter={(value) => `${Number(value).toFixed(1)} min`} />
+                <Legend />
+                <Bar dataKey="meanDelay" name="Mean delay">
+                  {routeRows.map(row => (
+                    <Cell key={row.name} fill={row.color} />
+                  ))}
+                </Bar>
+                <Bar dataKey="p90Delay" name="P90 delay" fillOpacity={0.5}>
+                  {routeRows.map(row => (
+                    <Cell key={row.name} fill={row.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </Paper>
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>Punctuality by hour of day</Typography>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={hourRows}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="hour" />
+                <YAxis domain={[0, 100]} unit="%" />
+                <Tooltip formatter={(value) => formatPct(Number(value))} />
+                <Legend />
+                <Bar dataKey="early" name="Early" stackId="otp" fill={EARLY_COLOR} />
+                <Bar dataKey="onTime" name="On time" stackId="otp" fill={ON_TIME_COLOR} />
+                <Bar dataKey="late" name="Late" stackId="otp" fill={LATE_COLOR} />
+              </BarChart>
+            </ResponsiveContainer>
+          </Paper>
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>On-time rate by route and hour</Typography>
+            <ResponsiveContainer width="100%" height={Math.max(200, routeRows.length * 28 + 60)}>
+              <ScatterChart margin={{ left: 20 }}>
+                <XAxis type="number" dataKey="hour" name="Hour" domain={[0, 23]} ticks={[0, 3, 6, 9, 12, 15, 18, 21]} unit="h" />
+                <YAxis
+                  type="category"
+                  dataKey="route"
+                  name="Route"
+                  allowDuplicatedCategory={false}
+                  width={80}
+                />
+                <ZAxis type="number" dataKey="observations" name="Observations" range={[400, 400]} />
+                <Tooltip
+                  cursor={false}
+                  formatter={(value, name) => name === 'On time' ? formatPct(Number(value)) : value}
+                />
+                <Scatter
+                  data={heatmapCells}
+                  shape={(props: { cx?: number; cy?: number; payload?: { onTime: number } }) => (
+                    <rect
+                      x={(props.cx ?? 0) - 12}
+                      y={(props.cy ?? 0) - 10}
+                      width={24}
+                      height={20}
+                      rx={3}
+                      fill={heatColor(props.payload?.onTime ?? 0)}
+                    />
+                  )}
+                />
+              </ScatterChart>
+            </ResponsiveContainer>
+            <Typography variant="caption" color="text.secondary">
+              Green cells are mostly on time, red cells mostly early or late.
+            </Typography>
+          </Paper>
+
+          <Paper sx={{ mb: 3 }}>
+            <Typography variant="h6" sx={{ p: 2 }}>By route and direction</Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Route</TableCell>
+                    <TableCell>Direction</TableCell>
+                    {statsHeader}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.byRouteDirection.map(group => {
+                    const route = routeMap.get(group.routeId!)
+                    return (
+                      <TableRow key={group.key} hover>
+                        <TableCell>{route ? <RouteLabel route={route} /> : group.routeId}</TableCell>
+                        <TableCell>{group.directionId ?? '-'}</TableCell>
+                        {renderStatsCells(group.stats)}
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+
+          <Paper>
+            <Typography variant="h6" sx={{ p: 2 }}>Stops with the most late arrivals</Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Stop</TableCell>
+                    {statsHeader}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {worstStops.map(group => (
+                    <TableRow key={group.key} hover>
+                      <TableCell>{stopMap.get(group.stopId!)?.stop_name || group.stopId}</TableCell>
+                      {renderStatsCells(group.stats)}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </>
+      )}
+    </Box>
+  )
+}
@@ -1,9 +1,10 @@
 import { useEffect, useState } from 'react'
-import { Box, Typography, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Collapse, IconButton, Chip } from '@mui/material'
+import { Box, Typography, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Collapse, IconButton, Chip, ToggleButton, ToggleButtonGroup } from '@mui/material'
 import { KeyboardArrowDown, KeyboardArrowUp } from '@mui/icons-material'
-import { Alert, VehiclePosition, TripUpdate, StopTimeUpdate, Route, Trip } from 'gtfs-sqljs'
+import { Alert, VehiclePosition, TripUpdate, StopTimeUpdate, Route, Trip, Stop } from 'gtfs-sqljs'
 import type { Remote } from 'comlink'
 import type { GtfsWorkerAPI } from '../gtfs.worker'
+import RealtimeDiagnosticsPanel from '../components/RealtimeDiagnosticsPanel'
 
 // Helper function to format time as HH:MM:SS
 const formatTime = (timestamp: number): string => {
@@ -111,7 +112,8 @@ export default function RealtimeDataTab({ workerApi, realtimeLastUpdated }: Real
   const [tripStopTimes, setTripStopTimes] = useState<Record<string, StopTimeUpdate[]>>({})
   const [routes, setRoutes] = useState<Record<string, Route>>({})
   const [trips, setTrips] = useState<Record<string, Trip>>({})
-  const [stops, setStops] = useState<Record<string, any>>({})
+  const [stops, setStops] = useState<Record<string, Stop>>({})
+  const [mode, setMode] = useState<'data' | 'diagnostics'>('data')
 
   useEffect(() => {
     const fetchData = async () => {
@@ -171,7 +173,7 @@ export default function RealtimeDataTab({ workerApi, realtimeLastUpdated }: Real
           if (trip) tripMap[trip.trip_id] = trip
         })
 
-        const stopMap: Record<string, any> = {}
+        const stopMap: Record<string, Stop> = {}
         stopData.forEach(stop => {
           if (stop) stopMap[stop.stop_id] = stop
         })
@@ -221,7 +223,7 @@ export default function RealtimeDataTab({ workerApi, realtimeLastUpdated }: Real
 
         if (allStopIds.length > 0) {
           const stopData = await workerApi.getStops({ stopId: allStopIds })
-          const newStops: Record<string, any> = {}
+          const newStops: Record<string, Stop> = {}
           stopData.forEach(stop => {
             if (stop) newStops[stop.stop_id] = stop
           })
@@ -259,16 +261,42 @@ export default function RealtimeDataTab({ workerApi, realtimeLastUpdated }: Real
     )
   }
 
-  return (
-    <Box sx={{ p: 3 }}>
-      <Typography variant="h4" gutterBottom>
-        GTFS-RT Data
-      </Typography>
+  const header = (
+    <>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap' }}>
+        <Typography variant="h4" gutterBottom>
+          GTFS-RT Data
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={mode}
+          onChange={(_e, value) => value && setMode(value)}
+        >
+          <ToggleButton value="data">Data</ToggleButton>
+          <ToggleButton value="diagnostics">Diagnostics</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
       {realtimeLastUpdated > 0 && (
         <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
           Last updated: {new Date(realtimeLastUpdated).toLocaleString()}
         </Typography>
       )}
+    </>
+  )
+
+  if (mode === 'diagnostics') {
+    return (
+      <Box sx={{ p: 3 }}>
+        {header}
+        <RealtimeDiagnosticsPanel workerApi={workerApi} />
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {header}
 
       {/* Trip Updates */}
       <Paper sx={{ mb: 4 }}>
@@ -0,0 +1,282 @@
+import { useState, useEffect, useMemo } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Grid,
+  Alert,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip
+} from '@mui/material'
+import { Route } from 'gtfs-sqljs'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import {
+  ServiceDay,
+  ServiceDayDetails,
+  ServiceCalendar,
+  MAX_SERVICE_DAYS,
+  WEEKDAY_NAMES,
+  addDays,
+  weekdayIndex,
+  formatServiceDate,
+  describeServiceCalendar
+} from '../utils/serviceCalendar'
+import ServiceCalendarHeatmap from '../components/ServiceCalendarHeatmap'
+import RouteLabel from '../components/RouteLabel'
+
+interface ServiceCalendarTabProps {
+  routes: Route[]
+  workerApi: Remote<GtfsWorkerAPI> | null
+}
+
+// YYYY-MM-DD (date inputs) to YYYYMMDD (GTFS)
+const toServiceDate = (date: string) => date.replace(/-/g, '')
+
+export default function ServiceCalendarTab({ routes, workerApi }: ServiceCalendarTabProps) {
+  const [startDate, setStartDate] = useState<string>('')
+  const [endDate, setEndDate] = useState<string>('')
+  const [days, setDays] = useState<ServiceDay[]>([])
+  const [selectedDate, setSelectedDate] = useState<string | null>(null)
+  const [details, setDetails] = useState<ServiceDayDetails | null>(null)
+  const [calendars, setCalendars] = useState<ServiceCalendar[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const routeMap = useMemo(() => new Map(routes.map(r => [r.route_id, r])), [routes])
+
+  // Start with the dates covered by the feed
+  useEffect(() => {
+    if (!workerApi) return
+    workerApi.getServiceDateRange().then(range => {
+      const today = new Date().toISOString().split('T')[0]
+      if (!range) {
+        setStartDate(today)
+        setEndDate(formatServiceDate(addDays(toServiceDate(today), 90)))
+        return
+      }
+      const lastDate = addDays(range.start_date, MAX_SERVICE_DAYS - 1)
+      setStartDate(formatServiceDate(range.start_date))
+      setEndDate(formatServiceDate(range.end_date < lastDate ? range.end_date : lastDate))
+    }).catch(err => {
+      console.error('Error loading service date range:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load service dates')
+    })
+  }, [workerApi])
+
+  useEffect(() => {
+    if (!workerApi || !startDate || !endDate || endDate < startDate) return
+    setLoading(true)
+    setError(null)
+    workerApi.getServiceDays(toServiceDate(startDate), toServiceDate(endDate))
+      .then(setDays)
+      .catch(err => {
+        console.error('Error loading service days:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load service days')
+      })
+      .finally(() => setLoading(false))
+  }, [workerApi, startDate, endDate])
+
+  const selectedDay = useMemo(() => days.find(d => d.date === selectedDate) || null, [days, selectedDate])
+
+  // Routes, exceptions and calendars of the selected day
+  useEffect(() => {
+    if (!workerApi || !selectedDay) {
+      setDetails(null)
+      setCalendars([])
+      return
+    }
+    workerApi.getServiceDayDetails(selectedDay.date).then(async dayDetails => {
+      // Services removed on that day are not active, but their calendar explains the exception
+      const removedIds = dayDetails.exceptions
+        .filter(e => e.exception_type === 2 && !selectedDay.service_ids.includes(e.service_id))
+        .map(e => e.service_id)
+      const dayCalendars = await workerApi.getServiceCalendars([...selectedDay.service_ids, ...removedIds])
+      setDetails(dayDetails)
+      setCalendars(dayCalendars)
+    }).catch(err => {
+      console.error('Error loading service day details:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load service day details')
+    })
+  }, [workerApi, selectedDay])
+
+  const noServiceDays = useMemo(() => days.filter(d => d.trip_count === 0), [days])
+  const serviceDayCount = days.length - noServiceDays.length
+
+  const dayRoutes = useMemo(() => details
+    ? [...details.routes].sort((a, b) => {
+        const routeA = routeMap.get(a.route_id)
+        const routeB = routeMap.get(b.route_id)
+        return (routeA?.route_sort_order ?? 9999) - (routeB?.route_sort_order ?? 9999) ||
+          (routeA?.route_short_name || a.route_id).localeCompare(routeB?.route_short_name || b.route_id, undefined, { numeric: true })
+      })
+    : [], [details, routeMap])
+
+  const calendarOf = (serviceId: string) => calendars.find(c => c.service_id === serviceId)
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Typography variant="h6" sx={{ mr: 'auto' }}>Service Calendar</Typography>
+          <TextField
+            type="date"
+            label="From"
+            size="small"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type="date"
+            label="To"
+            size="small"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+        </Box>
+        <Typography variant="caption" color="text.secondary">
+          At most {MAX_SERVICE_DAYS} days are shown. Click a day to see the routes running and the calendar_dates.txt exceptions.
+        </Typography>
+        {loading && <LinearProgress sx={{ mt: 1 }} />}
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {days.length > 0 && (
+        <Paper sx={{ p: 2, mb: 3 }}>
+          <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+            <Chip label={`${serviceDayCount} days with service`} color="success" variant="outlined" size="small" />
+            <Chip
+              label={`${noServiceDays.length} days without service`}
+              color={noServiceDays.length > 0 ? 'error' : 'default'}
+              variant="outlined"
+              size="small"
+            />
+          </Box>
+          <ServiceCalendarHeatmap days={days} selectedDate={selectedDate} onSelectDate={setSelectedDate} />
+          {noServiceDays.length > 0 && noServiceDays.length < days.length && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              No service on {noServiceDays.slice(0, 20).map(d => formatServiceDate(d.date)).join(', ')}
+              {noServiceDays.length > 20 && ` and ${noServiceDays.length - 20} more days`}
+            </Alert>
+          )}
+        </Paper>
+      )}
+
+      {selectedDay && (
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" gutterBottom>
+            {WEEKDAY_NAMES[weekdayIndex(selectedDay.date)]} {formatServiceDate(selectedDay.date)}
+            {' '}
+            <Typography component="span" color="text.secondary">
+              {selectedDay.trip_count} trips, {selectedDay.service_ids.length} services
+            </Typography>
+          </Typography>
+
+          {selectedDay.trip_count === 0 && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              The feed has no service on this day.
+            </Alert>
+          )}
+
+          <Grid container spacing={3}>
+            <Grid size={{ xs: 12, md: 5 }}>
+              <Typography variant="subtitle2" gutterBottom>Routes running</Typography>
+              {dayRoutes.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">None</Typography>
+              ) : (
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                  {dayRoutes.map(({ route_id, trip_count }) => {
+                    const route = routeMap.get(route_id)
+                    return (
+                      <Box key={route_id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        {route ? <RouteLabel route={route} /> : <Typography variant="body2">{route_id}</Typography>}
+                        <Typography variant="body2" sx={{ flex: 1 }} noWrap>
+                          {route?.route_long_name}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">{trip_count} trips</Typography>
+                      </Box>
+                    )
+                  })}
+                </Box>
+              )}
+            </Grid>
+
+            <Grid size={{ xs: 12, md: 7 }}>
+              <Typography variant="subtitle2" gutterBottom>Exceptions (calendar_dates.txt)</Typography>
+              {details && (details.exceptions.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  No exception on this day: services follow their regular calendar.txt days.
+                </Typography>
+              ) : (
+                <TableContainer sx={{ mb: 2 }}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Service</TableCell>
+                        <TableCell>Exception</TableCell>
+                        <TableCell>Regular calendar</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {details.exceptions.map(exception => {
+                        const calendar = calendarOf(exception.service_id)
+                        return (
+                          <TableRow key={`${exception.service_id}-${exception.exception_type}`}>
+                            <TableCell>{exception.service_id}</TableCell>
+                            <TableCell>
+                              <Chip
+                                label={exception.exception_type === 1 ? 'Added' : 'Removed'}
+                                color={exception.exception_type === 1 ? 'success' : 'error'}
+                                size="small"
+                              />
+                            </TableCell>
+                            <TableCell>{calendar ? describeServiceCalendar(calendar) : '-'}</TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              ))}
+
+              <Typography variant="subtitle2" gutterBottom>Active services</Typography>
+              {selectedDay.service_ids.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">None</Typography>
+              ) : (
+                <TableContainer>
+                  <Table size="small">
+                    <TableBody>
+                      {selectedDay.service_ids.map(serviceId => {
+                        const calendar = calendarOf(serviceId)
+                        return (
+                          <TableRow key={serviceId}>
+                            <TableCell>{serviceId}</TableCell>
+                            <TableCell>{calendar ? describeServiceCalendar(calendar) : '-'}</TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </Grid>
+          </Grid>
+        </Paper>
+      )}
+    </Box>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import {
   Box,
   Paper,
@@ -34,6 +34,12 @@ import { Route, Trip, StopTimeWithRealtime, Agency, Stop } from 'gtfs-sqljs'
 import type { Remote } from 'comlink'
 import type { GtfsWorkerAPI } from '../gtfs.worker'
 import { timeToSeconds } from '../components/utils'
+import { RecordedStopTimeUpdate, applyRecordedUpdates } from '../utils/realtimeRecorder'
+import { createTimeService } from '../utils/timezones'
+import PlaybackTimeline from '../components/PlaybackTimeline'
+import ServiceDateHint from '../components/ServiceDateHint'
+import HeadwayChart from '../components/HeadwayChart'
+import { useUrlState, parseList, formatList } from '../utils/urlState'
 
 interface TimeDistanceGraphTabProps {
   routes: Route[]
@@ -118,19 +124,42 @@ const formatSpeed = (speed: number): string => {
 }
 
 export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: TimeDistanceGraphTabProps) {
-  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0])
-  const [selectedRoute, setSelectedRoute] = useState<Route | null>(null)
+  // Route, date and selected trips are kept in the URL so that a graph can be shared
+  const [urlState, setUrlState] = useUrlState()
+  const selectedDate = urlState.get('date') || new Date().toISOString().split('T')[0]
+  const selectedRouteId = urlState.get('route')
+  const selectedRoute = useMemo(
+    () => routes.find(r => r.route_id === selectedRouteId) || null,
+    [routes, selectedRouteId]
+  )
+  const routeTimezone = useMemo(() => createTimeService(agencies).routeTimezone(selectedRoute), [agencies, selectedRoute])
+  const tripsParam = urlState.get('trips')
+  const selectedTripIds = useMemo(() => new Set(parseList(tripsParam)), [tripsParam])
   const [directions, setDirections] = useState<DirectionGroup[]>([])
-  const [selectedTripIds, setSelectedTripIds] = useState<Set<string>>(new Set())
   const [showRealtime, setShowRealtime] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [stopsMap, setStopsMap] = useState<Map<string, Stop>>(new Map())
   const [xAxisMode, setXAxisMode] = useState<XAxisMode>('stop_sequence')
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null)
+  const [recordedUpdates, setRecordedUpdates] = useState<RecordedStopTimeUpdate[]>([])
 
   const directionsRef = useRef<HTMLDivElement>(null)
 
   const isToday = selectedDate === new Date().toISOString().split('T')[0]
+  // Real-time lines show live data for today, or recorded data when replaying
+  const realtimeAvailable = isToday || playbackTime !== null
+
+  // Load the predictions of the selected trips as they were known at the playback time
+  useEffect(() => {
+    if (!workerApi || playbackTime === null || selectedTripIds.size === 0) {
+      setRecordedUpdates([])
+      return
+    }
+    workerApi.getRecordedStopTimeUpdates([...selectedTripIds], playbackTime)
+      .then(setRecordedUpdates)
+      .catch(err => console.error('Error loading recorded stop time updates:', err))
+  }, [workerApi, playbackTime, selectedTripIds])
 
   // Scroll to directions when a route is selected
   useEffect(() => {
@@ -148,7 +177,6 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
   useEffect(() => {
     if (!workerApi || !selectedRoute) {
       setDirections([])
-      setSelectedTripIds(new Set())
       return
     }
 
@@ -211,7 +239,6 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
 
         const directionsList = Array.from(groupsMap.values())
         setDirections(directionsList)
-        setSelectedTripIds(new Set())
         setLoading(false)
       } catch (err) {
         console.error('Error loading trips:', err)
@@ -225,15 +252,13 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
 
   // Toggle trip selection
   const toggleTripSelection = (tripId: string) => {
-    setSelectedTripIds(prev => {
-      const newSet = new Set(prev)
-      if (newSet.has(tripId)) {
-        newSet.delete(tripId)
-      } else {
-        newSet.add(tripId)
-      }
-      return newSet
-    })
+    const newSet = new Set(selectedTripIds)
+    if (newSet.has(tripId)) {
+      newSet.delete(tripId)
+    } else {
+      newSet.add(tripId)
+    }
+    setUrlState({ trips: formatList(newSet) }, { replace: true })
   }
 
   // Toggle all trips in a direction group
@@ -241,17 +266,15 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
     const tripIdsInDirection = direction.trips.map(t => t.trip.trip_id)
     const allSelected = tripIdsInDirection.every(id => selectedTripIds.has(id))
 
-    setSelectedTripIds(prev => {
-      const newSet = new Set(prev)
-      if (allSelected) {
-        // Deselect all
-        tripIdsInDirection.forEach(id => newSet.delete(id))
-      } else {
-        // Select all
-        tripIdsInDirection.forEach(id => newSet.add(id))
-      }
-      return newSet
-    })
+    const newSet = new Set(selectedTripIds)
+    if (allSelected) {
+      // Deselect all
+      tripIdsInDirection.forEach(id => newSet.delete(id))
+    } else {
+      // Select all
+      tripIdsInDirection.forEach(id => newSet.add(id))
+    }
+    setUrlState({ trips: formatList(newSet) }, { replace: true })
   }
 
   // Build a map of trip_id to color index
@@ -273,7 +296,11 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
     const allTrips: TripWithTimes[] = []
     directions.forEach(dir => {
       dir.trips.forEach(tripWithTimes => {
-        if (selectedTripIds.has(tripWithTimes.trip.trip_id)) {
+        if (!selectedTripIds.has(tripWithTimes.trip.trip_id)) return
+        if (playbackTime !== null) {
+          const updates = recordedUpdates.filter(u => u.trip_id === tripWithTimes.trip.trip_id)
+          allTrips.push({ ...tripWithTimes, stopTimes: applyRecordedUpdates(tripWithTimes.stopTimes, updates, routeTimezone) })
+        } else {
           allTrips.push(tripWithTimes)
         }
       })
@@ -324,7 +351,7 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
     selectedTrips.forEach(({ trip }) => {
       const tripKey = trip.trip_short_name || trip.trip_id
       firstPoint[`${tripKey}_theoretical`] = 0
-      if (showRealtime && isToday) {
+      if (showRealtime && realtimeAvailable) {
         firstPoint[`${tripKey}_realtime`] = 0
       }
     })
@@ -362,7 +389,7 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
           point[`${tripKey}_theoretical`] = theoreticalSeconds
 
           // Realtime (if available and showing today)
-          if (showRealtime && isToday && stopTime.realtime) {
+          if (showRealtime && realtimeAvailable && stopTime.realtime) {
             let realtimeArrivalSeconds: number | null = null
 
             // Try to get realtime arrival time
@@ -485,7 +512,7 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
           }
 
           // Real-time speed (if available)
-          if (showRealtime && isToday && fromStopTime.realtime && toStopTime.realtime) {
+          if (showRealtime && realtimeAvailable && fromStopTime.realtime && toStopTime.realtime) {
             let rtDepartureSeconds: number | null = null
             let rtArrivalSeconds: number | null = null
 
@@ -626,6 +653,13 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
 
   return (
     <Box sx={{ p: 3 }}>
+      <PlaybackTimeline
+        workerApi={workerApi}
+        playbackTime={playbackTime}
+        onChange={setPlaybackTime}
+        timezone={agencies[0]?.agency_timezone}
+      />
+
       {/* Top controls (Route + Date) */}
       <Box sx={{ display: 'flex', gap: 3, mb: 3, flexDirection: { xs: 'column', md: 'row' } }}>
         {/* Route selection */}
@@ -642,7 +676,7 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
                 <ListItem key={route.route_id} disablePadding>
                   <ListItemButton
                     selected={selectedRoute?.route_id === route.route_id}
-                    onClick={() => setSelectedRoute(route)}
+                    onClick={() => setUrlState({ route: route.route_id, trips: null })}
                   >
                     <Box
                       sx={{
@@ -676,10 +710,11 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
           <TextField
             type="date"
             value={selectedDate}
-            onChange={(e) => setSelectedDate(e.target.value)}
+            onChange={(e) => setUrlState({ date: e.target.value, trips: null }, { replace: true })}
             fullWidth
             InputLabelProps={{ shrink: true }}
           />
+          <ServiceDateHint workerApi={workerApi} date={selectedDate} />
 
           <Box sx={{ mt: 2 }}>
             <FormControlLabel
@@ -687,13 +722,13 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
                 <Checkbox
                   checked={showRealtime}
                   onChange={(e) => setShowRealtime(e.target.checked)}
-                  disabled={!isToday}
+                  disabled={!realtimeAvailable}
                 />
               }
               label={
                 <Typography variant="body2">
                   Show real-time data
-                  {!isToday && (
+                  {!realtimeAvailable && (
                     <Typography variant="caption" color="text.secondary" display="block">
                       (only available for today)
                     </Typography>
@@ -840,7 +875,7 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
             X-axis: {xAxisMode === 'stop_sequence' ? 'Stop sequence' : 'Distance traveled'} | Y-axis: Time since departure
-            {showRealtime && isToday && ' | Dashed lines: Real-time data'}
+            {showRealtime && realtimeAvailable && ' | Dashed lines: Real-time data'}
           </Typography>
 
           <Box sx={{ width: '100%', height: 500 }}>
@@ -909,7 +944,7 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
                 {chartTrips.map(({ trip, stopTimes }) => {
                   const tripKey = trip.trip_short_name || trip.trip_id
                   const color = getColorForTrip(trip.trip_id)
-                  const hasRealtime = showRealtime && isToday && stopTimes.some(st => st.realtime)
+                  const hasRealtime = showRealtime && realtimeAvailable && stopTimes.some(st => st.realtime)
 
                   return (
                     <React.Fragment key={trip.trip_id}>
@@ -954,7 +989,7 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
             Expected vehicle speed between consecutive stops (km/h)
-            {showRealtime && isToday && ' | Lighter bars: Real-time speed'}
+            {showRealtime && realtimeAvailable && ' | Lighter bars: Real-time speed'}
           </Typography>
 
           <Box sx={{ width: '100%', height: 400 }}>
@@ -1014,7 +1049,7 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
                 {chartTrips.map(({ trip, stopTimes }) => {
                   const tripKey = trip.trip_short_name || trip.trip_id
                   const color = getColorForTrip(trip.trip_id)
-                  const hasRealtime = showRealtime && isToday && stopTimes.some(st => st.realtime)
+                  const hasRealtime = showRealtime && realtimeAvailable && stopTimes.some(st => st.realtime)
 
                   return (
                     <React.Fragment key={trip.trip_id}>
@@ -1051,6 +1086,17 @@ export default function TimeDistanceGraphTab({ routes, workerApi, agencies }: Ti
         </Alert>
       )}
 
+      {/* Headways of all the trips of the route, independent of the trip selection */}
+      {selectedRoute && directions.length > 0 && (
+        <HeadwayChart
+          workerApi={workerApi}
+          routeId={selectedRoute.route_id}
+          date={selectedDate.replace(/-/g, '')}
+          directions={directions}
+          showRealtime={showRealtime && realtimeAvailable}
+        />
+      )}
+
       {/* Empty state */}
       {selectedRoute && directions.length > 0 && selectedTripIds.size === 0 && !loading && (
         <Alert severity="info">
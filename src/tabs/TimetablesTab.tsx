@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import {
   Box,
   Paper,
@@ -15,13 +15,28 @@ import {
   TableHead,
   TableRow,
   Alert,
-  Button
+  Button,
+  Menu,
+  MenuItem
 } from '@mui/material'
+import { Download as DownloadIcon } from '@mui/icons-material'
 import { Route, Trip, StopTimeWithRealtime, Stop, Agency, VehiclePosition } from 'gtfs-sqljs'
 import type { Remote } from 'comlink'
 import type { GtfsWorkerAPI } from '../gtfs.worker'
-import { timeToSeconds } from '../components/utils'
+import { timeToSeconds, secondsToTime } from '../components/utils'
 import { getDistance } from 'geolib'
+import FeedBadge from '../components/FeedBadge'
+import ServiceDateHint from '../components/ServiceDateHint'
+import { useUrlState } from '../utils/urlState'
+import { ServiceCalendar } from '../utils/serviceCalendar'
+import { getFrequencyInfo, formatHeadway } from '../utils/frequencies'
+import { createTimeService, getServiceNow, unixToServiceTime } from '../utils/timezones'
+import {
+  TimetableExportData,
+  exportTimetableCsv,
+  exportTimetableTsv,
+  printTimetable
+} from '../utils/timetableExport'
 
 interface TimetablesTabProps {
   routes: Route[]
@@ -43,12 +58,24 @@ interface DirectionGroup {
 }
 
 export default function TimetablesTab({ routes, workerApi, agencies, vehicles }: TimetablesTabProps) {
-  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0])
-  const [selectedRoute, setSelectedRoute] = useState<Route | null>(null)
+  // Route, direction and date are kept in the URL so that a timetable can be shared
+  const [urlState, setUrlState] = useUrlState()
+  const selectedDate = urlState.get('date') || new Date().toISOString().split('T')[0]
+  const selectedRouteId = urlState.get('route')
+  const selectedDirectionId = urlState.get('direction')
+  const selectedRoute = useMemo(
+    () => routes.find(r => r.route_id === selectedRouteId) || null,
+    [routes, selectedRouteId]
+  )
   const [directions, setDirections] = useState<DirectionGroup[]>([])
-  const [selectedDirection, setSelectedDirection] = useState<DirectionGroup | null>(null)
+  const selectedDirection = useMemo(
+    () => directions.find(d => String(d.directionId) === selectedDirectionId) || null,
+    [directions, selectedDirectionId]
+  )
   const [timetable, setTimetable] = useState<TripWithTimes[]>([])
   const [orderedStops, setOrderedStops] = useState<Stop[]>([])
+  const [calendars, setCalendars] = useState<ServiceCalendar[]>([])
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
 
@@ -85,7 +112,6 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
   useEffect(() => {
     if (!workerApi || !selectedRoute) {
       setDirections([])
-      setSelectedDirection(null)
       setTimetable([])
       return
     }
@@ -110,7 +136,6 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
 
       const directionsList = Array.from(groupsMap.values())
       setDirections(directionsList)
-      setSelectedDirection(null)
       setTimetable([])
     })
   }, [workerApi, selectedRoute, selectedDate])
@@ -120,6 +145,7 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
     if (!workerApi || !selectedDirection) {
       setTimetable([])
       setOrderedStops([])
+      setCalendars([])
       setError(null)
       return
     }
@@ -134,9 +160,16 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
         // Get trip IDs for building ordered stop list
         const tripIds = selectedDirection.trips.map(t => t.trip_id)
 
-        // Load stop times for each trip
+        // Load the stop times of all trips in one query: frequency-based routes expand to hundreds of trips
+        const stopTimesByTrip = new Map<string, StopTimeWithRealtime[]>()
+        const allStopTimes = await workerApi.getStopTimes({ tripId: tripIds, includeRealtime: true })
+        allStopTimes.forEach(st => {
+          if (!stopTimesByTrip.has(st.trip_id)) stopTimesByTrip.set(st.trip_id, [])
+          stopTimesByTrip.get(st.trip_id)!.push(st)
+        })
+
         for (const trip of selectedDirection.trips) {
-          const stopTimes = await workerApi.getStopTimes({ tripId: trip.trip_id, includeRealtime: true })
+          const stopTimes = (stopTimesByTrip.get(trip.trip_id) || []).sort((a, b) => a.stop_sequence - b.stop_sequence)
 
           // Create a map for quick lookup
           const stopTimesMap = new Map<string, StopTimeWithRealtime>()
@@ -155,14 +188,20 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
         // Build ordered stop list from all trips
         const orderedStopList = await workerApi.buildOrderedStopList(tripIds)
 
+        // Service calendars of the trips, printed on exported timetables
+        const serviceIds = [...new Set(selectedDirection.trips.map(t => t.service_id))]
+        const serviceCalendars = await workerApi.getServiceCalendars(serviceIds)
+
         setTimetable(tripsWithTimes)
         setOrderedStops(orderedStopList)
+        setCalendars(serviceCalendars)
         setLoading(false)
       } catch (err) {
         console.error('Error loading timetable:', err)
         setError('Failed to load timetable')
         setTimetable([])
         setOrderedStops([])
+        setCalendars([])
         setLoading(false)
       }
     }
@@ -170,6 +209,19 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
     loadTimetable()
   }, [workerApi, selectedDirection])
 
+  const handleExport = (exportTimetable: (data: TimetableExportData) => void) => {
+    setExportAnchor(null)
+    if (!selectedRoute || !selectedDirection) return
+    exportTimetable({
+      route: selectedRoute,
+      headsign: selectedDirection.headsign,
+      date: selectedDate,
+      stops: orderedStops,
+      trips: timetable,
+      calendars
+    })
+  }
+
   const formatTime = (timeStr: string | undefined): string => {
     if (!timeStr) return ''
     const [h, m] = timeStr.split(':')
@@ -177,66 +229,33 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
     return `${hours}:${m}`
   }
 
+  // Stop times are expressed in the timezone of the agency operating the route
+  const routeTimezone = useMemo(
+    () => createTimeService(agencies).routeTimezone(selectedRoute),
+    [agencies, selectedRoute]
+  )
+
   const getRealtimeDepartureTime = (stopTime: StopTimeWithRealtime): string | null => {
     if (!stopTime.realtime) return null
+    const serviceDate = selectedDate.replace(/-/g, '')
 
-    const agencyTimezone = agencies.length > 0 && agencies[0].agency_timezone
-      ? agencies[0].agency_timezone
-      : Intl.DateTimeFormat().resolvedOptions().timeZone
-
-    // If we have a realtime departure timestamp
-    if (stopTime.realtime.departure_time) {
-      const date = new Date(stopTime.realtime.departure_time * 1000)
-      const timeString = date.toLocaleString('en-US', {
-        timeZone: agencyTimezone,
-        hour12: false,
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      })
-      const [h, m] = timeString.split(':')
-      return `${h}:${m}`
-    }
-
-    // If we have a departure delay, apply it to the scheduled time
-    if (stopTime.realtime.departure_delay !== undefined && stopTime.departure_time) {
-      const scheduledSeconds = timeToSeconds(stopTime.departure_time)
-      const realtimeSeconds = scheduledSeconds + stopTime.realtime.departure_delay
-      const h = Math.floor(realtimeSeconds / 3600) % 24
-      const m = Math.floor((realtimeSeconds % 3600) / 60)
-      return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`
-    }
-
-    // Fallback to arrival time if departure is not available
-    if (stopTime.realtime.arrival_time) {
-      const date = new Date(stopTime.realtime.arrival_time * 1000)
-      const timeString = date.toLocaleString('en-US', {
-        timeZone: agencyTimezone,
-        hour12: false,
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      })
-      const [h, m] = timeString.split(':')
-      return `${h}:${m}`
+    // Realtime timestamps are placed on the scale of the selected service day, past 24:00 after midnight
+    const timestamp = stopTime.realtime.departure_time || stopTime.realtime.arrival_time
+    if (timestamp) {
+      return formatTime(secondsToTime(unixToServiceTime(timestamp, serviceDate, routeTimezone)))
     }
 
-    // Fallback to arrival delay if departure delay is not available
-    if (stopTime.realtime.arrival_delay !== undefined && stopTime.arrival_time) {
-      const scheduledSeconds = timeToSeconds(stopTime.arrival_time)
-      const realtimeSeconds = scheduledSeconds + stopTime.realtime.arrival_delay
-      const h = Math.floor(realtimeSeconds / 3600) % 24
-      const m = Math.floor((realtimeSeconds % 3600) / 60)
-      return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`
+    // Otherwise apply the delay to the scheduled time
+    const delay = stopTime.realtime.departure_delay ?? stopTime.realtime.arrival_delay
+    const scheduled = stopTime.departure_time || stopTime.arrival_time
+    if (delay !== undefined && delay !== null && scheduled) {
+      return formatTime(secondsToTime(timeToSeconds(scheduled) + delay))
     }
 
     return null
   }
 
-  const isToday = (): boolean => {
-    const today = new Date().toISOString().split('T')[0]
-    return selectedDate === today
-  }
+  const isToday = (): boolean => selectedDate.replace(/-/g, '') === getServiceNow(routeTimezone).date
 
   const getVehicleStatus = (tripId: string, stopId: string): 'at-stop' | 'approaching' | null => {
     if (!isToday()) return null
@@ -321,7 +340,7 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
                   <ListItem key={route.route_id} disablePadding>
                     <ListItemButton
                       selected={selectedRoute?.route_id === route.route_id}
-                      onClick={() => setSelectedRoute(route)}
+                      onClick={() => setUrlState({ route: route.route_id, direction: null })}
                     >
                       <Box
                         sx={{
@@ -342,6 +361,7 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
                       <ListItemText
                         primary={route.route_long_name}
                       />
+                      <FeedBadge id={route.route_id} />
                     </ListItemButton>
                   </ListItem>
                 )
@@ -361,7 +381,7 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
                   <Button
                     key={dir.directionId}
                     variant="outlined"
-                    onClick={() => setSelectedDirection(dir)}
+                    onClick={() => setUrlState({ direction: String(dir.directionId) })}
                     sx={{
                       flex: 1,
                       backgroundColor: 'white',
@@ -422,10 +442,11 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
           <TextField
             type="date"
             value={selectedDate}
-            onChange={(e) => setSelectedDate(e.target.value)}
+            onChange={(e) => setUrlState({ date: e.target.value, direction: null }, { replace: true })}
             fullWidth
             InputLabelProps={{ shrink: true }}
           />
+          <ServiceDateHint workerApi={workerApi} date={selectedDate} />
         </Paper>
       </Box>
 
@@ -443,25 +464,51 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
 
           {!loading && timetable.length > 0 && (
             <Paper sx={{ overflow: 'auto' }}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', p: 1 }}>
+                <Button
+                  size="small"
+                  startIcon={<DownloadIcon />}
+                  onClick={(e) => setExportAnchor(e.currentTarget)}
+                >
+                  Export
+                </Button>
+                <Menu
+                  anchorEl={exportAnchor}
+                  open={exportAnchor !== null}
+                  onClose={() => setExportAnchor(null)}
+                >
+                  <MenuItem onClick={() => handleExport(exportTimetableCsv)}>CSV</MenuItem>
+                  <MenuItem onClick={() => handleExport(exportTimetableTsv)}>TSV (Excel)</MenuItem>
+                  <MenuItem onClick={() => handleExport(printTimetable)}>Print / PDF</MenuItem>
+                </Menu>
+              </Box>
               <TableContainer>
                 <Table size="small" stickyHeader>
                   <TableHead>
                     <TableRow>
                       <TableCell>Stop</TableCell>
-                      {timetable.map((tt, idx) => (
-                        <TableCell key={idx} align="center">
-                          <Box>
-                            <Typography variant="body2">
-                              {tt.trip.trip_short_name || `Trip ${idx + 1}`}
-                            </Typography>
-                            {tt.trip.block_id && (
-                              <Typography variant="caption" color="text.secondary" display="block" sx={{ fontSize: '0.65rem' }}>
-                                {tt.trip.block_id}
+                      {timetable.map((tt, idx) => {
+                        const frequency = getFrequencyInfo(tt.trip)
+                        return (
+                          <TableCell key={idx} align="center">
+                            <Box>
+                              <Typography variant="body2">
+                                {tt.trip.trip_short_name || `Trip ${idx + 1}`}
                               </Typography>
-                            )}
-                          </Box>
-                        </TableCell>
-                      ))}
+                              {tt.trip.block_id && (
+                                <Typography variant="caption" color="text.secondary" display="block" sx={{ fontSize: '0.65rem' }}>
+                                  {tt.trip.block_id}
+                                </Typography>
+                              )}
+                              {frequency && (
+                                <Typography variant="caption" color="text.secondary" display="block" sx={{ fontSize: '0.65rem' }}>
+                                  {formatHeadway(frequency)}
+                                </Typography>
+                              )}
+                            </Box>
+                          </TableCell>
+                        )
+                      })}
                     </TableRow>
                   </TableHead>
                   <TableBody>
@@ -496,7 +543,9 @@ export default function TimetablesTab({ routes, workerApi, agencies, vehicles }:
                               )
                             }
 
-                            const scheduledTime = formatTime(stopTime.departure_time || stopTime.arrival_time)
+                            // Frequency-based trips without exact times only plan the headway
+                            const approximate = getFrequencyInfo(tt.trip)?.exact_times === false
+                            const scheduledTime = `${approximate ? '~' : ''}${formatTime(stopTime.departure_time || stopTime.arrival_time)}`
                             const realtimeTime = isToday() ? getRealtimeDepartureTime(stopTime) : null
                             const vehicleStatus = getVehicleStatus(tt.trip.trip_id, stopTime.stop_id)
                             const vehicleProgress = calculateVehicleProgress(tt.trip.trip_id, stopTime.stop_id, tt.stopTimes)
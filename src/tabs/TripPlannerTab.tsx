@@ -0,0 +1,336 @@
+import { useState, useMemo } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Autocomplete,
+  Button,
+  IconButton,
+  Checkbox,
+  FormControlLabel,
+  Card,
+  CardContent,
+  Stack,
+  Chip,
+  Alert,
+  Divider,
+  createFilterOptions
+} from '@mui/material'
+import {
+  SwapVert as SwapIcon,
+  DirectionsWalk as WalkIcon,
+  DirectionsBus as BusIcon
+} from '@mui/icons-material'
+import { Stop, Route, Agency } from 'gtfs-sqljs'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import { Itinerary, TransitLeg, DEFAULT_MAX_WALK_DISTANCE } from '../utils/tripPlanner'
+import { formatDistance } from '../components/utils'
+
+interface TripPlannerTabProps {
+  stops: Stop[]
+  routes: Route[]
+  workerApi: Remote<GtfsWorkerAPI> | null
+  agencies: Agency[]
+}
+
+const filterStops = createFilterOptions<Stop>({
+  limit: 50,
+  stringify: (stop) => `${stop.stop_name} ${stop.stop_code || ''} ${stop.stop_id}`
+})
+
+const formatTime = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600) % 24  // Use modulo 24 for times >= 24h
+  const m = Math.floor((seconds % 3600) / 60)
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`
+}
+
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)}h ${(minutes % 60).toString().padStart(2, '0')}`
+}
+
+export default function TripPlannerTab({ stops, routes, workerApi, agencies }: TripPlannerTabProps) {
+  const agencyTimezone = agencies.length > 0 && agencies[0].agency_timezone
+    ? agencies[0].agency_timezone
+    : Intl.DateTimeFormat().resolvedOptions().timeZone
+
+  const [fromStop, setFromStop] = useState<Stop | null>(null)
+  const [toStop, setToStop] = useState<Stop | null>(null)
+  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0])
+  const [departureTime, setDepartureTime] = useState<string>(() =>
+    new Date().toLocaleString('en-US', {
+      timeZone: agencyTimezone,
+      hour12: false,
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  )
+  const [useRealtime, setUseRealtime] = useState(true)
+  const [maxWalkDistance, setMaxWalkDistance] = useState(DEFAULT_MAX_WALK_DISTANCE)
+  const [itineraries, setItineraries] = useState<Itinerary[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const stopsMap = useMemo(() => new Map(stops.map(s => [s.stop_id, s])), [stops])
+  const routesMap = useMemo(() => new Map(routes.map(r => [r.route_id, r])), [routes])
+  const sortedStops = useMemo(
+    () => [...stops].sort((a, b) => a.stop_name.localeCompare(b.stop_name)),
+    [stops]
+  )
+
+  const getStopName = (stopId: string) => stopsMap.get(stopId)?.stop_name || stopId
+
+  const handleSwap = () => {
+    setFromStop(toStop)
+    setToStop(fromStop)
+  }
+
+  const handleSearch = async () => {
+    if (!workerApi || !fromStop || !toStop) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const results = await workerApi.planTrip({
+        fromStopId: fromStop.stop_id,
+        toStopId: toStop.stop_id,
+        date: selectedDate.replace(/-/g, ''),
+        departureTime,
+        maxWalkDistance,
+        useRealtime
+      })
+      setItineraries(results)
+    } catch (err) {
+      console.error('Error planning trip:', err)
+      setError(err instanceof Error ? err.message : 'Failed to plan trip')
+      setItineraries(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const renderTransitLeg = (leg: TransitLeg, idx: number) => {
+    const route = routesMap.get(leg.routeId)
+    const textColor = route?.route_text_color ? `#${route.route_text_color}` : '#000'
+    const bgColor = route?.route_color ? `#${route.route_color}` : '#CCC'
+    const departureChanged = leg.hasRealtime && leg.departure !== leg.scheduledDeparture
+    const arrivalChanged = leg.hasRealtime && leg.arrival !== leg.scheduledArrival
+
+    return (
+      <Box key={idx} sx={{ display: 'flex', gap: 2, py: 1 }}>
+        <BusIcon sx={{ color: bgColor, mt: 0.5 }} />
+        <Box sx={{ flex: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+            <Box
+              sx={{
+                display: 'inline-block',
+                px: 1,
+                py: 0.25,
+                borderRadius: 1,
+                backgroundColor: bgColor,
+                color: textColor,
+                fontWeight: 'bold'
+              }}
+            >
+              {route?.route_short_name || leg.routeId}
+            </Box>
+            <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+              {leg.headsign || route?.route_long_name || ''}
+            </Typography>
+            {leg.tripShortName && (
+              <Typography variant="caption" color="text.secondary">
+                ({leg.tripShortName})
+              </Typography>
+            )}
+          </Box>
+          <Typography variant="body2">
+            <strong style={{ color: leg.hasRealtime ? '#1b5e20' : 'inherit' }}>{formatTime(leg.departure)}</strong>
+            {departureChanged && (
+              <span style={{ textDecoration: 'line-through', color: '#888', marginLeft: 4 }}>
+                {formatTime(leg.scheduledDeparture)}
+              </span>
+            )}
+            {' '}{getStopName(leg.fromStopId)}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ pl: 2 }}>
+            {leg.intermediateStops > 0
+              ? `${leg.intermediateStops} intermediate stop${leg.intermediateStops > 1 ? 's' : ''}`
+              : 'Direct'}
+          </Typography>
+          <Typography variant="body2">
+            <strong style={{ color: leg.hasRealtime ? '#1b5e20' : 'inherit' }}>{formatTime(leg.arrival)}</strong>
+            {arrivalChanged && (
+              <span style={{ textDecoration: 'line-through', color: '#888', marginLeft: 4 }}>
+                {formatTime(leg.scheduledArrival)}
+              </span>
+            )}
+            {' '}{getStopName(leg.toStopId)}
+          </Typography>
+        </Box>
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', gap: 3, flexDirection: { xs: 'column', md: 'row' } }}>
+        <Box sx={{ flex: { xs: '1', md: '0 0 33%' } }}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Plan a Trip
+            </Typography>
+
+            <Autocomplete
+              options={sortedStops}
+              filterOptions={filterStops}
+              getOptionLabel={(stop) => stop.stop_name}
+              getOptionKey={(stop) => stop.stop_id}
+              isOptionEqualToValue={(a, b) => a.stop_id === b.stop_id}
+              value={fromStop}
+              onChange={(_e, value) => setFromStop(value)}
+              renderInput={(params) => <TextField {...params} label="From" size="small" margin="dense" />}
+            />
+
+            <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+              <IconButton onClick={handleSwap} size="small" aria-label="swap origin and destination">
+                <SwapIcon />
+              </IconButton>
+            </Box>
+
+            <Autocomplete
+              options={sortedStops}
+              filterOptions={filterStops}
+              getOptionLabel={(stop) => stop.stop_name}
+              getOptionKey={(stop) => stop.stop_id}
+              isOptionEqualToValue={(a, b) => a.stop_id === b.stop_id}
+              value={toStop}
+              onChange={(_e, value) => setToStop(value)}
+              renderInput={(params) => <TextField {...params} label="To" size="small" margin="dense" />}
+            />
+
+            <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+              <TextField
+                type="date"
+                label="Date"
+                size="small"
+                value={selectedDate}
+                onChange={(e) => setSelectedDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+              <TextField
+                type="time"
+                label="Departure"
+                size="small"
+                value={departureTime}
+                onChange={(e) => setDepartureTime(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+            </Box>
+
+            <TextField
+              type="number"
+              label="Max walking distance (m)"
+              size="small"
+              value={maxWalkDistance}
+              onChange={(e) => setMaxWalkDistance(parseInt(e.target.value) || 0)}
+              inputProps={{ min: 0, max: 2000, step: 50 }}
+              fullWidth
+              sx={{ mt: 2 }}
+            />
+
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={useRealtime}
+                  onChange={(e) => setUseRealtime(e.target.checked)}
+                />
+              }
+              label="Use real-time data"
+              sx={{ mt: 1 }}
+            />
+
+            <Button
+              variant="contained"
+              color="error"
+              fullWidth
+              onClick={handleSearch}
+              disabled={!fromStop || !toStop || loading}
+              sx={{ mt: 1 }}
+            >
+              {loading ? 'Searching...' : 'Search'}
+            </Button>
+          </Paper>
+        </Box>
+
+        <Box sx={{ flex: 1 }}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Itineraries
+            </Typography>
+
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+
+            {itineraries === null && !loading && (
+              <Typography color="text.secondary">
+                Choose an origin, a destination and a departure time to plan a trip
+              </Typography>
+            )}
+
+            {itineraries !== null && itineraries.length === 0 && !loading && (
+              <Typography color="error" variant="h6">
+                No itinerary found
+              </Typography>
+            )}
+
+            {itineraries && itineraries.length > 0 && (
+              <Stack spacing={2}>
+                {itineraries.map((itinerary, idx) => (
+                  <Card key={idx} variant="outlined">
+                    <CardContent>
+                      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                        <Typography variant="h6">
+                          {formatTime(itinerary.departure)} → {formatTime(itinerary.arrival)}
+                        </Typography>
+                        <Stack direction="row" spacing={1}>
+                          <Chip label={formatDuration(itinerary.duration)} size="small" />
+                          <Chip
+                            label={itinerary.transfers === 0
+                              ? 'No transfer'
+                              : `${itinerary.transfers} transfer${itinerary.transfers > 1 ? 's' : ''}`}
+                            size="small"
+                            variant="outlined"
+                          />
+                        </Stack>
+                      </Box>
+                      <Divider sx={{ mb: 1 }} />
+                      {itinerary.legs.map((leg, legIdx) =>
+                        leg.type === 'transit' ? renderTransitLeg(leg, legIdx) : (
+                          <Box key={legIdx} sx={{ display: 'flex', gap: 2, py: 1, color: 'text.secondary' }}>
+                            <WalkIcon />
+                            <Typography variant="body2">
+                              Walk {formatDistance(leg.distance)} ({formatDuration(leg.duration)}) to {getStopName(leg.toStopId)}
+                            </Typography>
+                          </Box>
+                        )
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </Stack>
+            )}
+          </Paper>
+        </Box>
+      </Box>
+    </Box>
+  )
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState, useCallback } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Chip,
+  Button,
+  Stack,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  LinearProgress,
+  Alert
+} from '@mui/material'
+import { Download as DownloadIcon, Refresh as RefreshIcon } from '@mui/icons-material'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+import type { ValidationFinding, ValidationSeverity } from '../utils/feedValidation'
+import { toCsv, downloadFile } from '../utils/csv'
+
+interface ValidationTabProps {
+  workerApi: Remote<GtfsWorkerAPI> | null
+}
+
+const SEVERITIES: ValidationSeverity[] = ['error', 'warning', 'info']
+
+export default function ValidationTab({ workerApi }: ValidationTabProps) {
+  const [findings, setFindings] = useState<ValidationFinding[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [severityFilter, setSeverityFilter] = useState<ValidationSeverity[]>(SEVERITIES)
+  const [fileFilter, setFileFilter] = useState<string>('')
+  const [ruleFilter, setRuleFilter] = useState<string>('')
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(0)
+  const [rowsPerPage, setRowsPerPage] = useState(50)
+
+  const runValidation = useCallback(async () => {
+    if (!workerApi) return
+    setLoading(true)
+    setError(null)
+    try {
+      setFindings(await workerApi.validateFeed())
+      setPage(0)
+    } catch (err) {
+      console.error('Error validating feed:', err)
+      setError(err instanceof Error ? err.message : 'Validation failed')
+    } finally {
+      setLoading(false)
+    }
+  }, [workerApi])
+
+  useEffect(() => {
+    runValidation()
+  }, [runValidation])
+
+  const counts = useMemo(() => {
+    const result: Record<ValidationSeverity, number> = { error: 0, warning: 0, info: 0 }
+    findings?.forEach(f => { result[f.severity]++ })
+    return result
+  }, [findings])
+
+  const files = useMemo(() => [...new Set(findings?.map(f => f.file) || [])].sort(), [findings])
+  const rules = useMemo(() => [...new Set(findings?.map(f => f.rule) || [])].sort(), [findings])
+
+  const filteredFindings = useMemo(() => {
+    if (!findings) return []
+    const query = search.trim().toLowerCase()
+    return findings.filter(f =>
+      severityFilter.includes(f.severity) &&
+      (!fileFilter || f.file === fileFilter) &&
+      (!ruleFilter || f.rule === ruleFilter) &&
+      (!query || f.row.toLowerCase().includes(query) || f.message.toLowerCase().includes(query))
+    )
+  }, [findings, severityFilter, fileFilter, ruleFilter, search])
+
+  useEffect(() => {
+    setPage(0)
+  }, [severityFilter, fileFilter, ruleFilter, search])
+
+  const handleExport = () => {
+    const csv = toCsv([
+      ['severity', 'file', 'row', 'rule', 'message'],
+      ...filteredFindings.map(f => [f.severity, f.file, f.row, f.rule, f.message])
+    ])
+    downloadFile(csv, `gtfs-validation-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv')
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2 }}>
+          <Box>
+            <Typography variant="h6">Feed Validation</Typography>
+            {findings && (
+              <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+                <Chip label={`${counts.error} errors`} color="error" size="small" />
+                <Chip label={`${counts.warning} warnings`} color="warning" size="small" />
+                <Chip label={`${counts.info} notices`} color="info" size="small" />
+              </Stack>
+            )}
+          </Box>
+          <Stack direction="row" spacing={1}>
+            <Button
+              variant="outlined"
+              color="error"
+              startIcon={<RefreshIcon />}
+              onClick={runValidation}
+              disabled={loading}
+            >
+              Run Again
+            </Button>
+            <Button
+              variant="contained"
+              color="error"
+              startIcon={<DownloadIcon />}
+              onClick={handleExport}
+              disabled={filteredFindings.length === 0}
+            >
+              Export CSV
+            </Button>
+          </Stack>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2, mt: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+          <ToggleButtonGroup
+            size="small"
+            value={severityFilter}
+            onChange={(_e, value: ValidationSeverity[]) => setSeverityFilter(value)}
+          >
+            {SEVERITIES.map(severity => (
+              <ToggleButton key={severity} value={severity} color={severity}>
+                {severity}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>File</InputLabel>
+            <Select value={fileFilter} label="File" onChange={(e) => setFileFilter(e.target.value)}>
+              <MenuItem value="">All files</MenuItem>
+              {files.map(file => (
+                <MenuItem key={file} value={file}>{file}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel>Rule</InputLabel>
+            <Select value={ruleFilter} label="Rule" onChange={(e) => setRuleFilter(e.target.value)}>
+              <MenuItem value="">All rules</MenuItem>
+              {rules.map(rule => (
+                <MenuItem key={rule} value={rule}>{rule}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            size="small"
+            label="Search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="trip_id, stop_id, message..."
+            sx={{ minWidth: 240 }}
+          />
+        </Box>
+      </Paper>
+
+      {loading && <LinearProgress color="error" sx={{ mb: 2 }} />}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {findings && findings.length === 0 && !loading && (
+        <Alert severity="success">No problem found in this feed</Alert>
+      )}
+
+      {findings && findings.length > 0 && (
+        <Paper>
+          <TableContainer sx={{ maxHeight: 600 }}>
+            <Table stickyHeader size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Severity</TableCell>
+                  <TableCell>File</TableCell>
+                  <TableCell>Row</TableCell>
+                  <TableCell>Rule</TableCell>
+                  <TableCell>Message</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {filteredFindings
+                  .slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage)
+                  .map((finding, idx) => (
+                    <TableRow key={`${finding.rule}-${finding.row}-${idx}`} hover>
+                      <TableCell>
+                        <Chip label={finding.severity} color={finding.severity} size="small" />
+                      </TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{finding.file}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{finding.row || '-'}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{finding.rule}</TableCell>
+                      <TableCell>{finding.message}</TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <TablePagination
+            component="div"
+            count={filteredFindings.length}
+            page={page}
+            onPageChange={(_e, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10))
+              setPage(0)
+            }}
+            rowsPerPageOptions={[25, 50, 100, 250]}
+          />
+        </Paper>
+      )}
+    </Box>
+  )
+}
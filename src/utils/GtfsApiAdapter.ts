@@ -13,6 +13,7 @@ import type { GtfsApi } from '../types/GtfsApi'
 /**
  * Adapter class that provides a synchronous-like API on top of the async worker
  * Uses caching to enable synchronous access to frequently needed data
+ * When several feeds are loaded, caches are keyed by the namespaced ids returned by the worker
  */
 export class GtfsApiAdapter implements GtfsApi {
   private worker: Remote<GtfsWorkerAPI>
@@ -1,26 +1,58 @@
+// A static feed loaded alongside the main one
+export interface FeedConfig {
+  id: string
+  gtfsUrl: string
+  gtfsRtUrls: string[]
+}
+
 export interface AppConfig {
   gtfsUrl: string
   gtfsRtUrls: string[]
+  feedId: string // prefix of the main feed's ids when additional feeds are loaded
+  extraFeeds: FeedConfig[]
   upcomingDeparturesCount: number
   updateInterval: number // in seconds, 0 = disabled
-  selectedTab: number
+  selectedTab: string // slug of the tab, as in shareable URLs
+  recorderEnabled: boolean
+  recorderRetentionHours: number
 }
 
 const CONFIG_KEY = 'gtfs-app-config'
 
+// Tabs in the order of the index saved by earlier versions
+const LEGACY_TAB_ORDER = [
+  'browse',
+  'timetables',
+  'map',
+  'alerts',
+  'departures',
+  'departures-v2',
+  'realtime',
+  'time-distance',
+  'configuration'
+]
+
 export const defaultConfig: AppConfig = {
   gtfsUrl: 'https://pysae.com/api/v2/groups/car-jaune/gtfs/pub',
   gtfsRtUrls: ['https://pysae.com/api/v2/groups/car-jaune/gtfs-rt'],
+  feedId: 'main',
+  extraFeeds: [],
   upcomingDeparturesCount: 10,
   updateInterval: 5,
-  selectedTab: 0
+  selectedTab: 'browse',
+  recorderEnabled: true,
+  recorderRetentionHours: 6
 }
 
 export function loadConfig(): AppConfig {
   try {
     const saved = localStorage.getItem(CONFIG_KEY)
     if (saved) {
-      return { ...defaultConfig, ...JSON.parse(saved) }
+      const config = { ...defaultConfig, ...JSON.parse(saved) }
+      if (typeof config.selectedTab === 'number') {
+        config.selectedTab = LEGACY_TAB_ORDER[config.selectedTab] ?? defaultConfig.selectedTab
+      }
+      return config
     }
   } catch (err) {
     console.error('Error loading config from localStorage:', err)
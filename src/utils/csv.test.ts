@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { toCsv } from './csv'
+
+describe('toCsv', () => {
+  it('joins cells and rows', () => {
+    expect(toCsv([['stop', 'time'], ['A', '08:00']])).toBe('stop,time\r\nA,08:00')
+  })
+
+  it('writes empty cells for missing values and numbers as is', () => {
+    expect(toCsv([['A', null, undefined, 0, 12.5]])).toBe('A,,,0,12.5')
+  })
+
+  it('quotes cells holding separators, quotes or line breaks', () => {
+    expect(toCsv([['Gare, quai 1', 'Le "Port"', 'two\nlines', 'plain']]))
+      .toBe('"Gare, quai 1","Le ""Port""","two\nlines",plain')
+  })
+
+  it('quotes cells against the given separator', () => {
+    expect(toCsv([['a;b', 'c,d']], ';')).toBe('"a;b";c,d')
+  })
+})
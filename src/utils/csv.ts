@@ -0,0 +1,25 @@
+const escapeCell = (value: string, separator: string): string => {
+  if (value.includes(separator) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+// Serialize rows (header first) to CSV, quoting cells as per RFC 4180
+export function toCsv(rows: (string | number | null | undefined)[][], separator = ','): string {
+  return rows
+    .map(row => row.map(cell => escapeCell(cell === null || cell === undefined ? '' : String(cell), separator)).join(separator))
+    .join('\r\n')
+}
+
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
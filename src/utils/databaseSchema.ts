@@ -0,0 +1,86 @@
+/**
+ * Schema checks for databases exported by gtfs-sqljs (see `downloadDatabase` in App.tsx).
+ *
+ * The expected schema lists the tables and columns gtfs-sqljs needs to answer
+ * the queries this app makes; a database built by another tool or by an
+ * incompatible gtfs-sqljs version will be missing some of them.
+ */
+
+/**
+ * Version of the format of the databases this app exports and caches, stored in SQLite's
+ * user_version. It is the app's own number: bump it when the app stops reading databases
+ * it exported before. Databases exported before it existed have user_version 0.
+ */
+export const EXPORT_FORMAT_VERSION = 1
+
+// Unversioned databases are accepted, their schema being validated on its own
+export const isSupportedVersion = (version: number) => version === 0 || version === EXPORT_FORMAT_VERSION
+
+export const REQUIRED_SCHEMA: Record<string, string[]> = {
+  agency: ['agency_id', 'agency_name', 'agency_timezone'],
+  stops: ['stop_id', 'stop_name', 'stop_lat', 'stop_lon', 'location_type', 'parent_station'],
+  routes: ['route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_type', 'route_color', 'route_text_color'],
+  trips: ['trip_id', 'route_id', 'service_id', 'trip_headsign', 'direction_id', 'shape_id'],
+  stop_times: ['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence'],
+  calendar: ['service_id', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'start_date', 'end_date'],
+  calendar_dates: ['service_id', 'date', 'exception_type']
+}
+
+export interface SchemaValidationResult {
+  valid: boolean
+  missingTables: string[]
+  missingColumns: { table: string; column: string }[]
+}
+
+const SQLITE_HEADER = 'SQLite format 3\0'
+
+// Every SQLite file starts with a fixed 16-byte magic string
+export function isSqliteFile(data: ArrayBuffer): boolean {
+  if (data.byteLength < SQLITE_HEADER.length) return false
+  const header = new Uint8Array(data, 0, SQLITE_HEADER.length)
+  return Array.from(header).every((byte, i) => byte === SQLITE_HEADER.charCodeAt(i))
+}
+
+/**
+ * Compare a database layout against REQUIRED_SCHEMA.
+ * `tables` maps each table name to its column names, as read from sqlite_master / table_info.
+ */
+export function validateSchema(tables: Map<string, string[]>): SchemaValidationResult {
+  const missingTables: string[] = []
+  const missingColumns: { table: string; column: string }[] = []
+
+  Object.entries(REQUIRED_SCHEMA).forEach(([table, columns]) => {
+    const actual = tables.get(table)
+    if (!actual) {
+      missingTables.push(table)
+      return
+    }
+    const actualSet = new Set(actual)
+    columns.forEach(column => {
+      if (!actualSet.has(column)) {
+        missingColumns.push({ table, column })
+      }
+    })
+  })
+
+  return {
+    valid: missingTables.length === 0 && missingColumns.length === 0,
+    missingTables,
+    missingColumns
+  }
+}
+
+export function describeSchemaErrors(result: SchemaValidationResult): string {
+  const parts: string[] = []
+  if (result.missingTables.length > 0) {
+    parts.push(`missing tables: ${result.missingTables.join(', ')}`)
+  }
+  if (result.missingColumns.length > 0) {
+    parts.push(`missing columns: ${result.missingColumns.map(c => `${c.table}.${c.column}`).join(', ')}`)
+  }
+  return parts.join('; ')
+}
+
+export function describeVersionMismatch(version: number): string {
+  return `export format version ${version}, expected ${EXPORT_FORMAT_VERSION}`
+}
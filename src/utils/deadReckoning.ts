@@ -0,0 +1,92 @@
+import type { VehiclePosition } from 'gtfs-sqljs'
+import { timeToSeconds } from '../components/utils'
+import { LonLat, cumulativeDistances, pointAlongShape } from './shapeProjection'
+import { TripProgress } from './vehicleProgress'
+
+/**
+ * Dead-reckoning of vehicle positions between GTFS-RT refreshes.
+ *
+ * From its last reported position, a vehicle moves along its trip shape at its reported speed,
+ * or else at the speed the (realtime adjusted) schedule implies between its surrounding stops.
+ * Without a shape, it moves straight along its bearing. Positions older than STALE_AFTER are
+ * estimated, and are no longer extrapolated after MAX_EXTRAPOLATION.
+ */
+
+export const STALE_AFTER = 90 // seconds
+export const MAX_EXTRAPOLATION = 300 // seconds
+
+const EARTH_RADIUS = 6371008.8
+
+export interface VehicleMotion {
+  position: LonLat // reported position
+  timestamp: number // unix seconds of the reported position
+  speed: number // metres per second
+  bearing: number | null // degrees clockwise from north, used without a shape
+  line: LonLat[] // empty without a shape
+  distances: number[]
+  distance: number // metres along the line at `timestamp`
+  end: number // metres along the line where the extrapolation stops
+}
+
+// Scheduled speed between the last passed stop and the next one, with realtime delays applied
+function scheduledSpeed(progress: TripProgress): number {
+  const next = progress.stops[progress.nextStopIndex]
+  const previous = progress.stops[progress.nextStopIndex - 1]
+  if (!next || !previous || next.distance === null || previous.distance === null) return 0
+
+  const time = (index: number) => {
+    const { stopTime, delay } = progress.stops[index]
+    const scheduled = stopTime.arrival_time || stopTime.departure_time
+    return scheduled ? timeToSeconds(scheduled) + (delay ?? 0) : null
+  }
+  const departure = time(progress.nextStopIndex - 1)
+  const arrival = time(progress.nextStopIndex)
+  if (departure === null || arrival === null || arrival <= departure) return 0
+  return (next.distance - previous.distance) / (arrival - departure)
+}
+
+export function buildVehicleMotion(
+  vehicle: VehiclePosition,
+  progress: TripProgress | null,
+  receivedAt: number
+): VehicleMotion | null {
+  const { latitude, longitude, speed, bearing } = vehicle.position || {}
+  if (!latitude || !longitude) return null
+
+  const reportedSpeed = speed && speed > 0 ? speed : null
+  const onShape = progress?.vehicle && progress.shape.length > 1
+  const line = onShape ? progress!.shape : []
+  const distances = onShape ? cumulativeDistances(line) : []
+
+  return {
+    position: [longitude, latitude],
+    timestamp: vehicle.timestamp || receivedAt,
+    // A vehicle stopped at a stop waits for the next refresh
+    speed: progress?.atStop ? 0 : reportedSpeed ?? (progress ? scheduledSpeed(progress) : 0),
+    bearing: bearing ?? null,
+    line,
+    distances,
+    distance: onShape ? progress!.vehicle!.distance : 0,
+    end: distances[distances.length - 1] ?? 0
+  }
+}
+
+export const isEstimated = (motion: VehicleMotion, now: number) => now - motion.timestamp > STALE_AFTER
+
+// Estimated position of the vehicle at `now` (unix seconds)
+export function estimateVehiclePosition(motion: VehicleMotion, now: number): LonLat {
+  const elapsed = Math.max(0, Math.min(now - motion.timestamp, MAX_EXTRAPOLATION))
+  const travelled = motion.speed * elapsed
+  if (travelled === 0) return motion.position
+
+  if (motion.line.length > 1) {
+    return pointAlongShape(motion.line, motion.distances, Math.min(motion.distance + travelled, motion.end))
+  }
+
+  if (motion.bearing === null) return motion.position
+  const angle = motion.bearing * Math.PI / 180
+  const [lon, lat] = motion.position
+  const dLat = (travelled * Math.cos(angle)) / EARTH_RADIUS
+  const dLon = (travelled * Math.sin(angle)) / (EARTH_RADIUS * Math.cos(lat * Math.PI / 180))
+  return [lon + dLon * 180 / Math.PI, lat + dLat * 180 / Math.PI]
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { StopTimeWithRealtime } from 'gtfs-sqljs'
+import { flattenStopTimeUpdate, propagateDelays, realtimeSource, TripStopUpdate } from './delayPropagation'
+
+const stopTime = (stop_sequence: number, time: string, realtime?: StopTimeWithRealtime['realtime']) =>
+  ({
+    trip_id: 'T1',
+    stop_id: `S${stop_sequence}`,
+    stop_sequence,
+    arrival_time: time,
+    departure_time: time,
+    realtime
+  }) as StopTimeWithRealtime
+
+const update = (fields: Partial<TripStopUpdate>): TripStopUpdate => ({
+  stop_sequence: null,
+  stop_id: null,
+  arrival_delay: null,
+  arrival_time: null,
+  departure_delay: null,
+  departure_time: null,
+  schedule_relationship: null,
+  ...fields
+})
+
+const trip = [
+  stopTime(1, '08:00:00'),
+  stopTime(2, '08:10:00'),
+  stopTime(3, '08:20:00'),
+  stopTime(4, '08:30:00')
+]
+
+describe('propagateDelays', () => {
+  it('carries a delay forward to the following stops', () => {
+    const result = propagateDelays(trip, [update({ stop_sequence: 2, departure_delay: 120 })])
+    expect(result[0].realtime).toBeUndefined()
+    expect(result[1].realtime).toMatchObject({ departure_delay: 120, arrival_delay: 120, source: 'explicit' })
+    expect(result[3].realtime).toMatchObject({ departure_delay: 120, source: 'propagated' })
+    expect(realtimeSource(result[2])).toBe('propagated')
+  })
+
+  it('stops the propagation at the next update', () => {
+    const result = propagateDelays(trip, [
+      update({ stop_sequence: 1, departure_delay: 60 }),
+      update({ stop_sequence: 3, arrival_delay: 300 })
+    ])
+    expect(result.map(st => st.realtime?.departure_delay)).toEqual([60, 60, 300, 300])
+  })
+
+  it('leaves stops after a NO_DATA update without realtime', () => {
+    const result = propagateDelays(trip, [
+      update({ stop_sequence: 1, departure_delay: 60 }),
+      update({ stop_sequence: 3, schedule_relationship: 2 })
+    ])
+    expect(result[1].realtime?.departure_delay).toBe(60)
+    expect(result[2].realtime).toBeUndefined()
+    expect(result[3].realtime).toBeUndefined()
+  })
+
+  it('marks skipped stops and carries the delay over them', () => {
+    const result = propagateDelays(trip, [
+      update({ stop_sequence: 1, departure_delay: 60 }),
+      update({ stop_sequence: 2, schedule_relationship: 1 })
+    ])
+    expect(result[1].realtime).toEqual({ schedule_relationship: 4, source: 'explicit' })
+    expect(result[2].realtime?.departure_delay).toBe(60)
+  })
+
+  it('places updates given by stop id only', () => {
+    const result = propagateDelays(trip, [update({ stop_id: 'S3', departure_delay: 90 })])
+    expect(result[1].realtime).toBeUndefined()
+    expect(result[2].realtime).toMatchObject({ departure_delay: 90, source: 'explicit' })
+  })
+
+  it('converts absolute times in the timezone of the trip', () => {
+    // 08:13 in Paris on 15 January 2024, scheduled at 08:10
+    const timestamp = Date.UTC(2024, 0, 15, 7, 13) / 1000
+    const result = propagateDelays(trip, [update({ stop_sequence: 2, departure_time: timestamp })], trip, 'Europe/Paris')
+    expect(result[1].realtime).toMatchObject({ departure_delay: 180, departure_time: timestamp })
+    expect(result[2].realtime?.departure_delay).toBe(180)
+  })
+
+  it('places updates of stops missing from the stop times through the schedule', () => {
+    const result = propagateDelays([trip[3]], [update({ stop_sequence: 2, departure_delay: 120 })], trip)
+    expect(result).toHaveLength(1)
+    expect(result[0].realtime).toMatchObject({ departure_delay: 120, source: 'propagated' })
+  })
+
+  it('keeps the realtime of canceled trips and trip level data', () => {
+    const canceled = trip.map(st => ({ ...st, realtime: { schedule_relationship: 3 } }))
+    expect(propagateDelays(canceled, [update({ stop_sequence: 1, departure_delay: 60 })])).toEqual(canceled)
+
+    const added = trip.map(st => ({ ...st, realtime: { schedule_relationship: 1 } }))
+    const result = propagateDelays(added, [update({ stop_sequence: 3, departure_delay: 60 })])
+    expect(result[0].realtime).toEqual({ schedule_relationship: 1 })
+    expect(result[2].realtime).toMatchObject({ schedule_relationship: 1, departure_delay: 60 })
+  })
+})
+
+describe('flattenStopTimeUpdate', () => {
+  it('flattens arrival and departure events', () => {
+    expect(flattenStopTimeUpdate({
+      stop_sequence: 4,
+      stop_id: 'S4',
+      arrival: { delay: 30 },
+      departure: { time: 1700000000 },
+      schedule_relationship: 0
+    })).toEqual(update({
+      stop_sequence: 4,
+      stop_id: 'S4',
+      arrival_delay: 30,
+      departure_time: 1700000000,
+      schedule_relationship: 0
+    }))
+  })
+})
@@ -0,0 +1,145 @@
+import type { StopTimeUpdate, StopTimeWithRealtime } from 'gtfs-sqljs'
+import { delayFromTimestamp } from './timezones'
+import { timeToSeconds } from '../components/utils'
+
+/**
+ * GTFS-RT delay propagation.
+ *
+ * A StopTimeUpdate applies to its stop and its delay carries forward to the following stops of
+ * the trip, up to the next StopTimeUpdate. A SKIPPED stop is not served, but the delay carries
+ * over it. A NO_DATA update ends the propagation: the stops from it to the next update have no
+ * realtime data. Stop times keep whether their realtime comes from their own update or from an
+ * earlier stop, so that boards can tell predictions from estimates.
+ */
+
+// StopTimeUpdate.ScheduleRelationship
+const STOP_SKIPPED = 1
+const STOP_NO_DATA = 2
+
+// StopTimeRealtime.schedule_relationship of canceled trips and skipped stops, as used by the boards
+const CANCELED = 3
+const SKIPPED = 4
+
+// explicit: update of the stop itself; propagated: delay carried from an earlier stop
+export type RealtimeSource = 'explicit' | 'propagated'
+
+export type PropagatedStopTime = StopTimeWithRealtime & {
+  realtime?: { source?: RealtimeSource }
+}
+
+// Stop time update of a trip, flattened
+export interface TripStopUpdate {
+  stop_sequence: number | null
+  stop_id: string | null
+  arrival_delay: number | null
+  arrival_time: number | null
+  departure_delay: number | null
+  departure_time: number | null
+  schedule_relationship: number | null
+}
+
+// Scheduled stop of a trip, enough to place and convert its updates
+export type ScheduledStop = Pick<StopTimeWithRealtime, 'stop_id' | 'stop_sequence' | 'arrival_time' | 'departure_time'>
+
+export const flattenStopTimeUpdate = (stu: StopTimeUpdate): TripStopUpdate => ({
+  stop_sequence: stu.stop_sequence ?? null,
+  stop_id: stu.stop_id ?? null,
+  arrival_delay: stu.arrival?.delay ?? null,
+  arrival_time: stu.arrival?.time ?? null,
+  departure_delay: stu.departure?.delay ?? null,
+  departure_time: stu.departure?.time ?? null,
+  schedule_relationship: stu.schedule_relationship ?? null
+})
+
+export const realtimeSource = (stopTime: PropagatedStopTime): RealtimeSource | null =>
+  stopTime.realtime?.source ?? null
+
+// Delay of an update at a stop, from its delay or else from its time
+function updateDelay(
+  delay: number | null,
+  time: number | null,
+  scheduled: string | null | undefined,
+  timezone: string | undefined
+): number | null {
+  if (delay !== null) return delay
+  if (time === null || !scheduled || !timezone) return null
+  return delayFromTimestamp(timeToSeconds(scheduled), time, timezone)
+}
+
+/**
+ * Realtime of the stop times of a trip from its stop time updates.
+ * The schedule is the full list of stop times of the trip, used to place the updates of stops
+ * missing from stopTimes (e.g. the stop times of a single stop); it defaults to stopTimes.
+ * Updates with absolute times only are turned into delays in the timezone of the trip, when given.
+ * Stop times of canceled trips are returned unchanged, and stop times are returned in their order.
+ */
+export function propagateDelays(
+  stopTimes: StopTimeWithRealtime[],
+  updates: TripStopUpdate[],
+  schedule: ScheduledStop[] = stopTimes,
+  timezone?: string
+): PropagatedStopTime[] {
+  const ordered = [...schedule].sort((a, b) => a.stop_sequence - b.stop_sequence)
+
+  // Updates by stop sequence, stops given by id only taken at their first visit after the previous update
+  const updatesBySequence = new Map<number, TripStopUpdate>()
+  let lastSequence = -Infinity
+  updates.forEach(update => {
+    const sequence = update.stop_sequence
+      ?? ordered.find(st => st.stop_id === update.stop_id && st.stop_sequence > lastSequence)?.stop_sequence
+    if (sequence === undefined) return
+    updatesBySequence.set(sequence, update)
+    lastSequence = sequence
+  })
+
+  // Walk the updates and the stops of the trip in sequence order
+  const sequences = [...new Set([...updatesBySequence.keys(), ...stopTimes.map(st => st.stop_sequence)])]
+    .sort((a, b) => a - b)
+  const scheduleBySequence = new Map(ordered.map(st => [st.stop_sequence, st]))
+  const realtimeBySequence = new Map<number, PropagatedStopTime['realtime']>()
+  let carried: number | null = null
+
+  sequences.forEach(sequence => {
+    const update = updatesBySequence.get(sequence)
+    if (update?.schedule_relationship === STOP_NO_DATA) {
+      carried = null
+      return
+    }
+    if (update?.schedule_relationship === STOP_SKIPPED) {
+      realtimeBySequence.set(sequence, { schedule_relationship: SKIPPED, source: 'explicit' })
+      return
+    }
+
+    const scheduled = scheduleBySequence.get(sequence)
+    const arrivalDelay = update
+      ? updateDelay(update.arrival_delay, update.arrival_time, scheduled?.arrival_time, timezone)
+      : null
+    const departureDelay = update
+      ? updateDelay(update.departure_delay, update.departure_time, scheduled?.departure_time, timezone)
+      : null
+    const delay = departureDelay ?? arrivalDelay
+
+    if (update && (delay !== null || update.arrival_time !== null || update.departure_time !== null)) {
+      realtimeBySequence.set(sequence, {
+        arrival_delay: arrivalDelay ?? delay ?? undefined,
+        departure_delay: delay ?? undefined,
+        arrival_time: update.arrival_time ?? undefined,
+        departure_time: update.departure_time ?? undefined,
+        source: 'explicit'
+      })
+      if (delay !== null) carried = delay
+    } else if (carried !== null) {
+      realtimeBySequence.set(sequence, { arrival_delay: carried, departure_delay: carried, source: 'propagated' })
+    }
+  })
+
+  return stopTimes.map((stopTime): PropagatedStopTime => {
+    if (stopTime.realtime?.schedule_relationship === CANCELED) return stopTime
+    const realtime = realtimeBySequence.get(stopTime.stop_sequence)
+    // Trip level data, such as ADDED trips, is kept
+    return {
+      ...stopTime,
+      realtime: realtime ? { ...stopTime.realtime, ...realtime } : stopTime.realtime
+    }
+  })
+}
@@ -0,0 +1,194 @@
+import type { Stop, Route, Trip } from 'gtfs-sqljs'
+import type { Remote } from 'comlink'
+import type { GtfsWorkerAPI } from '../gtfs.worker'
+
+import { TimeService, addDays, getServiceNow, serviceDayStart, serviceTimeToUnix } from './timezones'
+import { timeToSeconds } from '../components/utils'
+import { RecordedStopTimeUpdate, applyRecordedUpdates } from './realtimeRecorder'
+import { PropagatedStopTime, RealtimeSource, realtimeSource } from './delayPropagation'
+
+export interface Departure {
+  trip: Trip
+  route: Route | null
+  stopTime: PropagatedStopTime
+  stop: Stop
+  serviceDate: string // YYYYMMDD, the day before for trips started before midnight
+  departureTimeSeconds: number // seconds since the start of today's service day in the board timezone
+  realtimeDepartureSeconds: number | null
+  realtimeSource: RealtimeSource | null // propagated: estimated from the delay at an earlier stop
+  canceled: boolean // CANCELED trip or SKIPPED stop
+}
+
+export interface AgencyNow {
+  date: string // YYYYMMDD
+  seconds: number // seconds since the start of the service day
+}
+
+// Current service date and time of day in the agency timezone
+export function getAgencyNow(timezone: string, now: Date = new Date()): AgencyNow {
+  return getServiceNow(timezone, now)
+}
+
+// Timezone in which a board of stops displays its departures
+export const getBoardTimezone = (timeService: TimeService, stops: Stop[]) =>
+  timeService.stopTimezone(stops[0])
+
+/**
+ * Realtime of past stop times replaced with the updates recorded at a time. Updates are applied
+ * to the whole trip, so that a delay recorded at an earlier stop reaches the stops of the board.
+ */
+async function withRecordedRealtime(
+  workerApi: Remote<GtfsWorkerAPI>,
+  stopTimes: PropagatedStopTime[],
+  timeService: TimeService,
+  at: number
+): Promise<PropagatedStopTime[]> {
+  const tripIds = [...new Set(stopTimes.map(st => st.trip_id))]
+  if (tripIds.length === 0) return stopTimes
+
+  // Recorded times are read in the timezone of the route of each trip
+  const [updates, trips, tripStopTimes] = await Promise.all([
+    workerApi.getRecordedStopTimeUpdates(tripIds, at),
+    workerApi.getTrips({ tripId: tripIds }),
+    workerApi.getStopTimes({ tripId: tripIds })
+  ])
+  const routes = await workerApi.getRoutes({ routeId: [...new Set(trips.map(t => t.route_id))] })
+  const routeMap = new Map(routes.map(r => [r.route_id, r]))
+  const tripRoutes = new Map(trips.map(t => [t.trip_id, routeMap.get(t.route_id)]))
+
+  const updatesByTrip = new Map<string, RecordedStopTimeUpdate[]>()
+  updates.forEach(update => {
+    if (!updatesByTrip.has(update.trip_id)) updatesByTrip.set(update.trip_id, [])
+    updatesByTrip.get(update.trip_id)!.push(update)
+  })
+  const scheduleByTrip = new Map<string, PropagatedStopTime[]>()
+  tripStopTimes.forEach(st => {
+    if (!scheduleByTrip.has(st.trip_id)) scheduleByTrip.set(st.trip_id, [])
+    scheduleByTrip.get(st.trip_id)!.push(st)
+  })
+
+  // Recorded realtime of every stop of each trip, by stop sequence
+  const realtimeByTrip = new Map<string, Map<number, PropagatedStopTime['realtime']>>()
+  scheduleByTrip.forEach((schedule, tripId) => {
+    const applied = applyRecordedUpdates(
+      schedule,
+      updatesByTrip.get(tripId) || [],
+      timeService.routeTimezone(tripRoutes.get(tripId))
+    )
+    realtimeByTrip.set(tripId, new Map(applied.map(st => [st.stop_sequence, st.realtime])))
+  })
+
+  return stopTimes.map(st => ({ ...st, realtime: realtimeByTrip.get(st.trip_id)?.get(st.stop_sequence) }))
+}
+
+/**
+ * Upcoming departures at the given stops (at all platforms of stations), enriched with trip
+ * and route data and sorted by
+ * effective (realtime when available) departure time. Trips of yesterday's service still
+ * running past midnight are included. Times of each trip are converted from the timezone of
+ * its agency to the board timezone. Departures whose realtime is a delay carried from an
+ * earlier stop of the trip are flagged as propagated.
+ * At a what-if time (unix seconds), departures are those following that time, with the
+ * realtime updates recorded at that time when it is past, and the schedule alone otherwise.
+ * Canceled departures are only returned when includeCanceled is set.
+ */
+export async function loadUpcomingDepartures(
+  workerApi: Remote<GtfsWorkerAPI>,
+  stops: Stop[],
+  timeService: TimeService,
+  includeCanceled = false,
+  at: number | null = null
+): Promise<Departure[]> {
+  if (stops.length === 0) return []
+
+  const boardTimezone = getBoardTimezone(timeService, stops)
+  const { date, seconds: currentTimeSeconds } = getAgencyNow(boardTimezone, at !== null ? new Date(at * 1000) : undefined)
+  const recordedAt = at !== null && at < Date.now() / 1000 ? at : null
+  const boardDayStart = serviceDayStart(date, boardTimezone)
+  // Stations are served at their platforms
+  const boardStops = await workerApi.getPlatformStops(stops.map(s => s.stop_id))
+  const stopMap = new Map(boardStops.map(s => [s.stop_id, s]))
+
+  // Stop times of today's services, and of yesterday's services past 24:00:00
+  const candidates: Pick<Departure, 'stopTime' | 'stop' | 'serviceDate' | 'canceled'>[] = []
+  for (const serviceDate of [addDays(date, -1), date]) {
+    const activeServiceIds = await workerApi.getActiveServiceIds(serviceDate)
+    if (activeServiceIds.length === 0) continue
+
+    // Single query for all stop times at selected stops
+    let stopTimes = await workerApi.getStopTimes({
+      stopId: boardStops.map(s => s.stop_id),
+      serviceIds: activeServiceIds,
+      includeRealtime: at === null,
+    })
+    if (recordedAt !== null) {
+      stopTimes = await withRecordedRealtime(workerApi, stopTimes, timeService, recordedAt)
+    }
+
+    for (const stopTime of stopTimes) {
+      const stop = stopMap.get(stopTime.stop_id)
+      if (!stop || !stopTime.departure_time) continue
+      if (serviceDate !== date && timeToSeconds(stopTime.departure_time) < 24 * 3600) continue
+
+      const canceled = stopTime.realtime?.schedule_relationship === 3  // CANCELED
+        || stopTime.realtime?.schedule_relationship === 4  // SKIPPED
+      if (canceled && !includeCanceled) continue
+
+      candidates.push({ stopTime, stop, serviceDate, canceled })
+    }
+  }
+
+  // Enrich with trip and route data, the route giving the timezone of the stop times
+  const tripIds = [...new Set(candidates.map(c => c.stopTime.trip_id))]
+  const trips = tripIds.length > 0 ? await workerApi.getTrips({ tripId: tripIds, includeRealtime: at === null }) : []
+  const tripMap = new Map(trips.map(t => [t.trip_id, t]))
+
+  const routeIds = [...new Set(trips.map(t => t.route_id))]
+  const routesData = routeIds.length > 0 ? await workerApi.getRoutes({ routeId: routeIds }) : []
+  const routeMap = new Map(routesData.map(r => [r.route_id, r]))
+
+  const departures: Departure[] = []
+  for (const { stopTime, stop, serviceDate, canceled } of candidates) {
+    // Remove departures without trip data
+    const trip = tripMap.get(stopTime.trip_id)
+    if (!trip) continue
+    const route = routeMap.get(trip.route_id) || null
+
+    const scheduled = serviceTimeToUnix(serviceDate, timeToSeconds(stopTime.departure_time!), timeService.routeTimezone(route))
+    const realtime = stopTime.realtime
+    let realtimeDeparture: number | null = null
+    // Realtime timestamps more than 12 hours away belong to the trip on another service date
+    if (realtime?.departure_time && Math.abs(realtime.departure_time - scheduled) < 12 * 3600) {
+      realtimeDeparture = realtime.departure_time
+    } else if (realtime?.departure_delay !== undefined && realtime?.departure_delay !== null) {
+      realtimeDeparture = scheduled + realtime.departure_delay
+    }
+
+    const departureTimeSeconds = scheduled - boardDayStart
+    const realtimeDepartureSeconds = realtimeDeparture !== null ? realtimeDeparture - boardDayStart : null
+
+    // Only include upcoming departures
+    if ((realtimeDepartureSeconds ?? departureTimeSeconds) >= currentTimeSeconds) {
+      departures.push({
+        trip,
+        route,
+        stopTime,
+        stop,
+        serviceDate,
+        departureTimeSeconds,
+        realtimeDepartureSeconds,
+        realtimeSource: realtimeDepartureSeconds !== null ? realtimeSource(stopTime) : null,
+        canceled
+      })
+    }
+  }
+
+  // Sort by effective departure time
+  departures.sort((a, b) => {
+    const aTime = a.realtimeDepartureSeconds ?? a.departureTimeSeconds
+    const bTime = b.realtimeDepartureSeconds ?? b.departureTimeSeconds
+    return aTime - bTime
+  })
+
+  return departures
+}
@@ -0,0 +1,184 @@
+import { getDistance } from 'geolib'
+import { Route, Stop } from 'gtfs-sqljs'
+
+/**
+ * Comparison of two versions of a GTFS feed.
+ *
+ * Each feed is loaded in its own worker, which returns a FeedSnapshot (see getFeedSnapshot
+ * in gtfs.worker.ts); the snapshots are then compared here. Records are matched by id.
+ */
+
+// [route_id, HH:MM] departures of a stop
+export type StopDeparture = [string, string]
+
+export interface FeedSnapshot {
+  dates: string[] // YYYYMMDD, the first one is used for the stop timetables
+  routes: Route[]
+  stops: Stop[]
+  // route_id -> date -> number of trips
+  tripsPerRouteDay: Record<string, Record<string, number>>
+  // stop_id -> departures on the first date, sorted by time
+  stopDepartures: Record<string, StopDeparture[]>
+}
+
+export interface FieldChange {
+  field: string
+  before: string
+  after: string
+}
+
+export interface RecordChange<T> {
+  id: string
+  before: T
+  after: T
+  changes: FieldChange[]
+}
+
+export interface StopChange extends RecordChange<Stop> {
+  distance: number | null // metres between the two positions, when both are known
+}
+
+export interface RouteTripCountChange {
+  route_id: string
+  days: { date: string; before: number; after: number }[]
+}
+
+export interface StopTimetableChange {
+  stop_id: string
+  added: StopDeparture[]
+  removed: StopDeparture[]
+}
+
+export interface FeedDiff {
+  dates: string[]
+  routes: { added: Route[]; removed: Route[]; changed: RecordChange<Route>[] }
+  stops: { added: Stop[]; removed: Stop[]; changed: StopChange[] }
+  tripCounts: RouteTripCountChange[]
+  timetables: StopTimetableChange[]
+}
+
+export interface FeedDiffOptions {
+  moveThreshold: number // metres a stop must move to be reported
+}
+
+export const DEFAULT_MOVE_THRESHOLD = 50
+
+const ROUTE_FIELDS: (keyof Route)[] = [
+  'agency_id',
+  'route_short_name',
+  'route_long_name',
+  'route_type',
+  'route_color',
+  'route_text_color'
+]
+
+const STOP_FIELDS: (keyof Stop)[] = [
+  'stop_name',
+  'stop_code',
+  'location_type',
+  'parent_station',
+  'platform_code',
+  'wheelchair_boarding'
+]
+
+const fieldValue = (value: unknown): string => value === null || value === undefined ? '' : String(value)
+
+function compareFields<T>(before: T, after: T, fields: (keyof T)[]): FieldChange[] {
+  return fields
+    .filter(field => fieldValue(before[field]) !== fieldValue(after[field]))
+    .map(field => ({ field: String(field), before: fieldValue(before[field]), after: fieldValue(after[field]) }))
+}
+
+function matchById<T>(
+  before: T[],
+  after: T[],
+  idOf: (record: T) => string
+): { added: T[]; removed: T[]; common: [T, T][] } {
+  const beforeMap = new Map(before.map(record => [idOf(record), record]))
+  const afterMap = new Map(after.map(record => [idOf(record), record]))
+  return {
+    added: after.filter(record => !beforeMap.has(idOf(record))),
+    removed: before.filter(record => !afterMap.has(idOf(record))),
+    common: before
+      .filter(record => afterMap.has(idOf(record)))
+      .map(record => [record, afterMap.get(idOf(record))!])
+  }
+}
+
+// Departures present in `from` and not in `to`, keeping duplicates (two trips of a route at the same minute)
+function subtractDepartures(from: StopDeparture[], to: StopDeparture[]): StopDeparture[] {
+  const remaining = new Map<string, number>()
+  to.forEach(([routeId, time]) => {
+    const key = `${routeId}\t${time}`
+    remaining.set(key, (remaining.get(key) || 0) + 1)
+  })
+  return from.filter(([routeId, time]) => {
+    const key = `${routeId}\t${time}`
+    const count = remaining.get(key) || 0
+    if (count === 0) return true
+    remaining.set(key, count - 1)
+    return false
+  })
+}
+
+export function diffFeeds(
+  before: FeedSnapshot,
+  after: FeedSnapshot,
+  options: FeedDiffOptions = { moveThreshold: DEFAULT_MOVE_THRESHOLD }
+): FeedDiff {
+  const routes = matchById(before.routes, after.routes, r => r.route_id)
+  const stops = matchById(before.stops, after.stops, s => s.stop_id)
+
+  const changedRoutes = routes.common
+    .map(([b, a]) => ({ id: b.route_id, before: b, after: a, changes: compareFields(b, a, ROUTE_FIELDS) }))
+    .filter(change => change.changes.length > 0)
+
+  const changedStops = stops.common
+    .map(([b, a]): StopChange => {
+      const changes = compareFields(b, a, STOP_FIELDS)
+      const located = b.stop_lat && b.stop_lon && a.stop_lat && a.stop_lon
+      const distance = located
+        ? getDistance({ latitude: b.stop_lat!, longitude: b.stop_lon! }, { latitude: a.stop_lat!, longitude: a.stop_lon! })
+        : null
+      if (distance !== null && distance > options.moveThreshold) {
+        changes.push({ field: 'position', before: `${b.stop_lat}, ${b.stop_lon}`, after: `${a.stop_lat}, ${a.stop_lon}` })
+      }
+      return { id: b.stop_id, before: b, after: a, changes, distance }
+    })
+    .filter(change => change.changes.length > 0)
+
+  // Both snapshots are taken on the same dates
+  const routeIds = new Set([...Object.keys(before.tripsPerRouteDay), ...Object.keys(after.tripsPerRouteDay)])
+  const tripCounts = [...routeIds]
+    .map(routeId => ({
+      route_id: routeId,
+      days: after.dates.map(date => ({
+        date,
+        before: before.tripsPerRouteDay[routeId]?.[date] || 0,
+        after: after.tripsPerRouteDay[routeId]?.[date] || 0
+      }))
+    }))
+    .filter(change => change.days.some(day => day.before !== day.after))
+
+  const stopIds = new Set([...Object.keys(before.stopDepartures), ...Object.keys(after.stopDepartures)])
+  const timetables = [...stopIds]
+    .map(stopId => {
+      const beforeDepartures = before.stopDepartures[stopId] || []
+      const afterDepartures = after.stopDepartures[stopId] || []
+      return {
+        stop_id: stopId,
+        added: subtractDepartures(afterDepartures, beforeDepartures),
+        removed: subtractDepartures(beforeDepartures, afterDepartures)
+      }
+    })
+    .filter(change => change.added.length > 0 || change.removed.length > 0)
+    .sort((a, b) => (b.added.length + b.removed.length) - (a.added.length + a.removed.length))
+
+  return {
+    dates: after.dates,
+    routes: { added: routes.added, removed: routes.removed, changed: changedRoutes },
+    stops: { added: stops.added, removed: stops.removed, changed: changedStops },
+    tripCounts,
+    timetables
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * ID namespacing for sessions with several static feeds.
+ *
+ * When more than one feed is loaded, every GTFS identifier returned by the worker
+ * is prefixed with its feed id ("carjaune:R1"), so that ids from different networks
+ * never collide. Filters sent to the worker are translated back to local ids.
+ * With a single feed, ids are left untouched.
+ */
+
+export const FEED_SEPARATOR = ':'
+
+// Record fields holding GTFS identifiers (snake_case, as returned by gtfs-sqljs)
+const ID_FIELDS = new Set([
+  'agency_id',
+  'route_id',
+  'trip_id',
+  'stop_id',
+  'service_id',
+  'shape_id',
+  'parent_station',
+  'block_id',
+  'level_id'
+])
+
+// Filter fields holding GTFS identifiers (camelCase, as accepted by gtfs-sqljs)
+const FILTER_ID_FIELDS = new Set([
+  'agencyId',
+  'routeId',
+  'tripId',
+  'stopId',
+  'serviceIds',
+  'shapeId',
+  'parentStation',
+  'blockId'
+])
+
+export const namespaceId = (feedId: string, id: string) => `${feedId}${FEED_SEPARATOR}${id}`
+
+/**
+ * Split a namespaced id. Only known feed ids are recognized, since raw GTFS ids
+ * often contain the separator themselves (e.g. "StopPoint:OCE87").
+ */
+export function splitNamespacedId(id: string, feedIds: string[]): { feedId: string; localId: string } | null {
+  for (const feedId of feedIds) {
+    const prefix = `${feedId}${FEED_SEPARATOR}`
+    if (id.startsWith(prefix)) {
+      return { feedId, localId: id.slice(prefix.length) }
+    }
+  }
+  return null
+}
+
+/**
+ * Deep copy of a record with all identifier fields prefixed by the feed id.
+ * Nested objects and arrays (alert informed entities, stop time updates, GeoJSON properties) are handled too.
+ */
+export function namespaceRecord<T>(feedId: string, value: T): T {
+  if (Array.isArray(value)) {
+    // Coordinate arrays and other arrays of primitives are returned as is
+    if (value.length === 0 || typeof value[0] !== 'object') return value
+    return value.map(item => namespaceRecord(feedId, item)) as T
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+  Object.entries(value as Record<string, unknown>).forEach(([key, field]) => {
+    if (ID_FIELDS.has(key) && typeof field === 'string' && field !== '') {
+      result[key] = namespaceId(feedId, field)
+    } else {
+      result[key] = namespaceRecord(feedId, field)
+    }
+  })
+  return result as T
+}
+
+/**
+ * Translate filters to the local ids of one feed.
+ * Returns null when the filters only target other feeds, meaning the feed can be skipped.
+ */
+export function localizeFilters<F extends object>(feedId: string, feedIds: string[], filters?: F): F | undefined | null {
+  if (!filters) return filters
+
+  const result = { ...filters } as Record<string, unknown>
+  for (const [key, value] of Object.entries(filters)) {
+    if (!FILTER_ID_FIELDS.has(key) || value === undefined || value === null) continue
+
+    const ids = (Array.isArray(value) ? value : [value]) as string[]
+    const localIds = ids
+      .map(id => splitNamespacedId(id, feedIds))
+      .filter((split): split is { feedId: string; localId: string } => split !== null && split.feedId === feedId)
+      .map(split => split.localId)
+
+    if (localIds.length === 0) {
+      return null
+    }
+    result[key] = Array.isArray(value) ? localIds : localIds[0]
+  }
+  return result as F
+}
+
+/**
+ * Feed id of a namespaced id, or the single loaded feed when ids are not namespaced.
+ */
+export function feedOf(id: string, feedIds: string[]): string | null {
+  if (feedIds.length === 1) return feedIds[0]
+  return splitNamespacedId(id, feedIds)?.feedId ?? null
+}
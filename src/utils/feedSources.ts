@@ -0,0 +1,39 @@
+import type { FeedSource } from '../gtfs.worker'
+import type { AppConfig } from './configStorage'
+
+const PROXY_BASE = 'https://gtfs-proxy.sys-dev-run.re/proxy/'
+
+export const proxyUrl = (url: string) => {
+  // Don't proxy relative or absolute paths (local files)
+  if (url.startsWith('./') || url.startsWith('/') || url.startsWith('../')) {
+    return url
+  }
+
+  // Only proxy remote HTTP/HTTPS URLs
+  try {
+    const parsed = new URL(url)
+    if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+      return PROXY_BASE + parsed.host + parsed.pathname + parsed.search
+    }
+    return url
+  } catch {
+    // If URL parsing fails, assume it's a relative path
+    return url
+  }
+}
+
+// Main feed followed by the additional feeds of the configuration, with proxied URLs
+export function buildFeedSources(config: AppConfig, gtfsUrl = config.gtfsUrl, gtfsRtUrls = config.gtfsRtUrls): FeedSource[] {
+  return [
+    { id: config.feedId, url: gtfsUrl, rtUrls: gtfsRtUrls },
+    ...config.extraFeeds
+      .filter(feed => feed.gtfsUrl.trim() !== '')
+      .map(feed => ({ id: feed.id, url: feed.gtfsUrl, rtUrls: feed.gtfsRtUrls }))
+  ].map(source => ({
+    id: source.id,
+    url: proxyUrl(source.url),
+    rtUrls: source.rtUrls
+      .filter(url => url.trim() !== '')
+      .map(url => proxyUrl(url))
+  }))
+}
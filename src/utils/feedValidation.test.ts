@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import initSqlJs, { Database } from 'sql.js'
+import { MAX_FINDINGS_PER_RULE, runFeedValidation, ValidationDatabase } from './feedValidation'
+
+const SCHEMA = `
+  CREATE TABLE stops (stop_id TEXT, stop_name TEXT, stop_lat REAL, stop_lon REAL, location_type INTEGER, parent_station TEXT);
+  CREATE TABLE routes (route_id TEXT, route_short_name TEXT);
+  CREATE TABLE trips (trip_id TEXT, route_id TEXT, service_id TEXT);
+  CREATE TABLE stop_times (trip_id TEXT, stop_id TEXT, stop_sequence INTEGER, arrival_time TEXT, departure_time TEXT,
+    shape_dist_traveled REAL);
+  CREATE TABLE calendar (service_id TEXT, monday INTEGER, tuesday INTEGER, wednesday INTEGER, thursday INTEGER,
+    friday INTEGER, saturday INTEGER, sunday INTEGER, start_date TEXT, end_date TEXT);
+  CREATE TABLE calendar_dates (service_id TEXT, date TEXT, exception_type INTEGER);
+`
+
+// A feed with no issue: one route, one weekday service, one trip over two stops
+const VALID_FEED = `
+  INSERT INTO stops VALUES ('A', 'Gare', 45.0, 5.0, 0, NULL), ('B', 'Port', 45.01, 5.0, 0, NULL);
+  INSERT INTO routes VALUES ('R1', '1');
+  INSERT INTO trips VALUES ('T1', 'R1', 'WEEK');
+  INSERT INTO stop_times VALUES ('T1', 'A', 1, '08:00:00', '08:00:00', 0), ('T1', 'B', 2, '08:10:00', '08:10:00', 1200);
+  INSERT INTO calendar VALUES ('WEEK', 1, 1, 1, 1, 1, 0, 0, '20240101', '20241231');
+`
+
+const SQL = await initSqlJs()
+
+const validationDatabase = (db: Database): ValidationDatabase => {
+  const each = <T>(sql: string, callback: (row: T) => void) => {
+    const statement = db.prepare(sql)
+    try {
+      while (statement.step()) callback(statement.getAsObject() as T)
+    } finally {
+      statement.free()
+    }
+  }
+  return {
+    query: <T>(sql: string) => {
+      const rows: T[] = []
+      each<T>(sql, row => rows.push(row))
+      return rows
+    },
+    each
+  }
+}
+
+describe('runFeedValidation', () => {
+  let db: Database
+  const validate = () => runFeedValidation(validationDatabase(db))
+  const rulesOf = () => validate().map(finding => finding.rule)
+
+  beforeEach(() => {
+    db = new SQL.Database()
+    db.run(SCHEMA)
+    db.run(VALID_FEED)
+  })
+
+  it('reports nothing on a valid feed', () => {
+    expect(validate()).toEqual([])
+  })
+
+  it('reports references to missing records', () => {
+    db.run(`
+      INSERT INTO trips VALUES ('T2', 'R9', 'NONE');
+      INSERT INTO stop_times VALUES ('T9', 'A', 1, '08:00:00', '08:00:00', NULL), ('T2', 'X', 1, '09:00:00', '09:00:00', NULL),
+        ('T2', 'A', 2, '09:10:00', '09:10:00', NULL);
+      INSERT INTO stops VALUES ('C', 'Quai', 45.0, 5.0, 0, 'S9');
+    `)
+    expect(validate()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ rule: 'stop_times_unknown_trip', row: 'trip_id=T9', severity: 'error' }),
+      expect.objectContaining({ rule: 'stop_times_unknown_stop', row: 'stop_id=X' }),
+      expect.objectContaining({ rule: 'trip_unknown_route', row: 'trip_id=T2', file: 'trips.txt' }),
+      expect.objectContaining({ rule: 'trip_unknown_service', row: 'trip_id=T2' }),
+      expect.objectContaining({ rule: 'stop_unknown_parent', row: 'stop_id=C' })
+    ]))
+  })
+
+  it('reports stop times going backwards and duplicate sequences', () => {
+    db.run(`
+      INSERT INTO stop_times VALUES ('T1', 'A', 3, '07:50:00', '07:55:00', 1300), ('T1', 'B', 3, '08:30:00', '08:20:00', 1400);
+    `)
+    const findings = validate()
+    expect(findings).toEqual(expect.arrayContaining([
+      expect.objectContaining({ rule: 'stop_sequence_duplicate', row: 'trip_id=T1, stop_sequence=3' }),
+      expect.objectContaining({ rule: 'stop_times_decreasing', message: 'Time 07:50:00 is earlier than the previous stop' }),
+      expect.objectContaining({ rule: 'stop_times_decreasing', message: 'Departure 08:20:00 is before arrival 08:30:00' })
+    ]))
+  })
+
+  it('reports partial or decreasing shape distances', () => {
+    db.run(`
+      INSERT INTO trips VALUES ('T2', 'R1', 'WEEK');
+      INSERT INTO stop_times VALUES ('T2', 'A', 1, '09:00:00', '09:00:00', 500), ('T2', 'B', 2, '09:10:00', '09:10:00', 100),
+        ('T2', 'A', 3, '09:20:00', '09:20:00', NULL);
+    `)
+    expect(validate().filter(finding => finding.rule === 'shape_dist_traveled_inconsistent').map(finding => finding.row))
+      .toEqual(['trip_id=T2', 'trip_id=T2, stop_sequence=2'])
+  })
+
+  it('reports unused routes, short trips and services that never run', () => {
+    db.run(`
+      INSERT INTO routes VALUES ('R2', '2');
+      INSERT INTO trips VALUES ('T2', 'R1', 'NEVER');
+      INSERT INTO stop_times VALUES ('T2', 'A', 1, '09:00:00', '09:00:00', NULL);
+      INSERT INTO calendar VALUES ('NEVER', 0, 0, 0, 0, 0, 0, 0, '20240101', '20231231');
+    `)
+    expect(rulesOf()).toEqual(expect.arrayContaining([
+      'route_without_trips',
+      'trip_without_stop_times',
+      'calendar_no_active_days',
+      'calendar_invalid_range'
+    ]))
+  })
+
+  it('does not report services that only run on added dates', () => {
+    db.run(`
+      INSERT INTO calendar VALUES ('HOLIDAY', 0, 0, 0, 0, 0, 0, 0, '20240101', '20241231');
+      INSERT INTO calendar_dates VALUES ('HOLIDAY', '20240501', 1);
+    `)
+    expect(rulesOf()).not.toContain('calendar_no_active_days')
+  })
+
+  it('reports stops without usable coordinates', () => {
+    db.run(`INSERT INTO stops VALUES ('Z', 'Null Island', 0, 0, 0, NULL), ('N', 'Nowhere', NULL, NULL, 1, NULL)`)
+    expect(validate().filter(finding => finding.rule === 'stop_zero_coordinates').map(finding => finding.message))
+      .toEqual(['Stop Null Island is located at 0,0', 'Stop Nowhere has no coordinates'])
+  })
+
+  it('summarizes findings beyond the limit of a rule', () => {
+    const values = Array.from({ length: MAX_FINDINGS_PER_RULE + 2 }, (_, i) => `('X${i}', 'R9', 'WEEK')`)
+    db.run(`INSERT INTO trips VALUES ${values.join(', ')}`)
+    const findings = validate().filter(finding => finding.rule === 'trip_unknown_route')
+    expect(findings).toHaveLength(MAX_FINDINGS_PER_RULE + 1)
+    expect(findings[MAX_FINDINGS_PER_RULE]).toMatchObject({ severity: 'info', message: '2 more occurrences not listed' })
+  })
+
+  it('reports rules that cannot run on the database', () => {
+    db.run('DROP TABLE calendar_dates')
+    expect(validate()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ rule: 'trip_unknown_service', severity: 'info', message: expect.stringMatching(/^Rule could not run/) })
+    ]))
+  })
+})
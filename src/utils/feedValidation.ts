@@ -0,0 +1,310 @@
+import { timeToSeconds } from '../components/utils'
+
+export type ValidationSeverity = 'error' | 'warning' | 'info'
+
+export interface ValidationFinding {
+  severity: ValidationSeverity
+  file: string // GTFS file the offending record comes from, e.g. stop_times.txt
+  row: string // identifying fields of the offending record, e.g. "trip_id=T1, stop_sequence=4"
+  rule: string
+  message: string
+}
+
+/**
+ * Minimal database access needed by the validator.
+ * `each` streams rows so that stop_times checks do not materialize the whole table.
+ */
+export interface ValidationDatabase {
+  query: <T>(sql: string) => T[]
+  each: <T>(sql: string, callback: (row: T) => void) => void
+}
+
+interface ValidationRule {
+  id: string
+  severity: ValidationSeverity
+  file: string
+  description: string
+  run: (db: ValidationDatabase, report: (row: string, message: string) => void) => void
+}
+
+// Findings beyond this limit are summarized in a single info finding per rule
+export const MAX_FINDINGS_PER_RULE = 500
+
+interface StopTimeRow {
+  trip_id: string
+  stop_sequence: number
+  arrival_time: string | null
+  departure_time: string | null
+  shape_dist_traveled: number | null
+}
+
+const parseTime = (time: string | null): number | null =>
+  time ? timeToSeconds(time) : null
+
+/**
+ * Walk stop_times in trip / stop_sequence order and call `checkTrip` once per trip.
+ */
+const forEachTripStopTimes = (
+  db: ValidationDatabase,
+  checkTrip: (tripId: string, stopTimes: StopTimeRow[]) => void
+) => {
+  let currentTripId: string | null = null
+  let current: StopTimeRow[] = []
+
+  db.each<StopTimeRow>(
+    `SELECT trip_id, stop_sequence, arrival_time, departure_time, shape_dist_traveled
+     FROM stop_times ORDER BY trip_id, stop_sequence`,
+    (row) => {
+      if (row.trip_id !== currentTripId) {
+        if (currentTripId !== null) checkTrip(currentTripId, current)
+        currentTripId = row.trip_id
+        current = []
+      }
+      current.push(row)
+    }
+  )
+  if (currentTripId !== null) checkTrip(currentTripId, current)
+}
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'stop_times_unknown_trip',
+    severity: 'error',
+    file: 'stop_times.txt',
+    description: 'stop_times reference a trip_id missing from trips.txt',
+    run: (db, report) => {
+      db.query<{ trip_id: string; count: number }>(
+        `SELECT st.trip_id, COUNT(*) AS count FROM stop_times st
+         LEFT JOIN trips t ON t.trip_id = st.trip_id
+         WHERE t.trip_id IS NULL GROUP BY st.trip_id`
+      ).forEach(r => report(`trip_id=${r.trip_id}`, `${r.count} stop times reference unknown trip "${r.trip_id}"`))
+    }
+  },
+  {
+    id: 'stop_times_unknown_stop',
+    severity: 'error',
+    file: 'stop_times.txt',
+    description: 'stop_times reference a stop_id missing from stops.txt',
+    run: (db, report) => {
+      db.query<{ stop_id: string; count: number }>(
+        `SELECT st.stop_id, COUNT(*) AS count FROM stop_times st
+         LEFT JOIN stops s ON s.stop_id = st.stop_id
+         WHERE s.stop_id IS NULL GROUP BY st.stop_id`
+      ).forEach(r => report(`stop_id=${r.stop_id}`, `${r.count} stop times reference unknown stop "${r.stop_id}"`))
+    }
+  },
+  {
+    id: 'trip_unknown_route',
+    severity: 'error',
+    file: 'trips.txt',
+    description: 'Trips reference a route_id missing from routes.txt',
+    run: (db, report) => {
+      db.query<{ trip_id: string; route_id: string }>(
+        `SELECT t.trip_id, t.route_id FROM trips t
+         LEFT JOIN routes r ON r.route_id = t.route_id
+         WHERE r.route_id IS NULL`
+      ).forEach(r => report(`trip_id=${r.trip_id}`, `Trip references unknown route "${r.route_id}"`))
+    }
+  },
+  {
+    id: 'trip_unknown_service',
+    severity: 'error',
+    file: 'trips.txt',
+    description: 'Trips reference a service_id defined neither in calendar.txt nor in calendar_dates.txt',
+    run: (db, report) => {
+      db.query<{ trip_id: string; service_id: string }>(
+        `SELECT t.trip_id, t.service_id FROM trips t
+         WHERE t.service_id NOT IN (SELECT service_id FROM calendar)
+           AND t.service_id NOT IN (SELECT service_id FROM calendar_dates)`
+      ).forEach(r => report(`trip_id=${r.trip_id}`, `Trip references unknown service "${r.service_id}"`))
+    }
+  },
+  {
+    id: 'trip_without_stop_times',
+    severity: 'warning',
+    file: 'trips.txt',
+    description: 'Trips with fewer than two stop times',
+    run: (db, report) => {
+      db.query<{ trip_id: string; count: number }>(
+        `SELECT t.trip_id, COUNT(st.trip_id) AS count FROM trips t
+         LEFT JOIN stop_times st ON st.trip_id = t.trip_id
+         GROUP BY t.trip_id HAVING COUNT(st.trip_id) < 2`
+      ).forEach(r => report(`trip_id=${r.trip_id}`, r.count === 0 ? 'Trip has no stop times' : 'Trip has a single stop time'))
+    }
+  },
+  {
+    id: 'route_without_trips',
+    severity: 'warning',
+    file: 'routes.txt',
+    description: 'Routes with no trips',
+    run: (db, report) => {
+      db.query<{ route_id: string; route_short_name: string | null }>(
+        `SELECT r.route_id, r.route_short_name FROM routes r
+         LEFT JOIN trips t ON t.route_id = r.route_id
+         WHERE t.trip_id IS NULL`
+      ).forEach(r => report(`route_id=${r.route_id}`, `Route ${r.route_short_name || r.route_id} has no trips`))
+    }
+  },
+  {
+    id: 'stop_sequence_duplicate',
+    severity: 'error',
+    file: 'stop_times.txt',
+    description: 'Duplicate stop_sequence values within a trip',
+    run: (db, report) => {
+      db.query<{ trip_id: string; stop_sequence: number }>(
+        `SELECT trip_id, stop_sequence FROM stop_times
+         GROUP BY trip_id, stop_sequence HAVING COUNT(*) > 1`
+      ).forEach(r => report(
+        `trip_id=${r.trip_id}, stop_sequence=${r.stop_sequence}`,
+        `stop_sequence ${r.stop_sequence} is used more than once`
+      ))
+    }
+  },
+  {
+    id: 'stop_times_decreasing',
+    severity: 'error',
+    file: 'stop_times.txt',
+    description: 'Arrival or departure times going backwards along a trip',
+    run: (db, report) => {
+      forEachTripStopTimes(db, (tripId, stopTimes) => {
+        let previous: number | null = null
+        stopTimes.forEach(st => {
+          const arrival = parseTime(st.arrival_time)
+          const departure = parseTime(st.departure_time)
+          const row = `trip_id=${tripId}, stop_sequence=${st.stop_sequence}`
+          if (arrival !== null && departure !== null && departure < arrival) {
+            report(row, `Departure ${st.departure_time} is before arrival ${st.arrival_time}`)
+          }
+          const first = arrival ?? departure
+          if (first !== null && previous !== null && first < previous) {
+            report(row, `Time ${st.arrival_time || st.departure_time} is earlier than the previous stop`)
+          }
+          previous = departure ?? arrival ?? previous
+        })
+      })
+    }
+  },
+  {
+    id: 'shape_dist_traveled_inconsistent',
+    severity: 'warning',
+    file: 'stop_times.txt',
+    description: 'shape_dist_traveled partially set or decreasing along a trip',
+    run: (db, report) => {
+      forEachTripStopTimes(db, (tripId, stopTimes) => {
+        const withDistance = stopTimes.filter(st => st.shape_dist_traveled !== null && st.shape_dist_traveled !== undefined)
+        if (withDistance.length === 0) return
+        if (withDistance.length < stopTimes.length) {
+          report(
+            `trip_id=${tripId}`,
+            `shape_dist_traveled is set on ${withDistance.length} of ${stopTimes.length} stop times`
+          )
+        }
+        for (let i = 1; i < withDistance.length; i++) {
+          if (withDistance[i].shape_dist_traveled! < withDistance[i - 1].shape_dist_traveled!) {
+            report(
+              `trip_id=${tripId}, stop_sequence=${withDistance[i].stop_sequence}`,
+              `shape_dist_traveled decreases from ${withDistance[i - 1].shape_dist_traveled} to ${withDistance[i].shape_dist_traveled}`
+            )
+            break
+          }
+        }
+      })
+    }
+  },
+  {
+    id: 'calendar_no_active_days',
+    severity: 'warning',
+    file: 'calendar.txt',
+    description: 'Services with no active weekday and no added dates',
+    run: (db, report) => {
+      db.query<{ service_id: string }>(
+        `SELECT c.service_id FROM calendar c
+         WHERE c.monday = 0 AND c.tuesday = 0 AND c.wednesday = 0 AND c.thursday = 0
+           AND c.friday = 0 AND c.saturday = 0 AND c.sunday = 0
+           AND c.service_id NOT IN (SELECT service_id FROM calendar_dates WHERE exception_type = 1)`
+      ).forEach(r => report(`service_id=${r.service_id}`, 'Service never runs'))
+    }
+  },
+  {
+    id: 'calendar_invalid_range',
+    severity: 'error',
+    file: 'calendar.txt',
+    description: 'Services whose end_date is before start_date',
+    run: (db, report) => {
+      db.query<{ service_id: string; start_date: string; end_date: string }>(
+        `SELECT service_id, start_date, end_date FROM calendar WHERE end_date < start_date`
+      ).forEach(r => report(`service_id=${r.service_id}`, `end_date ${r.end_date} is before start_date ${r.start_date}`))
+    }
+  },
+  {
+    id: 'stop_zero_coordinates',
+    severity: 'error',
+    file: 'stops.txt',
+    description: 'Stops located at 0,0 or without coordinates',
+    run: (db, report) => {
+      db.query<{ stop_id: string; stop_name: string | null; stop_lat: number | null; stop_lon: number | null }>(
+        `SELECT stop_id, stop_name, stop_lat, stop_lon FROM stops
+         WHERE (location_type IS NULL OR location_type IN (0, 1, 2))
+           AND (stop_lat IS NULL OR stop_lon IS NULL OR (stop_lat = 0 AND stop_lon = 0))`
+      ).forEach(r => report(
+        `stop_id=${r.stop_id}`,
+        r.stop_lat === null || r.stop_lon === null
+          ? `Stop ${r.stop_name || r.stop_id} has no coordinates`
+          : `Stop ${r.stop_name || r.stop_id} is located at 0,0`
+      ))
+    }
+  },
+  {
+    id: 'stop_unknown_parent',
+    severity: 'error',
+    file: 'stops.txt',
+    description: 'Stops whose parent_station is missing from stops.txt',
+    run: (db, report) => {
+      db.query<{ stop_id: string; parent_station: string }>(
+        `SELECT s.stop_id, s.parent_station FROM stops s
+         LEFT JOIN stops p ON p.stop_id = s.parent_station
+         WHERE s.parent_station IS NOT NULL AND s.parent_station != '' AND p.stop_id IS NULL`
+      ).forEach(r => report(`stop_id=${r.stop_id}`, `Parent station "${r.parent_station}" does not exist`))
+    }
+  }
+]
+
+export function runFeedValidation(db: ValidationDatabase): ValidationFinding[] {
+  const findings: ValidationFinding[] = []
+
+  VALIDATION_RULES.forEach(rule => {
+    let count = 0
+    const report = (row: string, message: string) => {
+      count++
+      if (count <= MAX_FINDINGS_PER_RULE) {
+        findings.push({ severity: rule.severity, file: rule.file, row, rule: rule.id, message })
+      }
+    }
+
+    try {
+      rule.run(db, report)
+    } catch (error) {
+      // Optional files or columns may be absent from the database
+      findings.push({
+        severity: 'info',
+        file: rule.file,
+        row: '',
+        rule: rule.id,
+        message: `Rule could not run: ${error instanceof Error ? error.message : String(error)}`
+      })
+      return
+    }
+
+    if (count > MAX_FINDINGS_PER_RULE) {
+      findings.push({
+        severity: 'info',
+        file: rule.file,
+        row: '',
+        rule: rule.id,
+        message: `${count - MAX_FINDINGS_PER_RULE} more occurrences not listed`
+      })
+    }
+  })
+
+  return findings
+}
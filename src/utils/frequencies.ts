@@ -0,0 +1,180 @@
+import type { Trip, StopTimeWithRealtime } from 'gtfs-sqljs'
+import { timeToSeconds, secondsToTime } from '../components/utils'
+
+/**
+ * Frequency-based trips (frequencies.txt).
+ *
+ * A trip listed in frequencies.txt is a template: its stop_times give the travel times between
+ * stops, and the trip runs every headway_secs from start_time until end_time. The worker expands
+ * each template into virtual trips, one per departure, identified by the template id followed
+ * by FREQUENCY_SEPARATOR and the start time of the departure ("T1@08:15:00").
+ */
+
+export const FREQUENCY_SEPARATOR = '@'
+
+export interface FrequencyRow {
+  trip_id: string
+  start_time: string
+  end_time: string
+  headway_secs: number
+  exact_times: number | null // 1: departures at the exact times, 0 or empty: only the headway is planned
+}
+
+interface FrequencyDeparture {
+  start: number // seconds since the start of the service day
+  window: FrequencyRow
+}
+
+export interface FrequencyTemplate {
+  firstTime: number // seconds, first time of the template stop times
+  departures: FrequencyDeparture[]
+}
+
+// Fields added to the virtual trips returned by the worker
+export interface FrequencyTripInfo {
+  headway_secs: number
+  exact_times: boolean
+}
+
+// Virtual trips selected by a tripId filter, per template; templates without an entry are fully expanded
+export type FrequencySelection = Map<string, Set<number>>
+
+export const frequencyTripId = (templateId: string, start: number) =>
+  `${templateId}${FREQUENCY_SEPARATOR}${secondsToTime(start)}`
+
+export function parseFrequencyTripId(tripId: string): { templateId: string; start: number } | null {
+  const index = tripId.lastIndexOf(FREQUENCY_SEPARATOR)
+  const time = tripId.slice(index + 1)
+  if (index <= 0 || !/^\d+:\d{2}:\d{2}$/.test(time)) return null
+  return { templateId: tripId.slice(0, index), start: timeToSeconds(time) }
+}
+
+// Frequency of a trip returned by the worker, null for trips with explicit stop times
+export function getFrequencyInfo(trip: Trip): FrequencyTripInfo | null {
+  const info = trip as Trip & Partial<FrequencyTripInfo>
+  return info.headway_secs !== undefined && info.exact_times !== undefined
+    ? { headway_secs: info.headway_secs, exact_times: info.exact_times }
+    : null
+}
+
+export function formatHeadway(info: FrequencyTripInfo): string {
+  const minutes = Math.round(info.headway_secs / 60)
+  return info.exact_times ? `every ${minutes} min` : `about every ${minutes} min`
+}
+
+/**
+ * Templates of the frequency-based trips, by template trip id.
+ * Departures run every headway_secs from start_time, up to but excluding end_time.
+ */
+export function buildFrequencyTemplates(
+  rows: FrequencyRow[],
+  firstTimes: Map<string, number>
+): Map<string, FrequencyTemplate> {
+  const templates = new Map<string, FrequencyTemplate>()
+  rows.forEach(window => {
+    const firstTime = firstTimes.get(window.trip_id)
+    if (firstTime === undefined || window.headway_secs <= 0) return
+
+    if (!templates.has(window.trip_id)) templates.set(window.trip_id, { firstTime, departures: [] })
+    const departures = templates.get(window.trip_id)!.departures
+    const end = timeToSeconds(window.end_time)
+    for (let start = timeToSeconds(window.start_time); start < end; start += window.headway_secs) {
+      departures.push({ start, window })
+    }
+  })
+  templates.forEach(template => template.departures.sort((a, b) => a.start - b.start))
+  return templates
+}
+
+function selectedDepartures(
+  templateId: string,
+  template: FrequencyTemplate,
+  selection: FrequencySelection
+): FrequencyDeparture[] {
+  const starts = selection.get(templateId)
+  return starts ? template.departures.filter(d => starts.has(d.start)) : template.departures
+}
+
+// Trip ids with virtual trips replaced by their template
+export const templateTripIds = (tripIds: string[]) =>
+  [...new Set(tripIds.map(id => parseFrequencyTripId(id)?.templateId ?? id))]
+
+/**
+ * Translate a tripId filter that may hold virtual trip ids to template ids.
+ * The returned selection restricts the expansion to the requested virtual trips.
+ */
+export function localizeTripIdFilter(tripId: string | string[] | undefined): {
+  tripId: string | string[] | undefined
+  selection: FrequencySelection
+} {
+  const selection: FrequencySelection = new Map()
+  if (tripId === undefined) return { tripId, selection }
+
+  const ids = Array.isArray(tripId) ? tripId : [tripId]
+  const plainIds = new Set<string>()
+  const templateIds = ids.map(id => {
+    const parsed = parseFrequencyTripId(id)
+    if (!parsed) {
+      plainIds.add(id)
+      return id
+    }
+    if (!selection.has(parsed.templateId)) selection.set(parsed.templateId, new Set())
+    selection.get(parsed.templateId)!.add(parsed.start)
+    return parsed.templateId
+  })
+  // Requesting the template itself returns all of its departures
+  plainIds.forEach(id => selection.delete(id))
+
+  const unique = [...new Set(templateIds)]
+  return { tripId: Array.isArray(tripId) ? unique : unique[0], selection }
+}
+
+/**
+ * Replace template trips by their virtual trips.
+ * Realtime data is dropped from virtual trips: GTFS-RT identifies them by trip_id and start_time,
+ * which gtfs-sqljs does not match.
+ */
+export function expandFrequencyTrips(
+  trips: Trip[],
+  templates: Map<string, FrequencyTemplate>,
+  selection: FrequencySelection
+): Trip[] {
+  return trips.flatMap(trip => {
+    const template = templates.get(trip.trip_id)
+    if (!template) return [trip]
+
+    const { realtime: _realtime, ...scheduled } = trip as Trip & { realtime?: unknown }
+    return selectedDepartures(trip.trip_id, template, selection).map(({ start, window }) => ({
+      ...scheduled,
+      trip_id: frequencyTripId(trip.trip_id, start),
+      headway_secs: window.headway_secs,
+      exact_times: window.exact_times === 1
+    }))
+  })
+}
+
+// Replace the stop times of template trips by the stop times of their virtual trips
+export function expandFrequencyStopTimes<T extends StopTimeWithRealtime>(
+  stopTimes: T[],
+  templates: Map<string, FrequencyTemplate>,
+  selection: FrequencySelection
+): T[] {
+  const shift = (time: string | null | undefined, offset: number) =>
+    time ? secondsToTime(timeToSeconds(time) + offset) : time
+
+  return stopTimes.flatMap(stopTime => {
+    const template = templates.get(stopTime.trip_id)
+    if (!template) return [stopTime]
+
+    const { realtime: _realtime, ...scheduled } = stopTime
+    return selectedDepartures(stopTime.trip_id, template, selection).map(({ start }) => {
+      const offset = start - template.firstTime
+      return {
+        ...scheduled,
+        trip_id: frequencyTripId(stopTime.trip_id, start),
+        arrival_time: shift(stopTime.arrival_time, offset),
+        departure_time: shift(stopTime.departure_time, offset)
+      } as T
+    })
+  })
+}
@@ -0,0 +1,199 @@
+/**
+ * Persistent cache of imported GTFS databases, stored in IndexedDB.
+ *
+ * Entries are keyed by feed URL plus a version string, which is either the
+ * server ETag / Last-Modified header or a SHA-256 hash of the downloaded ZIP.
+ * Metadata and database bytes live in separate object stores so that listing
+ * the cache never loads the (potentially large) databases into memory.
+ */
+
+export interface GtfsCacheEntry {
+  key: string
+  url: string
+  version: string
+  size: number
+  createdAt: number
+  lastUsedAt: number
+}
+
+const DB_NAME = 'gtfs-cache'
+const DB_VERSION = 1
+const ENTRIES_STORE = 'entries'
+const DATABASES_STORE = 'databases'
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+
+function openCacheDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' })
+        entries.createIndex('url', 'url')
+      }
+      if (!db.objectStoreNames.contains(DATABASES_STORE)) {
+        db.createObjectStore(DATABASES_STORE)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const getCacheKey = (url: string, version: string) => `${url}|${version}`
+
+/**
+ * Get the remote version of a feed from its HTTP headers.
+ * Returns null when the server exposes neither ETag nor Last-Modified,
+ * and throws when the server cannot be reached.
+ */
+export async function getRemoteVersion(url: string): Promise<string | null> {
+  const response = await fetch(url, { method: 'HEAD', cache: 'no-store' })
+  if (!response.ok) {
+    return null
+  }
+  const etag = response.headers.get('ETag')
+  if (etag) {
+    return `etag:${etag}`
+  }
+  const lastModified = response.headers.get('Last-Modified')
+  if (lastModified) {
+    return `modified:${lastModified}`
+  }
+  return null
+}
+
+export async function computeContentHash(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  const hex = Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+  return `sha256:${hex}`
+}
+
+export async function listCacheEntries(): Promise<GtfsCacheEntry[]> {
+  const db = await openCacheDb()
+  try {
+    const tx = db.transaction(ENTRIES_STORE, 'readonly')
+    const entries = await requestToPromise(tx.objectStore(ENTRIES_STORE).getAll() as IDBRequest<GtfsCacheEntry[]>)
+    return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+  } finally {
+    db.close()
+  }
+}
+
+export async function findCacheEntry(url: string, version: string): Promise<GtfsCacheEntry | null> {
+  const db = await openCacheDb()
+  try {
+    const tx = db.transaction(ENTRIES_STORE, 'readonly')
+    const entry = await requestToPromise(
+      tx.objectStore(ENTRIES_STORE).get(getCacheKey(url, version)) as IDBRequest<GtfsCacheEntry | undefined>
+    )
+    return entry ?? null
+  } finally {
+    db.close()
+  }
+}
+
+// Most recently used entry for a URL, whatever its version (used when offline)
+export async function findLatestCacheEntry(url: string): Promise<GtfsCacheEntry | null> {
+  const db = await openCacheDb()
+  try {
+    const tx = db.transaction(ENTRIES_STORE, 'readonly')
+    const entries = await requestToPromise(
+      tx.objectStore(ENTRIES_STORE).index('url').getAll(url) as IDBRequest<GtfsCacheEntry[]>
+    )
+    if (entries.length === 0) return null
+    return entries.reduce((latest, e) => e.lastUsedAt > latest.lastUsedAt ? e : latest)
+  } finally {
+    db.close()
+  }
+}
+
+export async function readCachedDatabase(entry: GtfsCacheEntry): Promise<ArrayBuffer | null> {
+  const db = await openCacheDb()
+  try {
+    const tx = db.transaction([ENTRIES_STORE, DATABASES_STORE], 'readwrite')
+    const data = await requestToPromise(
+      tx.objectStore(DATABASES_STORE).get(entry.key) as IDBRequest<ArrayBuffer | undefined>
+    )
+    if (data) {
+      tx.objectStore(ENTRIES_STORE).put({ ...entry, lastUsedAt: Date.now() })
+    }
+    await transactionDone(tx)
+    return data ?? null
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Store a database for a URL. Older versions of the same URL are removed,
+ * since they can no longer be served once the feed has changed.
+ */
+export async function writeCachedDatabase(url: string, version: string, data: ArrayBuffer): Promise<GtfsCacheEntry> {
+  const db = await openCacheDb()
+  try {
+    const tx = db.transaction([ENTRIES_STORE, DATABASES_STORE], 'readwrite')
+    const entriesStore = tx.objectStore(ENTRIES_STORE)
+    const databasesStore = tx.objectStore(DATABASES_STORE)
+
+    const staleKeys = await requestToPromise(entriesStore.index('url').getAllKeys(url))
+    staleKeys.forEach(key => {
+      entriesStore.delete(key)
+      databasesStore.delete(key)
+    })
+
+    const now = Date.now()
+    const entry: GtfsCacheEntry = {
+      key: getCacheKey(url, version),
+      url,
+      version,
+      size: data.byteLength,
+      createdAt: now,
+      lastUsedAt: now
+    }
+    entriesStore.put(entry)
+    databasesStore.put(data, entry.key)
+    await transactionDone(tx)
+    return entry
+  } finally {
+    db.close()
+  }
+}
+
+export async function deleteCacheEntry(key: string): Promise<void> {
+  const db = await openCacheDb()
+  try {
+    const tx = db.transaction([ENTRIES_STORE, DATABASES_STORE], 'readwrite')
+    tx.objectStore(ENTRIES_STORE).delete(key)
+    tx.objectStore(DATABASES_STORE).delete(key)
+    await transactionDone(tx)
+  } finally {
+    db.close()
+  }
+}
+
+export async function clearCache(): Promise<void> {
+  const db = await openCacheDb()
+  try {
+    const tx = db.transaction([ENTRIES_STORE, DATABASES_STORE], 'readwrite')
+    tx.objectStore(ENTRIES_STORE).clear()
+    tx.objectStore(DATABASES_STORE).clear()
+    await transactionDone(tx)
+  } finally {
+    db.close()
+  }
+}
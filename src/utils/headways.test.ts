@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import initSqlJs from 'sql.js'
+import type { StopTimeWithRealtime, TripUpdate } from 'gtfs-sqljs'
+import { buildHeadwayReport } from './headways'
+import {
+  applyRecordedUpdates,
+  ensureRecorderTables,
+  observedStopTimeUpdates,
+  readStopTimeUpdateHistory,
+  recordSnapshot,
+  RecordedStopTimeUpdate,
+  RecorderDatabase
+} from './realtimeRecorder'
+import { serviceTimeToUnix } from './timezones'
+
+const SQL = await initSqlJs()
+
+const TIMEZONE = 'Europe/Paris'
+const YESTERDAY = '20240115'
+const TODAY = '20240116'
+const at = (date: string, seconds: number) => serviceTimeToUnix(date, seconds, TIMEZONE)
+
+// Two trips ten minutes apart at a single stop, with the same ids every day
+const SCHEDULE: Record<string, number> = { T1: 8 * 3600, T2: 8 * 3600 + 600 }
+const stopTimes = (tripId: string) => [{
+  trip_id: tripId,
+  stop_id: 'S1',
+  stop_sequence: 1,
+  arrival_time: tripId === 'T1' ? '08:00:00' : '08:10:00',
+  departure_time: tripId === 'T1' ? '08:00:00' : '08:10:00'
+}] as StopTimeWithRealtime[]
+
+const delayed = (tripId: string, delay: number) =>
+  ({ trip_id: tripId, stop_time_update: [{ stop_sequence: 1, departure: { delay } }] }) as TripUpdate
+
+describe('buildHeadwayReport', () => {
+  it('reads recorded delays of the requested date only', () => {
+    const db = new SQL.Database()
+    const recorder: RecorderDatabase = {
+      run: (sql, params = []) => { db.run(sql, params) },
+      query: <T>(sql: string, params: (string | number)[] = []) => {
+        const statement = db.prepare(sql, params)
+        const rows: T[] = []
+        while (statement.step()) rows.push(statement.getAsObject() as T)
+        statement.free()
+        return rows
+      }
+    }
+    ensureRecorderTables(recorder)
+    // Yesterday T1 ran 5 minutes late; today T2 runs 8 minutes late
+    recordSnapshot(recorder, at(YESTERDAY, 7 * 3600 + 3000), [], [delayed('T1', 300), delayed('T2', 0)])
+    recordSnapshot(recorder, at(TODAY, 7 * 3600 + 3000), [], [delayed('T1', 0), delayed('T2', 480)])
+
+    const report = (date: string) => {
+      const history = readStopTimeUpdateHistory(recorder, ['T1', 'T2'], at(date, 0), at(date, 24 * 3600))
+      const eventTime = (update: RecordedStopTimeUpdate) =>
+        at(date, SCHEDULE[update.trip_id] + (update.departure_delay ?? 0))
+      const updates = observedStopTimeUpdates(history, eventTime)
+      const stopTimesByTrip = new Map(['T1', 'T2'].map(tripId => [
+        tripId,
+        applyRecordedUpdates(stopTimes(tripId), updates.filter(update => update.trip_id === tripId), TIMEZONE)
+      ]))
+      return buildHeadwayReport('R1', 0, date, [{ stop_id: 'S1', stop_name: 'Gare' }], stopTimesByTrip, TIMEZONE)
+    }
+
+    expect(report(YESTERDAY).stops[0].headways).toEqual([
+      expect.objectContaining({ fromTripId: 'T1', toTripId: 'T2', scheduled: 600, realtime: 300 })
+    ])
+    expect(report(TODAY).stops[0].headways).toEqual([
+      expect.objectContaining({ fromTripId: 'T1', toTripId: 'T2', scheduled: 600, realtime: 1080 })
+    ])
+  })
+})
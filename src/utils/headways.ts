@@ -0,0 +1,164 @@
+import type { StopTimeWithRealtime } from 'gtfs-sqljs'
+import { timeToSeconds } from '../components/utils'
+import { getRealtimeDelay } from './tripPlanner'
+
+/**
+ * Headways (time between two consecutive departures of a route at a stop), as scheduled
+ * and as observed in realtime data, with the gaps and bunching they reveal.
+ */
+
+export interface HeadwayOptions {
+  gapThreshold: number // seconds, longer headways are reported as gaps
+  bunchingRatio: number // a realtime headway below this share of the scheduled one is bunching
+}
+
+export const DEFAULT_HEADWAY_OPTIONS: HeadwayOptions = {
+  gapThreshold: 1200,
+  bunchingRatio: 0.25
+}
+
+export interface HeadwayStats {
+  count: number
+  min: number // seconds
+  mean: number // seconds
+  max: number // seconds
+}
+
+// Headway between two consecutive trips running at a stop
+export interface Headway {
+  fromTripId: string
+  toTripId: string
+  time: number // scheduled departure of the following trip, seconds since the start of the service day
+  scheduled: number // seconds
+  realtime: number | null // seconds, null without realtime data for both trips
+  gap: boolean
+  bunching: boolean
+}
+
+export interface StopHeadways {
+  stopId: string
+  stopName: string
+  scheduled: HeadwayStats | null
+  realtime: HeadwayStats | null
+  headways: Headway[]
+  gapCount: number
+  bunchingCount: number
+}
+
+export interface HeadwayReport {
+  routeId: string
+  directionId: number
+  date: string
+  options: HeadwayOptions
+  stops: StopHeadways[] // in the order of the route
+}
+
+// One departure of a trip at a stop
+interface StopEvent {
+  tripId: string
+  scheduled: number
+  realtime: number | null
+  canceled: boolean
+}
+
+// StopTimeRealtime.schedule_relationship of canceled trips and skipped stops
+const CANCELED = 3
+const SKIPPED = 4
+
+function computeStats(values: number[]): HeadwayStats | null {
+  if (values.length === 0) return null
+  return {
+    count: values.length,
+    min: Math.min(...values),
+    mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+    max: Math.max(...values)
+  }
+}
+
+function computeStopHeadways(
+  events: StopEvent[],
+  options: HeadwayOptions
+): Pick<StopHeadways, 'scheduled' | 'realtime' | 'headways' | 'gapCount' | 'bunchingCount'> {
+  const sorted = [...events].sort((a, b) => a.scheduled - b.scheduled)
+
+  // The timetable includes trips that were canceled later on
+  const scheduledValues = sorted.slice(1).map((event, idx) => event.scheduled - sorted[idx].scheduled)
+
+  // Headways as run: canceled trips and skipped stops leave a longer headway between their neighbours
+  const running = sorted.filter(event => !event.canceled)
+  const headways = running.slice(1).map((event, idx): Headway => {
+    const previous = running[idx]
+    const scheduled = event.scheduled - previous.scheduled
+    // Overtaking trips count as a zero headway
+    const realtime = event.realtime !== null && previous.realtime !== null
+      ? Math.max(0, event.realtime - previous.realtime)
+      : null
+    return {
+      fromTripId: previous.tripId,
+      toTripId: event.tripId,
+      time: event.scheduled,
+      scheduled,
+      realtime,
+      gap: (realtime ?? scheduled) > options.gapThreshold,
+      bunching: realtime !== null && scheduled > 0 && realtime < scheduled * options.bunchingRatio
+    }
+  })
+
+  const realtimeValues = headways.filter(h => h.realtime !== null).map(h => h.realtime as number)
+
+  return {
+    scheduled: computeStats(scheduledValues),
+    realtime: computeStats(realtimeValues),
+    headways,
+    gapCount: headways.filter(h => h.gap).length,
+    bunchingCount: headways.filter(h => h.bunching).length
+  }
+}
+
+/**
+ * Headways at every stop of a route direction.
+ * `stops` gives the order of the report; stops not served by any trip are left out.
+ */
+export function buildHeadwayReport(
+  routeId: string,
+  directionId: number,
+  date: string,
+  stops: { stop_id: string; stop_name: string }[],
+  stopTimesByTrip: Map<string, StopTimeWithRealtime[]>,
+  timezone: string,
+  options: HeadwayOptions = DEFAULT_HEADWAY_OPTIONS
+): HeadwayReport {
+  const eventsByStop = new Map<string, StopEvent[]>()
+  stopTimesByTrip.forEach((stopTimes, tripId) => {
+    stopTimes.forEach(stopTime => {
+      const scheduled = stopTime.departure_time || stopTime.arrival_time
+      if (!scheduled) return
+
+      const relationship = stopTime.realtime?.schedule_relationship
+      const delay = getRealtimeDelay(stopTime, 'departure', timezone)
+      const scheduledSeconds = timeToSeconds(scheduled)
+
+      if (!eventsByStop.has(stopTime.stop_id)) eventsByStop.set(stopTime.stop_id, [])
+      eventsByStop.get(stopTime.stop_id)!.push({
+        tripId,
+        scheduled: scheduledSeconds,
+        realtime: delay !== null ? scheduledSeconds + delay : null,
+        canceled: relationship === CANCELED || relationship === SKIPPED
+      })
+    })
+  })
+
+  return {
+    routeId,
+    directionId,
+    date,
+    options,
+    stops: stops
+      .filter(stop => eventsByStop.has(stop.stop_id))
+      .map(stop => ({
+        stopId: stop.stop_id,
+        stopName: stop.stop_name,
+        ...computeStopHeadways(eventsByStop.get(stop.stop_id)!, options)
+      }))
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Kiosk mode: a fullscreen departure board opened with URL parameters, e.g.
+ * ?board=stopId1,stopId2&lines=A,12
+ * "lines" is optional and matches route short names or route ids.
+ */
+
+export interface KioskParams {
+  stopIds: string[]
+  lines: string[]
+}
+
+const splitList = (value: string | null) =>
+  (value || '').split(',').map(item => item.trim()).filter(item => item !== '')
+
+export function parseKioskParams(search: string): KioskParams | null {
+  const params = new URLSearchParams(search)
+  const stopIds = splitList(params.get('board'))
+  if (stopIds.length === 0) return null
+  return { stopIds, lines: splitList(params.get('lines')) }
+}
@@ -0,0 +1,185 @@
+import type { StopTimeWithRealtime, Trip } from 'gtfs-sqljs'
+import { timeToSeconds } from '../components/utils'
+import { getRealtimeDelay } from './tripPlanner'
+import { unixToServiceTime } from './timezones'
+
+/**
+ * On-time performance (OTP) aggregation.
+ *
+ * An observation is one stop event of a trip (arrival at a stop) for which a delay was
+ * observed, either from live realtime data or from recorded trip updates.
+ */
+
+export interface DelayObservation {
+  tripId: string
+  routeId: string
+  directionId: number | null
+  stopId: string
+  hour: number // hour of day of the scheduled time, 0-23
+  delay: number | null // seconds, null when canceled
+  canceled: boolean
+}
+
+export interface PunctualityThresholds {
+  early: number // seconds (negative), stop events earlier than this are early
+  late: number // seconds, stop events later than this are late
+}
+
+export const DEFAULT_THRESHOLDS: PunctualityThresholds = {
+  early: -60,
+  late: 300
+}
+
+export interface PunctualityStats {
+  observations: number
+  onTimePct: number
+  earlyPct: number
+  latePct: number
+  meanDelay: number | null // seconds
+  p90Delay: number | null // seconds
+  cancellationRate: number // percent of observed stop events that were canceled
+}
+
+export interface PunctualityGroup {
+  key: string
+  routeId?: string
+  directionId?: number | null
+  stopId?: string
+  hour?: number
+  stats: PunctualityStats
+}
+
+export interface PunctualityReport {
+  date: string
+  thresholds: PunctualityThresholds
+  trips: number
+  overall: PunctualityStats
+  byRoute: PunctualityGroup[]
+  byRouteDirection: PunctualityGroup[]
+  byStop: PunctualityGroup[]
+  byHour: PunctualityGroup[]
+  byRouteHour: PunctualityGroup[]
+}
+
+// StopTimeRealtime.schedule_relationship of canceled trips, as used by the departure boards
+const CANCELED = 3
+
+/**
+ * Turn the realtime data of a service day into observations.
+ * Stop events expected after `now` (unix seconds) have not happened yet and are ignored.
+ * Times of each trip are read in its timezone, given by `tripTimezones`.
+ */
+export function collectObservations(
+  trips: Trip[],
+  stopTimesByTrip: Map<string, StopTimeWithRealtime[]>,
+  date: string,
+  tripTimezones: Map<string, string>,
+  now: number
+): DelayObservation[] {
+  const observations: DelayObservation[] = []
+  trips.forEach(trip => {
+    const stopTimes = stopTimesByTrip.get(trip.trip_id) || []
+    const timezone = tripTimezones.get(trip.trip_id)
+    if (!timezone) return
+    // Seconds since the start of the trip's service day
+    const cutoff = unixToServiceTime(now, date, timezone)
+    stopTimes.forEach(stopTime => {
+      const scheduled = stopTime.arrival_time || stopTime.departure_time
+      if (!scheduled || !stopTime.realtime) return
+
+      const canceled = stopTime.realtime.schedule_relationship === CANCELED
+      const delay = canceled ? null : getRealtimeDelay(stopTime, 'arrival', timezone)
+      if (!canceled && delay === null) return
+
+      const scheduledSeconds = timeToSeconds(scheduled)
+      if (scheduledSeconds + (delay ?? 0) > cutoff) return
+
+      observations.push({
+        tripId: trip.trip_id,
+        routeId: trip.route_id,
+        directionId: trip.direction_id ?? null,
+        stopId: stopTime.stop_id,
+        hour: Math.floor(scheduledSeconds / 3600) % 24,
+        delay,
+        canceled
+      })
+    })
+  })
+  return observations
+}
+
+const percent = (count: number, total: number) => total > 0 ? (100 * count) / total : 0
+
+// Nearest-rank percentile of sorted values
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))]
+
+export function computeStats(observations: DelayObservation[], thresholds: PunctualityThresholds): PunctualityStats {
+  const delays = observations
+    .filter(o => !o.canceled && o.delay !== null)
+    .map(o => o.delay as number)
+    .sort((a, b) => a - b)
+
+  const early = delays.filter(d => d < thresholds.early).length
+  const late = delays.filter(d => d > thresholds.late).length
+  const canceled = observations.filter(o => o.canceled).length
+
+  return {
+    observations: observations.length,
+    onTimePct: percent(delays.length - early - late, delays.length),
+    earlyPct: percent(early, delays.length),
+    latePct: percent(late, delays.length),
+    meanDelay: delays.length > 0 ? delays.reduce((sum, d) => sum + d, 0) / delays.length : null,
+    p90Delay: delays.length > 0 ? percentile(delays, 90) : null,
+    cancellationRate: percent(canceled, observations.length)
+  }
+}
+
+function groupBy(
+  observations: DelayObservation[],
+  thresholds: PunctualityThresholds,
+  keyOf: (o: DelayObservation) => string,
+  describe: (o: DelayObservation) => Omit<PunctualityGroup, 'key' | 'stats'>
+): PunctualityGroup[] {
+  const groups = new Map<string, DelayObservation[]>()
+  observations.forEach(o => {
+    const key = keyOf(o)
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(o)
+  })
+
+  return [...groups.entries()].map(([key, items]) => ({
+    key,
+    ...describe(items[0]),
+    stats: computeStats(items, thresholds)
+  }))
+}
+
+export function buildPunctualityReport(
+  date: string,
+  observations: DelayObservation[],
+  thresholds: PunctualityThresholds
+): PunctualityReport {
+  return {
+    date,
+    thresholds,
+    trips: new Set(observations.map(o => o.tripId)).size,
+    overall: computeStats(observations, thresholds),
+    byRoute: groupBy(observations, thresholds, o => o.routeId, o => ({ routeId: o.routeId })),
+    byRouteDirection: groupBy(
+      observations,
+      thresholds,
+      o => `${o.routeId}|${o.directionId ?? ''}`,
+      o => ({ routeId: o.routeId, directionId: o.directionId })
+    ),
+    byStop: groupBy(observations, thresholds, o => o.stopId, o => ({ stopId: o.stopId })),
+    byHour: groupBy(observations, thresholds, o => String(o.hour), o => ({ hour: o.hour }))
+      .sort((a, b) => a.hour! - b.hour!),
+    byRouteHour: groupBy(
+      observations,
+      thresholds,
+      o => `${o.routeId}|${o.hour}`,
+      o => ({ routeId: o.routeId, hour: o.hour })
+    )
+  }
+}
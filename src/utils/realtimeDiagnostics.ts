@@ -0,0 +1,243 @@
+import type { Alert, TripUpdate, VehiclePosition } from 'gtfs-sqljs'
+
+export type RealtimeIssueType =
+  | 'unknown_trip'
+  | 'stop_not_on_trip'
+  | 'stale_timestamp'
+  | 'vehicle_off_shape'
+  | 'non_monotonic_predictions'
+  | 'duplicate_vehicle'
+  | 'duplicate_trip_update'
+  | 'fetch_failed'
+  | 'restore_failed'
+
+export const ISSUE_LABELS: Record<RealtimeIssueType, string> = {
+  unknown_trip: 'Trip not in static feed',
+  stop_not_on_trip: 'Stop not served by trip',
+  stale_timestamp: 'Stale timestamp',
+  vehicle_off_shape: 'Vehicle far from shape',
+  non_monotonic_predictions: 'Predicted times going backwards',
+  duplicate_vehicle: 'Duplicate vehicle id',
+  duplicate_trip_update: 'Duplicate trip update',
+  fetch_failed: 'Feed could not be fetched',
+  restore_failed: 'Live data could not be reloaded after the check'
+}
+
+export interface RealtimeIssue {
+  type: RealtimeIssueType
+  entity: 'trip_update' | 'vehicle' | 'alert' | 'feed'
+  entityId: string
+  message: string
+}
+
+export interface RealtimeFeedDiagnostics {
+  url: string
+  tripUpdates: number
+  vehicles: number
+  alerts: number
+  issues: RealtimeIssue[]
+  score: number // 0-100, share of entities without any issue
+}
+
+/**
+ * Static schedule data needed to check realtime entities.
+ * Only the trips referenced by the realtime feed need to be provided.
+ */
+export interface StaticContext {
+  tripStops: Map<string, Set<string>> // trip_id -> stop_ids served
+  tripShapes: Map<string, [number, number][]> // trip_id -> [lat, lon] polyline (shape or stop sequence)
+}
+
+export interface DiagnosticsOptions {
+  now: number // unix seconds
+  stalenessThreshold: number // seconds
+  maxDistanceFromShape: number // meters
+}
+
+// Schedule relationship values for trips that are not expected in the static feed
+const ADDED_TRIP = 1
+const UNSCHEDULED_TRIP = 2
+const NEW_TRIP = 5
+
+const EARTH_RADIUS = 6371000
+
+/**
+ * Distance in meters from a point to a polyline, using an equirectangular projection
+ * around the point (accurate enough at the scale of a few kilometers).
+ */
+export function distanceToPolyline(lat: number, lon: number, polyline: [number, number][]): number {
+  if (polyline.length === 0) return Infinity
+
+  const cosLat = Math.cos((lat * Math.PI) / 180)
+  const project = ([pLat, pLon]: [number, number]): [number, number] => [
+    ((pLon - lon) * Math.PI / 180) * cosLat * EARTH_RADIUS,
+    ((pLat - lat) * Math.PI / 180) * EARTH_RADIUS
+  ]
+
+  if (polyline.length === 1) {
+    const [x, y] = project(polyline[0])
+    return Math.hypot(x, y)
+  }
+
+  let min = Infinity
+  for (let i = 1; i < polyline.length; i++) {
+    const [ax, ay] = project(polyline[i - 1])
+    const [bx, by] = project(polyline[i])
+    const dx = bx - ax
+    const dy = by - ay
+    const lengthSq = dx * dx + dy * dy
+    // Projection of the origin (the point) on segment AB, clamped to the segment
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq))
+    min = Math.min(min, Math.hypot(ax + t * dx, ay + t * dy))
+  }
+  return min
+}
+
+const isExpectedInStatic = (scheduleRelationship?: number) =>
+  scheduleRelationship !== ADDED_TRIP &&
+  scheduleRelationship !== UNSCHEDULED_TRIP &&
+  scheduleRelationship !== NEW_TRIP
+
+export function diagnoseFeed(
+  url: string,
+  data: { tripUpdates: TripUpdate[]; vehicles: VehiclePosition[]; alerts: Alert[] },
+  context: StaticContext,
+  options: DiagnosticsOptions
+): RealtimeFeedDiagnostics {
+  const issues: RealtimeIssue[] = []
+  const flaggedEntities = new Set<string>()
+
+  const report = (issue: RealtimeIssue) => {
+    issues.push(issue)
+    flaggedEntities.add(`${issue.entity}:${issue.entityId}`)
+  }
+
+  const checkTimestamp = (entity: RealtimeIssue['entity'], entityId: string, timestamp?: number) => {
+    if (!timestamp) return
+    const age = options.now - timestamp
+    if (age > options.stalenessThreshold) {
+      report({ type: 'stale_timestamp', entity, entityId, message: `Timestamp is ${Math.round(age)}s old` })
+    }
+  }
+
+  // Trip updates
+  const seenTripUpdates = new Set<string>()
+  data.tripUpdates.forEach((tu, index) => {
+    const entityId = tu.trip_id || `#${index}`
+
+    if (tu.trip_id) {
+      if (seenTripUpdates.has(tu.trip_id)) {
+        report({ type: 'duplicate_trip_update', entity: 'trip_update', entityId, message: `Trip ${tu.trip_id} has several trip updates` })
+      }
+      seenTripUpdates.add(tu.trip_id)
+    }
+
+    const stopIds = tu.trip_id ? context.tripStops.get(tu.trip_id) : undefined
+    if (tu.trip_id && !stopIds && isExpectedInStatic(tu.schedule_relationship)) {
+      report({ type: 'unknown_trip', entity: 'trip_update', entityId, message: `Trip ${tu.trip_id} is not in the static feed` })
+    }
+
+    checkTimestamp('trip_update', entityId, tu.timestamp)
+
+    const updates = [...(tu.stop_time_update || [])].sort((a, b) => (a.stop_sequence ?? 0) - (b.stop_sequence ?? 0))
+    let previousTime: number | null = null
+    updates.forEach(stu => {
+      if (stopIds && stu.stop_id && !stopIds.has(stu.stop_id)) {
+        report({ type: 'stop_not_on_trip', entity: 'trip_update', entityId, message: `Stop ${stu.stop_id} is not served by trip ${tu.trip_id}` })
+      }
+
+      const arrival = stu.arrival?.time || null
+      const departure = stu.departure?.time || null
+      if (arrival && departure && departure < arrival) {
+        report({
+          type: 'non_monotonic_predictions',
+          entity: 'trip_update',
+          entityId,
+          message: `Departure before arrival at stop ${stu.stop_id ?? stu.stop_sequence}`
+        })
+      }
+      const first = arrival ?? departure
+      if (first && previousTime && first < previousTime) {
+        report({
+          type: 'non_monotonic_predictions',
+          entity: 'trip_update',
+          entityId,
+          message: `Predicted time at stop ${stu.stop_id ?? stu.stop_sequence} is earlier than at the previous stop`
+        })
+      }
+      previousTime = departure ?? arrival ?? previousTime
+    })
+  })
+
+  // Vehicle positions
+  const vehicleCounts = new Map<string, number>()
+  data.vehicles.forEach((vp, index) => {
+    const vehicleId = vp.vehicle?.id
+    const entityId = vehicleId || vp.trip_id || `#${index}`
+
+    if (vehicleId) {
+      vehicleCounts.set(vehicleId, (vehicleCounts.get(vehicleId) || 0) + 1)
+    }
+
+    if (vp.trip_id && !context.tripStops.has(vp.trip_id)) {
+      report({ type: 'unknown_trip', entity: 'vehicle', entityId, message: `Trip ${vp.trip_id} is not in the static feed` })
+    }
+
+    checkTimestamp('vehicle', entityId, vp.timestamp)
+
+    const polyline = vp.trip_id ? context.tripShapes.get(vp.trip_id) : undefined
+    if (polyline && vp.position) {
+      const distance = distanceToPolyline(vp.position.latitude, vp.position.longitude, polyline)
+      if (distance > options.maxDistanceFromShape) {
+        report({
+          type: 'vehicle_off_shape',
+          entity: 'vehicle',
+          entityId,
+          message: `Vehicle is ${Math.round(distance)} m away from the path of trip ${vp.trip_id}`
+        })
+      }
+    }
+  })
+
+  vehicleCounts.forEach((count, vehicleId) => {
+    if (count > 1) {
+      report({ type: 'duplicate_vehicle', entity: 'vehicle', entityId: vehicleId, message: `Vehicle ${vehicleId} appears ${count} times` })
+    }
+  })
+
+  const totalEntities = data.tripUpdates.length + data.vehicles.length + data.alerts.length
+  const score = totalEntities === 0
+    ? 100
+    : Math.round(100 * (1 - Math.min(flaggedEntities.size, totalEntities) / totalEntities))
+
+  return {
+    url,
+    tripUpdates: data.tripUpdates.length,
+    vehicles: data.vehicles.length,
+    alerts: data.alerts.length,
+    issues,
+    score
+  }
+}
+
+const feedIssue = (type: RealtimeIssueType, url: string, error: unknown): RealtimeIssue => ({
+  type,
+  entity: 'feed',
+  entityId: url,
+  message: error instanceof Error ? error.message : String(error)
+})
+
+export function failedFeed(url: string, error: unknown): RealtimeFeedDiagnostics {
+  return {
+    url,
+    tripUpdates: 0,
+    vehicles: 0,
+    alerts: 0,
+    issues: [feedIssue('fetch_failed', url, error)],
+    score: 0
+  }
+}
+
+// Failure to reload the merged realtime data of a feed once its URLs have been checked
+export const restoreFailed = (url: string, error: unknown): RealtimeIssue =>
+  feedIssue('restore_failed', url, error)
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import initSqlJs, { Database } from 'sql.js'
+import type { TripUpdate } from 'gtfs-sqljs'
+import {
+  ensureRecorderTables,
+  observedStopTimeUpdates,
+  readStopTimeUpdateHistory,
+  readStopTimeUpdates,
+  recordSnapshot,
+  RecordedStopTimeUpdate,
+  RecorderDatabase,
+  TRIP_CANCELED
+} from './realtimeRecorder'
+import { serviceTimeToUnix } from './timezones'
+
+const SQL = await initSqlJs()
+
+const recorderDatabase = (db: Database): RecorderDatabase => ({
+  run: (sql, params = []) => { db.run(sql, params) },
+  query: <T>(sql: string, params: (string | number)[] = []) => {
+    const statement = db.prepare(sql, params)
+    const rows: T[] = []
+    while (statement.step()) rows.push(statement.getAsObject() as T)
+    statement.free()
+    return rows
+  }
+})
+
+const DATE = '20240115'
+const TIMEZONE = 'Europe/Paris'
+// T1 is scheduled at 08:00, 08:10 and 08:20, local time
+const SCHEDULE = new Map([[1, 8 * 3600], [2, 8 * 3600 + 600], [3, 8 * 3600 + 1200]])
+const at = (date: string, hours: number, minutes: number) => serviceTimeToUnix(date, hours * 3600 + minutes * 60, TIMEZONE)
+
+const tripUpdate = (delays: [number, number][], fields: Partial<TripUpdate> = {}) => ({
+  trip_id: 'T1',
+  route_id: 'R1',
+  stop_time_update: delays.map(([stop_sequence, delay]) => ({ stop_sequence, departure: { delay } })),
+  ...fields
+}) as TripUpdate
+
+// Event of an update of T1 on DATE: its scheduled time shifted by its delay
+const eventTime = (update: RecordedStopTimeUpdate) =>
+  serviceTimeToUnix(DATE, SCHEDULE.get(update.stop_sequence!)! + (update.departure_delay ?? 0), TIMEZONE)
+
+const delaysBySequence = (updates: RecordedStopTimeUpdate[]) =>
+  Object.fromEntries(updates.map(update => [update.stop_sequence, update.departure_delay]))
+
+describe('recorded stop time updates', () => {
+  let db: RecorderDatabase
+
+  beforeEach(() => {
+    db = recorderDatabase(new SQL.Database())
+    ensureRecorderTables(db)
+    // Passed stops are dropped from the feed
+    recordSnapshot(db, at(DATE, 7, 58), [], [tripUpdate([[1, 60], [2, 60], [3, 60]])])
+    recordSnapshot(db, at(DATE, 8, 5), [], [tripUpdate([[2, 180], [3, 180]])])
+    recordSnapshot(db, at(DATE, 8, 15), [], [tripUpdate([[3, 120]])])
+    // Predicted after the stop was passed
+    recordSnapshot(db, at(DATE, 8, 40), [], [tripUpdate([[3, 0]])])
+  })
+
+  it('reads the latest snapshot of each trip at a time', () => {
+    expect(delaysBySequence(readStopTimeUpdates(db, ['T1'], at(DATE, 8, 6)))).toEqual({ 2: 180, 3: 180 })
+  })
+
+  it('reads the history of a time range, oldest first', () => {
+    const history = readStopTimeUpdateHistory(db, ['T1'], at(DATE, 8, 0), at(DATE, 8, 20))
+    expect(history.map(update => update.recorded_at)).toEqual([at(DATE, 8, 5), at(DATE, 8, 5), at(DATE, 8, 15)])
+    expect(readStopTimeUpdateHistory(db, ['T2'], 0, Infinity)).toEqual([])
+  })
+
+  it('keeps the last update recorded before each stop event', () => {
+    const history = readStopTimeUpdateHistory(db, ['T1'], 0, at(DATE, 23, 0))
+    expect(delaysBySequence(observedStopTimeUpdates(history, eventTime))).toEqual({ 1: 60, 2: 180, 3: 120 })
+  })
+
+  it('ignores updates of the same trip id recorded on a later day', () => {
+    recordSnapshot(db, at('20240116', 7, 58), [], [tripUpdate([[1, 900], [2, 900]])])
+    const history = readStopTimeUpdateHistory(db, ['T1'], 0, at('20240116', 23, 0))
+    expect(delaysBySequence(observedStopTimeUpdates(history, eventTime))).toEqual({ 1: 60, 2: 180, 3: 120 })
+  })
+
+  it('reads cancellations from the latest snapshot of a trip', () => {
+    recordSnapshot(db, at(DATE, 8, 45), [], [tripUpdate([], { schedule_relationship: TRIP_CANCELED })])
+    const history = readStopTimeUpdateHistory(db, ['T1'], 0, at(DATE, 23, 0))
+    expect(observedStopTimeUpdates(history, eventTime)).toEqual([
+      expect.objectContaining({ trip_id: 'T1', stop_sequence: null, trip_schedule_relationship: TRIP_CANCELED })
+    ])
+  })
+})
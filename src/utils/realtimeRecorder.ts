@@ -0,0 +1,375 @@
+import type { StopTimeWithRealtime, TripUpdate, VehiclePosition } from 'gtfs-sqljs'
+import { PropagatedStopTime, propagateDelays } from './delayPropagation'
+
+/**
+ * Historical realtime recorder.
+ *
+ * Every realtime fetch is stored as a snapshot in extra tables of the GTFS database,
+ * so that past vehicle positions and predictions can be replayed later.
+ * Tables are prefixed with "rec_" to stay clear of the gtfs-sqljs schema.
+ */
+
+// TripDescriptor.ScheduleRelationship.CANCELED
+export const TRIP_CANCELED = 3
+
+export interface RecorderOptions {
+  enabled: boolean
+  retentionHours: number // snapshots older than this are deleted
+  maxSnapshots: number // hard limit, oldest snapshots are deleted first
+}
+
+export const DEFAULT_RECORDER_OPTIONS: RecorderOptions = {
+  enabled: true,
+  retentionHours: 6,
+  maxSnapshots: 5000
+}
+
+// Stop time update of a trip, as known at the time of a snapshot
+export interface RecordedStopTimeUpdate {
+  trip_id: string
+  stop_sequence: number | null
+  stop_id: string | null
+  arrival_delay: number | null
+  arrival_time: number | null
+  departure_delay: number | null
+  departure_time: number | null
+  schedule_relationship: number | null // of the stop time update
+  trip_schedule_relationship: number | null // of the trip update (3 = CANCELED)
+}
+
+export interface RecordingInfo {
+  snapshots: number[] // recorded_at of each snapshot, unix seconds, ascending
+  vehiclePositions: number
+  stopTimeUpdates: number
+}
+
+export interface RecorderDatabase {
+  run: (sql: string, params?: (string | number | null)[]) => void
+  query: <T>(sql: string, params?: (string | number)[]) => T[]
+}
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS rec_snapshots (
+    snapshot_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    recorded_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS rec_vehicle_positions (
+    snapshot_id INTEGER NOT NULL,
+    vehicle_id TEXT,
+    vehicle_label TEXT,
+    trip_id TEXT,
+    route_id TEXT,
+    latitude REAL,
+    longitude REAL,
+    bearing REAL,
+    speed REAL,
+    current_stop_sequence INTEGER,
+    stop_id TEXT,
+    current_status INTEGER,
+    timestamp INTEGER
+  )`,
+  `CREATE TABLE IF NOT EXISTS rec_stop_time_updates (
+    snapshot_id INTEGER NOT NULL,
+    trip_id TEXT NOT NULL,
+    route_id TEXT,
+    stop_sequence INTEGER,
+    stop_id TEXT,
+    arrival_delay INTEGER,
+    arrival_time INTEGER,
+    departure_delay INTEGER,
+    departure_time INTEGER,
+    schedule_relationship INTEGER,
+    trip_schedule_relationship INTEGER
+  )`,
+  'CREATE INDEX IF NOT EXISTS rec_snapshots_recorded_at ON rec_snapshots (recorded_at)',
+  'CREATE INDEX IF NOT EXISTS rec_vehicle_positions_snapshot ON rec_vehicle_positions (snapshot_id)',
+  'CREATE INDEX IF NOT EXISTS rec_stop_time_updates_trip ON rec_stop_time_updates (trip_id, snapshot_id)'
+]
+
+export function ensureRecorderTables(db: RecorderDatabase): void {
+  SCHEMA.forEach(sql => db.run(sql))
+}
+
+export function recordSnapshot(
+  db: RecorderDatabase,
+  recordedAt: number,
+  vehicles: VehiclePosition[],
+  tripUpdates: TripUpdate[]
+): void {
+  db.run('BEGIN')
+  try {
+    db.run('INSERT INTO rec_snapshots (recorded_at) VALUES (?)', [recordedAt])
+    const [{ id }] = db.query<{ id: number }>('SELECT last_insert_rowid() AS id')
+
+    vehicles.forEach(vp => {
+      db.run(
+        `INSERT INTO rec_vehicle_positions VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          vp.vehicle?.id ?? null,
+          vp.vehicle?.label ?? null,
+          vp.trip_id ?? null,
+          vp.route_id ?? null,
+          vp.position?.latitude ?? null,
+          vp.position?.longitude ?? null,
+          vp.position?.bearing ?? null,
+          vp.position?.speed ?? null,
+          vp.current_stop_sequence ?? null,
+          vp.stop_id ?? null,
+          vp.current_status ?? null,
+          vp.timestamp ?? null
+        ]
+      )
+    })
+
+    const insertUpdate = (
+      tripId: string,
+      tu: TripUpdate,
+      stu: NonNullable<TripUpdate['stop_time_update']>[number] | null
+    ) => {
+      db.run(
+        `INSERT INTO rec_stop_time_updates VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          tripId,
+          tu.route_id ?? null,
+          stu?.stop_sequence ?? null,
+          stu?.stop_id ?? null,
+          stu?.arrival?.delay ?? null,
+          stu?.arrival?.time ?? null,
+          stu?.departure?.delay ?? null,
+          stu?.departure?.time ?? null,
+          stu?.schedule_relationship ?? null,
+          tu.schedule_relationship ?? null
+        ]
+      )
+    }
+
+    tripUpdates.forEach(tu => {
+      // Updates are replayed by trip id; those identifying their trip otherwise are not recorded
+      const tripId = tu.trip_id
+      if (!tripId) return
+      const updates = tu.stop_time_update || []
+      if (updates.length === 0) {
+        // Keep a trip-level row so that canceled trips without stop time updates are recorded too
+        insertUpdate(tripId, tu, null)
+      }
+      updates.forEach(stu => insertUpdate(tripId, tu, stu))
+    })
+
+    db.run('COMMIT')
+  } catch (error) {
+    db.run('ROLLBACK')
+    throw error
+  }
+}
+
+// Delete snapshots beyond the retention period or the snapshot limit
+export function pruneSnapshots(db: RecorderDatabase, now: number, options: RecorderOptions): void {
+  const minRecordedAt = now - options.retentionHours * 3600
+  db.run(
+    `DELETE FROM rec_snapshots WHERE recorded_at < ? OR snapshot_id NOT IN (
+      SELECT snapshot_id FROM rec_snapshots ORDER BY recorded_at DESC LIMIT ?
+    )`,
+    [minRecordedAt, options.maxSnapshots]
+  )
+  db.run('DELETE FROM rec_vehicle_positions WHERE snapshot_id NOT IN (SELECT snapshot_id FROM rec_snapshots)')
+  db.run('DELETE FROM rec_stop_time_updates WHERE snapshot_id NOT IN (SELECT snapshot_id FROM rec_snapshots)')
+}
+
+export function clearRecording(db: RecorderDatabase): void {
+  db.run('DELETE FROM rec_vehicle_positions')
+  db.run('DELETE FROM rec_stop_time_updates')
+  db.run('DELETE FROM rec_snapshots')
+}
+
+export function readRecordingInfo(db: RecorderDatabase): RecordingInfo {
+  const [counts] = db.query<{ vehiclePositions: number; stopTimeUpdates: number }>(
+    `SELECT (SELECT COUNT(*) FROM rec_vehicle_positions) AS vehiclePositions,
+      (SELECT COUNT(*) FROM rec_stop_time_updates) AS stopTimeUpdates`
+  )
+  return {
+    snapshots: db.query<{ recorded_at: number }>('SELECT recorded_at FROM rec_snapshots ORDER BY recorded_at')
+      .map(row => row.recorded_at),
+    ...counts
+  }
+}
+
+// Latest snapshot taken at or before the given time
+const snapshotAt = (db: RecorderDatabase, at: number) =>
+  db.query<{ snapshot_id: number; recorded_at: number }>(
+    'SELECT snapshot_id, recorded_at FROM rec_snapshots WHERE recorded_at <= ? ORDER BY recorded_at DESC LIMIT 1',
+    [at]
+  )[0] ?? null
+
+// Row of rec_vehicle_positions
+interface VehiclePositionRow {
+  vehicle_id: string | null
+  vehicle_label: string | null
+  trip_id: string | null
+  route_id: string | null
+  latitude: number | null
+  longitude: number | null
+  bearing: number | null
+  speed: number | null
+  current_stop_sequence: number | null
+  stop_id: string | null
+  current_status: number | null
+  timestamp: number | null
+}
+
+export function readVehiclePositions(db: RecorderDatabase, at: number): VehiclePosition[] {
+  const snapshot = snapshotAt(db, at)
+  if (!snapshot) return []
+
+  return db.query<VehiclePositionRow>(
+    'SELECT * FROM rec_vehicle_positions WHERE snapshot_id = ?',
+    [snapshot.snapshot_id]
+  ).map((row): VehiclePosition => ({
+    trip_id: row.trip_id ?? undefined,
+    route_id: row.route_id ?? undefined,
+    vehicle: row.vehicle_id !== null || row.vehicle_label !== null
+      ? { id: row.vehicle_id ?? undefined, label: row.vehicle_label ?? undefined }
+      : undefined,
+    position: row.latitude !== null && row.longitude !== null
+      ? {
+          latitude: row.latitude,
+          longitude: row.longitude,
+          bearing: row.bearing ?? undefined,
+          speed: row.speed ?? undefined
+        }
+      : undefined,
+    current_stop_sequence: row.current_stop_sequence ?? undefined,
+    stop_id: row.stop_id ?? undefined,
+    current_status: row.current_status ?? undefined,
+    timestamp: row.timestamp ?? undefined,
+    rt_last_updated: snapshot.recorded_at
+  }))
+}
+
+/**
+ * Stop time updates of the given trips as they were known at the given time,
+ * i.e. taken from the latest snapshot at or before it that contains each trip.
+ */
+export function readStopTimeUpdates(db: RecorderDatabase, tripIds: string[], at: number): RecordedStopTimeUpdate[] {
+  const results: RecordedStopTimeUpdate[] = []
+  for (let i = 0; i < tripIds.length; i += 500) {
+    const chunk = tripIds.slice(i, i + 500)
+    const placeholders = chunk.map(() => '?').join(', ')
+    results.push(...db.query<RecordedStopTimeUpdate>(
+      `SELECT stu.trip_id, stu.stop_sequence, stu.stop_id, stu.arrival_delay, stu.arrival_time,
+        stu.departure_delay, stu.departure_time, stu.schedule_relationship, stu.trip_schedule_relationship
+      FROM rec_stop_time_updates stu
+      JOIN (
+        SELECT u.trip_id, MAX(u.snapshot_id) AS snapshot_id
+        FROM rec_stop_time_updates u
+        JOIN rec_snapshots s ON s.snapshot_id = u.snapshot_id
+        WHERE s.recorded_at <= ? AND u.trip_id IN (${placeholders})
+        GROUP BY u.trip_id
+      ) latest ON latest.trip_id = stu.trip_id AND latest.snapshot_id = stu.snapshot_id`,
+      [at, ...chunk]
+    ))
+  }
+  return results
+}
+
+// Stop time update with the time of the snapshot it was recorded in
+export interface TimedStopTimeUpdate extends RecordedStopTimeUpdate {
+  recorded_at: number
+}
+
+/**
+ * Every recorded stop time update of the given trips from the snapshots taken between from and to
+ * (inclusive), oldest first.
+ */
+export function readStopTimeUpdateHistory(
+  db: RecorderDatabase,
+  tripIds: string[],
+  from: number,
+  to: number
+): TimedStopTimeUpdate[] {
+  const results: TimedStopTimeUpdate[] = []
+  for (let i = 0; i < tripIds.length; i += 500) {
+    const chunk = tripIds.slice(i, i + 500)
+    const placeholders = chunk.map(() => '?').join(', ')
+    results.push(...db.query<TimedStopTimeUpdate>(
+      `SELECT stu.trip_id, stu.stop_sequence, stu.stop_id, stu.arrival_delay, stu.arrival_time,
+        stu.departure_delay, stu.departure_time, stu.schedule_relationship, stu.trip_schedule_relationship,
+        s.recorded_at
+      FROM rec_stop_time_updates stu
+      JOIN rec_snapshots s ON s.snapshot_id = stu.snapshot_id
+      WHERE s.recorded_at BETWEEN ? AND ? AND stu.trip_id IN (${placeholders})
+      ORDER BY s.recorded_at, stu.snapshot_id`,
+      [from, to, ...chunk]
+    ))
+  }
+  return results.sort((a, b) => a.recorded_at - b.recorded_at)
+}
+
+/**
+ * Updates of each trip as observed at its stops, for reports on past stop events. Feeds usually
+ * drop stops once they are passed, so the latest snapshot of a trip misses the delays seen at
+ * its first stops: each stop takes the last update recorded no later than its event instead.
+ * Updates recorded after the event, e.g. of the same trip id on a later day, are ignored.
+ * eventTime gives the unix time of the stop event an update predicts, or null when unknown.
+ * Whether the trip is canceled is read from its latest snapshot.
+ */
+export function observedStopTimeUpdates(
+  history: TimedStopTimeUpdate[],
+  eventTime: (update: RecordedStopTimeUpdate) => number | null
+): RecordedStopTimeUpdate[] {
+  const byTrip = new Map<string, TimedStopTimeUpdate[]>()
+  history.forEach(update => {
+    if (!byTrip.has(update.trip_id)) byTrip.set(update.trip_id, [])
+    byTrip.get(update.trip_id)!.push(update)
+  })
+
+  const results: RecordedStopTimeUpdate[] = []
+  byTrip.forEach(updates => {
+    const lastRecordedAt = Math.max(...updates.map(update => update.recorded_at))
+    const latest = updates.filter(update => update.recorded_at === lastRecordedAt)
+    const tripRelationship = latest[0].trip_schedule_relationship
+    if (tripRelationship === TRIP_CANCELED) {
+      results.push(...latest.map(({ recorded_at: _recordedAt, ...update }) => update))
+      return
+    }
+
+    // Updates of each stop, oldest first; trip-level rows carry no stop
+    const byStop = new Map<string, TimedStopTimeUpdate[]>()
+    updates.forEach(update => {
+      if (update.stop_sequence === null && update.stop_id === null) return
+      const key = update.stop_sequence !== null ? `${update.stop_sequence}` : `id:${update.stop_id}`
+      if (!byStop.has(key)) byStop.set(key, [])
+      byStop.get(key)!.push(update)
+    })
+    byStop.forEach(stopUpdates => {
+      const before = stopUpdates.filter(update => update.recorded_at <= (eventTime(update) ?? Infinity))
+      if (before.length === 0) return
+      const { recorded_at: _recordedAt, ...observed } = before[before.length - 1]
+      results.push({ ...observed, trip_schedule_relationship: tripRelationship })
+    })
+  })
+  return results
+}
+
+/**
+ * Replace the realtime part of stop times with recorded updates, so that views built
+ * for live data can display a past state. Delays propagate as in the live feed, and
+ * stop times neither updated nor reached by a delay lose their realtime data.
+ * Updates with absolute times only are read in the timezone of the trip.
+ */
+export function applyRecordedUpdates(
+  stopTimes: StopTimeWithRealtime[],
+  updates: RecordedStopTimeUpdate[],
+  timezone: string
+): PropagatedStopTime[] {
+  if (updates.some(update => update.trip_schedule_relationship === TRIP_CANCELED)) {
+    return stopTimes.map(stopTime =>
+      ({ ...stopTime, realtime: { schedule_relationship: TRIP_CANCELED } }) as StopTimeWithRealtime)
+  }
+
+  // Trip-level rows carry no stop
+  const stopUpdates = updates.filter(update => update.stop_sequence !== null || update.stop_id !== null)
+  const scheduled = stopTimes.map(stopTime => ({ ...stopTime, realtime: undefined }))
+  return propagateDelays(scheduled, stopUpdates, scheduled, timezone)
+}
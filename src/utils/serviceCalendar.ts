@@ -0,0 +1,190 @@
+/**
+ * Service calendars (calendar.txt + calendar_dates.txt) of a set of service ids.
+ */
+
+export interface ServiceCalendar {
+  service_id: string
+  // Regular service from calendar.txt, null for services only defined by calendar_dates.txt
+  start_date: string | null // YYYYMMDD
+  end_date: string | null // YYYYMMDD
+  days: boolean[] // Monday first
+  added_dates: string[] // calendar_dates.txt exception_type 1, YYYYMMDD
+  removed_dates: string[] // calendar_dates.txt exception_type 2, YYYYMMDD
+}
+
+export interface CalendarRow {
+  service_id: string
+  monday: number
+  tuesday: number
+  wednesday: number
+  thursday: number
+  friday: number
+  saturday: number
+  sunday: number
+  start_date: string
+  end_date: string
+}
+
+export interface CalendarDateRow {
+  service_id: string
+  date: string
+  exception_type: number
+}
+
+export const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export function buildServiceCalendars(
+  serviceIds: string[],
+  calendarRows: CalendarRow[],
+  calendarDateRows: CalendarDateRow[]
+): ServiceCalendar[] {
+  const calendars = new Map<string, ServiceCalendar>()
+  serviceIds.forEach(serviceId => {
+    calendars.set(serviceId, {
+      service_id: serviceId,
+      start_date: null,
+      end_date: null,
+      days: WEEKDAY_NAMES.map(() => false),
+      added_dates: [],
+      removed_dates: []
+    })
+  })
+
+  calendarRows.forEach(row => {
+    const calendar = calendars.get(row.service_id)
+    if (!calendar) return
+    calendar.start_date = String(row.start_date)
+    calendar.end_date = String(row.end_date)
+    calendar.days = [row.monday, row.tuesday, row.wednesday, row.thursday, row.friday, row.saturday, row.sunday]
+      .map(value => Number(value) === 1)
+  })
+
+  calendarDateRows.forEach(row => {
+    const calendar = calendars.get(row.service_id)
+    if (!calendar) return
+    if (Number(row.exception_type) === 1) {
+      calendar.added_dates.push(String(row.date))
+    } else if (Number(row.exception_type) === 2) {
+      calendar.removed_dates.push(String(row.date))
+    }
+  })
+
+  return [...calendars.values()].map(calendar => ({
+    ...calendar,
+    added_dates: calendar.added_dates.sort(),
+    removed_dates: calendar.removed_dates.sort()
+  }))
+}
+
+// YYYYMMDD to YYYY-MM-DD
+export const formatServiceDate = (date: string): string =>
+  `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`
+
+// "Mon-Fri", "Mon, Wed, Sat-Sun", "Every day"
+export function formatWeekdays(days: boolean[]): string {
+  if (days.every(Boolean)) return 'Every day'
+  if (!days.some(Boolean)) return 'No regular days'
+
+  const ranges: string[] = []
+  let start = -1
+  for (let i = 0; i <= days.length; i++) {
+    if (i < days.length && days[i]) {
+      if (start === -1) start = i
+    } else if (start !== -1) {
+      ranges.push(i - 1 > start ? `${WEEKDAY_NAMES[start]}-${WEEKDAY_NAMES[i - 1]}` : WEEKDAY_NAMES[start])
+      start = -1
+    }
+  }
+  return ranges.join(', ')
+}
+
+/**
+ * One-line description of when a service runs, e.g.
+ * "Mon-Fri from 2024-01-08 to 2024-06-28, except 2024-05-01; also 2024-05-04".
+ */
+export function describeServiceCalendar(calendar: ServiceCalendar): string {
+  const parts: string[] = []
+  if (calendar.start_date && calendar.end_date) {
+    let regular = `${formatWeekdays(calendar.days)} from ${formatServiceDate(calendar.start_date)} to ${formatServiceDate(calendar.end_date)}`
+    if (calendar.removed_dates.length > 0) {
+      regular += `, except ${calendar.removed_dates.map(formatServiceDate).join(', ')}`
+    }
+    parts.push(regular)
+  }
+  if (calendar.added_dates.length > 0) {
+    const added = calendar.added_dates.map(formatServiceDate).join(', ')
+    parts.push(parts.length > 0 ? `also ${added}` : `On ${added}`)
+  }
+  return parts.length > 0 ? parts.join('; ') : 'No service dates'
+}
+
+// Longest range returned by getServiceDays, in days
+export const MAX_SERVICE_DAYS = 366
+
+// Active services and number of trips running on one day
+export interface ServiceDay {
+  date: string // YYYYMMDD
+  service_ids: string[]
+  trip_count: number
+}
+
+export interface ServiceDayDetails {
+  date: string // YYYYMMDD
+  routes: { route_id: string; trip_count: number }[]
+  // calendar_dates.txt entries of the day: exception_type 1 adds the service, 2 removes it
+  exceptions: { service_id: string; exception_type: number }[]
+}
+
+export interface ServiceDateRange {
+  start_date: string // YYYYMMDD
+  end_date: string // YYYYMMDD
+}
+
+const parseServiceDate = (date: string): Date =>
+  new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8))))
+
+export function addDays(date: string, days: number): string {
+  const d = parseServiceDate(date)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+// Monday = 0, as in ServiceCalendar.days
+export const weekdayIndex = (date: string): number => (parseServiceDate(date).getUTCDay() + 6) % 7
+
+export function isServiceActive(calendar: ServiceCalendar, date: string): boolean {
+  if (calendar.removed_dates.includes(date)) return false
+  if (calendar.added_dates.includes(date)) return true
+  return calendar.start_date !== null && calendar.end_date !== null &&
+    date >= calendar.start_date && date <= calendar.end_date &&
+    calendar.days[weekdayIndex(date)]
+}
+
+// First and last dates any service runs on, or null for a feed without calendar
+export function getServiceDateRange(calendars: ServiceCalendar[]): ServiceDateRange | null {
+  const dates = calendars.flatMap(c => [
+    ...(c.start_date && c.end_date ? [c.start_date, c.end_date] : []),
+    ...c.added_dates
+  ])
+  if (dates.length === 0) return null
+  dates.sort()
+  return { start_date: dates[0], end_date: dates[dates.length - 1] }
+}
+
+export function buildServiceDays(
+  calendars: ServiceCalendar[],
+  tripCounts: Map<string, number>,
+  startDate: string,
+  endDate: string
+): ServiceDay[] {
+  const days: ServiceDay[] = []
+  for (let date = startDate; date <= endDate && days.length < MAX_SERVICE_DAYS; date = addDays(date, 1)) {
+    const serviceIds = calendars.filter(c => isServiceActive(c, date)).map(c => c.service_id)
+    days.push({
+      date,
+      service_ids: serviceIds,
+      trip_count: serviceIds.reduce((sum, id) => sum + (tripCounts.get(id) || 0), 0)
+    })
+  }
+  return days
+}
@@ -0,0 +1,90 @@
+/**
+ * Projection of positions onto a shape polyline, to measure how far a vehicle or a stop is along a trip.
+ * Each segment is flattened with an equirectangular approximation, accurate to a few metres at city scale.
+ */
+
+// [longitude, latitude], as in GeoJSON coordinates
+export type LonLat = [number, number]
+
+export interface ShapeProjection {
+  distance: number // metres from the start of the shape
+  offset: number // metres between the position and the shape
+  point: LonLat
+}
+
+const EARTH_RADIUS = 6371008.8
+const toRadians = (degrees: number) => degrees * Math.PI / 180
+
+// Position of `p` in metres relative to `origin`
+function toLocal(origin: LonLat, p: LonLat): [number, number] {
+  const x = toRadians(p[0] - origin[0]) * Math.cos(toRadians(origin[1])) * EARTH_RADIUS
+  const y = toRadians(p[1] - origin[1]) * EARTH_RADIUS
+  return [x, y]
+}
+
+// Distance from the start of the shape to each of its points, in metres
+export function cumulativeDistances(shape: LonLat[]): number[] {
+  const distances = [0]
+  for (let i = 1; i < shape.length; i++) {
+    const [x, y] = toLocal(shape[i - 1], shape[i])
+    distances.push(distances[i - 1] + Math.hypot(x, y))
+  }
+  return distances
+}
+
+/**
+ * Closest point of the shape to a position.
+ * `fromDistance` skips the part of the shape before that distance, so that stops of looping
+ * shapes are projected in order when each search starts from the previous stop.
+ */
+export function projectOntoShape(
+  shape: LonLat[],
+  distances: number[],
+  position: LonLat,
+  fromDistance = 0
+): ShapeProjection | null {
+  let best: ShapeProjection | null = null
+
+  for (let i = 1; i < shape.length; i++) {
+    if (distances[i] < fromDistance) continue
+
+    const start = shape[i - 1]
+    const [ex, ey] = toLocal(start, shape[i])
+    const [px, py] = toLocal(start, position)
+    const length2 = ex * ex + ey * ey
+    const t = length2 > 0 ? Math.max(0, Math.min(1, (px * ex + py * ey) / length2)) : 0
+    const offset = Math.hypot(px - t * ex, py - t * ey)
+
+    if (!best || offset < best.offset) {
+      best = {
+        distance: distances[i - 1] + t * (distances[i] - distances[i - 1]),
+        offset,
+        point: [start[0] + t * (shape[i][0] - start[0]), start[1] + t * (shape[i][1] - start[1])]
+      }
+    }
+  }
+
+  return best
+}
+
+// Point of the shape at a distance from its start, clamped to the ends of the shape
+export function pointAlongShape(shape: LonLat[], distances: number[], distance: number): LonLat {
+  if (distance <= 0 || shape.length < 2) return shape[0]
+  const last = shape.length - 1
+  if (distance >= distances[last]) return shape[last]
+
+  // First point beyond the distance
+  let low = 1
+  let high = last
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (distances[mid] < distance) low = mid + 1
+    else high = mid
+  }
+
+  const segment = distances[low] - distances[low - 1]
+  const t = segment > 0 ? (distance - distances[low - 1]) / segment : 0
+  const [x0, y0] = shape[low - 1]
+  const [x1, y1] = shape[low]
+  return [x0 + t * (x1 - x0), y0 + t * (y1 - y0)]
+}
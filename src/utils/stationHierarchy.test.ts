@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import type { Stop } from 'gtfs-sqljs'
+import { buildStopHierarchy, expandStations, isBoardable, LOCATION_TYPE } from './stationHierarchy'
+
+const stop = (stop_id: string, stop_name: string, fields: Partial<Stop> = {}) =>
+  ({ stop_id, stop_name, stop_lat: 0, stop_lon: 0, ...fields }) as Stop
+
+const stops = [
+  stop('S2', 'Zoo', { location_type: LOCATION_TYPE.STATION }),
+  stop('S1', 'Gare', { location_type: LOCATION_TYPE.STATION }),
+  stop('P10', 'Gare quai 10', { parent_station: 'S1', platform_code: '10' }),
+  stop('P2', 'Gare quai 2', { parent_station: 'S1', platform_code: '2', location_type: LOCATION_TYPE.STOP }),
+  stop('E1', 'Gare entrée nord', { parent_station: 'S1', location_type: LOCATION_TYPE.ENTRANCE }),
+  stop('B1', 'Gare quai 2 zone A', { parent_station: 'P2', location_type: LOCATION_TYPE.BOARDING_AREA }),
+  stop('N1', 'Gare couloir', { parent_station: 'S1', location_type: LOCATION_TYPE.GENERIC_NODE }),
+  stop('Z1', 'Zoo', { parent_station: 'S2' }),
+  stop('A', 'Arrêt isolé')
+]
+
+describe('isBoardable', () => {
+  it('accepts stops with an empty or stop location type only', () => {
+    expect(isBoardable(stop('A', 'A'))).toBe(true)
+    expect(isBoardable(stop('A', 'A', { location_type: LOCATION_TYPE.STOP }))).toBe(true)
+    expect(isBoardable(stop('A', 'A', { location_type: LOCATION_TYPE.STATION }))).toBe(false)
+    expect(isBoardable(stop('A', 'A', { location_type: LOCATION_TYPE.BOARDING_AREA }))).toBe(false)
+  })
+})
+
+describe('buildStopHierarchy', () => {
+  const hierarchy = buildStopHierarchy(stops)
+
+  it('sorts stations by name', () => {
+    expect(hierarchy.stations.map(node => node.station.stop_id)).toEqual(['S1', 'S2'])
+  })
+
+  it('groups the stops of a station by kind', () => {
+    const gare = hierarchy.stations[0]
+    // Platform codes are compared as numbers
+    expect(gare.platforms.map(s => s.stop_id)).toEqual(['P2', 'P10'])
+    expect(gare.entrances.map(s => s.stop_id)).toEqual(['E1'])
+    // Boarding areas reach their station through their platform
+    expect(gare.otherNodes.map(s => s.stop_id)).toEqual(['B1', 'N1'])
+  })
+
+  it('keeps stops without a station apart', () => {
+    expect(hierarchy.standaloneStops.map(s => s.stop_id)).toEqual(['A'])
+  })
+})
+
+describe('expandStations', () => {
+  const hierarchy = buildStopHierarchy(stops)
+
+  it('replaces stations by their platforms, once each', () => {
+    const byId = new Map(stops.map(s => [s.stop_id, s]))
+    const expanded = expandStations(hierarchy, [byId.get('S1')!, byId.get('P2')!, byId.get('A')!])
+    expect(expanded.map(s => s.stop_id)).toEqual(['P2', 'P10', 'A'])
+  })
+})
@@ -0,0 +1,80 @@
+import type { Stop } from 'gtfs-sqljs'
+
+/**
+ * Station hierarchy of stops.txt: stations (location_type 1) group the platforms where
+ * vehicles stop (location_type 0 or empty), and the entrances, generic nodes and boarding
+ * areas of the station. Boarding areas belong to a platform, and through it to its station.
+ */
+
+export const LOCATION_TYPE = {
+  STOP: 0,
+  STATION: 1,
+  ENTRANCE: 2,
+  GENERIC_NODE: 3,
+  BOARDING_AREA: 4
+} as const
+
+export interface StationNode {
+  station: Stop
+  platforms: Stop[] // stops served by vehicles, sorted by platform code
+  entrances: Stop[]
+  otherNodes: Stop[] // generic nodes and boarding areas
+}
+
+export interface StopHierarchy {
+  stations: StationNode[] // sorted by name
+  standaloneStops: Stop[] // stops served by vehicles without a parent station
+}
+
+export const isBoardable = (stop: Stop) => !stop.location_type || stop.location_type === LOCATION_TYPE.STOP
+
+const comparePlatforms = (a: Stop, b: Stop) =>
+  (a.platform_code || '').localeCompare(b.platform_code || '', undefined, { numeric: true })
+  || a.stop_name.localeCompare(b.stop_name)
+
+export function buildStopHierarchy(stops: Stop[]): StopHierarchy {
+  const stopMap = new Map(stops.map(stop => [stop.stop_id, stop]))
+  const nodes = new Map<string, StationNode>()
+  stops
+    .filter(stop => stop.location_type === LOCATION_TYPE.STATION)
+    .forEach(station => nodes.set(station.stop_id, { station, platforms: [], entrances: [], otherNodes: [] }))
+
+  // Station of a stop, found through the platform of a boarding area
+  const stationOf = (stop: Stop): StationNode | undefined => {
+    let parent = stop.parent_station ? stopMap.get(stop.parent_station) : undefined
+    if (parent && parent.location_type !== LOCATION_TYPE.STATION && parent.parent_station) {
+      parent = stopMap.get(parent.parent_station)
+    }
+    return parent ? nodes.get(parent.stop_id) : undefined
+  }
+
+  const standaloneStops: Stop[] = []
+  stops.forEach(stop => {
+    if (stop.location_type === LOCATION_TYPE.STATION) return
+    const node = stationOf(stop)
+
+    if (isBoardable(stop)) {
+      if (node) node.platforms.push(stop)
+      else standaloneStops.push(stop)
+    } else if (node) {
+      if (stop.location_type === LOCATION_TYPE.ENTRANCE) node.entrances.push(stop)
+      else node.otherNodes.push(stop)
+    }
+  })
+
+  nodes.forEach(node => node.platforms.sort(comparePlatforms))
+  return {
+    stations: [...nodes.values()].sort((a, b) => a.station.stop_name.localeCompare(b.station.stop_name)),
+    standaloneStops
+  }
+}
+
+// Boardable stops of the given stops: the platforms of stations, and the other stops themselves
+export function expandStations(hierarchy: StopHierarchy, stops: Stop[]): Stop[] {
+  const platforms = new Map(hierarchy.stations.map(node => [node.station.stop_id, node.platforms]))
+  const expanded = new Map<string, Stop>()
+  stops.forEach(stop => {
+    (platforms.get(stop.stop_id) ?? [stop]).forEach(platform => expanded.set(platform.stop_id, platform))
+  })
+  return [...expanded.values()]
+}
@@ -0,0 +1,195 @@
+import type { Stop } from 'gtfs-sqljs'
+import { getDistance } from 'geolib'
+
+/**
+ * Fuzzy stop search.
+ *
+ * Stop names, codes, descriptions and the short names of the routes serving each stop are
+ * folded (accents, case, punctuation) into words, with common abbreviations expanded, so that
+ * "st etienne" finds "Saint-Étienne". A query word matches a word of the index exactly, as its
+ * prefix, or by trigram similarity to tolerate typos.
+ */
+
+export interface StopSearchFields {
+  stop: Pick<Stop, 'stop_id' | 'stop_name' | 'stop_code' | 'stop_desc'>
+  routeNames: string[] // short names of the routes serving the stop
+}
+
+export interface StopSearchIndex {
+  stopIds: string[]
+  words: string[] // distinct folded words
+  wordTrigramCounts: number[]
+  postings: [number, number][][] // for each word: [stop index, field weight]
+  trigrams: Map<string, number[]> // trigram -> indexes of the words containing it
+}
+
+export interface StopSearchResult {
+  stopId: string
+  score: number // between 0 and 1
+}
+
+// A match in the name or code counts more than in the description
+const NAME_WEIGHT = 1
+const CODE_WEIGHT = 1
+const ROUTE_WEIGHT = 0.8
+const DESC_WEIGHT = 0.5
+
+const PREFIX_SIMILARITY = 0.9
+const MIN_SIMILARITY = 0.4 // trigram similarity below which words do not match
+const MIN_SCORE = 0.5
+
+// Applied to both the index and the query, so either form finds the other
+const ABBREVIATIONS: Record<string, string> = {
+  st: 'saint',
+  ste: 'sainte',
+  sts: 'saints',
+  av: 'avenue',
+  ave: 'avenue',
+  bd: 'boulevard',
+  bld: 'boulevard',
+  blvd: 'boulevard',
+  pl: 'place',
+  rte: 'route',
+  ch: 'chemin',
+  pt: 'pont',
+  sq: 'square',
+  gal: 'general',
+  gen: 'general',
+  mal: 'marechal',
+  pte: 'porte',
+  ctr: 'centre',
+  cc: 'centre commercial'
+}
+
+// Lower case words without accents or punctuation, with abbreviations expanded
+export function foldWords(text: string | null | undefined): string[] {
+  if (!text) return []
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word !== '')
+    .flatMap(word => (ABBREVIATIONS[word] ?? word).split(' '))
+}
+
+function wordTrigrams(word: string): string[] {
+  const padded = `  ${word} `
+  const trigrams = new Set<string>()
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.slice(i, i + 3))
+  }
+  return [...trigrams]
+}
+
+export function buildStopSearchIndex(entries: StopSearchFields[]): StopSearchIndex {
+  const index: StopSearchIndex = { stopIds: [], words: [], wordTrigramCounts: [], postings: [], trigrams: new Map() }
+  const wordIds = new Map<string, number>()
+
+  const add = (word: string, stopIndex: number, weight: number) => {
+    let wordId = wordIds.get(word)
+    if (wordId === undefined) {
+      wordId = index.words.length
+      wordIds.set(word, wordId)
+      index.words.push(word)
+      index.postings.push([])
+      const trigrams = wordTrigrams(word)
+      index.wordTrigramCounts.push(trigrams.length)
+      trigrams.forEach(trigram => {
+        if (!index.trigrams.has(trigram)) index.trigrams.set(trigram, [])
+        index.trigrams.get(trigram)!.push(wordId!)
+      })
+    }
+
+    // A word found in several fields of a stop keeps its best weight
+    const postings = index.postings[wordId]
+    const last = postings[postings.length - 1]
+    if (last && last[0] === stopIndex) {
+      last[1] = Math.max(last[1], weight)
+    } else {
+      postings.push([stopIndex, weight])
+    }
+  }
+
+  entries.forEach(({ stop, routeNames }, stopIndex) => {
+    index.stopIds.push(stop.stop_id)
+    foldWords(stop.stop_name).forEach(word => add(word, stopIndex, NAME_WEIGHT))
+    foldWords(stop.stop_code).forEach(word => add(word, stopIndex, CODE_WEIGHT))
+    routeNames.forEach(name => foldWords(name).forEach(word => add(word, stopIndex, ROUTE_WEIGHT)))
+    foldWords(stop.stop_desc).forEach(word => add(word, stopIndex, DESC_WEIGHT))
+  })
+
+  return index
+}
+
+// Words of the index matching a query word, with their similarity
+function matchWord(index: StopSearchIndex, queryWord: string): Map<number, number> {
+  const queryTrigrams = wordTrigrams(queryWord)
+  const shared = new Map<number, number>()
+  queryTrigrams.forEach(trigram => {
+    index.trigrams.get(trigram)?.forEach(wordId => shared.set(wordId, (shared.get(wordId) ?? 0) + 1))
+  })
+
+  const matches = new Map<number, number>()
+  shared.forEach((count, wordId) => {
+    const word = index.words[wordId]
+    const similarity = word === queryWord
+      ? 1
+      : word.startsWith(queryWord)
+        ? PREFIX_SIMILARITY
+        // Dice coefficient of the trigram sets
+        : (2 * count) / (queryTrigrams.length + index.wordTrigramCounts[wordId])
+    if (similarity >= MIN_SIMILARITY) matches.set(wordId, similarity)
+  })
+  return matches
+}
+
+// Stops matching a query, best first. The score is the mean over the query words of their best match.
+export function searchStops(index: StopSearchIndex, query: string, limit = 50): StopSearchResult[] {
+  const queryWords = [...new Set(foldWords(query))]
+  if (queryWords.length === 0) return []
+
+  const scores = new Map<number, number>()
+  queryWords.forEach(queryWord => {
+    const best = new Map<number, number>()
+    matchWord(index, queryWord).forEach((similarity, wordId) => {
+      index.postings[wordId].forEach(([stopIndex, weight]) => {
+        const score = similarity * weight
+        if (score > (best.get(stopIndex) ?? 0)) best.set(stopIndex, score)
+      })
+    })
+    best.forEach((score, stopIndex) => scores.set(stopIndex, (scores.get(stopIndex) ?? 0) + score))
+  })
+
+  return [...scores.entries()]
+    .map(([stopIndex, total]) => ({ stopId: index.stopIds[stopIndex], score: total / queryWords.length }))
+    .filter(result => result.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+export const NEARBY_DISTANCE = 2000 // metres
+
+export interface NearbyStop {
+  stop: Stop
+  distance: number // metres
+}
+
+// Stops closest to a position, within maxDistance metres
+export function findNearbyStops(
+  stops: Stop[],
+  latitude: number,
+  longitude: number,
+  limit = 20,
+  maxDistance = NEARBY_DISTANCE
+): NearbyStop[] {
+  return stops
+    .filter(stop => stop.stop_lat && stop.stop_lon)
+    .map(stop => ({
+      stop,
+      distance: getDistance({ latitude, longitude }, { latitude: stop.stop_lat!, longitude: stop.stop_lon! })
+    }))
+    .filter(nearby => nearby.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+}
@@ -0,0 +1,232 @@
+import { Route, Trip, Stop, StopTimeWithRealtime } from 'gtfs-sqljs'
+import { toCsv, downloadFile } from './csv'
+import { ServiceCalendar, describeServiceCalendar } from './serviceCalendar'
+import { getRouteColors } from '../components/utils'
+
+/**
+ * Exports of a route/direction/date timetable as displayed by TimetablesTab:
+ * CSV, TSV for spreadsheets, and a printable HTML page for stop posters.
+ */
+
+export interface TimetableExportData {
+  route: Route
+  headsign: string
+  date: string // YYYY-MM-DD
+  stops: Stop[]
+  trips: { trip: Trip; stopTimesMap: Map<string, StopTimeWithRealtime> }[]
+  calendars: ServiceCalendar[]
+}
+
+export interface TimetableNote {
+  mark: string
+  text: string
+}
+
+interface PreparedTimetable {
+  columns: { label: string; marks: string[] }[]
+  rows: { stop: Stop; times: string[] }[]
+  skipNotes: TimetableNote[]
+  serviceNotes: TimetableNote[]
+}
+
+// Shown for a stop a trip passes without stopping, between its first and last stop
+export const PASSING_MARK = '|'
+
+// Trips per table on the printed page, so that columns stay readable
+const PRINT_COLUMNS_PER_TABLE = 14
+
+const formatTime = (timeStr: string | undefined): string => {
+  if (!timeStr) return ''
+  const [h, m] = timeStr.split(':')
+  return `${(parseInt(h, 10) % 24).toString().padStart(2, '0')}:${m}`
+}
+
+const noteLetter = (index: number): string =>
+  index < 26 ? String.fromCharCode(97 + index) : `${noteLetter(Math.floor(index / 26) - 1)}${noteLetter(index % 26)}`
+
+function prepareTimetable(data: TimetableExportData): PreparedTimetable {
+  const skipNotes: TimetableNote[] = []
+  const serviceNotes: TimetableNote[] = []
+  // Service marks are only needed when trips do not all run on the same days
+  const markServices = new Set(data.trips.map(({ trip }) => trip.service_id)).size > 1
+
+  const columns = data.trips.map(({ trip, stopTimesMap }, idx) => {
+    const marks: string[] = []
+
+    const served = data.stops.map(stop => stopTimesMap.has(stop.stop_id))
+    const first = served.indexOf(true)
+    const last = served.lastIndexOf(true)
+    const skipped = data.stops.filter((_stop, i) => i > first && i < last && !served[i])
+    if (skipped.length > 0) {
+      const text = `Does not stop at ${skipped.map(s => s.stop_name).join(', ')}`
+      let note = skipNotes.find(n => n.text === text)
+      if (!note) {
+        note = { mark: noteLetter(skipNotes.length), text }
+        skipNotes.push(note)
+      }
+      marks.push(note.mark)
+    }
+
+    if (markServices) {
+      const calendar = data.calendars.find(c => c.service_id === trip.service_id)
+      const text = calendar ? `Runs ${describeServiceCalendar(calendar)}` : `Service ${trip.service_id}`
+      let note = serviceNotes.find(n => n.text === text)
+      if (!note) {
+        note = { mark: String(serviceNotes.length + 1), text }
+        serviceNotes.push(note)
+      }
+      marks.push(note.mark)
+    }
+
+    return { label: trip.trip_short_name || `Trip ${idx + 1}`, marks }
+  })
+
+  if (!markServices && data.calendars.length > 0) {
+    serviceNotes.push({ mark: '', text: `Runs ${describeServiceCalendar(data.calendars[0])}` })
+  }
+
+  const rows = data.stops.map((stop, stopIdx) => ({
+    stop,
+    times: data.trips.map(({ stopTimesMap }) => {
+      const stopTime = stopTimesMap.get(stop.stop_id)
+      if (stopTime) return formatTime(stopTime.departure_time || stopTime.arrival_time)
+      const servedBefore = data.stops.slice(0, stopIdx).some(s => stopTimesMap.has(s.stop_id))
+      const servedAfter = data.stops.slice(stopIdx + 1).some(s => stopTimesMap.has(s.stop_id))
+      return servedBefore && servedAfter ? PASSING_MARK : ''
+    })
+  }))
+
+  return { columns, rows, skipNotes, serviceNotes }
+}
+
+const columnHeader = (column: { label: string; marks: string[] }): string =>
+  column.marks.length > 0 ? `${column.label} (${column.marks.join(',')})` : column.label
+
+function toRows(data: TimetableExportData): string[][] {
+  const { columns, rows, skipNotes, serviceNotes } = prepareTimetable(data)
+  const notes = [...skipNotes, ...serviceNotes]
+  return [
+    ['Stop', 'Platform', ...columns.map(columnHeader)],
+    ...rows.map(({ stop, times }) => [stop.stop_name, stop.platform_code || '', ...times]),
+    ...(notes.length > 0 ? [[], ...notes.map(note => [note.mark, note.text])] : [])
+  ]
+}
+
+export function timetableFileName(data: TimetableExportData, extension: string): string {
+  const name = `timetable-${data.route.route_short_name || data.route.route_id}-${data.headsign}-${data.date}`
+  return `${name.replace(/[^\w.-]+/g, '_')}.${extension}`
+}
+
+export function exportTimetableCsv(data: TimetableExportData): void {
+  downloadFile(toCsv(toRows(data)), timetableFileName(data, 'csv'), 'text/csv')
+}
+
+// Tab-separated values open directly in Excel and LibreOffice; the BOM makes Excel read them as UTF-8
+export function exportTimetableTsv(data: TimetableExportData): void {
+  downloadFile(`\uFEFF${toCsv(toRows(data), '\t')}`, timetableFileName(data, 'tsv'), 'text/tab-separated-values')
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+export function buildTimetableHtml(data: TimetableExportData): string {
+  const { columns, rows, skipNotes, serviceNotes } = prepareTimetable(data)
+  const { bgColor, textColor } = getRouteColors(data.route)
+  const routeName = data.route.route_short_name || data.route.route_long_name || data.route.route_id
+
+  const tables: string[] = []
+  for (let start = 0; start < columns.length; start += PRINT_COLUMNS_PER_TABLE) {
+    const end = start + PRINT_COLUMNS_PER_TABLE
+    tables.push(`
+      <table>
+        <thead>
+          <tr>
+            <th class="stop">Stop</th>
+            ${columns.slice(start, end).map(column => `
+              <th>${escapeHtml(column.label)}${column.marks.length > 0 ? `<sup>${escapeHtml(column.marks.join(','))}</sup>` : ''}</th>
+            `).join('')}
+          </tr>
+        </thead>
+        <tbody>
+          ${rows.map(({ stop, times }) => `
+            <tr>
+              <td class="stop">
+                ${escapeHtml(stop.stop_name)}
+                ${stop.platform_code ? `<span class="platform">Platform ${escapeHtml(stop.platform_code)}</span>` : ''}
+              </td>
+              ${times.slice(start, end).map(time => `<td>${escapeHtml(time)}</td>`).join('')}
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `)
+  }
+
+  const notes = [...skipNotes, ...serviceNotes]
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${routeName} - ${data.headsign} - ${data.date}`)}</title>
+<style>
+  @page { size: A4 landscape; margin: 10mm; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 10px; color: #000; margin: 0; }
+  header { display: flex; align-items: center; gap: 12px; padding: 8px 12px; background: ${bgColor}; color: ${textColor}; }
+  header .route { font-size: 28px; font-weight: bold; padding: 4px 12px; border: 2px solid ${textColor}; border-radius: 6px; }
+  header .name { font-size: 14px; }
+  header .headsign { font-size: 18px; font-weight: bold; }
+  header .date { margin-left: auto; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; margin-top: 8px; page-break-inside: avoid; }
+  thead { display: table-header-group; }
+  th { background: ${bgColor}; color: ${textColor}; padding: 3px 4px; font-weight: bold; }
+  th, td { border: 1px solid #bbb; text-align: center; white-space: nowrap; }
+  td { padding: 2px 4px; font-variant-numeric: tabular-nums; }
+  th.stop, td.stop { text-align: left; white-space: normal; min-width: 140px; }
+  tbody tr:nth-child(even) td { background: #f2f2f2; }
+  .platform { display: block; color: #666; font-size: 8px; }
+  .notes { margin-top: 10px; }
+  .notes p { margin: 2px 0; }
+  .legend { margin-top: 6px; color: #666; }
+</style>
+</head>
+<body>
+  <header>
+    <span class="route">${escapeHtml(routeName)}</span>
+    <div>
+      ${data.route.route_long_name && data.route.route_short_name ? `<div class="name">${escapeHtml(data.route.route_long_name)}</div>` : ''}
+      <div class="headsign">&rarr; ${escapeHtml(data.headsign)}</div>
+    </div>
+    <span class="date">Timetable for ${escapeHtml(data.date)}</span>
+  </header>
+  ${tables.join('')}
+  <div class="notes">
+    ${notes.map(note => `<p>${note.mark ? `<sup>${escapeHtml(note.mark)}</sup> ` : ''}${escapeHtml(note.text)}</p>`).join('')}
+    <p class="legend">${PASSING_MARK} passes without stopping</p>
+  </div>
+</body>
+</html>`
+}
+
+/**
+ * Open the printable timetable in a new window and show the print dialog, from which it can be saved as PDF.
+ * Falls back to downloading the HTML page when pop-ups are blocked.
+ */
+export function printTimetable(data: TimetableExportData): void {
+  const html = buildTimetableHtml(data)
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    downloadFile(html, timetableFileName(data, 'html'), 'text/html')
+    return
+  }
+  printWindow.document.open()
+  printWindow.document.write(html)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+}
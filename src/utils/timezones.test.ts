@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import type { Agency } from 'gtfs-sqljs'
+import {
+  addDays,
+  createTimeService,
+  delayFromTimestamp,
+  getServiceNow,
+  isCurrentServiceDate,
+  serviceDayStart,
+  serviceTimeToUnix,
+  toZonedTime,
+  unixToServiceTime,
+  wallClockToUnix
+} from './timezones'
+
+const utc = (...args: [number, number, number, number?, number?]) => Date.UTC(...args) / 1000
+
+describe('createTimeService', () => {
+  const agencies = [
+    { agency_id: 'A', agency_name: 'A', agency_url: '', agency_timezone: 'Europe/Paris' },
+    { agency_id: 'B', agency_name: 'B', agency_url: '', agency_timezone: 'America/Cayenne' }
+  ] as Agency[]
+  const timeService = createTimeService(agencies)
+
+  it('takes the feed timezone from the first agency', () => {
+    expect(timeService.feedTimezone).toBe('Europe/Paris')
+  })
+
+  it('resolves the timezone of a route from its agency', () => {
+    expect(timeService.routeTimezone({ agency_id: 'B' })).toBe('America/Cayenne')
+    expect(timeService.routeTimezone({ agency_id: 'unknown' })).toBe('Europe/Paris')
+    // agency_id is optional with a single agency
+    expect(timeService.routeTimezone({ agency_id: undefined })).toBe('Europe/Paris')
+    expect(timeService.routeTimezone(null)).toBe('Europe/Paris')
+  })
+
+  it('prefers the stop timezone over the fallback', () => {
+    expect(timeService.stopTimezone({ stop_timezone: 'Asia/Tokyo' })).toBe('Asia/Tokyo')
+    expect(timeService.stopTimezone({ stop_timezone: undefined }, 'America/Cayenne')).toBe('America/Cayenne')
+    expect(timeService.stopTimezone(null)).toBe('Europe/Paris')
+  })
+})
+
+describe('toZonedTime', () => {
+  it('returns the wall clock date and time in the timezone', () => {
+    expect(toZonedTime(utc(2024, 0, 15, 23, 30), 'Europe/Paris')).toEqual({ date: '20240116', seconds: 1800 })
+    expect(toZonedTime(utc(2024, 0, 15, 2), 'America/Cayenne')).toEqual({ date: '20240114', seconds: 23 * 3600 })
+  })
+
+  it('follows daylight saving time', () => {
+    // Paris moves from UTC+1 to UTC+2 at 01:00 UTC on 31 March 2024
+    expect(toZonedTime(utc(2024, 2, 31, 0, 30), 'Europe/Paris').seconds).toBe(1.5 * 3600)
+    expect(toZonedTime(utc(2024, 2, 31, 1, 30), 'Europe/Paris').seconds).toBe(3.5 * 3600)
+  })
+})
+
+describe('addDays', () => {
+  it('shifts dates across months and years', () => {
+    expect(addDays('20240228', 1)).toBe('20240229')
+    expect(addDays('20240301', -1)).toBe('20240229')
+    expect(addDays('20241231', 1)).toBe('20250101')
+  })
+})
+
+describe('wallClockToUnix', () => {
+  it('converts a wall clock time in winter and summer', () => {
+    expect(wallClockToUnix('20240115', 8 * 3600, 'Europe/Paris')).toBe(utc(2024, 0, 15, 7))
+    expect(wallClockToUnix('20240715', 8 * 3600, 'Europe/Paris')).toBe(utc(2024, 6, 15, 6))
+  })
+})
+
+describe('service times', () => {
+  it('counts from noon minus 12h on daylight saving days', () => {
+    // Noon is at 10:00 UTC on 31 March 2024 in Paris, so the service day starts at 23:00 the day before
+    expect(serviceDayStart('20240331', 'Europe/Paris')).toBe(utc(2024, 2, 30, 22))
+    expect(serviceTimeToUnix('20240331', 12 * 3600, 'Europe/Paris')).toBe(utc(2024, 2, 31, 10))
+  })
+
+  it('handles times past midnight', () => {
+    expect(serviceTimeToUnix('20240115', 25 * 3600, 'Europe/Paris')).toBe(utc(2024, 0, 16))
+    expect(unixToServiceTime(utc(2024, 0, 16), '20240115', 'Europe/Paris')).toBe(25 * 3600)
+  })
+
+  it('gives the current service date and time', () => {
+    expect(getServiceNow('Europe/Paris', new Date(utc(2024, 0, 15, 23, 30) * 1000)))
+      .toEqual({ date: '20240116', seconds: 1800 })
+  })
+
+  it('tells the current service date from others', () => {
+    const now = new Date(utc(2024, 0, 15, 23, 30) * 1000)
+    expect(isCurrentServiceDate('20240116', 'Europe/Paris', now)).toBe(true)
+    expect(isCurrentServiceDate('20240115', 'Europe/Paris', now)).toBe(false)
+    expect(isCurrentServiceDate('20240115', 'America/Cayenne', now)).toBe(true)
+  })
+})
+
+describe('delayFromTimestamp', () => {
+  it('computes the delay on a given service date', () => {
+    expect(delayFromTimestamp(8 * 3600, utc(2024, 0, 15, 7, 3), 'Europe/Paris', '20240115')).toBe(180)
+  })
+
+  it('picks the closest service day without a date', () => {
+    // 24:10:00 of the 15th, recorded at 00:12 local on the 16th
+    expect(delayFromTimestamp(24 * 3600 + 600, utc(2024, 0, 15, 23, 12), 'Europe/Paris')).toBe(120)
+    // Early by a minute
+    expect(delayFromTimestamp(8 * 3600, utc(2024, 0, 15, 6, 59), 'Europe/Paris')).toBe(-60)
+  })
+})
@@ -0,0 +1,135 @@
+import type { Agency, Route, Stop } from 'gtfs-sqljs'
+
+/**
+ * Time service: effective timezones and GTFS time arithmetic.
+ *
+ * Stop times of a trip are expressed in the timezone of the agency operating its route, while a
+ * stop with a stop_timezone displays its times in that timezone. GTFS times count from "noon
+ * minus 12h" of the service day, which is midnight except on DST transition days, and go past
+ * 24:00:00 for trips running after midnight. Going through unix timestamps keeps both exact.
+ */
+
+export const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+const DAY = 86400
+const HALF_DAY = 43200
+
+export interface TimeService {
+  feedTimezone: string // timezone of the first agency, used when nothing more specific applies
+  agencyTimezone(agencyId?: string | null): string
+  routeTimezone(route?: Pick<Route, 'agency_id'> | null): string
+  stopTimezone(stop?: Pick<Stop, 'stop_timezone'> | null, fallback?: string): string
+}
+
+export function createTimeService(agencies: Agency[]): TimeService {
+  const feedTimezone = agencies.find(a => a.agency_timezone)?.agency_timezone || BROWSER_TIMEZONE
+  const byAgency = new Map(
+    agencies.filter(a => a.agency_id && a.agency_timezone).map(a => [a.agency_id!, a.agency_timezone])
+  )
+  const agencyTimezone = (agencyId?: string | null) => (agencyId && byAgency.get(agencyId)) || feedTimezone
+
+  return {
+    feedTimezone,
+    agencyTimezone,
+    // agency_id is optional when a feed has a single agency
+    routeTimezone: route => agencyTimezone(route?.agency_id),
+    stopTimezone: (stop, fallback = feedTimezone) => stop?.stop_timezone || fallback
+  }
+}
+
+export interface ZonedTime {
+  date: string // YYYYMMDD
+  seconds: number // wall clock seconds since midnight
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+// Wall clock date and time of a unix timestamp in a timezone
+export function toZonedTime(timestamp: number, timezone: string): ZonedTime {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    formatters.set(timezone, formatter)
+  }
+
+  const parts: Record<string, string> = {}
+  formatter.formatToParts(new Date(timestamp * 1000)).forEach(p => { parts[p.type] = p.value })
+  return {
+    date: `${parts.year}${parts.month}${parts.day}`,
+    seconds: Number(parts.hour) * 3600 + Number(parts.minute) * 60 + Number(parts.second)
+  }
+}
+
+const dateToUtc = (date: string) =>
+  Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8))) / 1000
+
+// YYYYMMDD date shifted by a number of days
+export function addDays(date: string, days: number): string {
+  return new Date((dateToUtc(date) + days * DAY) * 1000).toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+// Offset of the timezone from UTC at a unix timestamp, in seconds
+function utcOffset(timestamp: number, timezone: string): number {
+  const { date, seconds } = toZonedTime(timestamp, timezone)
+  return dateToUtc(date) + seconds - Math.floor(timestamp)
+}
+
+// Unix timestamp of a wall clock time (seconds since midnight) on a date
+export function wallClockToUnix(date: string, seconds: number, timezone: string): number {
+  const local = dateToUtc(date) + seconds
+  // The offset settles after a second pass
+  const guess = local - utcOffset(local, timezone)
+  return local - utcOffset(guess, timezone)
+}
+
+// Unix timestamp at which GTFS times of a service date start counting (noon minus 12h)
+export const serviceDayStart = (date: string, timezone: string) =>
+  // DST transitions never happen at noon
+  wallClockToUnix(date, HALF_DAY, timezone) - HALF_DAY
+
+// Unix timestamp of a GTFS time (seconds, possibly past 24:00:00) on a service date
+export const serviceTimeToUnix = (date: string, seconds: number, timezone: string) =>
+  serviceDayStart(date, timezone) + seconds
+
+// GTFS time (seconds since the start of the service day) of a unix timestamp
+export const unixToServiceTime = (timestamp: number, date: string, timezone: string) =>
+  timestamp - serviceDayStart(date, timezone)
+
+// Current service date and GTFS time in a timezone
+export function getServiceNow(timezone: string, now: Date = new Date()): ZonedTime {
+  const timestamp = Math.floor(now.getTime() / 1000)
+  const { date } = toZonedTime(timestamp, timezone)
+  return { date, seconds: unixToServiceTime(timestamp, date, timezone) }
+}
+
+// Whether a service date is the current date in a timezone, the only date live realtime data is about
+export const isCurrentServiceDate = (date: string, timezone: string, now: Date = new Date()) =>
+  getServiceNow(timezone, now).date === date
+
+/**
+ * Delay in seconds of a realtime timestamp against a scheduled GTFS time.
+ * Without a service date, the service day closest to the timestamp is used: its local date,
+ * or the day before for times past 24:00:00.
+ */
+export function delayFromTimestamp(
+  scheduledSeconds: number,
+  timestamp: number,
+  timezone: string,
+  serviceDate?: string
+): number {
+  if (serviceDate) return timestamp - serviceTimeToUnix(serviceDate, scheduledSeconds, timezone)
+
+  const { date } = toZonedTime(timestamp, timezone)
+  return [addDays(date, -1), date, addDays(date, 1)]
+    .map(d => timestamp - serviceTimeToUnix(d, scheduledSeconds, timezone))
+    .reduce((best, delay) => (Math.abs(delay) < Math.abs(best) ? delay : best))
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import type { Stop, StopTimeWithRealtime } from 'gtfs-sqljs'
+import {
+  buildConnections,
+  buildFootpaths,
+  computeIsochrone,
+  Connection,
+  getRealtimeDelay,
+  planItineraries,
+  TransitLeg
+} from './tripPlanner'
+
+const TIMEZONE = 'Europe/Paris'
+
+const stopTime = (
+  trip_id: string,
+  stop_id: string,
+  stop_sequence: number,
+  time: string,
+  fields: Partial<StopTimeWithRealtime> = {}
+) => ({ trip_id, stop_id, stop_sequence, arrival_time: time, departure_time: time, ...fields }) as StopTimeWithRealtime
+
+const stop = (stop_id: string, stop_lat: number, stop_lon: number) =>
+  ({ stop_id, stop_name: stop_id, stop_lat, stop_lon }) as Stop
+
+// T1: A 08:00 -> B 08:10 -> C 08:20, T2: B 08:15 -> D 08:25, T3: B 08:30 -> D 08:40
+const stopTimes = [
+  stopTime('T1', 'A', 1, '08:00:00'),
+  stopTime('T1', 'B', 2, '08:10:00'),
+  stopTime('T1', 'C', 3, '08:20:00'),
+  stopTime('T2', 'B', 1, '08:15:00'),
+  stopTime('T2', 'D', 2, '08:25:00'),
+  stopTime('T3', 'B', 1, '08:30:00'),
+  stopTime('T3', 'D', 2, '08:40:00')
+]
+const tripRoutes = new Map([['T1', 'R1'], ['T2', 'R2'], ['T3', 'R2']])
+const tripTimezones = new Map([['T1', TIMEZONE], ['T2', TIMEZONE], ['T3', TIMEZONE]])
+
+const request = { fromStopId: 'A', toStopId: 'D', date: '20240115', departureTime: '07:55' }
+
+describe('getRealtimeDelay', () => {
+  it('prefers the explicit delay', () => {
+    const st = stopTime('T1', 'A', 1, '08:00:00', { realtime: { departure_delay: 60, departure_time: 0 } })
+    expect(getRealtimeDelay(st, 'departure', TIMEZONE)).toBe(60)
+  })
+
+  it('converts absolute times in the timezone', () => {
+    const time = Date.UTC(2024, 0, 15, 7, 2) / 1000
+    const st = stopTime('T1', 'A', 1, '08:00:00', { realtime: { arrival_time: time } })
+    expect(getRealtimeDelay(st, 'arrival', TIMEZONE)).toBe(120)
+    expect(getRealtimeDelay(stopTime('T1', 'A', 1, '08:00:00'), 'arrival', TIMEZONE)).toBeNull()
+  })
+})
+
+describe('buildConnections', () => {
+  it('links consecutive stops of each trip, sorted by departure', () => {
+    const connections = buildConnections(stopTimes, tripRoutes, tripTimezones, false)
+    expect(connections.map(c => `${c.tripId}:${c.fromStopId}-${c.toStopId}`))
+      .toEqual(['T1:A-B', 'T1:B-C', 'T2:B-D', 'T3:B-D'])
+    expect(connections[0]).toMatchObject({ routeId: 'R1', departure: 8 * 3600, arrival: 8 * 3600 + 600, canBoard: true })
+  })
+
+  it('skips trips without a route or a timezone', () => {
+    const connections = buildConnections(stopTimes, tripRoutes, new Map([['T1', TIMEZONE]]), false)
+    expect(new Set(connections.map(c => c.tripId))).toEqual(new Set(['T1']))
+  })
+
+  it('applies realtime when asked to', () => {
+    const delayed = stopTimes.map(st => st.trip_id === 'T2' ? { ...st, realtime: { departure_delay: 300, arrival_delay: 300 } } : st)
+    const scheduled = buildConnections(delayed, tripRoutes, tripTimezones, false).find(c => c.tripId === 'T2')!
+    const live = buildConnections(delayed, tripRoutes, tripTimezones, true).find(c => c.tripId === 'T2')!
+    expect(scheduled).toMatchObject({ departure: 8 * 3600 + 900, hasRealtime: false })
+    expect(live).toMatchObject({ departure: 8 * 3600 + 1200, scheduledDeparture: 8 * 3600 + 900, hasRealtime: true })
+  })
+
+  it('drops canceled trips and skipped stops with realtime', () => {
+    const live = stopTimes.map(st => {
+      if (st.trip_id === 'T3') return { ...st, realtime: { schedule_relationship: 3 } }
+      if (st.stop_id === 'B' && st.trip_id === 'T1') return { ...st, realtime: { schedule_relationship: 4 } }
+      return st
+    })
+    const connections = buildConnections(live, tripRoutes, tripTimezones, true)
+    expect(connections.map(c => `${c.tripId}:${c.fromStopId}-${c.toStopId}`)).toEqual(['T1:A-C', 'T2:B-D'])
+  })
+
+  it('follows pickup and drop off types', () => {
+    const restricted = stopTimes.map(st => st.trip_id === 'T2' ? { ...st, pickup_type: 1, drop_off_type: 1 } : st)
+    const connection = buildConnections(restricted, tripRoutes, tripTimezones, false).find(c => c.tripId === 'T2')!
+    expect(connection).toMatchObject({ canBoard: false, canAlight: false })
+  })
+})
+
+describe('buildFootpaths', () => {
+  it('links stops within walking distance', () => {
+    // About 111 m apart, and a stop several kilometres away
+    const footpaths = buildFootpaths([stop('A', 45, 5), stop('B', 45.001, 5), stop('C', 45.1, 5)], 400)
+    expect(footpaths.get('A')).toEqual([{ toStopId: 'B', distance: expect.any(Number), duration: expect.any(Number) }])
+    expect(footpaths.get('A')![0].distance).toBeGreaterThan(100)
+    expect(footpaths.get('A')![0].distance).toBeLessThan(120)
+    expect(footpaths.get('C')).toEqual([])
+  })
+})
+
+describe('planItineraries', () => {
+  const connections = buildConnections(stopTimes, tripRoutes, tripTimezones, false)
+
+  it('finds itineraries with a transfer', () => {
+    const [first] = planItineraries(connections, new Map(), { ...request, maxItineraries: 1, minTransferTime: 120 })
+    expect(first).toMatchObject({ departure: 8 * 3600, arrival: 8 * 3600 + 1500, transfers: 1 })
+    expect(first.legs.map(leg => (leg as TransitLeg).tripId)).toEqual(['T1', 'T2'])
+  })
+
+  it('waits for a later trip when the transfer is too short', () => {
+    const [first] = planItineraries(connections, new Map(), { ...request, maxItineraries: 1, minTransferTime: 600 })
+    expect(first.legs.map(leg => (leg as TransitLeg).tripId)).toEqual(['T1', 'T3'])
+    expect(first.arrival).toBe(8 * 3600 + 2400)
+  })
+
+  it('walks between nearby stops', () => {
+    const footpaths = new Map([['C', [{ toStopId: 'D', distance: 120, duration: 100 }]]])
+    const [first] = planItineraries(connections, footpaths, { ...request, maxItineraries: 1 })
+    expect(first.legs.map(leg => leg.type)).toEqual(['transit', 'walk'])
+    expect(first.arrival).toBe(8 * 3600 + 1200 + 100)
+  })
+
+  it('returns nothing when the destination cannot be reached', () => {
+    expect(planItineraries(connections, new Map(), { ...request, departureTime: '09:00' })).toEqual([])
+  })
+})
+
+describe('computeIsochrone', () => {
+  const connections: Connection[] = buildConnections(stopTimes, tripRoutes, tripTimezones, false)
+
+  it('lists the stops reached within the duration, origin first', () => {
+    const reachable = computeIsochrone(connections, new Map(), {
+      fromStopId: 'A',
+      date: '20240115',
+      departureTime: '08:00',
+      maxDuration: 1200,
+      minTransferTime: 0
+    })
+    expect(reachable.map(r => [r.stopId, r.duration, r.transfers])).toEqual([
+      ['A', 0, 0],
+      ['B', 600, 0],
+      ['C', 1200, 0]
+    ])
+  })
+})
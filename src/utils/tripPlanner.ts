@@ -0,0 +1,453 @@
+import { getDistance } from 'geolib'
+import type { Stop, StopTimeWithRealtime } from 'gtfs-sqljs'
+import { computeDelayFromTimestamp, timeToSeconds } from '../components/utils'
+
+export interface TripPlanRequest {
+  fromStopId: string
+  toStopId: string
+  date: string // YYYYMMDD
+  departureTime: string // HH:MM or HH:MM:SS
+  maxItineraries?: number
+  maxWalkDistance?: number // meters
+  minTransferTime?: number // seconds
+  useRealtime?: boolean
+}
+
+export interface TransitLeg {
+  type: 'transit'
+  tripId: string
+  routeId: string
+  headsign: string | null
+  tripShortName: string | null
+  fromStopId: string
+  toStopId: string
+  scheduledDeparture: number // seconds since midnight of the service date
+  scheduledArrival: number
+  departure: number // realtime-adjusted when available
+  arrival: number
+  hasRealtime: boolean
+  intermediateStops: number
+}
+
+export interface WalkLeg {
+  type: 'walk'
+  fromStopId: string
+  toStopId: string
+  distance: number // meters
+  duration: number // seconds
+}
+
+export type ItineraryLeg = TransitLeg | WalkLeg
+
+export interface Itinerary {
+  departure: number
+  arrival: number
+  duration: number
+  transfers: number
+  legs: ItineraryLeg[]
+}
+
+export interface Connection {
+  tripId: string
+  routeId: string
+  fromStopId: string
+  toStopId: string
+  scheduledDeparture: number
+  scheduledArrival: number
+  departure: number
+  arrival: number
+  hasRealtime: boolean
+  canBoard: boolean
+  canAlight: boolean
+}
+
+export interface Footpath {
+  toStopId: string
+  distance: number
+  duration: number
+}
+
+export const WALKING_SPEED = 1.2 // m/s
+export const DEFAULT_MAX_WALK_DISTANCE = 400
+export const DEFAULT_MIN_TRANSFER_TIME = 120
+
+type JourneyPointer =
+  | { type: 'transit', enter: Connection, exit: Connection, legs: number }
+  | { type: 'walk', fromStopId: string, footpath: Footpath }
+
+/**
+ * Resolves the realtime delay (in seconds) of a stop time, preferring explicit
+ * delays and falling back to absolute timestamps converted in the agency timezone
+ */
+export function getRealtimeDelay(
+  stopTime: StopTimeWithRealtime,
+  kind: 'arrival' | 'departure',
+  timezone: string
+): number | null {
+  const rt = stopTime.realtime
+  if (!rt) return null
+
+  const scheduled = kind === 'arrival'
+    ? stopTime.arrival_time || stopTime.departure_time
+    : stopTime.departure_time || stopTime.arrival_time
+  const delay = kind === 'arrival' ? rt.arrival_delay : rt.departure_delay
+  const time = kind === 'arrival' ? rt.arrival_time : rt.departure_time
+
+  if (delay !== undefined && delay !== null) return delay
+  if (time && scheduled) return computeDelayFromTimestamp(scheduled, time, timezone)
+  return null
+}
+
+/**
+ * Converts the stop times of a service day into elementary connections
+ * (one per pair of consecutive stops of a trip), sorted by departure.
+ */
+export function buildConnections(
+  stopTimes: StopTimeWithRealtime[],
+  tripRoutes: Map<string, string>,
+  tripTimezones: Map<string, string>, // timezone of the agency of each trip
+  useRealtime: boolean
+): Connection[] {
+  const byTrip = new Map<string, StopTimeWithRealtime[]>()
+  for (const st of stopTimes) {
+    if (!byTrip.has(st.trip_id)) byTrip.set(st.trip_id, [])
+    byTrip.get(st.trip_id)!.push(st)
+  }
+
+  const connections: Connection[] = []
+
+  for (const [tripId, tripStopTimes] of byTrip) {
+    const routeId = tripRoutes.get(tripId)
+    const timezone = tripTimezones.get(tripId)
+    if (!routeId || !timezone) continue
+
+    // Drop CANCELED trips entirely and SKIPPED stops from the sequence
+    if (useRealtime && tripStopTimes.some(st => st.realtime?.schedule_relationship === 3)) continue
+    const served = tripStopTimes
+      .filter(st => !(useRealtime && st.realtime?.schedule_relationship === 4))
+      .sort((a, b) => a.stop_sequence - b.stop_sequence)
+
+    for (let i = 0; i < served.length - 1; i++) {
+      const from = served[i]
+      const to = served[i + 1]
+      const depTime = from.departure_time || from.arrival_time
+      const arrTime = to.arrival_time || to.departure_time
+      if (!depTime || !arrTime) continue
+
+      const scheduledDeparture = timeToSeconds(depTime)
+      const scheduledArrival = timeToSeconds(arrTime)
+      const depDelay = useRealtime ? getRealtimeDelay(from, 'departure', timezone) : null
+      const arrDelay = useRealtime ? getRealtimeDelay(to, 'arrival', timezone) : null
+      const departure = scheduledDeparture + (depDelay ?? 0)
+      const arrival = Math.max(departure, scheduledArrival + (arrDelay ?? depDelay ?? 0))
+
+      connections.push({
+        tripId,
+        routeId,
+        fromStopId: from.stop_id,
+        toStopId: to.stop_id,
+        scheduledDeparture,
+        scheduledArrival,
+        departure,
+        arrival,
+        hasRealtime: depDelay !== null || arrDelay !== null,
+        // pickup_type / drop_off_type 1 means no pickup / no drop off
+        canBoard: from.pickup_type !== 1,
+        canAlight: to.drop_off_type !== 1
+      })
+    }
+  }
+
+  connections.sort((a, b) => a.departure - b.departure || a.arrival - b.arrival)
+  return connections
+}
+
+/**
+ * Builds walking transfers between stops closer than maxDistance, using a
+ * coarse lat/lon grid so large feeds do not need an all-pairs comparison
+ */
+export function buildFootpaths(stops: Stop[], maxDistance: number): Map<string, Footpath[]> {
+  const footpaths = new Map<string, Footpath[]>()
+  // Cells are wider than the walk radius, so the 3x3 neighbourhood holds every candidate
+  const cellSize = Math.max(0.001, (maxDistance / 111000) * 1.5)
+  const grid = new Map<string, Stop[]>()
+  const cellKey = (lat: number, lon: number) => `${Math.floor(lat / cellSize)}:${Math.floor(lon / cellSize)}`
+
+  const located = stops.filter(s => s.stop_lat && s.stop_lon)
+  for (const stop of located) {
+    const key = cellKey(stop.stop_lat!, stop.stop_lon!)
+    if (!grid.has(key)) grid.set(key, [])
+    grid.get(key)!.push(stop)
+  }
+
+  for (const stop of located) {
+    const row = Math.floor(stop.stop_lat! / cellSize)
+    const col = Math.floor(stop.stop_lon! / cellSize)
+    const paths: Footpath[] = []
+
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        const neighbours = grid.get(`${row + dr}:${col + dc}`)
+        if (!neighbours) continue
+        for (const other of neighbours) {
+          if (other.stop_id === stop.stop_id) continue
+          const distance = getDistance(
+            { latitude: stop.stop_lat!, longitude: stop.stop_lon! },
+            { latitude: other.stop_lat!, longitude: other.stop_lon! }
+          )
+          if (distance <= maxDistance) {
+            paths.push({ toStopId: other.stop_id, distance, duration: Math.ceil(distance / WALKING_SPEED) })
+          }
+        }
+      }
+    }
+
+    footpaths.set(stop.stop_id, paths)
+  }
+
+  return footpaths
+}
+
+/**
+ * Earliest-arrival Connection Scan from a single origin. Returns the arrival
+ * time and journey pointer at every reached stop.
+ */
+export function scanConnections(
+  connections: Connection[],
+  footpaths: Map<string, Footpath[]>,
+  originStopId: string,
+  departureSeconds: number,
+  minTransferTime: number,
+  targetStopId?: string
+): { arrivals: Map<string, number>, pointers: Map<string, JourneyPointer> } {
+  const arrivals = new Map<string, number>()
+  const pointers = new Map<string, JourneyPointer>()
+  const tripEntry = new Map<string, Connection>()
+  const tripLegs = new Map<string, number>()
+
+  const arrivalAt = (stopId: string) => arrivals.get(stopId) ?? Infinity
+
+  arrivals.set(originStopId, departureSeconds)
+  for (const fp of footpaths.get(originStopId) || []) {
+    if (departureSeconds + fp.duration < arrivalAt(fp.toStopId)) {
+      arrivals.set(fp.toStopId, departureSeconds + fp.duration)
+      pointers.set(fp.toStopId, { type: 'walk', fromStopId: originStopId, footpath: fp })
+    }
+  }
+
+  // Number of transit legs used to reach a stop, for the transfer buffer
+  const legsAt = (stopId: string): number => {
+    let pointer = pointers.get(stopId)
+    while (pointer && pointer.type === 'walk') pointer = pointers.get(pointer.fromStopId)
+    return pointer ? pointer.legs : 0
+  }
+
+  for (const c of connections) {
+    if (c.departure < departureSeconds) continue
+    if (targetStopId && arrivalAt(targetStopId) <= c.departure) break
+
+    const onTrip = tripEntry.has(c.tripId)
+    if (!onTrip) {
+      if (!c.canBoard) continue
+      const reached = arrivalAt(c.fromStopId)
+      if (reached === Infinity) continue
+      const buffer = legsAt(c.fromStopId) > 0 ? minTransferTime : 0
+      if (reached + buffer > c.departure) continue
+      tripEntry.set(c.tripId, c)
+      tripLegs.set(c.tripId, legsAt(c.fromStopId) + 1)
+    }
+
+    if (c.canAlight && c.arrival < arrivalAt(c.toStopId)) {
+      const legs = tripLegs.get(c.tripId)!
+      arrivals.set(c.toStopId, c.arrival)
+      pointers.set(c.toStopId, { type: 'transit', enter: tripEntry.get(c.tripId)!, exit: c, legs })
+
+      for (const fp of footpaths.get(c.toStopId) || []) {
+        if (c.arrival + fp.duration < arrivalAt(fp.toStopId)) {
+          arrivals.set(fp.toStopId, c.arrival + fp.duration)
+          pointers.set(fp.toStopId, { type: 'walk', fromStopId: c.toStopId, footpath: fp })
+        }
+      }
+    }
+  }
+
+  return { arrivals, pointers }
+}
+
+function reconstructItinerary(
+  pointers: Map<string, JourneyPointer>,
+  connections: Connection[],
+  originStopId: string,
+  targetStopId: string,
+  departureSeconds: number
+): Itinerary | null {
+  const legs: ItineraryLeg[] = []
+  let stopId = targetStopId
+  let guard = 0
+
+  while (stopId !== originStopId) {
+    const pointer = pointers.get(stopId)
+    if (!pointer || guard++ > 1000) return null
+
+    if (pointer.type === 'walk') {
+      legs.unshift({
+        type: 'walk',
+        fromStopId: pointer.fromStopId,
+        toStopId: stopId,
+        distance: pointer.footpath.distance,
+        duration: pointer.footpath.duration
+      })
+      stopId = pointer.fromStopId
+    } else {
+      const { enter, exit } = pointer
+      const intermediateStops = connections.filter(
+        c => c.tripId === enter.tripId && c.departure > enter.departure && c.departure < exit.departure
+      ).length
+      legs.unshift({
+        type: 'transit',
+        tripId: enter.tripId,
+        routeId: enter.routeId,
+        headsign: null,
+        tripShortName: null,
+        fromStopId: enter.fromStopId,
+        toStopId: exit.toStopId,
+        scheduledDeparture: enter.scheduledDeparture,
+        scheduledArrival: exit.scheduledArrival,
+        departure: enter.departure,
+        arrival: exit.arrival,
+        hasRealtime: enter.hasRealtime || exit.hasRealtime,
+        intermediateStops
+      })
+      stopId = enter.fromStopId
+    }
+  }
+
+  const transitLegs = legs.filter((l): l is TransitLeg => l.type === 'transit')
+  if (transitLegs.length === 0) return null
+
+  // Leave the origin as late as possible: shift leading walks right before the first vehicle
+  let departure = transitLegs[0].departure
+  for (const leg of legs) {
+    if (leg.type === 'transit') break
+    departure -= leg.duration
+  }
+
+  let arrival = transitLegs[transitLegs.length - 1].arrival
+  const lastTransitIndex = legs.lastIndexOf(transitLegs[transitLegs.length - 1])
+  legs.slice(lastTransitIndex + 1).forEach(leg => { arrival += (leg as WalkLeg).duration })
+
+  return {
+    departure: Math.max(departure, departureSeconds),
+    arrival,
+    duration: arrival - Math.max(departure, departureSeconds),
+    transfers: transitLegs.length - 1,
+    legs
+  }
+}
+
+/**
+ * Computes up to maxItineraries successive earliest-arrival itineraries,
+ * each one departing after the first vehicle of the previous one
+ */
+export function planItineraries(
+  connections: Connection[],
+  footpaths: Map<string, Footpath[]>,
+  request: TripPlanRequest
+): Itinerary[] {
+  const maxItineraries = request.maxItineraries ?? 3
+  const minTransferTime = request.minTransferTime ?? DEFAULT_MIN_TRANSFER_TIME
+  const itineraries: Itinerary[] = []
+  const seen = new Set<string>()
+  let departureSeconds = timeToSeconds(
+    request.departureTime.length === 5 ? `${request.departureTime}:00` : request.departureTime
+  )
+
+  for (let i = 0; i < maxItineraries * 3 && itineraries.length < maxItineraries; i++) {
+    const { pointers } = scanConnections(
+      connections,
+      footpaths,
+      request.fromStopId,
+      departureSeconds,
+      minTransferTime,
+      request.toStopId
+    )
+    const itinerary = reconstructItinerary(pointers, connections, request.fromStopId, request.toStopId, departureSeconds)
+    if (!itinerary) break
+
+    const firstTransit = itinerary.legs.find((l): l is TransitLeg => l.type === 'transit')!
+    const signature = itinerary.legs
+      .map(l => l.type === 'transit' ? `${l.tripId}:${l.fromStopId}:${l.toStopId}` : `walk:${l.toStopId}`)
+      .join('|')
+    if (!seen.has(signature)) {
+      seen.add(signature)
+      itineraries.push(itinerary)
+    }
+
+    departureSeconds = firstTransit.departure + 1
+  }
+
+  return itineraries
+}
+
+export interface IsochroneRequest {
+  fromStopId: string
+  date: string // YYYYMMDD
+  departureTime: string // HH:MM or HH:MM:SS
+  maxDuration?: number // seconds
+  maxWalkDistance?: number // meters
+  minTransferTime?: number // seconds
+  useRealtime?: boolean
+}
+
+export interface ReachableStop {
+  stopId: string
+  arrival: number // seconds since midnight of the service date
+  duration: number // seconds since the departure
+  transfers: number
+}
+
+// Travel time bands drawn on the isochrone map, in minutes
+export const ISOCHRONE_BANDS = [15, 30, 45, 60]
+// Colors of the travel time bands, from the shortest to the longest
+export const BAND_COLORS = ['#1a9850', '#91cf60', '#fee08b', '#fc8d59']
+export const DEFAULT_ISOCHRONE_DURATION = 3600
+
+/**
+ * Earliest arrival at every stop reachable from the origin within maxDuration,
+ * sorted by travel time. The origin itself is included with a duration of 0.
+ */
+export function computeIsochrone(
+  connections: Connection[],
+  footpaths: Map<string, Footpath[]>,
+  request: IsochroneRequest
+): ReachableStop[] {
+  const maxDuration = request.maxDuration ?? DEFAULT_ISOCHRONE_DURATION
+  const departureSeconds = timeToSeconds(
+    request.departureTime.length === 5 ? `${request.departureTime}:00` : request.departureTime
+  )
+
+  // Connections leaving after the time limit cannot reach anything in time
+  const horizon = departureSeconds + maxDuration
+  const { arrivals, pointers } = scanConnections(
+    connections.filter(c => c.departure <= horizon),
+    footpaths,
+    request.fromStopId,
+    departureSeconds,
+    request.minTransferTime ?? DEFAULT_MIN_TRANSFER_TIME
+  )
+
+  const legsAt = (stopId: string): number => {
+    let pointer = pointers.get(stopId)
+    while (pointer && pointer.type === 'walk') pointer = pointers.get(pointer.fromStopId)
+    return pointer ? pointer.legs : 0
+  }
+
+  const reachable: ReachableStop[] = []
+  arrivals.forEach((arrival, stopId) => {
+    const duration = arrival - departureSeconds
+    if (duration > maxDuration) return
+    reachable.push({ stopId, arrival, duration, transfers: Math.max(0, legsAt(stopId) - 1) })
+  })
+
+  return reachable.sort((a, b) => a.duration - b.duration)
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * Shareable view state stored in the URL hash, e.g. #tab=timetables&route=12&direction=0.
+ *
+ * The hash leaves the query string free for the kiosk mode and survives static hosting.
+ * Selections push a history entry so that back/forward navigate between them, while
+ * continuous changes (dates being typed, map moves) replace the current entry.
+ * Preferences stay in configStorage: the URL only describes what is being looked at.
+ */
+
+export type UrlStateUpdate = Record<string, string | null | undefined>
+
+export interface UrlStateOptions {
+  replace?: boolean // replace the current history entry instead of pushing a new one
+  reset?: boolean // drop every other parameter, e.g. when switching tabs
+}
+
+// Fired after writeUrlState, since pushState and replaceState do not trigger any event
+const URL_STATE_EVENT = 'urlstatechange'
+
+export function readUrlState(): URLSearchParams {
+  return new URLSearchParams(window.location.hash.replace(/^#/, ''))
+}
+
+export function writeUrlState(updates: UrlStateUpdate, options: UrlStateOptions = {}): void {
+  const params = options.reset ? new URLSearchParams() : readUrlState()
+  Object.entries(updates).forEach(([key, value]) => {
+    if (value === null || value === undefined || value === '') {
+      params.delete(key)
+    } else {
+      params.set(key, value)
+    }
+  })
+
+  const hash = params.toString()
+  const url = `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`
+  if (url === `${window.location.pathname}${window.location.search}${window.location.hash}`) return
+
+  if (options.replace) {
+    window.history.replaceState(window.history.state, '', url)
+  } else {
+    window.history.pushState(window.history.state, '', url)
+  }
+  window.dispatchEvent(new Event(URL_STATE_EVENT))
+}
+
+// Comma-separated lists, e.g. selected stop ids
+export const parseList = (value: string | null): string[] =>
+  value ? value.split(',').filter(item => item !== '') : []
+
+export const formatList = (items: Iterable<string>): string | null => {
+  const list = Array.from(items)
+  return list.length > 0 ? list.join(',') : null
+}
+
+/**
+ * Current URL state, updated on back/forward navigation, manual hash edits and writes
+ * from any component.
+ */
+export function useUrlState(): [URLSearchParams, (updates: UrlStateUpdate, options?: UrlStateOptions) => void] {
+  const [params, setParams] = useState(readUrlState)
+
+  useEffect(() => {
+    const update = () => {
+      setParams(current => {
+        const next = readUrlState()
+        return next.toString() === current.toString() ? current : next
+      })
+    }
+    window.addEventListener('popstate', update)
+    window.addEventListener('hashchange', update)
+    window.addEventListener(URL_STATE_EVENT, update)
+    return () => {
+      window.removeEventListener('popstate', update)
+      window.removeEventListener('hashchange', update)
+      window.removeEventListener(URL_STATE_EVENT, update)
+    }
+  }, [])
+
+  const update = useCallback((updates: UrlStateUpdate, options?: UrlStateOptions) => {
+    writeUrlState(updates, options)
+  }, [])
+
+  return [params, update]
+}
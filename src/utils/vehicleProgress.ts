@@ -0,0 +1,108 @@
+import type { Stop, StopTimeWithRealtime, VehiclePosition } from 'gtfs-sqljs'
+import { timeToSeconds, secondsToTime } from '../components/utils'
+import { getRealtimeDelay } from './tripPlanner'
+import { LonLat, ShapeProjection, cumulativeDistances, projectOntoShape } from './shapeProjection'
+
+export interface StopProgress {
+  stopTime: StopTimeWithRealtime
+  stop: Stop | null
+  distance: number | null // metres along the shape, null for stops without coordinates
+  scheduled: string // HH:MM
+  predicted: string | null // HH:MM, with the realtime delay
+  delay: number | null // seconds
+  passed: boolean
+}
+
+export interface TripProgress {
+  shape: LonLat[]
+  length: number // metres
+  vehicle: ShapeProjection | null
+  travelled: LonLat[] // part of the shape already covered by the vehicle
+  stops: StopProgress[] // in stop_sequence order
+  nextStopIndex: number // -1 once the last stop is passed
+  atStop: boolean // the vehicle is stopped at the next stop
+}
+
+// VehiclePosition.VehicleStopStatus.STOPPED_AT
+const STOPPED_AT = 1
+
+const formatClock = (seconds: number) => secondsToTime(((seconds % 86400) + 86400) % 86400).substring(0, 5)
+
+/**
+ * Progress of a vehicle along its trip.
+ * The GPS position is projected onto the trip shape (or onto the line through its stops when the
+ * trip has no shape). The next stop comes from current_stop_sequence when the feed provides it,
+ * otherwise from the distance along the shape.
+ */
+export function buildTripProgress(
+  vehicle: VehiclePosition,
+  stopTimes: StopTimeWithRealtime[],
+  stops: Map<string, Stop>,
+  shape: LonLat[] | null,
+  timezone: string
+): TripProgress {
+  const sorted = [...stopTimes].sort((a, b) => a.stop_sequence - b.stop_sequence)
+  const located = (stop: Stop | null | undefined): stop is Stop => !!stop && !!stop.stop_lat && !!stop.stop_lon
+
+  const line: LonLat[] = shape && shape.length > 1
+    ? shape
+    : sorted.map(st => stops.get(st.stop_id)).filter(located).map(stop => [stop.stop_lon!, stop.stop_lat!] as LonLat)
+  const distances = cumulativeDistances(line)
+
+  // Stops are projected in order, so that each search starts at the previous stop
+  let fromDistance = 0
+  const progress: StopProgress[] = sorted.map(stopTime => {
+    const stop = stops.get(stopTime.stop_id) || null
+    const projection = located(stop)
+      ? projectOntoShape(line, distances, [stop.stop_lon!, stop.stop_lat!], fromDistance)
+      : null
+    if (projection) fromDistance = projection.distance
+
+    const time = stopTime.departure_time || stopTime.arrival_time
+    const delay = getRealtimeDelay(stopTime, 'departure', timezone)
+    return {
+      stopTime,
+      stop,
+      distance: projection?.distance ?? null,
+      scheduled: time ? formatClock(timeToSeconds(time)) : '',
+      predicted: time && delay !== null ? formatClock(timeToSeconds(time) + delay) : null,
+      delay,
+      passed: false
+    }
+  })
+
+  const sequenceIndex = vehicle.current_stop_sequence !== undefined && vehicle.current_stop_sequence !== null
+    ? progress.findIndex(p => p.stopTime.stop_sequence === vehicle.current_stop_sequence)
+    : -1
+
+  // On looping shapes, a known next stop keeps the vehicle on the right part of the loop
+  const { latitude, longitude } = vehicle.position || {}
+  const previousStopDistance = sequenceIndex > 0 ? progress[sequenceIndex - 1].distance ?? 0 : 0
+  const projection = latitude && longitude
+    ? projectOntoShape(line, distances, [longitude, latitude], previousStopDistance)
+    : null
+
+  let nextStopIndex = -1
+  if (sequenceIndex !== -1) {
+    nextStopIndex = sequenceIndex
+  } else if (projection) {
+    nextStopIndex = progress.findIndex(p => p.distance !== null && p.distance > projection.distance)
+  }
+  progress.forEach((p, idx) => {
+    p.passed = nextStopIndex === -1 ? projection !== null : idx < nextStopIndex
+  })
+
+  const travelled = projection
+    ? [...line.filter((_point, idx) => distances[idx] < projection.distance), projection.point]
+    : []
+
+  return {
+    shape: line,
+    length: distances[distances.length - 1] || 0,
+    vehicle: projection,
+    travelled,
+    stops: progress,
+    nextStopIndex,
+    atStop: sequenceIndex !== -1 && vehicle.current_status === STOPPED_AT
+  }
+}